@@ -185,7 +185,17 @@ app.on('ready', async () => {
         '.jpeg': 'image/jpeg',
         '.png': 'image/png',
         '.gif': 'image/gif',
+        '.webp': 'image/webp',
+        '.svg': 'image/svg+xml',
+        '.mp3': 'audio/mpeg',
+        '.m4a': 'audio/mp4',
+        '.aac': 'audio/aac',
+        '.wav': 'audio/wav',
+        '.ogg': 'audio/ogg',
+        '.flac': 'audio/flac',
       };
+      // Lets overlay images be drawn into the recording canvas without tainting it
+      const corsHeaders = { 'Access-Control-Allow-Origin': '*' };
       const contentType = mimeTypes[ext] ?? 'application/octet-stream';
 
       if (rangeHeader) {
@@ -202,6 +212,7 @@ app.on('ready', async () => {
             'Accept-Ranges': 'bytes',
             'Content-Length': String(chunkSize),
             'Content-Type': contentType,
+            ...corsHeaders,
           },
           data: stream,
         });
@@ -214,6 +225,7 @@ app.on('ready', async () => {
         headers: {
           'Content-Length': String(stat.size),
           'Content-Type': contentType,
+          ...corsHeaders,
         },
         data: stream,
       });
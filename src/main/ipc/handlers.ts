@@ -6,9 +6,32 @@ import { getStorageService } from '../services/StorageService';
 import { getShortcutsService } from '../services/ShortcutsManager';
 import { getFFmpegService } from '../services/FFmpegService';
 import { setPreferredDisplaySourceId } from '../services/DisplayMediaService';
-import type { WebcamOverlayConfig } from '../services/FFmpegService';
-import type { Recording, RecordingSaveRequest, RecordingRegisterRequest } from '../../shared/types';
+import type { WebcamOverlayConfig, TimelineSegment, EditRenderOptions, WaveformMusicLane } from '../services/FFmpegService';
+import type {
+  Recording,
+  RecordingSaveRequest,
+  RecordingRegisterRequest,
+  RecordingFinalizeMeta,
+  TimelineProject,
+  ExportJobRequest,
+  ExportEncoder,
+  SubtitleFormat,
+  TextOverlay,
+  ImageOverlay,
+  AnnotationShape,
+  SilenceDetectionOptions,
+  AudioTrackUpload,
+  CaptureRegion,
+} from '../../shared/types';
 import { RecordingRecoveryService } from '../services/RecordingRecoveryService';
+import { ExportQueueService } from '../services/ExportQueueService';
+import { RecordingConversionService } from '../services/RecordingConversionService';
+import { TranscriptionService } from '../services/TranscriptionService';
+import { CursorTrackingService } from '../services/CursorTrackingService';
+import { AnnotationRecordingService } from '../services/AnnotationRecordingService';
+import { AudioTrackService } from '../services/AudioTrackService';
+import { AudioEnhancementService } from '../services/AudioEnhancementService';
+import { formatSubtitles } from '../../shared/utils/subtitles';
 import {
   createWebcamWindow,
   closeWebcamWindow,
@@ -23,12 +46,122 @@ import {
   closeOverlayWindow,
   setOverlayClickThrough,
   isOverlayVisible,
+  captureOverlayDisplay,
+  setOverlayCaptureExcluded,
+  getOverlayWindow,
 } from '../windows/overlayWindow';
 
 export function registerIpcHandlers(mainWindow: BrowserWindow): void {
   console.log('=== Registering IPC handlers ===');
   const storageService = getStorageService();
   const recoveryService = new RecordingRecoveryService(storageService);
+
+  // Register an existing video file (edited or exported) as a library recording
+  const registerRecordingFile = async (data: RecordingRegisterRequest): Promise<Recording> => {
+    const { path: filePath, duration, quality, name, markers } = data;
+    if (!fs.existsSync(filePath)) {
+      throw new Error('Recording file not found');
+    }
+
+    const stats = fs.statSync(filePath);
+    const createdAt = new Date().toISOString();
+    const recordingName = name ?? path.basename(filePath, path.extname(filePath));
+
+    let thumbnailPath: string | undefined;
+    try {
+      const ffmpegService = getFFmpegService();
+      const basePath = filePath.replace(/\.\w+$/, '');
+      const thumbnailOutput = `${basePath}.jpg`;
+      const safeTimestamp = duration > 1 ? 1 : undefined;
+      await ffmpegService.generateThumbnail(filePath, thumbnailOutput, safeTimestamp);
+      thumbnailPath = thumbnailOutput;
+    } catch (error) {
+      console.warn('Failed to generate thumbnail for edited recording:', error);
+    }
+
+    const recording: Recording = {
+      id: randomUUID(),
+      name: recordingName,
+      path: filePath,
+      duration,
+      fileSize: stats.size,
+      quality,
+      createdAt,
+      thumbnailPath,
+      deletedAt: null,
+      markers: markers ?? [],
+    };
+
+    storageService.addRecording(recording);
+    if (!mainWindow.isDestroyed()) {
+      mainWindow.webContents.send('recording:saved', recording);
+    }
+    return recording;
+  };
+
+  const exportQueue = new ExportQueueService(storageService, registerRecordingFile, (job) => {
+    if (!mainWindow.isDestroyed()) {
+      mainWindow.webContents.send('exportQueue:updated', job);
+      if (job.status === 'running') {
+        mainWindow.webContents.send('encoding:progress', job.progress);
+      }
+    }
+  });
+  exportQueue.resumeInterrupted();
+
+  const conversionService = new RecordingConversionService(
+    storageService,
+    (recording) => {
+      if (!mainWindow.isDestroyed()) {
+        mainWindow.webContents.send('recording:updated', recording);
+      }
+    },
+    (fromPath, toPath) => exportQueue.relinkSource(fromPath, toPath)
+  );
+  conversionService.resumeInterrupted();
+
+  const transcriptionService = new TranscriptionService(storageService, (recording) => {
+    if (!mainWindow.isDestroyed()) {
+      mainWindow.webContents.send('recording:updated', recording);
+    }
+  });
+  transcriptionService.resumeInterrupted();
+
+  // Cleanup runs first so conversion and captions work from the cleaned audio
+  const enhancementService = new AudioEnhancementService(
+    storageService,
+    (recording) => {
+      if (!mainWindow.isDestroyed()) {
+        mainWindow.webContents.send('recording:updated', recording);
+      }
+    },
+    (recording) => {
+      conversionService.handleSaved(recording);
+      transcriptionService.handleSaved(recording);
+    }
+  );
+  enhancementService.resumeInterrupted();
+
+  const cursorTrackingService = new CursorTrackingService(storageService);
+  // The overlay asks to stay out of the capture when its drawings are kept as a layer; that only holds while a
+  // layer is recorded, since window and secondary display captures get none and must show the drawings instead
+  let overlayLayerRequested = false;
+  const updateOverlayCaptureExclusion = () => {
+    setOverlayCaptureExcluded(overlayLayerRequested && annotationRecordingService.isRecording());
+  };
+  const annotationRecordingService = new AnnotationRecordingService(
+    storageService,
+    () => {
+      updateOverlayCaptureExclusion();
+      const overlayWindow = getOverlayWindow();
+      if (overlayWindow && !overlayWindow.isDestroyed()) {
+        overlayWindow.webContents.send('annotations:started');
+      }
+    },
+    updateOverlayCaptureExclusion
+  );
+  const audioTrackService = new AudioTrackService(storageService);
+
   // Window controls
   ipcMain.handle('window:minimize', () => {
     mainWindow.minimize();
@@ -185,42 +318,7 @@ export function registerIpcHandlers(mainWindow: BrowserWindow): void {
   });
 
   ipcMain.handle('storage:addRecording', async (_event, data: RecordingRegisterRequest) => {
-    const { path: filePath, duration, quality, name } = data;
-    if (!fs.existsSync(filePath)) {
-      throw new Error('Recording file not found');
-    }
-
-    const stats = fs.statSync(filePath);
-    const createdAt = new Date().toISOString();
-    const recordingName = name ?? path.basename(filePath, path.extname(filePath));
-
-    let thumbnailPath: string | undefined;
-    try {
-      const ffmpegService = getFFmpegService();
-      const basePath = filePath.replace(/\.\w+$/, '');
-      const thumbnailOutput = `${basePath}.jpg`;
-      const safeTimestamp = duration > 1 ? 1 : undefined;
-      await ffmpegService.generateThumbnail(filePath, thumbnailOutput, safeTimestamp);
-      thumbnailPath = thumbnailOutput;
-    } catch (error) {
-      console.warn('Failed to generate thumbnail for edited recording:', error);
-    }
-
-    const recording: Recording = {
-      id: randomUUID(),
-      name: recordingName,
-      path: filePath,
-      duration,
-      fileSize: stats.size,
-      quality,
-      createdAt,
-      thumbnailPath,
-      deletedAt: null,
-    };
-
-    storageService.addRecording(recording);
-    mainWindow.webContents.send('recording:saved', recording);
-    return recording;
+    return registerRecordingFile(data);
   });
 
   ipcMain.handle('storage:deleteRecording', (_event, id: string) => {
@@ -232,6 +330,9 @@ export function registerIpcHandlers(mainWindow: BrowserWindow): void {
   });
 
   ipcMain.handle('storage:purgeRecording', (_event, id: string) => {
+    enhancementService.cancel(id);
+    conversionService.cancel(id);
+    transcriptionService.cancel(id);
     storageService.purgeRecording(id);
   });
 
@@ -259,6 +360,67 @@ export function registerIpcHandlers(mainWindow: BrowserWindow): void {
     return null;
   });
 
+  ipcMain.handle(
+    'storage:selectFile',
+    async (_event, options: { title: string; filters?: { name: string; extensions: string[] }[] }) => {
+      const result = await dialog.showOpenDialog(mainWindow, {
+        properties: ['openFile'],
+        title: options.title,
+        filters: options.filters,
+      });
+
+      if (!result.canceled && result.filePaths.length > 0) {
+        return result.filePaths[0];
+      }
+      return null;
+    }
+  );
+
+  ipcMain.handle('storage:saveOverlayImage', async (_event, data: Uint8Array) => {
+    return storageService.saveOverlayImage(data);
+  });
+
+  // Editor projects
+  ipcMain.handle('project:list', () => {
+    return storageService.getProjects();
+  });
+
+  ipcMain.handle('project:get', (_event, id: string) => {
+    return storageService.getProjectById(id);
+  });
+
+  ipcMain.handle('project:save', (_event, project: TimelineProject) => {
+    return storageService.saveProject(project);
+  });
+
+  ipcMain.handle('project:delete', (_event, id: string) => {
+    storageService.deleteProject(id);
+  });
+
+  // Export queue
+  ipcMain.handle('exportQueue:add', (_event, request: ExportJobRequest) => {
+    return exportQueue.add(request);
+  });
+
+  ipcMain.handle('exportQueue:list', () => {
+    return exportQueue.getJobs();
+  });
+
+  ipcMain.handle('exportQueue:cancel', (_event, id: string) => {
+    exportQueue.cancel(id);
+  });
+
+  ipcMain.handle('exportQueue:clearFinished', () => {
+    exportQueue.clearFinished();
+  });
+
+  ipcMain.handle('exportQueue:reveal', (_event, id: string) => {
+    const job = exportQueue.getJobs().find((item) => item.id === id);
+    if (job?.outputPath) {
+      shell.showItemInFolder(job.outputPath);
+    }
+  });
+
   // Media devices - these are handled in renderer via getUserMedia
   // but we expose them through IPC for consistency
   ipcMain.handle('media:getAudioDevices', async () => {
@@ -301,9 +463,17 @@ export function registerIpcHandlers(mainWindow: BrowserWindow): void {
     recoveryService.append(id, Buffer.from(buffer));
   });
 
-  ipcMain.handle('recording:finalizeRecovery', async (_event, id: string, meta: { duration: number; quality: Recording['quality'] }) => {
-    const recording = await recoveryService.finalize(id, meta);
+  ipcMain.handle('recording:finalizeRecovery', async (_event, id: string, meta: RecordingFinalizeMeta) => {
+    const finalized = await recoveryService.finalize(id, meta);
+    const hasCursorTrack = cursorTrackingService.attach(finalized.id);
+    const hasAnnotations = annotationRecordingService.attach(finalized.id);
+    const audioTracks = audioTrackService.attach(finalized.id);
+    if (hasCursorTrack || hasAnnotations || audioTracks) {
+      storageService.updateRecording(finalized.id, { hasCursorTrack, hasAnnotations, audioTracks });
+    }
+    const recording = { ...finalized, hasCursorTrack, hasAnnotations, audioTracks };
     mainWindow.webContents.send('recording:saved', recording);
+    enhancementService.handleSaved(recording);
     return recording;
   });
 
@@ -311,8 +481,17 @@ export function registerIpcHandlers(mainWindow: BrowserWindow): void {
     recoveryService.discard(id);
   });
 
+  // Separate mic and system tracks arrive just before the recording is saved
+  ipcMain.handle('recording:stageAudioTracks', (_event, tracks: AudioTrackUpload[]) => {
+    audioTrackService.stage(tracks);
+  });
+
+  ipcMain.handle('recording:discardAudioTracks', () => {
+    audioTrackService.discard();
+  });
+
   ipcMain.handle('recording:save', async (_event, data: RecordingSaveRequest) => {
-    const { buffer, mimeType, duration, quality } = data;
+    const { buffer, mimeType, duration, quality, markers } = data;
 
     const extension = mimeType?.includes('mp4') ? 'mp4' : 'webm';
     const outputPath = storageService.generateRecordingPath(extension);
@@ -350,13 +529,109 @@ export function registerIpcHandlers(mainWindow: BrowserWindow): void {
       quality,
       createdAt,
       thumbnailPath,
+      markers: markers ?? [],
     };
+    recording.hasCursorTrack = cursorTrackingService.attach(recording.id);
+    recording.hasAnnotations = annotationRecordingService.attach(recording.id);
+    recording.audioTracks = audioTrackService.attach(recording.id);
 
     storageService.addRecording(recording);
     mainWindow.webContents.send('recording:saved', recording);
+    enhancementService.handleSaved(recording);
     return recording;
   });
 
+  // Cursor tracking runs alongside the renderer's MediaRecorder and is attached when the recording is saved
+  ipcMain.handle('cursor:start', (_event, displayId: number | null, region: CaptureRegion | null) => {
+    cursorTrackingService.start(displayId, region);
+  });
+
+  ipcMain.handle('cursor:pause', () => {
+    cursorTrackingService.pause();
+  });
+
+  ipcMain.handle('cursor:resume', () => {
+    cursorTrackingService.resume();
+  });
+
+  ipcMain.handle('cursor:discard', () => {
+    cursorTrackingService.discard();
+  });
+
+  ipcMain.handle('cursor:getTrack', (_event, recordingId: string) => {
+    return storageService.getCursorTrack(recordingId);
+  });
+
+  // Overlay drawings are timed against the same recording when they are kept out of the capture
+  ipcMain.handle('annotations:start', (_event, displayId: number | null, region: CaptureRegion | null) => {
+    annotationRecordingService.start(displayId, region);
+  });
+
+  ipcMain.handle('annotations:pause', () => {
+    annotationRecordingService.pause();
+  });
+
+  ipcMain.handle('annotations:resume', () => {
+    annotationRecordingService.resume();
+  });
+
+  ipcMain.handle('annotations:discard', () => {
+    annotationRecordingService.discard();
+  });
+
+  ipcMain.handle('annotations:add', (_event, shape: AnnotationShape) => {
+    annotationRecordingService.add(shape);
+  });
+
+  ipcMain.handle('annotations:remove', (_event, ids: string[]) => {
+    annotationRecordingService.remove(ids);
+  });
+
+  ipcMain.handle('annotations:getLayer', (_event, recordingId: string) => {
+    return storageService.getAnnotationLayer(recordingId);
+  });
+
+  ipcMain.handle('recording:convertToMp4', (_event, id: string) => {
+    conversionService.enqueue(id);
+  });
+
+  ipcMain.handle('recording:transcribe', (_event, id: string) => {
+    transcriptionService.enqueue(id);
+  });
+
+  ipcMain.handle('recording:enhanceAudio', (_event, id: string) => {
+    enhancementService.enqueue(id);
+  });
+
+  // Transcripts
+  ipcMain.handle('transcript:get', (_event, recordingId: string) => {
+    return storageService.getTranscript(recordingId);
+  });
+
+  ipcMain.handle('transcript:search', (_event, query: string) => {
+    return storageService.searchTranscripts(query);
+  });
+
+  ipcMain.handle('transcript:export', async (_event, recordingId: string, format: SubtitleFormat) => {
+    const recording = storageService.getRecordingById(recordingId);
+    const transcript = storageService.getTranscript(recordingId);
+    if (!recording || !transcript) {
+      throw new Error('Transcript not found');
+    }
+
+    const result = await dialog.showSaveDialog(mainWindow, {
+      title: 'Export Captions',
+      defaultPath: recording.path.replace(/\.\w+$/, `.${format}`),
+      filters: [{ name: format === 'srt' ? 'SubRip Subtitles' : 'WebVTT Subtitles', extensions: [format] }],
+    });
+    if (result.canceled || !result.filePath) {
+      return null;
+    }
+
+    fs.writeFileSync(result.filePath, formatSubtitles(transcript.segments, format));
+    return result.filePath;
+  });
+
   // Webcam window controls
   ipcMain.handle('webcam:open', (_event, config?) => {
     console.log('webcam:open handler called with config:', config);
@@ -412,6 +687,20 @@ export function registerIpcHandlers(mainWindow: BrowserWindow): void {
     return isOverlayVisible();
   });
 
+  ipcMain.handle('overlay:setCaptureExcluded', (_event, excluded: boolean) => {
+    overlayLayerRequested = excluded;
+    updateOverlayCaptureExclusion();
+  });
+
+  ipcMain.handle('overlay:captureScreen', async () => {
+    try {
+      return await captureOverlayDisplay();
+    } catch (error) {
+      console.error('Failed to capture screen for overlay:', error);
+      return null;
+    }
+  });
+
   // FFmpeg video processing
   const ffmpegService = getFFmpegService();
 
@@ -441,57 +730,30 @@ export function registerIpcHandlers(mainWindow: BrowserWindow): void {
     });
   });
 
-  ipcMain.handle(
-    'ffmpeg:addTextOverlay',
-    async (
-      _event,
-      videoPath: string,
-      outputPath: string,
-      text: string,
-      x: number,
-      y: number,
-      fontSize: number,
-      color: string,
-      startTime: number,
-      duration: number,
-      bold?: boolean,
-      italic?: boolean,
-      fontFamily?: string,
-      align?: 'left' | 'center' | 'right',
-      animate?: boolean,
-      endX?: number,
-      endY?: number
-    ) => {
-      return ffmpegService.addTextOverlay(
-        videoPath,
-        outputPath,
-        text,
-        x,
-        y,
-        fontSize,
-        color,
-        startTime,
-        duration,
-        bold,
-        italic,
-        fontFamily,
-        align,
-        animate,
-        endX,
-        endY,
-        (progress) => {
-          mainWindow.webContents.send('ffmpeg:progress', progress);
-        }
-      );
-    }
-  );
+  ipcMain.handle('ffmpeg:addTextOverlay', async (_event, videoPath: string, outputPath: string, overlay: TextOverlay) => {
+    return ffmpegService.addTextOverlay(videoPath, outputPath, overlay, (progress) => {
+      mainWindow.webContents.send('ffmpeg:progress', progress);
+    });
+  });
 
-  ipcMain.handle('ffmpeg:renderTimeline', async (_event, videoPath: string, outputPath: string, segments: { start: number; end: number }[]) => {
+  ipcMain.handle('ffmpeg:addImageOverlay', async (_event, videoPath: string, outputPath: string, overlay: ImageOverlay) => {
+    return ffmpegService.addImageOverlay(videoPath, outputPath, overlay, (progress) => {
+      mainWindow.webContents.send('ffmpeg:progress', progress);
+    });
+  });
+
+  ipcMain.handle('ffmpeg:renderTimeline', async (_event, videoPath: string, outputPath: string, segments: TimelineSegment[]) => {
     return ffmpegService.renderTimeline(videoPath, outputPath, segments, (progress) => {
       mainWindow.webContents.send('ffmpeg:progress', progress);
     });
   });
 
+  ipcMain.handle('ffmpeg:renderEdit', async (_event, options: EditRenderOptions, outputPath: string) => {
+    return ffmpegService.renderEdit(options, outputPath, (progress) => {
+      mainWindow.webContents.send('encoding:progress', progress);
+    });
+  });
+
   ipcMain.handle('ffmpeg:generateProxy', async (_event, videoPath: string, outputPath: string, width?: number) => {
     return ffmpegService.generateProxy(videoPath, outputPath, width, (progress) => {
       mainWindow.webContents.send('ffmpeg:progress', progress);
@@ -513,15 +775,26 @@ export function registerIpcHandlers(mainWindow: BrowserWindow): void {
     _event,
     videoPath: string,
     outputPath: string,
-    options: { width: number; height: number; bitrate: string; encoder?: 'auto' | 'cpu' | 'nvenc' | 'qsv' | 'amf'; optimizeForSize?: boolean }
+    options: { width: number; height: number; bitrate: string; encoder?: ExportEncoder; optimizeForSize?: boolean }
   ) => {
     return ffmpegService.transcodePreset(videoPath, outputPath, options, (progress) => {
       mainWindow.webContents.send('ffmpeg:progress', progress);
     });
   });
 
-  ipcMain.handle('ffmpeg:generateWaveform', async (_event, videoPath: string, outputPath: string, width?: number, height?: number) => {
-    return ffmpegService.generateWaveformImage(videoPath, outputPath, width, height);
+  ipcMain.handle(
+    'ffmpeg:generateWaveform',
+    async (_event, videoPath: string, outputPath: string, width?: number, height?: number, music?: WaveformMusicLane) => {
+      return ffmpegService.generateWaveformImage(videoPath, outputPath, width, height, music);
+    }
+  );
+
+  ipcMain.handle('ffmpeg:getEncoders', async () => {
+    return ffmpegService.probeEncoders();
+  });
+
+  ipcMain.handle('ffmpeg:detectSilences', async (_event, sourcePath: string, options: SilenceDetectionOptions) => {
+    return ffmpegService.detectSilences(sourcePath, options);
   });
 
   ipcMain.handle('ffmpeg:getMetadata', async (_event, videoPath: string) => {
@@ -0,0 +1,135 @@
+import { screen } from 'electron';
+import type { Rectangle } from 'electron';
+import type { StorageService } from './StorageService';
+import type { Annotation, AnnotationLayer, AnnotationShape, CaptureRegion } from '../../shared/types';
+
+interface ActiveRecording {
+  bounds: Rectangle;
+  region: CaptureRegion | null;
+  startedAt: number;
+  pausedAt: number | null;
+  pausedDuration: number;
+  annotations: Annotation[];
+}
+
+export class AnnotationRecordingService {
+  private storageService: StorageService;
+  private onStart: () => void;
+  private onStop: () => void;
+  private active: ActiveRecording | null;
+
+  constructor(storageService: StorageService, onStart: () => void, onStop: () => void) {
+    this.storageService = storageService;
+    this.onStart = onStart;
+    this.onStop = onStop;
+    this.active = null;
+  }
+
+  /**
+   * Start timing overlay drawings; the overlay only covers the primary display, so other captures get no layer.
+   * Area recordings store drawings relative to the captured region, like their cursor track.
+   */
+  start(displayId: number | null, region: CaptureRegion | null = null): void {
+    this.discard();
+    // The overlay cannot be kept out of Linux captures, so its drawings are already in the video there
+    if (process.platform === 'linux') return;
+    const primaryDisplay = screen.getPrimaryDisplay();
+    if (displayId !== null && displayId !== primaryDisplay.id) return;
+
+    const { bounds } = primaryDisplay;
+    this.active = {
+      bounds: region
+        ? {
+            x: bounds.x + region.x * bounds.width,
+            y: bounds.y + region.y * bounds.height,
+            width: Math.round(region.width * bounds.width),
+            height: Math.round(region.height * bounds.height),
+          }
+        : bounds,
+      region,
+      startedAt: Date.now(),
+      pausedAt: null,
+      pausedDuration: 0,
+      annotations: [],
+    };
+    // Drawings already on screen are sent again so they start with the recording
+    this.onStart();
+  }
+
+  pause(): void {
+    if (this.active && this.active.pausedAt === null) {
+      this.active.pausedAt = Date.now();
+    }
+  }
+
+  resume(): void {
+    if (this.active && this.active.pausedAt !== null) {
+      this.active.pausedDuration += Date.now() - this.active.pausedAt;
+      this.active.pausedAt = null;
+    }
+  }
+
+  // Whether drawings are being kept as a layer, so the overlay can stay out of the capture
+  isRecording(): boolean {
+    return this.active !== null;
+  }
+
+  discard(): void {
+    if (!this.active) return;
+    this.active = null;
+    this.onStop();
+  }
+
+  add(shape: AnnotationShape): void {
+    const active = this.active;
+    if (!active || active.annotations.some((annotation) => annotation.id === shape.id)) return;
+    const { region } = active;
+    // Points outside the area fall outside 0-1 and are cut off where the layer is drawn
+    const points = region
+      ? shape.points.map((point) => ({ x: (point.x - region.x) / region.width, y: (point.y - region.y) / region.height }))
+      : shape.points;
+    active.annotations.push({ ...shape, points, start: this.elapsed(active), end: null });
+  }
+
+  remove(ids: string[]): void {
+    const active = this.active;
+    if (!active) return;
+    const time = this.elapsed(active);
+    active.annotations.forEach((annotation) => {
+      if (ids.includes(annotation.id) && annotation.end === null) {
+        annotation.end = time;
+      }
+    });
+  }
+
+  /**
+   * Stop recording drawings and save them as the sidecar of a saved recording
+   */
+  attach(recordingId: string): boolean {
+    const active = this.active;
+    this.discard();
+    // Drawings undone within the same instant never showed up in the video
+    const annotations = active?.annotations.filter((annotation) => annotation.end === null || annotation.end > annotation.start);
+    if (!active || !annotations?.length) return false;
+
+    const layer: AnnotationLayer = {
+      recordingId,
+      width: active.bounds.width,
+      height: active.bounds.height,
+      annotations,
+    };
+    try {
+      this.storageService.saveAnnotationLayer(layer);
+      return true;
+    } catch (error) {
+      console.error('Failed to save annotation layer:', error);
+      return false;
+    }
+  }
+
+  // Seconds of recorded media so far; a drawing made while paused appears when recording resumes
+  private elapsed(active: ActiveRecording): number {
+    const pausedFor = active.pausedDuration + (active.pausedAt !== null ? Date.now() - active.pausedAt : 0);
+    return Math.round(Math.max(0, (Date.now() - active.startedAt - pausedFor) / 1000) * 1000) / 1000;
+  }
+}
@@ -0,0 +1,186 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { getFFmpegService } from './FFmpegService';
+import type { AudioEnhancementOptions } from './FFmpegService';
+import type { StorageService } from './StorageService';
+import { QUALITY_PRESETS } from '../../shared/constants/quality';
+import { AUDIO_ENHANCEMENT_PRESETS } from '../../shared/utils/audio';
+import type { Recording, RecordingEnhancement } from '../../shared/types';
+
+// Muxer and an audio codec it accepts for each container a recording can be saved in
+const CONTAINER_AUDIO: Record<string, { format: string; audioCodec: string }> = {
+  '.webm': { format: 'webm', audioCodec: 'libopus' },
+  '.mkv': { format: 'matroska', audioCodec: 'libopus' },
+  '.mp4': { format: 'mp4', audioCodec: 'aac' },
+  '.mov': { format: 'mov', audioCodec: 'aac' },
+};
+
+export class AudioEnhancementService {
+  private storageService: StorageService;
+  private notify: (recording: Recording) => void;
+  private onFinished: (recording: Recording) => void;
+  private queue: string[];
+  // Recordings whose conversion and captions wait for the cleanup; a manual retry has none
+  private pendingFinish: Set<string>;
+  private active: { id: string; controller: AbortController } | null;
+
+  /**
+   * @param onFinished Runs once a queued recording is done, cleaned or not, so later steps see the final file
+   */
+  constructor(
+    storageService: StorageService,
+    notify: (recording: Recording) => void,
+    onFinished: (recording: Recording) => void
+  ) {
+    this.storageService = storageService;
+    this.notify = notify;
+    this.onFinished = onFinished;
+    this.queue = [];
+    this.pendingFinish = new Set();
+    this.active = null;
+  }
+
+  /**
+   * Queue a freshly saved recording when automatic cleanup is enabled; otherwise it is finished right away
+   */
+  handleSaved(recording: Recording): void {
+    if (!this.storageService.getSettings().audioCleanup?.autoEnhance) {
+      this.onFinished(recording);
+      return;
+    }
+    this.pendingFinish.add(recording.id);
+    this.enqueue(recording.id);
+  }
+
+  enqueue(id: string): void {
+    const recording = this.storageService.getRecordingById(id);
+    if (!recording || recording.deletedAt) return;
+    if (this.queue.includes(id) || this.active?.id === id) return;
+
+    this.queue.push(id);
+    this.setEnhancement(id, { status: 'queued', progress: 0 });
+    this.processQueue();
+  }
+
+  cancel(id: string): void {
+    this.queue = this.queue.filter((queuedId) => queuedId !== id);
+    if (this.active?.id === id) {
+      this.active.controller.abort();
+    }
+  }
+
+  /**
+   * Re-queue cleanups that were interrupted by an app restart
+   */
+  resumeInterrupted(): void {
+    this.storageService
+      .getRecordings()
+      .filter((recording) => recording.enhancement && recording.enhancement.status !== 'failed')
+      .forEach((recording) => {
+        this.pendingFinish.add(recording.id);
+        this.enqueue(recording.id);
+      });
+  }
+
+  private setEnhancement(id: string, enhancement: RecordingEnhancement | null, persist = true): void {
+    if (persist) {
+      this.storageService.updateRecording(id, { enhancement });
+    }
+    const recording = this.storageService.getRecordingById(id);
+    if (recording) {
+      this.notify({ ...recording, enhancement });
+    }
+  }
+
+  private processQueue(): void {
+    if (this.active) return;
+    const id = this.queue.shift();
+    if (!id) return;
+
+    const controller = new AbortController();
+    this.active = { id, controller };
+    this.enhance(id, controller.signal)
+      .catch((error) => {
+        console.error('Audio cleanup failed unexpectedly:', error);
+      })
+      .finally(() => {
+        this.active = null;
+        // Conversion and captions go ahead even if cleanup failed; they just use the original audio
+        const recording = this.storageService.getRecordingById(id);
+        if (recording && !controller.signal.aborted && this.pendingFinish.has(id)) {
+          this.onFinished(recording);
+        }
+        this.pendingFinish.delete(id);
+        this.processQueue();
+      });
+  }
+
+  private async enhance(id: string, signal: AbortSignal): Promise<void> {
+    const recording = this.storageService.getRecordingById(id);
+    const container = recording && CONTAINER_AUDIO[path.extname(recording.path).toLowerCase()];
+    if (!recording || !container || !fs.existsSync(recording.path) || !(await this.hasAudio(recording.path))) {
+      this.setEnhancement(id, null);
+      return;
+    }
+
+    const cleanup = this.storageService.getSettings().audioCleanup;
+    const preset = QUALITY_PRESETS[recording.quality] ?? QUALITY_PRESETS['1080p'];
+    // Keep the partial file out of the library scan until it is complete
+    const partPath = `${recording.path}.part`;
+    const options: AudioEnhancementOptions = {
+      enhancement: AUDIO_ENHANCEMENT_PRESETS[cleanup?.preset ?? 'voice'],
+      rnnoiseModelPath: cleanup?.rnnoiseModelPath,
+      duration: recording.duration,
+      format: container.format,
+      audioCodec: container.audioCodec,
+      audioBitrate: preset.audioBitrate,
+    };
+    const onProgress = (progress: number) => this.setEnhancement(id, { status: 'enhancing', progress }, false);
+
+    this.setEnhancement(id, { status: 'enhancing', progress: 0 });
+    try {
+      await getFFmpegService().enhanceAudio(recording.path, partPath, options, onProgress, signal);
+
+      if (signal.aborted) {
+        throw new Error('Audio cleanup cancelled');
+      }
+
+      // The recording may have been purged while ffmpeg was running
+      if (!this.storageService.getRecordingById(id)) {
+        fs.rmSync(partPath, { force: true });
+        return;
+      }
+
+      fs.renameSync(partPath, recording.path);
+      this.storageService.updateRecording(id, {
+        fileSize: fs.statSync(recording.path).size,
+        enhancement: null,
+      });
+      this.setEnhancement(id, null, false);
+    } catch (error) {
+      fs.rmSync(partPath, { force: true });
+      if (signal.aborted) {
+        if (this.storageService.getRecordingById(id)) {
+          this.setEnhancement(id, null);
+        }
+        return;
+      }
+      console.error('Audio cleanup failed:', error);
+      this.setEnhancement(id, {
+        status: 'failed',
+        progress: 0,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  private async hasAudio(videoPath: string): Promise<boolean> {
+    try {
+      const metadata = await getFFmpegService().getMetadata(videoPath);
+      return metadata.streams.some((stream) => stream.codec_type === 'audio');
+    } catch (error) {
+      console.warn('Failed to probe recording audio, skipping cleanup:', error);
+      return false;
+    }
+  }
+}
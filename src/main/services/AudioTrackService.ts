@@ -0,0 +1,43 @@
+import type { StorageService } from './StorageService';
+import type { AudioTrackUpload, RecordingAudioTrack } from '../../shared/types';
+
+export class AudioTrackService {
+  private storageService: StorageService;
+  private staged: AudioTrackUpload[];
+
+  constructor(storageService: StorageService) {
+    this.storageService = storageService;
+    this.staged = [];
+  }
+
+  /**
+   * Hold the separate tracks of the recording being saved until it has an id
+   */
+  stage(tracks: AudioTrackUpload[]): void {
+    this.staged = tracks.filter((track) => track.buffer.byteLength > 0);
+  }
+
+  discard(): void {
+    this.staged = [];
+  }
+
+  /**
+   * Save the staged tracks as sidecars of a saved recording
+   */
+  attach(recordingId: string): RecordingAudioTrack[] | undefined {
+    const staged = this.staged;
+    this.discard();
+    if (staged.length === 0) return undefined;
+
+    const tracks: RecordingAudioTrack[] = [];
+    staged.forEach((track) => {
+      try {
+        const trackPath = this.storageService.saveAudioTrack(recordingId, track.kind, Buffer.from(track.buffer));
+        tracks.push({ kind: track.kind, path: trackPath, offset: track.offset });
+      } catch (error) {
+        console.error(`Failed to save ${track.kind} audio track:`, error);
+      }
+    });
+    return tracks.length > 0 ? tracks : undefined;
+  }
+}
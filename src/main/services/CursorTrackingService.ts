@@ -0,0 +1,192 @@
+import { screen } from 'electron';
+import type { Rectangle } from 'electron';
+import type { StorageService } from './StorageService';
+import { isCursorOnScreen } from '../../shared/utils/cursor';
+import type { CaptureRegion, CursorButton, CursorClick, CursorSample, CursorTrack } from '../../shared/types';
+
+// 30 Hz keeps the halo smooth at common export frame rates without bloating the sidecar
+const SAMPLE_INTERVAL_MS = 33;
+
+// The subset of uiohook-napi's global input hook used here
+interface InputHook {
+  on(event: 'mousedown', listener: (event: { button: unknown }) => void): void;
+  off(event: 'mousedown', listener: (event: { button: unknown }) => void): void;
+  start(): void;
+  stop(): void;
+}
+
+const HOOK_BUTTONS: Record<number, CursorButton> = { 1: 'left', 2: 'right', 3: 'middle' };
+
+let inputHook: InputHook | null | undefined;
+
+// Clicks outside our own windows need a native hook. It is an optional dependency, so without it
+// tracks only carry positions and are marked as such.
+const loadInputHook = (): InputHook | null => {
+  if (inputHook !== undefined) return inputHook;
+  try {
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    inputHook = (require('uiohook-napi') as { uIOhook: InputHook }).uIOhook;
+  } catch (error) {
+    console.warn('Global click hook unavailable, cursor tracks will not include clicks:', error);
+    inputHook = null;
+  }
+  return inputHook;
+};
+
+const roundPosition = (value: number) => Math.round(value * 10000) / 10000;
+
+interface ActiveTracking {
+  displayId: number;
+  bounds: Rectangle;
+  startedAt: number;
+  pausedAt: number | null;
+  pausedDuration: number;
+  samples: CursorSample[];
+  clicks: CursorClick[];
+  timer: NodeJS.Timeout;
+  hook: InputHook | null;
+}
+
+export class CursorTrackingService {
+  private storageService: StorageService;
+  private active: ActiveTracking | null;
+
+  constructor(storageService: StorageService) {
+    this.storageService = storageService;
+    this.active = null;
+  }
+
+  /**
+   * Start sampling the cursor against the captured display (the primary one if unknown), or the area of it
+   * that an area recording crops to. Positions outside the area fall outside 0-1 and count as off-screen.
+   */
+  start(displayId: number | null, region: CaptureRegion | null = null): void {
+    this.discard();
+    const display = screen.getAllDisplays().find((item) => item.id === displayId) ?? screen.getPrimaryDisplay();
+    const bounds = region
+      ? {
+          x: display.bounds.x + region.x * display.bounds.width,
+          y: display.bounds.y + region.y * display.bounds.height,
+          width: region.width * display.bounds.width,
+          height: region.height * display.bounds.height,
+        }
+      : display.bounds;
+
+    let hook = loadInputHook();
+    if (hook) {
+      try {
+        hook.on('mousedown', this.handleMouseDown);
+        hook.start();
+      } catch (error) {
+        console.warn('Failed to start click hook:', error);
+        hook.off('mousedown', this.handleMouseDown);
+        hook = null;
+      }
+    }
+
+    this.active = {
+      displayId: display.id,
+      bounds,
+      startedAt: Date.now(),
+      pausedAt: null,
+      pausedDuration: 0,
+      samples: [],
+      clicks: [],
+      timer: setInterval(() => this.sample(), SAMPLE_INTERVAL_MS),
+      hook,
+    };
+    this.sample();
+  }
+
+  pause(): void {
+    if (this.active && this.active.pausedAt === null) {
+      this.active.pausedAt = Date.now();
+    }
+  }
+
+  resume(): void {
+    if (this.active && this.active.pausedAt !== null) {
+      this.active.pausedDuration += Date.now() - this.active.pausedAt;
+      this.active.pausedAt = null;
+    }
+  }
+
+  discard(): void {
+    if (!this.active) return;
+    clearInterval(this.active.timer);
+    if (this.active.hook) {
+      this.active.hook.off('mousedown', this.handleMouseDown);
+      try {
+        this.active.hook.stop();
+      } catch (error) {
+        console.warn('Failed to stop click hook:', error);
+      }
+    }
+    this.active = null;
+  }
+
+  /**
+   * Stop tracking and save the track as the sidecar of a saved recording
+   */
+  attach(recordingId: string): boolean {
+    const active = this.active;
+    this.discard();
+    if (!active || active.samples.length === 0) return false;
+
+    const track: CursorTrack = {
+      recordingId,
+      displayId: active.displayId,
+      width: Math.round(active.bounds.width),
+      height: Math.round(active.bounds.height),
+      samples: active.samples,
+      clicks: active.clicks,
+      clicksTracked: active.hook !== null,
+    };
+    try {
+      this.storageService.saveCursorTrack(track);
+      return true;
+    } catch (error) {
+      console.error('Failed to save cursor track:', error);
+      return false;
+    }
+  }
+
+  // Seconds of recorded media so far; pauses are not part of it
+  private elapsed(active: ActiveTracking): number {
+    return Math.max(0, (Date.now() - active.startedAt - active.pausedDuration) / 1000);
+  }
+
+  private position(active: ActiveTracking): { x: number; y: number } {
+    const point = screen.getCursorScreenPoint();
+    const { bounds } = active;
+    return {
+      x: roundPosition((point.x - bounds.x) / bounds.width),
+      y: roundPosition((point.y - bounds.y) / bounds.height),
+    };
+  }
+
+  private sample(): void {
+    const active = this.active;
+    if (!active || active.pausedAt !== null) return;
+
+    const { x, y } = this.position(active);
+    const last = active.samples[active.samples.length - 1];
+    if (last && last.x === x && last.y === y) return;
+    active.samples.push({ time: Math.round(this.elapsed(active) * 1000) / 1000, x, y });
+  }
+
+  // The hook reports physical pixels on some platforms, so read the position from Electron instead
+  private handleMouseDown = (event: { button: unknown }) => {
+    const active = this.active;
+    if (!active || active.pausedAt !== null) return;
+
+    const { x, y } = this.position(active);
+    if (!isCursorOnScreen({ time: 0, x, y })) return;
+    active.clicks.push({
+      time: Math.round(this.elapsed(active) * 1000) / 1000,
+      x,
+      y,
+      button: HOOK_BUTTONS[Number(event.button)] ?? 'left',
+    });
+  };
+}
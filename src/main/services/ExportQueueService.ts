@@ -0,0 +1,611 @@
+import { app } from 'electron';
+import fs from 'node:fs';
+import path from 'node:path';
+import { randomUUID } from 'node:crypto';
+import { getFFmpegService } from './FFmpegService';
+import type {
+  AnnotationRenderSegment,
+  AudioTrackRenderOptions,
+  CursorRenderOptions,
+  FormatExportOptions,
+  RedactionRenderSegment,
+  ZoomRenderSegment,
+} from './FFmpegService';
+import type { StorageService } from './StorageService';
+import { getCursorPosition, isCursorOnScreen } from '../../shared/utils/cursor';
+import type { ZoomRange } from '../../shared/utils/cursor';
+import { getZoomPath } from '../../shared/utils/zoom';
+import { AUDIO_ENHANCEMENT_PRESETS, DEFAULT_AUDIO_LEVEL, isAudioLevelChanged } from '../../shared/utils/audio';
+import { relinkEditSource } from '../../shared/utils/clips';
+import { EXPORT_FORMATS } from '../../shared/constants/export';
+import type {
+  CursorClick,
+  CursorSample,
+  CursorTrack,
+  ExportFormat,
+  ExportJob,
+  ExportJobRequest,
+  Recording,
+  RecordingMarker,
+  RecordingRegisterRequest,
+  SubtitleCue,
+} from '../../shared/types';
+
+const MAX_CONCURRENT_JOBS = 1;
+const MAX_FINISHED_JOBS = 50;
+
+// Formats the edit render writes directly; the others are converted from a rendered MP4
+const RENDER_CODECS: Partial<Record<ExportFormat, 'h264' | 'h265'>> = {
+  mp4: 'h264',
+  'mp4-h265': 'h265',
+};
+
+// rename() fails across volumes (temp dir vs. recordings folder), so fall back to copy
+const moveFile = (from: string, to: string) => {
+  try {
+    fs.renameSync(from, to);
+  } catch {
+    fs.copyFileSync(from, to);
+    fs.unlinkSync(from);
+  }
+};
+
+export class ExportQueueService {
+  private storageService: StorageService;
+  private registerRecording: (data: RecordingRegisterRequest) => Promise<Recording>;
+  private notify: (job: ExportJob) => void;
+  private filePath: string;
+  private jobs: ExportJob[];
+  private running: Map<string, AbortController>;
+
+  constructor(
+    storageService: StorageService,
+    registerRecording: (data: RecordingRegisterRequest) => Promise<Recording>,
+    notify: (job: ExportJob) => void
+  ) {
+    this.storageService = storageService;
+    this.registerRecording = registerRecording;
+    this.notify = notify;
+    this.filePath = path.join(app.getPath('userData'), 'choome-export-queue.json');
+    this.running = new Map();
+    this.jobs = this.load();
+  }
+
+  private load(): ExportJob[] {
+    try {
+      if (fs.existsSync(this.filePath)) {
+        const content = fs.readFileSync(this.filePath, 'utf-8');
+        const parsed = JSON.parse(content) as ExportJob[];
+        return Array.isArray(parsed) ? parsed : [];
+      }
+    } catch (error) {
+      console.error('Failed to load export queue:', error);
+    }
+    return [];
+  }
+
+  private save(): void {
+    try {
+      fs.writeFileSync(this.filePath, JSON.stringify(this.jobs, null, 2));
+    } catch (error) {
+      console.error('Failed to save export queue:', error);
+    }
+  }
+
+  private update(id: string, updates: Partial<ExportJob>, persist = true): void {
+    const job = this.jobs.find((item) => item.id === id);
+    if (!job) return;
+    Object.assign(job, updates);
+    if (persist) {
+      this.save();
+    }
+    this.notify({ ...job });
+  }
+
+  getJobs(): ExportJob[] {
+    return this.jobs.map((job) => ({ ...job }));
+  }
+
+  add(request: ExportJobRequest): ExportJob {
+    const job: ExportJob = {
+      id: randomUUID(),
+      request,
+      status: 'queued',
+      stage: 'Queued',
+      progress: 0,
+      createdAt: new Date().toISOString(),
+    };
+    this.jobs.push(job);
+    this.save();
+    this.notify({ ...job });
+    this.processQueue();
+    return { ...job };
+  }
+
+  cancel(id: string): void {
+    const job = this.jobs.find((item) => item.id === id);
+    if (!job) return;
+
+    if (job.status === 'queued') {
+      this.update(id, { status: 'cancelled', stage: 'Cancelled', finishedAt: new Date().toISOString() });
+      return;
+    }
+
+    // Running jobs are marked cancelled once ffmpeg exits
+    this.running.get(id)?.abort();
+  }
+
+  clearFinished(): void {
+    this.jobs = this.jobs.filter((job) => job.status === 'queued' || job.status === 'running');
+    this.save();
+  }
+
+  /**
+   * Point unfinished jobs at a source file that moved, e.g. a WebM replaced by its MP4 conversion
+   */
+  relinkSource(fromPath: string, toPath: string): void {
+    let changed = false;
+    this.jobs
+      .filter((job) => job.status === 'queued' || job.status === 'running')
+      .forEach((job) => {
+        const { request } = job;
+        const usesSource =
+          request.sourcePath === fromPath || request.clips.some((clip) => clip.sourcePath === fromPath);
+        if (!usesSource) return;
+
+        job.request = {
+          ...relinkEditSource(request, fromPath, toPath),
+          sourcePath: request.sourcePath === fromPath ? toPath : request.sourcePath,
+        };
+        changed = true;
+      });
+    if (changed) {
+      this.save();
+    }
+  }
+
+  /**
+   * Re-queue jobs that were interrupted by an app restart
+   */
+  resumeInterrupted(): void {
+    let changed = false;
+    this.jobs.forEach((job) => {
+      if (job.status === 'running' || job.status === 'queued') {
+        job.status = 'queued';
+        job.stage = 'Queued';
+        job.progress = 0;
+        changed = true;
+      }
+    });
+    if (changed) {
+      this.save();
+    }
+    this.processQueue();
+  }
+
+  private processQueue(): void {
+    while (this.running.size < MAX_CONCURRENT_JOBS) {
+      const next = this.jobs.find((job) => job.status === 'queued');
+      if (!next) return;
+      const controller = new AbortController();
+      this.running.set(next.id, controller);
+      this.update(next.id, { status: 'running', stage: 'Preparing', progress: 0, startedAt: new Date().toISOString() });
+      this.runJob(next, controller.signal)
+        .catch((error) => {
+          console.error('Export job failed unexpectedly:', error);
+        })
+        .finally(() => {
+          this.running.delete(next.id);
+          this.pruneFinished();
+          this.processQueue();
+        });
+    }
+  }
+
+  private pruneFinished(): void {
+    const finished = this.jobs.filter((job) => job.status !== 'queued' && job.status !== 'running');
+    if (finished.length <= MAX_FINISHED_JOBS) return;
+    const stale = new Set(finished.slice(0, finished.length - MAX_FINISHED_JOBS).map((job) => job.id));
+    this.jobs = this.jobs.filter((job) => !stale.has(job.id));
+    this.save();
+  }
+
+  private async runJob(job: ExportJob, signal: AbortSignal): Promise<void> {
+    const workDir = path.join(this.storageService.getTempPath(), `export-${job.id}`);
+    try {
+      fs.rmSync(workDir, { recursive: true, force: true });
+      fs.mkdirSync(workDir, { recursive: true });
+
+      const { request } = job;
+      const format = request.preset.format ?? 'mp4';
+      const renderCodec = RENDER_CODECS[format];
+      let currentPath = request.sourcePath;
+      const chapters = this.resolveChapters(request);
+      const subtitleCues = this.resolveSubtitleCues(request);
+      const cursor = this.resolveCursor(request);
+      const timelineDuration = request.clips.reduce((total, clip) => total + (clip.sourceEnd - clip.sourceStart), 0);
+
+      if (cursor || this.needsRender(request)) {
+        this.update(job.id, { stage: 'Rendering', progress: 0 });
+        currentPath = await getFFmpegService().renderEdit(
+          {
+            sourcePath: request.sourcePath,
+            segments: request.clips.map((clip) => ({
+              start: clip.sourceStart,
+              end: clip.sourceEnd,
+              sourcePath: clip.sourcePath,
+            })),
+            crop: request.cropArea,
+            textOverlays: request.textOverlays,
+            imageOverlays: request.imageOverlays,
+            audio: request.audioSettings,
+            audioTracks: this.resolveAudioTracks(request),
+            // Other formats are sized and compressed by the conversion, so the render keeps full quality
+            output: renderCodec
+              ? {
+                  width: request.preset.width,
+                  height: request.preset.height,
+                  bitrate: request.preset.bitrate,
+                  codec: renderCodec,
+                  encoder: request.encoder,
+                  optimizeForSize: request.optimizeForSize,
+                }
+              : { width: 0, height: 0, bitrate: '', encoder: request.encoder },
+            chapters,
+            subtitles: request.subtitles && {
+              cues: subtitleCues,
+              mode: request.subtitles.mode,
+              style: request.subtitles.style,
+            },
+            cursor,
+            zoomSegments: this.resolveZoomSegments(request),
+            annotations: this.resolveAnnotations(request),
+            redactions: this.resolveRedactions(request),
+          },
+          path.join(workDir, 'export.mp4'),
+          (progress) => this.update(job.id, { progress }, false),
+          signal
+        );
+      }
+
+      // Loudness is measured on the final mix, so cleanup runs as a pass over the rendered file
+      const enhancement = request.audioSettings.enhancement ?? 'raw';
+      if (enhancement !== 'raw' && !signal.aborted) {
+        this.update(job.id, { stage: 'Enhancing audio', progress: 0 });
+        currentPath = await getFFmpegService().enhanceAudio(
+          currentPath,
+          path.join(workDir, 'export-enhanced.mp4'),
+          {
+            enhancement: AUDIO_ENHANCEMENT_PRESETS[enhancement],
+            rnnoiseModelPath: this.storageService.getSettings().audioCleanup?.rnnoiseModelPath,
+            duration: timelineDuration || request.sourceDuration,
+            format: 'mp4',
+            audioCodec: 'aac',
+            audioBitrate: '192k',
+          },
+          (progress) => this.update(job.id, { progress }, false),
+          signal
+        );
+      }
+
+      if (!renderCodec && !signal.aborted) {
+        const { label, extension } = EXPORT_FORMATS[format];
+        this.update(job.id, { stage: `Converting to ${label}`, progress: 0 });
+        currentPath = await getFFmpegService().exportFormat(
+          currentPath,
+          path.join(workDir, `export-converted${extension}`),
+          {
+            format: format as FormatExportOptions['format'],
+            width: request.preset.width,
+            height: request.preset.height,
+            bitrate: request.preset.bitrate,
+            fps: request.preset.fps,
+            duration: timelineDuration || request.sourceDuration,
+          },
+          (progress) => this.update(job.id, { progress }, false),
+          signal
+        );
+      }
+
+      if (signal.aborted) {
+        throw new Error('Export cancelled');
+      }
+
+      this.update(job.id, { stage: 'Saving', progress: 100 });
+      const outputPath = this.resolveOutputPath(request, path.extname(currentPath) || '.mp4');
+      if (currentPath !== request.sourcePath) {
+        moveFile(currentPath, outputPath);
+      } else if (chapters.length > 0 || subtitleCues.length > 0) {
+        await getFFmpegService().remuxWithExtras(
+          currentPath,
+          outputPath,
+          { chapters, subtitles: subtitleCues },
+          request.sourceDuration,
+          signal
+        );
+      } else {
+        fs.copyFileSync(currentPath, outputPath);
+      }
+      // The library only plays videos; GIFs and audio stay in the folder
+      const recording = EXPORT_FORMATS[format].kind === 'video'
+        ? await this.registerRecording({
+            path: outputPath,
+            duration: Math.max(1, Math.round(timelineDuration || request.sourceDuration)),
+            quality: ['720p', '1080p', '1440p', '4k'].includes(request.preset.id)
+              ? (request.preset.id as Recording['quality'])
+              : request.quality,
+            name: request.name,
+            markers: chapters,
+          })
+        : null;
+
+      this.update(job.id, {
+        status: 'completed',
+        stage: 'Done',
+        progress: 100,
+        outputRecordingId: recording?.id,
+        outputPath,
+        finishedAt: new Date().toISOString(),
+      });
+    } catch (error) {
+      if (signal.aborted) {
+        this.update(job.id, { status: 'cancelled', stage: 'Cancelled', finishedAt: new Date().toISOString() });
+      } else {
+        this.update(job.id, {
+          status: 'failed',
+          stage: 'Failed',
+          error: error instanceof Error ? error.message : String(error),
+          finishedAt: new Date().toISOString(),
+        });
+      }
+    } finally {
+      fs.rmSync(workDir, { recursive: true, force: true });
+    }
+  }
+
+  private resolveOutputPath(request: ExportJobRequest, extension: string): string {
+    const storagePath = this.storageService.getSettings().storagePath;
+    if (!fs.existsSync(storagePath)) {
+      fs.mkdirSync(storagePath, { recursive: true });
+    }
+    const baseName = path.basename(request.sourcePath).replace(/\.\w+$/, '');
+    const suffix = request.preset.id === 'source' ? 'edited' : `export-${request.preset.id}`;
+    return path.join(storagePath, `${baseName}-${suffix}-${Date.now()}${extension}`);
+  }
+
+  /**
+   * Map recording markers onto the edited timeline so they survive as chapters
+   */
+  private resolveChapters(request: ExportJobRequest): RecordingMarker[] {
+    const markersByPath = new Map(
+      this.storageService.getRecordings().map((recording) => [recording.path, recording.markers ?? []])
+    );
+    const chapters: RecordingMarker[] = [];
+    let offset = 0;
+    request.clips.forEach((clip) => {
+      (markersByPath.get(clip.sourcePath) ?? []).forEach((marker) => {
+        if (marker.time >= clip.sourceStart && marker.time < clip.sourceEnd) {
+          chapters.push({ ...marker, time: offset + marker.time - clip.sourceStart });
+        }
+      });
+      offset += clip.sourceEnd - clip.sourceStart;
+    });
+    return chapters;
+  }
+
+  /**
+   * Map subtitle cues onto the edited timeline, clipping cues that straddle a cut
+   */
+  private resolveSubtitleCues(request: ExportJobRequest): SubtitleCue[] {
+    const cues: SubtitleCue[] = [];
+    let offset = 0;
+    request.clips.forEach((clip, clipIndex) => {
+      (request.subtitles?.cues ?? []).forEach((cue) => {
+        if (cue.sourcePath !== clip.sourcePath) return;
+        const start = Math.max(cue.start, clip.sourceStart);
+        const end = Math.min(cue.end, clip.sourceEnd);
+        if (end <= start) return;
+        cues.push({
+          id: `${cue.id}-${clipIndex}`,
+          start: offset + start - clip.sourceStart,
+          end: offset + end - clip.sourceStart,
+          text: cue.text,
+        });
+      });
+      offset += clip.sourceEnd - clip.sourceStart;
+    });
+    return cues;
+  }
+
+  /**
+   * Map each clip's cursor track and zoom segments onto the edited timeline
+   */
+  private resolveCursor(request: ExportJobRequest): CursorRenderOptions | undefined {
+    const effects = request.cursorEffects;
+    if (!effects || (!effects.highlight && !effects.clickRipples && effects.zoomSegments.length === 0)) {
+      return undefined;
+    }
+
+    const recordingsByPath = new Map(this.storageService.getRecordings().map((recording) => [recording.path, recording]));
+    const tracks = new Map<string, CursorTrack | null>();
+    const getTrack = (sourcePath: string) => {
+      if (!tracks.has(sourcePath)) {
+        const recording = recordingsByPath.get(sourcePath);
+        tracks.set(sourcePath, recording?.hasCursorTrack ? this.storageService.getCursorTrack(recording.id) : null);
+      }
+      return tracks.get(sourcePath) ?? null;
+    };
+
+    const samples: CursorSample[] = [];
+    const clicks: CursorClick[] = [];
+    const zoom: ZoomRange[] = [];
+    let offset = 0;
+    request.clips.forEach((clip) => {
+      const toTimeline = (time: number) => offset + time - clip.sourceStart;
+      const track = getTrack(clip.sourcePath);
+      // Carry the position held at the cut into the clip; an off-screen sample hides the halo over clips without one
+      const held = track ? getCursorPosition(track.samples, clip.sourceStart) : null;
+      samples.push(held ? { ...held, time: offset } : { time: offset, x: -1, y: -1 });
+      track?.samples.forEach((sample) => {
+        if (sample.time > clip.sourceStart && sample.time < clip.sourceEnd) {
+          samples.push({ ...sample, time: toTimeline(sample.time) });
+        }
+      });
+      track?.clicks.forEach((click) => {
+        if (click.time >= clip.sourceStart && click.time < clip.sourceEnd) {
+          clicks.push({ ...click, time: toTimeline(click.time) });
+        }
+      });
+
+      effects.zoomSegments.forEach((segment) => {
+        if (segment.sourcePath !== clip.sourcePath) return;
+        const start = Math.max(segment.start, clip.sourceStart);
+        const end = Math.min(segment.end, clip.sourceEnd);
+        if (end <= start) return;
+        zoom.push({ start: toTimeline(start), end: toTimeline(end), scale: segment.scale });
+      });
+      offset += clip.sourceEnd - clip.sourceStart;
+    });
+
+    if (!samples.some(isCursorOnScreen) && zoom.length === 0) {
+      return undefined;
+    }
+    return {
+      samples,
+      clicks,
+      highlight: effects.highlight,
+      highlightColor: effects.highlightColor,
+      highlightSize: effects.highlightSize,
+      clickRipples: effects.clickRipples,
+      rippleColor: effects.rippleColor,
+      zoom: zoom.sort((a, b) => a.start - b.start),
+    };
+  }
+
+  /**
+   * Map keyframed zoom segments onto the edited timeline; a cut keeps the segment's timing and only hides part of it
+   */
+  private resolveZoomSegments(request: ExportJobRequest): ZoomRenderSegment[] {
+    const segments: ZoomRenderSegment[] = [];
+    let offset = 0;
+    request.clips.forEach((clip) => {
+      (request.zoomSegments ?? []).forEach((segment) => {
+        if (segment.sourcePath !== clip.sourcePath || segment.keyframes.length === 0) return;
+        const start = Math.max(segment.start, clip.sourceStart);
+        const end = Math.min(segment.end, clip.sourceEnd);
+        if (end <= start) return;
+        segments.push({
+          start: offset + start - clip.sourceStart,
+          end: offset + end - clip.sourceStart,
+          origin: offset + segment.start - clip.sourceStart,
+          easing: segment.easing,
+          path: getZoomPath(segment),
+        });
+      });
+      offset += clip.sourceEnd - clip.sourceStart;
+    });
+    return segments;
+  }
+
+  /**
+   * Map redactions onto the edited timeline; like zoom segments, a cut keeps a tracked box's timing
+   */
+  private resolveRedactions(request: ExportJobRequest): RedactionRenderSegment[] {
+    const redactions: RedactionRenderSegment[] = [];
+    let offset = 0;
+    request.clips.forEach((clip) => {
+      (request.redactions ?? []).forEach((redaction) => {
+        if (redaction.sourcePath !== clip.sourcePath) return;
+        const start = Math.max(redaction.start, clip.sourceStart);
+        const end = Math.min(redaction.end, clip.sourceEnd);
+        if (end <= start || redaction.area.width <= 0 || redaction.area.height <= 0) return;
+        redactions.push({
+          start: offset + start - clip.sourceStart,
+          end: offset + end - clip.sourceStart,
+          origin: offset + redaction.start - clip.sourceStart,
+          area: redaction.area,
+          style: redaction.style,
+          path: redaction.path ?? [],
+        });
+      });
+      offset += clip.sourceEnd - clip.sourceStart;
+    });
+    return redactions;
+  }
+
+  /**
+   * Separate tracks of the sources on the timeline with their levels from the editor
+   */
+  private resolveAudioTracks(request: ExportJobRequest): AudioTrackRenderOptions[] {
+    return (request.audioTracks ?? [])
+      .filter((track) => request.clips.some((clip) => clip.sourcePath === track.sourcePath))
+      .map((track) => ({
+        ...(request.audioSettings.tracks?.[track.kind] ?? DEFAULT_AUDIO_LEVEL),
+        kind: track.kind,
+        sourcePath: track.sourcePath,
+        path: track.path,
+        offset: track.offset,
+      }));
+  }
+
+  /**
+   * Map annotations onto the edited timeline; one still on screen when recording stopped runs to the end of its clip
+   */
+  private resolveAnnotations(request: ExportJobRequest): AnnotationRenderSegment[] {
+    const annotations: AnnotationRenderSegment[] = [];
+    let offset = 0;
+    request.clips.forEach((clip) => {
+      (request.annotations ?? []).forEach((annotation) => {
+        if (annotation.sourcePath !== clip.sourcePath) return;
+        const start = Math.max(annotation.start, clip.sourceStart);
+        const end = Math.min(annotation.end ?? clip.sourceEnd, clip.sourceEnd);
+        if (end <= start) return;
+        annotations.push({
+          start: offset + start - clip.sourceStart,
+          end: offset + end - clip.sourceStart,
+          imagePath: annotation.imagePath,
+          pixelate: annotation.pixelate,
+        });
+      });
+      offset += clip.sourceEnd - clip.sourceStart;
+    });
+    return annotations;
+  }
+
+  /**
+   * Untouched sources with the source preset are copied instead of re-encoded
+   */
+  private needsRender(request: ExportJobRequest): boolean {
+    const { clips, cropArea, textOverlays, audioSettings } = request;
+    const hasTimelineEdits = clips.length > 1 || clips.some((clip) =>
+      clip.sourcePath !== request.sourcePath || clip.sourceStart > 0 || clip.sourceEnd < request.sourceDuration
+    );
+    const hasCrop = Boolean(cropArea && cropArea.width > 0.5 && cropArea.height > 0.5);
+    // Separate tracks at their default levels add up to the mixed audio already in the source
+    const hasAudioAdjustments =
+      isAudioLevelChanged(audioSettings) ||
+      this.resolveAudioTracks(request).some((track) => isAudioLevelChanged(track));
+    const hasEnhancement = (audioSettings.enhancement ?? 'raw') !== 'raw';
+    const hasMusic = Boolean(audioSettings.music && !audioSettings.music.muted);
+    // Other formats get their size from the conversion that follows the render
+    const hasOutputChanges =
+      Boolean(RENDER_CODECS[request.preset.format ?? 'mp4']) &&
+      (request.preset.id !== 'source' || request.optimizeForSize || request.encoder !== 'auto');
+    const hasBurnedSubtitles = request.subtitles?.mode === 'burn' && request.subtitles.cues.length > 0;
+    const hasZoom = (request.zoomSegments ?? []).some((segment) => segment.keyframes.length > 0);
+    return (
+      hasTimelineEdits ||
+      hasCrop ||
+      textOverlays.length > 0 ||
+      (request.imageOverlays ?? []).length > 0 ||
+      (request.annotations ?? []).length > 0 ||
+      (request.redactions ?? []).length > 0 ||
+      hasAudioAdjustments ||
+      hasEnhancement ||
+      hasMusic ||
+      hasOutputChanges ||
+      hasBurnedSubtitles ||
+      hasZoom
+    );
+  }
+}
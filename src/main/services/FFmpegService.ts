@@ -2,6 +2,45 @@ import ffmpeg from 'fluent-ffmpeg';
 import { app } from 'electron';
 import path from 'node:path';
 import fs from 'node:fs';
+import type {
+  CropArea,
+  CursorClick,
+  CursorSample,
+  TextOverlay,
+  ImageOverlay,
+  AudioEnhancement,
+  AudioLevelSettings,
+  AudioTrackKind,
+  BackgroundMusic,
+  EditorAudioSettings,
+  EncoderCapabilities,
+  ExportEncoder,
+  ExportFormat,
+  RecordingMarker,
+  SubtitleCue,
+  SubtitleExportMode,
+  SubtitleStyle,
+  Easing,
+  TextKeyframe,
+  RedactionStyle,
+  RedactionPathPoint,
+  SilenceDetectionOptions,
+  SilenceRange,
+} from '../../shared/types';
+import { formatSubtitles } from '../../shared/utils/subtitles';
+import { simplifyPath } from '../../shared/utils/path';
+import type { PathPoint } from '../../shared/utils/path';
+import { simplifyRedactionPath } from '../../shared/utils/redaction';
+import {
+  CLICK_RIPPLE_DURATION,
+  CURSOR_ZOOM_RAMP,
+  getZoomFocus,
+  isCursorOnScreen,
+} from '../../shared/utils/cursor';
+import type { ZoomRange } from '../../shared/utils/cursor';
+import type { ZoomPathPoint } from '../../shared/utils/zoom';
+import { getKeyframedState, getTextKeyframes, getTypewriterSteps } from '../../shared/utils/textAnimation';
+import type { TextAnimationState } from '../../shared/utils/textAnimation';
 
 const resolveFfmpegPath = (): string | null => {
   try {
@@ -120,6 +159,685 @@ const resolveFontFile = (fontFamily?: string, bold?: boolean, italic?: boolean):
   return null;
 };
 
+// Preferred order when 'auto' picks a hardware encoder
+const HARDWARE_ENCODER_FAMILIES: Array<Exclude<ExportEncoder, 'auto' | 'cpu'>> = ['nvenc', 'qsv', 'amf'];
+const SOFTWARE_VIDEO_ENCODERS = ['libx264', 'libx265', 'libvpx-vp9', 'libsvtav1', 'libaom-av1'];
+const ENCODER_TEST_TIMEOUT_MS = 10000;
+
+const buildVideoEncoderOptions = (options: {
+  bitrate: string;
+  videoEncoder: string; // Resolved ffmpeg encoder name, see resolveVideoEncoder
+  optimizeForSize?: boolean;
+}): string[] => {
+  const { videoEncoder } = options;
+  const outputOptions: string[] = [];
+
+  if (!videoEncoder.startsWith('lib')) {
+    // Hardware encoders are rate-controlled, so the source preset still needs a target bitrate
+    const bitrate = options.bitrate || '8000k';
+    outputOptions.push(`-c:v ${videoEncoder}`);
+    outputOptions.push(`-b:v ${bitrate}`);
+    outputOptions.push('-maxrate', bitrate, '-bufsize', bitrate);
+    if (options.optimizeForSize && videoEncoder.endsWith('_nvenc')) {
+      outputOptions.push('-rc:v vbr', '-cq', '25');
+    }
+  } else {
+    outputOptions.push(`-c:v ${videoEncoder}`);
+    if (options.optimizeForSize) {
+      outputOptions.push('-preset slow', '-crf 28');
+    } else if (options.bitrate) {
+      outputOptions.push('-preset medium', `-b:v ${options.bitrate}`, '-maxrate', options.bitrate, '-bufsize', options.bitrate);
+    } else {
+      outputOptions.push('-preset medium', '-crf 22');
+    }
+  }
+
+  return outputOptions;
+};
+
+const escapeMetadataValue = (value: string) => value.replace(/([=;#\\\n])/g, '\\$1');
+
+// Chapters are passed to ffmpeg as an FFMETADATA file; each marker runs until the next one
+const buildChapterMetadata = (markers: RecordingMarker[], duration: number): string | null => {
+  const sorted = markers
+    .filter((marker) => marker.time >= 0 && marker.time < duration)
+    .sort((a, b) => a.time - b.time);
+  if (sorted.length === 0) return null;
+
+  const chapters = sorted[0].time > 0 ? [{ time: 0, label: 'Intro' }, ...sorted] : sorted;
+  const lines = [';FFMETADATA1'];
+  chapters.forEach((chapter, index) => {
+    const start = Math.round(chapter.time * 1000);
+    const end = Math.round((chapters[index + 1]?.time ?? duration) * 1000);
+    if (end <= start) return;
+    lines.push('[CHAPTER]', 'TIMEBASE=1/1000', `START=${start}`, `END=${end}`, `title=${escapeMetadataValue(chapter.label)}`);
+  });
+  return `${lines.join('\n')}\n`;
+};
+
+// Adds the chapter file as an extra input; returns its path so the caller can remove it afterwards
+const attachChapters = (
+  command: ffmpeg.FfmpegCommand,
+  inputIndex: number,
+  chapters: RecordingMarker[] | undefined,
+  duration: number,
+  outputPath: string
+): string | null => {
+  const metadata = chapters?.length ? buildChapterMetadata(chapters, duration) : null;
+  if (!metadata) return null;
+
+  const metadataPath = `${outputPath}.chapters.txt`;
+  fs.writeFileSync(metadataPath, metadata);
+  command.input(metadataPath).inputFormat('ffmetadata');
+  command.outputOptions(['-map_chapters', String(inputIndex)]);
+  return metadataPath;
+};
+
+// Soft subtitles ride along as an extra SRT input mapped to a text subtitle stream
+const attachSubtitleStream = (
+  command: ffmpeg.FfmpegCommand,
+  inputIndex: number,
+  cues: SubtitleCue[] | undefined,
+  outputPath: string
+): string | null => {
+  if (!cues?.length) return null;
+
+  const subtitlePath = `${outputPath}.subtitles.srt`;
+  fs.writeFileSync(subtitlePath, formatSubtitles(cues, 'srt'));
+  const extension = path.extname(outputPath).toLowerCase();
+  const codec = extension === '.webm' ? 'webvtt' : extension === '.mkv' ? 'srt' : 'mov_text';
+  command.input(subtitlePath);
+  command.outputOptions(['-map', `${inputIndex}:s`, `-c:s ${codec}`]);
+  return subtitlePath;
+};
+
+// Edit graphs grow with zooms, redactions and clips past the command-line limit, so ffmpeg reads them from a file
+const attachFilterScript = (command: ffmpeg.FfmpegCommand, filterParts: string[], outputPath: string): string => {
+  const scriptPath = `${outputPath}.filtergraph.txt`;
+  fs.writeFileSync(scriptPath, filterParts.join(';\n'));
+  command.outputOptions('-filter_complex_script', scriptPath);
+  return scriptPath;
+};
+
+// libass colours are &HAABBGGRR
+const toAssColor = (color: string) => {
+  const hex = color.replace('#', '').padEnd(6, '0').toUpperCase();
+  return `&H00${hex.slice(4, 6)}${hex.slice(2, 4)}${hex.slice(0, 2)}`;
+};
+
+// Burns an SRT file in with libass; the font directory comes from the same lookup as drawtext
+const buildSubtitlesFilter = (subtitlePath: string, style: SubtitleStyle): string => {
+  const fontFile = resolveFontFile(style.fontFamily, style.bold, style.italic);
+  const fontsDirOption = fontFile ? `:fontsdir='${escapeDrawtextValue(path.dirname(fontFile).replace(/\\/g, '/'))}'` : '';
+  const forceStyle = [
+    `FontName=${style.fontFamily}`,
+    `FontSize=${style.fontSize}`,
+    `PrimaryColour=${toAssColor(style.color)}`,
+    `Bold=${style.bold ? -1 : 0}`,
+    `Italic=${style.italic ? -1 : 0}`,
+    'BorderStyle=1',
+    'Outline=1',
+    'Shadow=0',
+  ].join(',');
+  return `subtitles=filename='${escapeDrawtextValue(subtitlePath.replace(/\\/g, '/'))}'${fontsDirOption}:force_style='${forceStyle}'`;
+};
+
+// ASS event times are H:MM:SS.cc
+const formatAssTime = (seconds: number) => {
+  const totalCs = Math.max(0, Math.round(seconds * 100));
+  const hours = Math.floor(totalCs / 360000);
+  const minutes = Math.floor((totalCs % 360000) / 6000);
+  const secs = Math.floor((totalCs % 6000) / 100);
+  const pad = (value: number) => value.toString().padStart(2, '0');
+  return `${hours}:${pad(minutes)}:${pad(secs)}.${pad(totalCs % 100)}`;
+};
+
+// Bezier circle drawn from 0,0 so centre-aligned styles put its middle on \pos
+const buildAssCircle = (radius: number) => {
+  const r = Math.round(radius * 10) / 10;
+  const k = Math.round(radius * 0.5523 * 10) / 10;
+  const d = r * 2;
+  return (
+    `m ${r} 0 b ${r + k} 0 ${d} ${r - k} ${d} ${r} b ${d} ${r + k} ${r + k} ${d} ${r} ${d} ` +
+    `b ${r - k} ${d} 0 ${r + k} 0 ${r} b 0 ${r - k} ${r - k} 0 ${r} 0`
+  );
+};
+
+/**
+ * Cursor halo and click ripples as ASS drawings, positioned in the timeline frame's pixels
+ */
+const buildCursorEffectsAss = (cursor: CursorRenderOptions, width: number, height: number, duration: number): string | null => {
+  const haloRadius = (Math.max(0.5, cursor.highlightSize) / 100) * height;
+  const rippleRadius = Math.max(haloRadius * 2, height * 0.04);
+  const events: string[] = [];
+  const toPos = (sample: CursorSample) => `${Math.round(sample.x * width)},${Math.round(sample.y * height)}`;
+  // Events shorter than one ASS tick would be dropped by libass anyway
+  const isTooShort = (start: number, end: number) => Math.round(end * 100) <= Math.round(start * 100);
+
+  if (cursor.highlight) {
+    const circle = buildAssCircle(haloRadius);
+    cursor.samples.forEach((sample, index) => {
+      if (!isCursorOnScreen(sample)) return;
+      const end = cursor.samples[index + 1]?.time ?? duration;
+      if (isTooShort(sample.time, end)) return;
+      events.push(`Dialogue: 0,${formatAssTime(sample.time)},${formatAssTime(end)},Halo,,0,0,0,,{\\pos(${toPos(sample)})\\p1}${circle}`);
+    });
+  }
+
+  if (cursor.clickRipples) {
+    const circle = buildAssCircle(rippleRadius);
+    const fadeMs = Math.round(CLICK_RIPPLE_DURATION * 1000);
+    cursor.clicks.filter(isCursorOnScreen).forEach((click) => {
+      const end = Math.min(duration, click.time + CLICK_RIPPLE_DURATION);
+      if (isTooShort(click.time, end)) return;
+      events.push(
+        `Dialogue: 1,${formatAssTime(click.time)},${formatAssTime(end)},Ripple,,0,0,0,,` +
+          `{\\pos(${toPos(click)})\\fscx20\\fscy20\\t(\\fscx100\\fscy100)\\fad(0,${fadeMs})\\p1}${circle}`
+      );
+    });
+  }
+
+  if (events.length === 0) return null;
+
+  // Halo is half transparent; the ripple is an outline only
+  const haloColour = `&H80${toAssColor(cursor.highlightColor).slice(4)}`;
+  const rippleBorder = Math.max(2, Math.round(height * 0.004));
+  return [
+    '[Script Info]',
+    'ScriptType: v4.00+',
+    `PlayResX: ${width}`,
+    `PlayResY: ${height}`,
+    'ScaledBorderAndShadow: yes',
+    '',
+    '[V4+ Styles]',
+    'Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, OutlineColour, BackColour, Bold, Italic, ' +
+      'Underline, StrikeOut, ScaleX, ScaleY, Spacing, Angle, BorderStyle, Outline, Shadow, Alignment, ' +
+      'MarginL, MarginR, MarginV, Encoding',
+    `Style: Halo,Arial,20,${haloColour},&H00FFFFFF,&H00000000,&H00000000,0,0,0,0,100,100,0,0,1,0,0,5,0,0,0,1`,
+    `Style: Ripple,Arial,20,&HFF000000,&H00FFFFFF,${toAssColor(cursor.rippleColor)},&H00000000,` +
+      `0,0,0,0,100,100,0,0,1,${rippleBorder},0,5,0,0,0,1`,
+    '',
+    '[Events]',
+    'Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text',
+    ...events,
+    '',
+  ].join('\n');
+};
+
+// Focus points along each zoom are sampled this often and interpolated linearly by ffmpeg
+const ZOOM_KEYFRAME_STEP = 0.2;
+// Focus points within this fraction of the frame of the straight line between their neighbours are dropped
+const ZOOM_FOCUS_TOLERANCE = 0.002;
+
+/**
+ * Follow-the-cursor zoom as a zoompan filter; the eased zoom and focus path are ffmpeg expressions of the frame time
+ */
+const buildZoomFilter = (
+  ranges: ZoomRange[],
+  samples: CursorSample[],
+  size: { width: number; height: number },
+  fps: number
+): string | null => {
+  const zoomRanges = ranges.filter((range) => range.end > range.start && range.scale > 1);
+  if (zoomRanges.length === 0) return null;
+
+  const time = `(on/${fps})`;
+  const round = (value: number) => Math.round(value * 10000) / 10000;
+  // Nested so the first range containing the frame wins, matching getZoomScale
+  const zoomExpression = zoomRanges.reduceRight((fallback, range) => {
+    const ramp = round(Math.min(CURSOR_ZOOM_RAMP, (range.end - range.start) / 2));
+    const eased = `st(0,clip(min(${time}-${round(range.start)},${round(range.end)}-${time})/${ramp},0,1));` +
+      `1+${round(range.scale - 1)}*ld(0)*ld(0)*(3-2*ld(0))`;
+    return `if(gte(${time},${round(range.start)})*lt(${time},${round(range.end)}),${eased},${fallback})`;
+  }, '1');
+
+  const focusTerms: { x: string[]; y: string[] } = { x: [], y: [] };
+  zoomRanges.forEach((range) => {
+    const points: PathPoint[] = [];
+    for (let start = range.start; start < range.end; start += ZOOM_KEYFRAME_STEP) {
+      points.push({ time: start, ...getZoomFocus(samples, start) });
+    }
+    points.push({ time: range.end, ...getZoomFocus(samples, range.end) });
+
+    const path = simplifyPath(points, ZOOM_FOCUS_TOLERANCE);
+    path.slice(1).forEach((to, index) => {
+      const from = path[index];
+      if (to.time <= from.time) return;
+      const span = `gte(${time},${round(from.time)})*lt(${time},${round(to.time)})`;
+      const progress = `(${time}-${round(from.time)})/${round(to.time - from.time)}`;
+      focusTerms.x.push(`${span}*(${round(from.x)}+${round(to.x - from.x)}*${progress})`);
+      focusTerms.y.push(`${span}*(${round(from.y)}+${round(to.y - from.y)}*${progress})`);
+    });
+  });
+
+  // zoompan takes the top-left corner in input pixels; keep the view inside the frame
+  const x = `clip((${focusTerms.x.join('+')})*iw-iw/zoom/2,0,iw-iw/zoom)`;
+  const y = `clip((${focusTerms.y.join('+')})*ih-ih/zoom/2,0,ih-ih/zoom)`;
+  return `zoompan=z='${zoomExpression}':x='${x}':y='${y}':d=1:s=${size.width}x${size.height}:fps=${fps}`;
+};
+
+// The same curves as EASINGS, with the transition progress stored in ld(0)
+const EASING_EXPRESSIONS: Record<Easing, string> = {
+  linear: 'ld(0)',
+  'ease-in': 'pow(ld(0),3)',
+  'ease-out': '1-pow(1-ld(0),3)',
+  'ease-in-out': 'if(lt(ld(0),0.5),4*pow(ld(0),3),1-pow(2-2*ld(0),3)/2)',
+};
+
+/**
+ * Keyframed zoom segments as a zoompan filter; each transition between path points is one gated, eased term
+ */
+const buildKeyframeZoomFilter = (
+  segments: ZoomRenderSegment[],
+  size: { width: number; height: number },
+  fps: number
+): string | null => {
+  const time = `(on/${fps})`;
+  const round = (value: number) => Math.round(value * 10000) / 10000;
+  const terms: { x: string[]; y: string[]; size: string[] } = { x: [], y: [], size: [] };
+
+  segments.forEach((segment) => {
+    const local = `(${time}-${round(segment.origin)})`;
+    const visible = `gte(${time},${round(segment.start)})*lt(${time},${round(segment.end)})`;
+    segment.path.slice(1).forEach((to, index) => {
+      const from = segment.path[index];
+      if (to.time <= from.time) return;
+      const gate = `${visible}*gte(${local},${round(from.time)})*lt(${local},${round(to.time)})`;
+      const eased = `(st(0,(${local}-${round(from.time)})/${round(to.time - from.time)});${EASING_EXPRESSIONS[segment.easing]})`;
+      terms.x.push(`${gate}*(${round(from.rect.x)}+${round(to.rect.x - from.rect.x)}*${eased})`);
+      terms.y.push(`${gate}*(${round(from.rect.y)}+${round(to.rect.y - from.rect.y)}*${eased})`);
+      // Size is summed as an offset from the full frame so frames outside every segment stay at 100
+      terms.size.push(`${gate}*(${round(from.rect.size - 100)}+${round(to.rect.size - from.rect.size)}*${eased})`);
+    });
+  });
+  if (terms.x.length === 0) return null;
+
+  return (
+    `zoompan=z='100/(100+${terms.size.join('+')})':` +
+    `x='(${terms.x.join('+')})*iw/100':y='(${terms.y.join('+')})*ih/100':` +
+    `d=1:s=${size.width}x${size.height}:fps=${fps}`
+  );
+};
+
+interface TextFrame {
+  width: number;
+  height: number;
+  fps: number;
+}
+
+const roundExpression = (value: number) => Math.round(value * 10000) / 10000;
+
+// Keyframed property as nested if()s over a time expression, held before the first and after the last keyframe
+const buildKeyframeExpression = (keyframes: TextKeyframe[], property: keyof TextAnimationState, time: string): string => {
+  const values = keyframes.map((keyframe) => roundExpression(keyframe[property]));
+  if (values.every((value) => value === values[0])) {
+    return `${values[0]}`;
+  }
+  let expression = `${values[values.length - 1]}`;
+  for (let index = keyframes.length - 1; index > 0; index -= 1) {
+    const from = keyframes[index - 1];
+    const to = keyframes[index];
+    if (to.time <= from.time) continue;
+    const eased = `(st(0,(${time}-${roundExpression(from.time)})/${roundExpression(to.time - from.time)});${EASING_EXPRESSIONS[to.easing]})`;
+    expression = `if(lt(${time},${roundExpression(to.time)}),${values[index - 1]}+${roundExpression(values[index] - values[index - 1])}*${eased},${expression})`;
+  }
+  return `if(lt(${time},${roundExpression(keyframes[0].time)}),${values[0]},${expression})`;
+};
+
+// Same fade as getFadeOpacity
+const buildFadeExpression = (overlay: TextOverlay, time: string): string | null => {
+  const terms: string[] = [];
+  if ((overlay.fadeIn ?? 0) > 0) {
+    terms.push(`${time}/${roundExpression(overlay.fadeIn ?? 0)}`);
+  }
+  if ((overlay.fadeOut ?? 0) > 0) {
+    terms.push(`(${roundExpression(overlay.duration)}-${time})/${roundExpression(overlay.fadeOut ?? 0)}`);
+  }
+  if (terms.length === 0) return null;
+  return `clip(${terms.length === 2 ? `min(${terms[0]},${terms[1]})` : terms[0]},0,1)`;
+};
+
+/**
+ * Graph parts drawing one text overlay from `input` to `output`; keyframes, fades and the typewriter become drawtext expressions.
+ * drawtext cannot rotate, so rotating overlays are drawn on a transparent layer that is rotated and laid over the video.
+ */
+const buildTextOverlayParts = (
+  overlay: TextOverlay,
+  input: string,
+  output: string,
+  frame: TextFrame,
+  layerLabel: string
+): string[] => {
+  const startTime = overlay.timestamp;
+  const endTime = overlay.timestamp + overlay.duration;
+  const keyframes = getTextKeyframes(overlay);
+  const rest = getKeyframedState(overlay, 0);
+  const property = (name: keyof TextAnimationState, time: string) =>
+    keyframes.length > 0 ? buildKeyframeExpression(keyframes, name, time) : `${roundExpression(rest[name])}`;
+  const rotates = keyframes.some((keyframe) => keyframe.rotation % 360 !== 0);
+
+  const fontColor = overlay.color.replace('#', '');
+  const fontFile = resolveFontFile(overlay.fontFamily, overlay.bold, overlay.italic);
+  const fontFileOption = fontFile ? `:fontfile='${escapeDrawtextValue(fontFile)}'` : '';
+  const align = overlay.align ?? 'left';
+  const alignOffset = align === 'center' ? '-text_w/2' : align === 'right' ? '-text_w' : '';
+
+  // Rotated layers run on their own clock from the overlay start; in-place text uses the video clock
+  const time = rotates ? 't' : `(t-${roundExpression(startTime)})`;
+  const opacity = `clip(${property('opacity', time)},0,1)`;
+  const fade = buildFadeExpression(overlay, time);
+  const alpha = fade ? `${opacity}*${fade}` : opacity;
+  const fontSize = `max(1,${overlay.fontSize}*(${property('scale', time)}))`;
+
+  const layerSize = toEvenDimension(
+    2 * Math.min(
+      Math.hypot(frame.width, frame.height),
+      // Generous estimate of the text box at its largest scale
+      Math.hypot(Array.from(overlay.text).length * 0.75, 1.5) *
+        overlay.fontSize *
+        Math.max(1, ...keyframes.map((keyframe) => keyframe.scale)) +
+        overlay.fontSize
+    )
+  );
+  const x = rotates ? `${layerSize / 2}${alignOffset}` : `w*(${property('x', time)})/100${alignOffset}`;
+  const y = rotates ? `${layerSize / 2}` : `h*(${property('y', time)})/100`;
+
+  // Expressions are quoted so their commas don't split the filter chain
+  const drawtext = (text: string, enable: string) =>
+    `drawtext=text='${escapeDrawtextValue(text)}':x='${x}':y='${y}':fontsize='${fontSize}':fontcolor=0x${fontColor}` +
+    `:alpha='${alpha}'${fontFileOption}:enable='${enable}'`;
+  const window = (from: number, to: number) =>
+    rotates
+      ? `gte(t,${roundExpression(from)})*lt(t,${roundExpression(to)})`
+      : `gte(t,${roundExpression(startTime + from)})*lt(t,${roundExpression(startTime + to)})`;
+
+  const steps = getTypewriterSteps(overlay);
+  const revealEnd = steps.length > 0 ? steps[steps.length - 1].end : 0;
+  const drawtexts = [
+    ...steps.map((step) => drawtext(step.text, window(step.start, step.end))),
+    drawtext(overlay.text, rotates ? window(revealEnd, overlay.duration) : `between(t,${startTime + revealEnd},${endTime})`),
+  ];
+
+  if (!rotates) {
+    return [`${input}${drawtexts.join(',')}${output}`];
+  }
+
+  const overlayTime = `(t-${roundExpression(startTime)})`;
+  return [
+    `color=c=black@0:s=${layerSize}x${layerSize}:r=${frame.fps}:d=${roundExpression(overlay.duration)},format=rgba,` +
+      `${drawtexts.join(',')},rotate=a='(${property('rotation', 't')})*PI/180':c=none,` +
+      `setpts=PTS+${roundExpression(startTime)}/TB[${layerLabel}]`,
+    `${input}[${layerLabel}]overlay=x='main_w*(${property('x', overlayTime)})/100-${layerSize / 2}':` +
+      `y='main_h*(${property('y', overlayTime)})/100-${layerSize / 2}':eof_action=pass${output}`,
+  ];
+};
+
+/**
+ * Graph parts laying an image input over the video from `input` to `output` during its time range
+ */
+const buildImageOverlayParts = (
+  overlay: ImageOverlay,
+  input: string,
+  imageInput: string,
+  output: string,
+  frameWidth: number,
+  layerLabel: string
+): string[] => {
+  const width = toEvenDimension((frameWidth * overlay.width) / 100);
+  const opacity = Math.min(1, Math.max(0, overlay.opacity));
+  const startTime = roundExpression(overlay.timestamp);
+  const endTime = roundExpression(overlay.timestamp + overlay.duration);
+  // A still image is a single frame; overlay keeps repeating it after the input ends
+  return [
+    `${imageInput}format=rgba,scale=${width}:-1,colorchannelmixer=aa=${opacity}[${layerLabel}]`,
+    `${input}[${layerLabel}]overlay=x='main_w*${overlay.x / 100}':y='main_h*${overlay.y / 100}':` +
+      `enable='between(t,${startTime},${endTime})'${output}`,
+  ];
+};
+
+// Pixel size of the blocks a redacted area is reduced to
+const PIXELATE_BLOCK_SIZE = 16;
+
+interface ObscuredArea {
+  x: string; // Pixels of the frame, or an expression of t for a moving box
+  y: string;
+  width: number;
+  height: number;
+}
+
+/**
+ * Graph parts blurring or pixelating an area of the video from `input` to `output` while `enable` holds
+ */
+const buildObscureParts = (
+  area: ObscuredArea,
+  style: RedactionStyle,
+  input: string,
+  output: string,
+  enable: string,
+  layerLabel: string
+): string[] => {
+  const width = Math.max(2, Math.round(area.width));
+  const height = Math.max(2, Math.round(area.height));
+  const effect = style === 'pixelate'
+    ? `scale=${Math.max(1, Math.round(width / PIXELATE_BLOCK_SIZE))}:${Math.max(1, Math.round(height / PIXELATE_BLOCK_SIZE))}:` +
+      `flags=area,scale=${width}:${height}:flags=neighbor`
+    : `gblur=sigma=${Math.max(4, Math.round(Math.min(width, height) / 6))}`;
+  return [
+    `${input}split[${layerLabel}base][${layerLabel}source]`,
+    `[${layerLabel}source]crop=${width}:${height}:'${area.x}':'${area.y}',${effect}[${layerLabel}]`,
+    `[${layerLabel}base][${layerLabel}]overlay=x='${area.x}':y='${area.y}':enable='${enable}'${output}`,
+  ];
+};
+
+/**
+ * Graph parts hiding a redacted box; a tracked box follows its path as linear terms gated by time, like keyframed zooms
+ */
+const buildRedactionParts = (
+  redaction: RedactionRenderSegment,
+  input: string,
+  output: string,
+  frameSize: { width: number; height: number },
+  layerLabel: string
+): string[] => {
+  const width = Math.min(frameSize.width, (frameSize.width * redaction.area.width) / 100);
+  const height = Math.min(frameSize.height, (frameSize.height * redaction.area.height) / 100);
+  const local = `(t-${roundExpression(redaction.origin)})`;
+  // Tracked paths have a point every fraction of a second; most of them lie on a line
+  const path = simplifyRedactionPath(redaction.path);
+  const position = (axis: 'x' | 'y', frameLength: number, boxLength: number) => {
+    let percent = String(roundExpression(redaction.area[axis]));
+    if (path.length > 0) {
+      const first = path[0];
+      const last = path[path.length - 1];
+      const terms = [
+        `lt(${local},${roundExpression(first.time)})*${roundExpression(first[axis])}`,
+        `gte(${local},${roundExpression(last.time)})*${roundExpression(last[axis])}`,
+      ];
+      path.slice(1).forEach((to, index) => {
+        const from = path[index];
+        if (to.time <= from.time) return;
+        const gate = `gte(${local},${roundExpression(from.time)})*lt(${local},${roundExpression(to.time)})`;
+        const progress = `(${local}-${roundExpression(from.time)})/${roundExpression(to.time - from.time)}`;
+        terms.push(`${gate}*(${roundExpression(from[axis])}+${roundExpression(to[axis] - from[axis])}*${progress})`);
+      });
+      percent = terms.join('+');
+    }
+    // Kept inside the frame so crop and overlay agree on where the box is
+    return `clip((${percent})*${frameLength}/100,0,${roundExpression(frameLength - boxLength)})`;
+  };
+  return buildObscureParts(
+    {
+      x: position('x', frameSize.width, width),
+      y: position('y', frameSize.height, height),
+      width,
+      height,
+    },
+    redaction.style,
+    input,
+    output,
+    `between(t,${roundExpression(redaction.start)},${roundExpression(redaction.end)})`,
+    layerLabel
+  );
+};
+
+/**
+ * Graph parts drawing a recorded annotation over the full frame, or pixelating its blur box, during its time range
+ */
+const buildAnnotationParts = (
+  annotation: AnnotationRenderSegment,
+  input: string,
+  imageInput: string | null,
+  output: string,
+  frameSize: { width: number; height: number },
+  layerLabel: string
+): string[] => {
+  const enable = `between(t,${roundExpression(annotation.start)},${roundExpression(annotation.end)})`;
+  const { pixelate } = annotation;
+  if (pixelate) {
+    const x = Math.round((frameSize.width * pixelate.x) / 100);
+    const y = Math.round((frameSize.height * pixelate.y) / 100);
+    // The box is kept inside the frame so crop never reads past an edge
+    const area = {
+      x: String(x),
+      y: String(y),
+      width: Math.min((frameSize.width * pixelate.width) / 100, frameSize.width - x),
+      height: Math.min((frameSize.height * pixelate.height) / 100, frameSize.height - y),
+    };
+    return buildObscureParts(area, 'pixelate', input, output, enable, layerLabel);
+  }
+  return [
+    `${imageInput}format=rgba,scale=${frameSize.width}:${frameSize.height}[${layerLabel}]`,
+    `${input}[${layerLabel}]overlay=x=0:y=0:enable='${enable}'${output}`,
+  ];
+};
+
+/**
+ * Volume, mute and fades of a track or the master mix over a timeline of the given length
+ */
+const buildAudioLevelFilters = (level: AudioLevelSettings, duration: number): string[] => {
+  const filters = [`volume=${level.muted ? 0 : Math.max(0, level.volume) / 100}`];
+  if (level.fadeIn > 0) {
+    filters.push(`afade=t=in:st=0:d=${level.fadeIn}`);
+  }
+  if (level.fadeOut > 0) {
+    filters.push(`afade=t=out:st=${Math.max(0, duration - level.fadeOut)}:d=${level.fadeOut}`);
+  }
+  return filters;
+};
+
+// Peak ceiling for the limiter and loudnorm, in dBTP
+const TRUE_PEAK_LIMIT = -1.5;
+// Loudness range loudnorm aims for; speech sits well inside it
+const LOUDNESS_RANGE = 11;
+
+/**
+ * The cleanup chain before loudness normalization: high-pass, noise reduction, compressor, limiter
+ */
+const buildEnhancementFilters = (enhancement: AudioEnhancement, rnnoiseModelPath: string | null): string[] => {
+  const filters: string[] = [];
+  if (enhancement.highPass > 0) {
+    filters.push(`highpass=f=${enhancement.highPass}`);
+  }
+  if (enhancement.denoise > 0) {
+    filters.push(
+      rnnoiseModelPath
+        ? `arnndn=m='${escapeDrawtextValue(rnnoiseModelPath.replace(/\\/g, '/'))}'`
+        : `afftdn=nr=${enhancement.denoise}:nf=-40`
+    );
+  }
+  if (enhancement.compressorRatio > 1) {
+    filters.push(`acompressor=threshold=-20dB:ratio=${enhancement.compressorRatio}:attack=10:release=200`);
+  }
+  if (enhancement.limiter) {
+    filters.push(`alimiter=limit=${TRUE_PEAK_LIMIT}dB:level=disabled`);
+  }
+  return filters;
+};
+
+/**
+ * Graph parts laying a separately recorded track along the whole timeline, silent where other sources play
+ */
+const buildAudioTrackParts = (
+  track: AudioTrackRenderOptions,
+  input: string,
+  segments: TimelineSegment[],
+  defaultSourcePath: string,
+  duration: number,
+  output: string,
+  pieceLabel: string
+): string[] => {
+  const parts: string[] = [];
+  // A track that started after the video is delayed to line up; one that started before is trimmed
+  const delay = track.offset > 0 ? `adelay=${Math.round(track.offset * 1000)}|${Math.round(track.offset * 1000)},` : '';
+  const shift = Math.min(0, track.offset);
+  segments.forEach((segment, index) => {
+    const start = Math.max(0, segment.start);
+    const end = Math.max(start + 0.1, segment.end);
+    if ((segment.sourcePath ?? defaultSourcePath) === track.sourcePath) {
+      // Padded to the segment length so a track that stopped early never shifts later segments
+      parts.push(
+        `${input}aformat=sample_rates=48000:channel_layouts=stereo,${delay}` +
+          `atrim=start=${start - shift}:end=${end - shift},asetpts=PTS-STARTPTS,apad,atrim=duration=${end - start}` +
+          `[${pieceLabel}${index}]`
+      );
+    } else {
+      parts.push(
+        `anullsrc=channel_layout=stereo:sample_rate=48000,atrim=duration=${end - start},asetpts=PTS-STARTPTS` +
+          `[${pieceLabel}${index}]`
+      );
+    }
+  });
+  const pieces = segments.map((_, index) => `[${pieceLabel}${index}]`).join('');
+  parts.push(`${pieces}concat=n=${segments.length}:v=0:a=1,${buildAudioLevelFilters(track, duration).join(',')}${output}`);
+  return parts;
+};
+
+// Music lane of the waveform image, apart from the white recording lane
+const MUSIC_WAVEFORM_COLOR = '0x60a5fa';
+
+// Voice above this level (linear, about -30 dBFS) pulls the music down
+const DUCK_THRESHOLD = 0.03;
+
+/**
+ * Graph parts for background music along the timeline, ducked by the key stream when one is given
+ */
+const buildMusicParts = (
+  music: BackgroundMusic,
+  input: string,
+  duration: number,
+  key: string | null,
+  output: string
+): string[] => {
+  // Without looping the music stops where the file ends, so its fade-out ends there too
+  const length = music.loop || music.duration <= 0 ? duration : Math.min(music.duration, duration);
+  const musicFilters = [
+    'aformat=sample_rates=48000:channel_layouts=stereo',
+    `atrim=duration=${length}`,
+    'asetpts=PTS-STARTPTS',
+    ...buildAudioLevelFilters(music, length),
+  ];
+  if (!key) {
+    return [`${input}${musicFilters.join(',')}${output}`];
+  }
+  return [
+    `${input}${musicFilters.join(',')}[musiclevel]`,
+    `[musiclevel]${key}sidechaincompress=threshold=${DUCK_THRESHOLD}:ratio=${music.duckRatio}:attack=20:release=400${output}`,
+  ];
+};
+
+const removeFile = (filePath: string | null) => {
+  if (filePath) {
+    fs.rmSync(filePath, { force: true });
+  }
+};
+
+// fluent-ffmpeg reports the encoded position as "HH:MM:SS.ms"
+const parseTimemark = (timemark: string): number => {
+  const [hours, minutes, seconds] = timemark.split(':').map(Number);
+  const total = (hours || 0) * 3600 + (minutes || 0) * 60 + (seconds || 0);
+  return Number.isFinite(total) ? total : 0;
+};
+
 export interface WebcamOverlayConfig {
   x: number;
   y: number;
@@ -136,12 +854,266 @@ export interface CompositeOptions {
   onProgress?: (progress: number) => void;
 }
 
+export interface TimelineSegment {
+  start: number;
+  end: number;
+  sourcePath?: string;
+}
+
+export interface EditRenderOptions {
+  sourcePath: string;
+  segments: TimelineSegment[];
+  crop?: CropArea | null;
+  textOverlays?: TextOverlay[];
+  imageOverlays?: ImageOverlay[];
+  audio?: EditorAudioSettings;
+  audioTracks?: AudioTrackRenderOptions[];
+  output: {
+    width: number;
+    height: number;
+    bitrate: string;
+    codec?: 'h264' | 'h265';
+    encoder?: ExportEncoder;
+    optimizeForSize?: boolean;
+  };
+  chapters?: RecordingMarker[]; // Times on the edited timeline
+  subtitles?: SubtitleRenderOptions;
+  cursor?: CursorRenderOptions;
+  zoomSegments?: ZoomRenderSegment[];
+  annotations?: AnnotationRenderSegment[];
+  redactions?: RedactionRenderSegment[];
+}
+
+// A separately recorded mic or system track of one timeline source
+export interface AudioTrackRenderOptions extends AudioLevelSettings {
+  kind: AudioTrackKind;
+  sourcePath: string;
+  path: string;
+  offset: number; // Seconds the track starts after the source's video
+}
+
+// Background music drawn under the recording's waveform
+export interface WaveformMusicLane {
+  path: string;
+  loop: boolean;
+  duration: number; // Seconds the lane spans, the same as the recording's lane
+}
+
+export interface RedactionRenderSegment {
+  start: number; // Visible part on the edited timeline
+  end: number;
+  origin: number; // Timeline time of the redaction's own start; before start when a cut trims it
+  area: CropArea; // Percent of the frame
+  style: RedactionStyle;
+  path: RedactionPathPoint[]; // Times from the redaction start
+}
+
+export interface AnnotationRenderSegment {
+  start: number; // Times on the edited timeline
+  end: number;
+  imagePath?: string; // Transparent PNG covering the whole frame
+  pixelate?: CropArea; // Percent of the frame
+}
+
+export interface ZoomRenderSegment {
+  start: number; // Visible part on the edited timeline
+  end: number;
+  origin: number; // Timeline time of the segment's own start; before start when a cut trims the segment
+  easing: Easing;
+  path: ZoomPathPoint[]; // Times from the segment start
+}
+
+export interface CursorRenderOptions {
+  samples: CursorSample[]; // Times on the edited timeline, positions normalised to the frame
+  clicks: CursorClick[];
+  highlight: boolean;
+  highlightColor: string;
+  highlightSize: number;
+  clickRipples: boolean;
+  rippleColor: string;
+  zoom: ZoomRange[]; // Times on the edited timeline
+}
+
+export interface SubtitleRenderOptions {
+  cues: SubtitleCue[]; // Times on the edited timeline
+  mode: SubtitleExportMode;
+  style: SubtitleStyle;
+}
+
+export interface Mp4ConversionOptions {
+  mode: 'remux' | 'transcode';
+  duration: number; // Seconds, used for progress
+  videoEncoder: string;
+  videoBitrate: string;
+  audioBitrate: string;
+  chapters?: RecordingMarker[];
+}
+
+// A rendered edit converted to a format the edit pipeline does not write itself
+export interface FormatExportOptions {
+  format: Exclude<ExportFormat, 'mp4' | 'mp4-h265'>;
+  width: number; // 0 keeps the input size; a GIF only uses the width
+  height: number;
+  bitrate: string; // Video bitrate, or the audio bitrate for the audio formats; empty uses a quality target
+  fps?: number; // GIF frame rate
+  duration: number; // Seconds, used for progress
+}
+
+export interface AudioEnhancementOptions {
+  enhancement: AudioEnhancement;
+  rnnoiseModelPath?: string; // Used for denoising when this ffmpeg build has arnndn
+  duration: number; // Seconds, used for progress
+  format: string; // Muxer of the input's container; the output path may carry a temporary extension
+  audioCodec: string; // Has to suit the container
+  audioBitrate: string;
+}
+
+// Loudness of the cleaned audio as reported by the first loudnorm pass
+interface LoudnessMeasurement {
+  input_i: string;
+  input_tp: string;
+  input_lra: string;
+  input_thresh: string;
+  target_offset: string;
+}
+
+export interface AudioExtractOptions {
+  codec: string;
+  bitrate?: string;
+  sampleRate?: number;
+  channels?: number;
+}
+
+interface TimelineSourceInfo {
+  width: number;
+  height: number;
+  fps: number;
+  hasAudio: boolean;
+}
+
+// Kill the ffmpeg process when a queued export is cancelled; the command then rejects with an error
+const bindAbortSignal = (command: ffmpeg.FfmpegCommand, signal?: AbortSignal) => {
+  if (!signal) return;
+  if (signal.aborted) {
+    command.kill('SIGKILL');
+    return;
+  }
+  signal.addEventListener('abort', () => command.kill('SIGKILL'), { once: true });
+};
+
+const toEvenDimension = (value: number) => Math.max(2, Math.round(value / 2) * 2);
+
+// ffprobe reports frame rates as fractions like "30000/1001"; webm often reports "0/0"
+const parseFrameRate = (value?: string): number | null => {
+  if (!value) return null;
+  const [num, den] = value.split('/').map(Number);
+  const fps = den ? num / den : num;
+  if (!Number.isFinite(fps) || fps <= 0 || fps > 240) return null;
+  return Math.round(fps * 100) / 100;
+};
+
 export class FFmpegService {
+  private encoderProbe: Promise<EncoderCapabilities> | null = null;
+  private filterProbe: Promise<Set<string>> | null = null;
+
+  /**
+   * Detect which video encoders this ffmpeg build can actually use (cached)
+   */
+  probeEncoders(): Promise<EncoderCapabilities> {
+    if (!this.encoderProbe) {
+      this.encoderProbe = this.runEncoderProbe().catch((error) => {
+        console.warn('Encoder probe failed, using software encoding:', error);
+        return { available: ['auto', 'cpu'], videoEncoders: [] };
+      });
+    }
+    return this.encoderProbe;
+  }
+
+  /**
+   * Pick the ffmpeg encoder for a codec, falling back to software when the preferred one is unavailable
+   */
+  async resolveVideoEncoder(codec: 'h264' | 'h265', preference: ExportEncoder = 'auto'): Promise<string> {
+    const { videoEncoders } = await this.probeEncoders();
+    const prefix = codec === 'h265' ? 'hevc' : 'h264';
+    const families = preference === 'cpu' ? [] : preference === 'auto' ? HARDWARE_ENCODER_FAMILIES : [preference];
+
+    const hardwareEncoder = families
+      .map((family) => `${prefix}_${family}`)
+      .find((name) => videoEncoders.includes(name));
+    if (hardwareEncoder) {
+      return hardwareEncoder;
+    }
+    if (preference !== 'auto' && preference !== 'cpu') {
+      console.warn(`${prefix}_${preference} is not available, falling back to software encoding`);
+    }
+
+    // Some builds ship without libx265
+    if (codec === 'h265' && (videoEncoders.length === 0 || videoEncoders.includes('libx265'))) {
+      return 'libx265';
+    }
+    return 'libx264';
+  }
+
+  private async runEncoderProbe(): Promise<EncoderCapabilities> {
+    const listed = await new Promise<Set<string>>((resolve, reject) => {
+      ffmpeg.getAvailableEncoders((error, encoders) => {
+        if (error) {
+          reject(error);
+          return;
+        }
+        resolve(new Set(Object.keys(encoders)));
+      });
+    });
+
+    // Hardware encoders are often compiled in without a usable GPU or driver, so try each one
+    const videoEncoders = SOFTWARE_VIDEO_ENCODERS.filter((name) => listed.has(name));
+    for (const family of HARDWARE_ENCODER_FAMILIES) {
+      for (const name of [`h264_${family}`, `hevc_${family}`]) {
+        if (listed.has(name) && (await this.testEncoder(name))) {
+          videoEncoders.push(name);
+        }
+      }
+    }
+
+    const available: ExportEncoder[] = [
+      'auto',
+      'cpu',
+      ...HARDWARE_ENCODER_FAMILIES.filter((family) => videoEncoders.includes(`h264_${family}`)),
+    ];
+    console.log('Available video encoders:', videoEncoders.join(', '));
+    return { available, videoEncoders };
+  }
+
+  private testEncoder(name: string): Promise<boolean> {
+    return new Promise((resolve) => {
+      const command = ffmpeg()
+        .input('color=c=black:s=256x256:d=0.1')
+        .inputFormat('lavfi')
+        .outputOptions(['-frames:v 1', `-c:v ${name}`])
+        .format('null')
+        .output('-');
+
+      // A wedged driver shouldn't block every export behind the probe
+      const timer = setTimeout(() => command.kill('SIGKILL'), ENCODER_TEST_TIMEOUT_MS);
+      command.on('end', () => {
+        clearTimeout(timer);
+        resolve(true);
+      });
+      command.on('error', () => {
+        clearTimeout(timer);
+        resolve(false);
+      });
+
+      command.run();
+    });
+  }
+
   /**
    * Composite webcam overlay onto main recording
    */
   async compositeWebcam(options: CompositeOptions): Promise<string> {
     const { videoPath, webcamPath, outputPath, webcamConfig, onProgress } = options;
+    const videoEncoder = await this.resolveVideoEncoder('h264');
 
     return new Promise((resolve, reject) => {
       // Build filter for webcam overlay
@@ -160,12 +1132,7 @@ export class FFmpegService {
         .input(videoPath)
         .input(webcamPath)
         .complexFilter([overlayFilter])
-        .outputOptions([
-          '-c:v libx264',
-          '-preset medium',
-          '-crf 23',
-          '-c:a copy',
-        ])
+        .outputOptions([...buildVideoEncoderOptions({ bitrate: '', videoEncoder }), '-c:a copy'])
         .output(outputPath);
 
       // Progress tracking
@@ -192,16 +1159,30 @@ export class FFmpegService {
   /**
    * Extract audio from a video file
    */
-  async extractAudio(videoPath: string, outputPath: string): Promise<string> {
+  async extractAudio(
+    videoPath: string,
+    outputPath: string,
+    options: AudioExtractOptions = { codec: 'libopus', bitrate: '128k' },
+    signal?: AbortSignal
+  ): Promise<string> {
     return new Promise((resolve, reject) => {
-      ffmpeg(videoPath)
-        .noVideo()
-        .audioCodec('libopus')
-        .audioBitrate('128k')
+      const command = ffmpeg(videoPath).noVideo().audioCodec(options.codec);
+      if (options.bitrate) {
+        command.audioBitrate(options.bitrate);
+      }
+      if (options.sampleRate) {
+        command.audioFrequency(options.sampleRate);
+      }
+      if (options.channels) {
+        command.audioChannels(options.channels);
+      }
+
+      command
         .output(outputPath)
         .on('end', () => resolve(outputPath))
-        .on('error', reject)
-        .run();
+        .on('error', reject);
+      command.run();
+      bindAbortSignal(command, signal);
     });
   }
 
@@ -270,11 +1251,13 @@ export class FFmpegService {
     endTime: number,
     onProgress?: (progress: number) => void
   ): Promise<string> {
+    const videoEncoder = await this.resolveVideoEncoder('h264');
+
     return new Promise((resolve, reject) => {
       const command = ffmpeg(videoPath)
         .setStartTime(startTime)
         .setDuration(endTime - startTime)
-        .outputOptions(['-c:v libx264', '-c:a copy'])
+        .outputOptions([...buildVideoEncoderOptions({ bitrate: '', videoEncoder }), '-c:a copy'])
         .output(outputPath);
 
       command.on('progress', (progress) => {
@@ -300,12 +1283,15 @@ export class FFmpegService {
     y: number,
     width: number,
     height: number,
-    onProgress?: (progress: number) => void
+    onProgress?: (progress: number) => void,
+    signal?: AbortSignal
   ): Promise<string> {
+    const videoEncoder = await this.resolveVideoEncoder('h264');
+
     return new Promise((resolve, reject) => {
       const command = ffmpeg(videoPath)
         .videoFilters(`crop=${width}:${height}:${x}:${y}`)
-        .outputOptions(['-c:a copy'])
+        .outputOptions([...buildVideoEncoderOptions({ bitrate: '', videoEncoder }), '-c:a copy'])
         .output(outputPath);
 
       command.on('progress', (progress) => {
@@ -318,56 +1304,34 @@ export class FFmpegService {
       command.on('error', reject);
 
       command.run();
+      bindAbortSignal(command, signal);
     });
   }
 
   /**
-   * Add text overlay to video
+   * Add an animated text overlay to video
    */
   async addTextOverlay(
     videoPath: string,
     outputPath: string,
-    text: string,
-    x: number,
-    y: number,
-    fontSize: number,
-    color: string,
-    startTime: number,
-    duration: number,
-    bold?: boolean,
-    italic?: boolean,
-    fontFamily?: string,
-    align: 'left' | 'center' | 'right' = 'left',
-    animate = false,
-    endX?: number,
-    endY?: number,
-    onProgress?: (progress: number) => void
+    overlay: TextOverlay,
+    onProgress?: (progress: number) => void,
+    signal?: AbortSignal
   ): Promise<string> {
-    return new Promise((resolve, reject) => {
-      const fontColor = color.replace('#', '');
-      const safeText = escapeDrawtextValue(text);
-      const fontFile = resolveFontFile(fontFamily, bold, italic);
-      const fontFileOption = fontFile ? `:fontfile='${escapeDrawtextValue(fontFile)}'` : '';
-      const endTime = startTime + duration;
-      const useAnimation = animate && duration > 0;
-      const effectiveEndX = Number.isFinite(endX) ? endX : x;
-      const effectiveEndY = Number.isFinite(endY) ? endY : y;
-
-      const xExpr = useAnimation
-        ? `if(lte(t,${startTime}),${x},if(gte(t,${endTime}),${effectiveEndX},${x}+(${effectiveEndX}-${x})*(t-${startTime})/${duration}))`
-        : `${x}`;
-      const yExpr = useAnimation
-        ? `if(lte(t,${startTime}),${y},if(gte(t,${endTime}),${effectiveEndY},${y}+(${effectiveEndY}-${y})*(t-${startTime})/${duration}))`
-        : `${y}`;
-
-      const alignOffset = align === 'center' ? 'text_w/2' : align === 'right' ? 'text_w' : '0';
-      const alignedX = alignOffset === '0' ? xExpr : `(${xExpr})-${alignOffset}`;
-
-      const textFilter = `drawtext=text='${safeText}':x=${alignedX}:y=${yExpr}:fontsize=${fontSize}:fontcolor=0x${fontColor}${fontFileOption}:enable='between(t,${startTime},${endTime})'`;
+    const [source, videoEncoder] = await Promise.all([
+      this.probeTimelineSource(videoPath),
+      this.resolveVideoEncoder('h264'),
+    ]);
 
+    return new Promise((resolve, reject) => {
       const command = ffmpeg(videoPath)
-        .videoFilters(textFilter)
-        .outputOptions(['-c:a copy'])
+        .complexFilter(buildTextOverlayParts(overlay, '[0:v]', '[outv]', source, 'text'))
+        .outputOptions([
+          '-map [outv]',
+          '-map 0:a?',
+          ...buildVideoEncoderOptions({ bitrate: '', videoEncoder }),
+          '-c:a copy',
+        ])
         .output(outputPath);
 
       command.on('progress', (progress) => {
@@ -380,45 +1344,73 @@ export class FFmpegService {
       command.on('error', reject);
 
       command.run();
+      bindAbortSignal(command, signal);
     });
   }
 
   /**
-   * Render a timeline by trimming and concatenating segments.
+   * Lay an image over video for a time range
    */
-  async renderTimeline(
+  async addImageOverlay(
     videoPath: string,
     outputPath: string,
-    segments: { start: number; end: number }[],
-    onProgress?: (progress: number) => void
+    overlay: ImageOverlay,
+    onProgress?: (progress: number) => void,
+    signal?: AbortSignal
   ): Promise<string> {
-    return new Promise((resolve, reject) => {
-      if (segments.length === 0) {
-        reject(new Error('No timeline segments provided'));
-        return;
-      }
+    const [source, videoEncoder] = await Promise.all([
+      this.probeTimelineSource(videoPath),
+      this.resolveVideoEncoder('h264'),
+    ]);
 
-      const filterParts: string[] = [];
-      const concatInputs: string[] = [];
+    return new Promise((resolve, reject) => {
+      const command = ffmpeg(videoPath)
+        .input(overlay.path)
+        .complexFilter(buildImageOverlayParts(overlay, '[0:v]', '[1:v]', '[overlaid]', source.width, 'image'))
+        .outputOptions([
+          '-map [overlaid]',
+          '-map 0:a?',
+          ...buildVideoEncoderOptions({ bitrate: '', videoEncoder }),
+          '-c:a copy',
+        ])
+        .output(outputPath);
 
-      segments.forEach((segment, index) => {
-        const start = Math.max(0, segment.start);
-        const end = Math.max(start + 0.1, segment.end);
-        filterParts.push(`[0:v]trim=start=${start}:end=${end},setpts=PTS-STARTPTS[v${index}]`);
-        filterParts.push(`[0:a]atrim=start=${start}:end=${end},asetpts=PTS-STARTPTS[a${index}]`);
-        concatInputs.push(`[v${index}][a${index}]`);
+      command.on('progress', (progress) => {
+        if (onProgress && progress.percent) {
+          onProgress(Math.round(progress.percent));
+        }
       });
 
-      filterParts.push(`${concatInputs.join('')}concat=n=${segments.length}:v=1:a=1[outv][outa]`);
+      command.on('end', () => resolve(outputPath));
+      command.on('error', reject);
 
-      const command = ffmpeg(videoPath)
-        .complexFilter(filterParts)
+      command.run();
+      bindAbortSignal(command, signal);
+    });
+  }
+
+  /**
+   * Render a timeline by trimming and concatenating segments.
+   */
+  async renderTimeline(
+    videoPath: string,
+    outputPath: string,
+    segments: TimelineSegment[],
+    onProgress?: (progress: number) => void,
+    signal?: AbortSignal
+  ): Promise<string> {
+    const timeline = await this.buildTimelineGraph(videoPath, segments, '[outv]', '[outa]');
+    const videoEncoder = await this.resolveVideoEncoder('h264');
+
+    return new Promise((resolve, reject) => {
+      const command = ffmpeg();
+      timeline.sourcePaths.forEach((sourcePath) => command.input(sourcePath));
+      command
+        .complexFilter(timeline.filterParts)
         .outputOptions([
           '-map [outv]',
           '-map [outa]',
-          '-c:v libx264',
-          '-preset medium',
-          '-crf 22',
+          ...buildVideoEncoderOptions({ bitrate: '', videoEncoder }),
           '-c:a aac',
           '-b:a 192k',
         ])
@@ -434,9 +1426,377 @@ export class FFmpegService {
       command.on('error', reject);
 
       command.run();
+      bindAbortSignal(command, signal);
+    });
+  }
+
+  /**
+   * Render a full edit (timeline, redactions, annotations, crop, zoom, images, text, audio, output preset) with a single encode
+   */
+  async renderEdit(
+    options: EditRenderOptions,
+    outputPath: string,
+    onProgress?: (progress: number) => void,
+    signal?: AbortSignal
+  ): Promise<string> {
+    const audioTracks = (options.audioTracks ?? []).filter((track) => {
+      const exists = fs.existsSync(track.path);
+      if (!exists) {
+        console.warn('Skipping missing audio track:', track.path);
+      }
+      return exists;
+    });
+    // Sources with separate tracks leave out their mixed audio; the tracks are mixed back in below
+    const timeline = await this.buildTimelineGraph(
+      options.sourcePath,
+      options.segments,
+      '[cv]',
+      '[ca]',
+      audioTracks.map((track) => track.sourcePath)
+    );
+    const videoEncoder = await this.resolveVideoEncoder(options.output.codec ?? 'h264', options.output.encoder);
+    const filterParts = [...timeline.filterParts];
+
+    // Images are extra inputs after the timeline sources, followed by recorded annotations
+    const imageOverlays = (options.imageOverlays ?? []).filter((overlay) => {
+      const exists = fs.existsSync(overlay.path);
+      if (!exists) {
+        console.warn('Skipping missing overlay image:', overlay.path);
+      }
+      return exists;
+    });
+    const annotations = (options.annotations ?? []).filter((annotation) => {
+      if (annotation.pixelate) return annotation.pixelate.width > 0 && annotation.pixelate.height > 0;
+      const exists = Boolean(annotation.imagePath && fs.existsSync(annotation.imagePath));
+      if (!exists) {
+        console.warn('Skipping missing annotation image:', annotation.imagePath);
+      }
+      return exists;
+    });
+    const annotationImagePaths: string[] = [];
+
+    // Redactions and annotations cover the screen itself, so crop and zoom treat them like the screen content
+    let videoLabel = '[cv]';
+    (options.redactions ?? []).forEach((redaction, index) => {
+      const redactionLabel = `[vredaction${index}]`;
+      filterParts.push(...buildRedactionParts(redaction, videoLabel, redactionLabel, timeline, `redactionlayer${index}`));
+      videoLabel = redactionLabel;
+    });
+    annotations.forEach((annotation, index) => {
+      const annotationLabel = `[vannotation${index}]`;
+      let imageInput: string | null = null;
+      if (annotation.imagePath && !annotation.pixelate) {
+        imageInput = `[${timeline.sourcePaths.length + imageOverlays.length + annotationImagePaths.length}:v]`;
+        annotationImagePaths.push(annotation.imagePath);
+      }
+      filterParts.push(
+        ...buildAnnotationParts(
+          annotation,
+          videoLabel,
+          imageInput,
+          annotationLabel,
+          timeline,
+          `annotationlayer${index}`
+        )
+      );
+      videoLabel = annotationLabel;
+    });
+
+    const videoFilters: string[] = [];
+    // The halo and ripples are drawn on the full frame so crop and zoom treat them like the screen content
+    const { cursor } = options;
+    const cursorEffects = cursor ? buildCursorEffectsAss(cursor, timeline.width, timeline.height, timeline.duration) : null;
+    let cursorEffectsPath: string | null = null;
+    if (cursorEffects) {
+      cursorEffectsPath = `${outputPath}.cursor.ass`;
+      fs.writeFileSync(cursorEffectsPath, cursorEffects);
+      videoFilters.push(`subtitles=filename='${escapeDrawtextValue(cursorEffectsPath.replace(/\\/g, '/'))}'`);
+    }
+
+    const { crop } = options;
+    const hasCrop = Boolean(crop && crop.width > 0.5 && crop.height > 0.5);
+    let frameSize = { width: timeline.width, height: timeline.height };
+    if (crop && hasCrop) {
+      // Percent-based crop resolved against the normalized frame, kept even for yuv420p
+      videoFilters.push(
+        `crop=trunc(iw*${crop.width / 100}/2)*2:trunc(ih*${crop.height / 100}/2)*2:` +
+          `iw*${crop.x / 100}:ih*${crop.y / 100}`
+      );
+      frameSize = {
+        width: Math.trunc((timeline.width * crop.width) / 100 / 2) * 2,
+        height: Math.trunc((timeline.height * crop.height) / 100 / 2) * 2,
+      };
+    }
+
+    if (cursor) {
+      // Zoom focus follows the cursor inside the cropped frame
+      const samples = crop && hasCrop
+        ? cursor.samples.map((sample) => ({
+            ...sample,
+            x: (sample.x - crop.x / 100) / (crop.width / 100),
+            y: (sample.y - crop.y / 100) / (crop.height / 100),
+          }))
+        : cursor.samples;
+      const zoomFilter = buildZoomFilter(cursor.zoom, samples, frameSize, timeline.fps);
+      if (zoomFilter) {
+        videoFilters.push(zoomFilter);
+      }
+    }
+
+    // Keyframed zooms frame the picture as previewed, after any cursor zoom
+    const keyframeZoomFilter = options.zoomSegments?.length
+      ? buildKeyframeZoomFilter(options.zoomSegments, frameSize, timeline.fps)
+      : null;
+    if (keyframeZoomFilter) {
+      videoFilters.push(keyframeZoomFilter);
+    }
+
+    // Overlays are steps of their own in the graph since they composite extra layers
+    if (videoFilters.length > 0) {
+      filterParts.push(`${videoLabel}${videoFilters.join(',')}[vfx]`);
+      videoLabel = '[vfx]';
+    }
+    // Text is drawn above the images
+    imageOverlays.forEach((overlay, index) => {
+      const imageLabel = `[vimage${index}]`;
+      filterParts.push(
+        ...buildImageOverlayParts(
+          overlay,
+          videoLabel,
+          `[${timeline.sourcePaths.length + index}:v]`,
+          imageLabel,
+          frameSize.width,
+          `imagelayer${index}`
+        )
+      );
+      videoLabel = imageLabel;
+    });
+    (options.textOverlays ?? []).forEach((overlay, index) => {
+      const textLabel = `[vtext${index}]`;
+      filterParts.push(
+        ...buildTextOverlayParts(overlay, videoLabel, textLabel, { ...frameSize, fps: timeline.fps }, `textlayer${index}`)
+      );
+      videoLabel = textLabel;
+    });
+
+    const outputFilters: string[] = [];
+    const { output } = options;
+    if (output.width > 0 && output.height > 0) {
+      outputFilters.push(`scale=${output.width}:${output.height}`);
+    }
+
+    // Burned-in subtitles go after scaling so libass renders at the output resolution
+    const { subtitles } = options;
+    let burnedSubtitlesPath: string | null = null;
+    if (subtitles?.mode === 'burn' && subtitles.cues.length > 0) {
+      burnedSubtitlesPath = `${outputPath}.subtitles.srt`;
+      fs.writeFileSync(burnedSubtitlesPath, formatSubtitles(subtitles.cues, 'srt'));
+      outputFilters.push(buildSubtitlesFilter(burnedSubtitlesPath, subtitles.style));
+    }
+    outputFilters.push('format=yuv420p');
+    filterParts.push(`${videoLabel}${outputFilters.join(',')}[outv]`);
+
+    // Audio tracks are inputs after the annotation images, followed by the music
+    const audioTrackInputIndex = timeline.sourcePaths.length + imageOverlays.length + annotationImagePaths.length;
+    const musicInputIndex = audioTrackInputIndex + audioTracks.length;
+    const requestedMusic = options.audio?.music && !options.audio.music.muted ? options.audio.music : null;
+    const music = requestedMusic && fs.existsSync(requestedMusic.path) ? requestedMusic : null;
+    if (requestedMusic && !music) {
+      console.warn('Skipping missing background music:', requestedMusic.path);
+    }
+    // Separate microphone tracks key the ducking so system sounds do not pull the music down
+    const duckKeys: string[] = [];
+    let audioLabel = '[ca]';
+    if (audioTracks.length > 0) {
+      const trackLabels = audioTracks.map((track, index) => {
+        const trackLabel = `[atrack${index}]`;
+        filterParts.push(
+          ...buildAudioTrackParts(
+            track,
+            `[${audioTrackInputIndex + index}:a]`,
+            options.segments,
+            options.sourcePath,
+            timeline.duration,
+            trackLabel,
+            `atrack${index}part`
+          )
+        );
+        if (music?.duck && track.kind === 'microphone') {
+          filterParts.push(`${trackLabel}asplit=2[atrack${index}mix][duckkey${index}]`);
+          duckKeys.push(`[duckkey${index}]`);
+          return `[atrack${index}mix]`;
+        }
+        return trackLabel;
+      });
+      // amix divides every input by the input count, so the sum is scaled back up
+      const inputCount = trackLabels.length + 1;
+      filterParts.push(
+        `[ca]${trackLabels.join('')}amix=inputs=${inputCount}:duration=first:dropout_transition=0,volume=${inputCount}[amixed]`
+      );
+      audioLabel = '[amixed]';
+    }
+
+    const audioFilters = options.audio ? buildAudioLevelFilters(options.audio, timeline.duration) : [];
+    const voiceLabel = music ? '[avoice]' : '[outa]';
+    filterParts.push(`${audioLabel}${audioFilters.length > 0 ? audioFilters.join(',') : 'anull'}${voiceLabel}`);
+
+    if (music) {
+      let voiceMixLabel = voiceLabel;
+      let duckKey: string | null = null;
+      if (music.duck && duckKeys.length > 1) {
+        filterParts.push(`${duckKeys.join('')}amix=inputs=${duckKeys.length}:duration=first:dropout_transition=0[duckkey]`);
+        duckKey = '[duckkey]';
+      } else if (music.duck && duckKeys.length === 1) {
+        duckKey = duckKeys[0];
+      } else if (music.duck) {
+        filterParts.push(`${voiceLabel}asplit=2[avoicemix][duckkey]`);
+        voiceMixLabel = '[avoicemix]';
+        duckKey = '[duckkey]';
+      }
+      filterParts.push(...buildMusicParts(music, `[${musicInputIndex}:a]`, timeline.duration, duckKey, '[amusic]'));
+      filterParts.push(`${voiceMixLabel}[amusic]amix=inputs=2:duration=first:dropout_transition=0,volume=2[outa]`);
+    }
+
+    return new Promise((resolve, reject) => {
+      const command = ffmpeg();
+      timeline.sourcePaths.forEach((sourcePath) => command.input(sourcePath));
+      imageOverlays.forEach((overlay) => command.input(overlay.path));
+      annotationImagePaths.forEach((imagePath) => command.input(imagePath));
+      audioTracks.forEach((track) => command.input(track.path));
+      if (music) {
+        command.input(music.path);
+        if (music.loop) {
+          command.inputOptions('-stream_loop -1');
+        }
+      }
+      const filterScriptPath = attachFilterScript(command, filterParts, outputPath);
+      command
+        .outputOptions([
+          '-map [outv]',
+          '-map [outa]',
+          ...buildVideoEncoderOptions({ ...output, videoEncoder }),
+          // Apple players only recognise HEVC in MP4 with the hvc1 tag
+          ...(output.codec === 'h265' ? ['-tag:v hvc1'] : []),
+          '-c:a aac',
+          '-b:a 192k',
+        ])
+        .output(outputPath);
+      let nextInputIndex = musicInputIndex + (music ? 1 : 0);
+      const softSubtitlesPath = subtitles?.mode === 'soft'
+        ? attachSubtitleStream(command, nextInputIndex, subtitles.cues, outputPath)
+        : null;
+      if (softSubtitlesPath) {
+        nextInputIndex += 1;
+      }
+      const chaptersPath = attachChapters(command, nextInputIndex, options.chapters, timeline.duration, outputPath);
+      const cleanup = () => {
+        removeFile(filterScriptPath);
+        removeFile(chaptersPath);
+        removeFile(softSubtitlesPath);
+        removeFile(burnedSubtitlesPath);
+        removeFile(cursorEffectsPath);
+      };
+
+      // percent is unreliable with several inputs, so measure against the edited duration
+      command.on('progress', (progress) => {
+        if (!onProgress || !progress.timemark || timeline.duration <= 0) return;
+        const elapsed = parseTimemark(progress.timemark);
+        onProgress(Math.min(100, Math.round((elapsed / timeline.duration) * 100)));
+      });
+
+      command.on('end', () => {
+        cleanup();
+        resolve(outputPath);
+      });
+      command.on('error', (error) => {
+        cleanup();
+        reject(error);
+      });
+
+      command.run();
+      bindAbortSignal(command, signal);
     });
   }
 
+  /**
+   * Build the trim/normalize/concat graph shared by timeline renders
+   */
+  private async buildTimelineGraph(
+    videoPath: string,
+    segments: TimelineSegment[],
+    videoLabel: string,
+    audioLabel: string,
+    silencedSources: string[] = []
+  ): Promise<{ sourcePaths: string[]; filterParts: string[]; duration: number; width: number; height: number; fps: number }> {
+    if (segments.length === 0) {
+      throw new Error('No timeline segments provided');
+    }
+
+    // Each distinct source becomes one ffmpeg input
+    const sourcePaths: string[] = [];
+    segments.forEach((segment) => {
+      const sourcePath = segment.sourcePath ?? videoPath;
+      if (!sourcePaths.includes(sourcePath)) {
+        sourcePaths.push(sourcePath);
+      }
+    });
+
+    const sourceInfo = await Promise.all(sourcePaths.map((sourcePath) => this.probeTimelineSource(sourcePath)));
+    const firstSource = sourceInfo[sourcePaths.indexOf(segments[0].sourcePath ?? videoPath)];
+    const targetWidth = toEvenDimension(firstSource.width);
+    const targetHeight = toEvenDimension(firstSource.height);
+    const targetFps = firstSource.fps;
+
+    const filterParts: string[] = [];
+    const concatInputs: string[] = [];
+    let duration = 0;
+
+    segments.forEach((segment, index) => {
+      const inputIndex = sourcePaths.indexOf(segment.sourcePath ?? videoPath);
+      const hasAudio = sourceInfo[inputIndex].hasAudio && !silencedSources.includes(sourcePaths[inputIndex]);
+      const start = Math.max(0, segment.start);
+      const end = Math.max(start + 0.1, segment.end);
+      duration += end - start;
+      // Normalize every segment to the first clip's size and frame rate so concat accepts them
+      filterParts.push(
+        `[${inputIndex}:v]trim=start=${start}:end=${end},setpts=PTS-STARTPTS,` +
+          `scale=${targetWidth}:${targetHeight}:force_original_aspect_ratio=decrease,` +
+          `pad=${targetWidth}:${targetHeight}:(ow-iw)/2:(oh-ih)/2,setsar=1,fps=${targetFps},format=yuv420p[v${index}]`
+      );
+      if (hasAudio) {
+        filterParts.push(
+          `[${inputIndex}:a]atrim=start=${start}:end=${end},asetpts=PTS-STARTPTS,` +
+            `aformat=sample_rates=48000:channel_layouts=stereo[a${index}]`
+        );
+      } else {
+        // Fill sources without an audio track, or whose audio is replaced, with silence of the same length
+        filterParts.push(
+          `anullsrc=channel_layout=stereo:sample_rate=48000,atrim=duration=${end - start},asetpts=PTS-STARTPTS[a${index}]`
+        );
+      }
+      concatInputs.push(`[v${index}][a${index}]`);
+    });
+
+    filterParts.push(`${concatInputs.join('')}concat=n=${segments.length}:v=1:a=1${videoLabel}${audioLabel}`);
+
+    return { sourcePaths, filterParts, duration, width: targetWidth, height: targetHeight, fps: targetFps };
+  }
+
+  /**
+   * Probe the stream layout a timeline source needs for normalization
+   */
+  private async probeTimelineSource(sourcePath: string): Promise<TimelineSourceInfo> {
+    const metadata = await this.getMetadata(sourcePath);
+    const videoStream = metadata.streams.find((stream) => stream.codec_type === 'video');
+    const hasAudio = metadata.streams.some((stream) => stream.codec_type === 'audio');
+    return {
+      width: videoStream?.width || 1920,
+      height: videoStream?.height || 1080,
+      fps: parseFrameRate(videoStream?.avg_frame_rate) ?? parseFrameRate(videoStream?.r_frame_rate) ?? 30,
+      hasAudio,
+    };
+  }
+
   /**
    * Generate a lightweight proxy for editing previews.
    */
@@ -478,7 +1838,8 @@ export class FFmpegService {
       fadeOut: number;
       duration: number;
     },
-    onProgress?: (progress: number) => void
+    onProgress?: (progress: number) => void,
+    signal?: AbortSignal
   ): Promise<string> {
     return new Promise((resolve, reject) => {
       const filters: string[] = [];
@@ -509,54 +1870,213 @@ export class FFmpegService {
       command.on('error', reject);
 
       command.run();
+      bindAbortSignal(command, signal);
     });
   }
 
   /**
-   * Transcode video to a preset size/bitrate.
+   * Whether this ffmpeg build has an audio or video filter (cached)
    */
-  async transcodePreset(
+  private async hasFilter(name: string): Promise<boolean> {
+    if (!this.filterProbe) {
+      this.filterProbe = new Promise<Set<string>>((resolve, reject) => {
+        ffmpeg.getAvailableFilters((error, filters) => {
+          if (error) {
+            reject(error);
+            return;
+          }
+          resolve(new Set(Object.keys(filters)));
+        });
+      }).catch((error) => {
+        console.warn('Filter probe failed:', error);
+        return new Set<string>();
+      });
+    }
+    return (await this.filterProbe).has(name);
+  }
+
+  /**
+   * Run the cleanup chain over a file's audio and normalize it to the target loudness with two loudnorm passes.
+   * Video and other streams are copied.
+   */
+  async enhanceAudio(
     videoPath: string,
     outputPath: string,
-    options: { width: number; height: number; bitrate: string; encoder?: 'auto' | 'cpu' | 'nvenc' | 'qsv' | 'amf'; optimizeForSize?: boolean },
-    onProgress?: (progress: number) => void
+    options: AudioEnhancementOptions,
+    onProgress?: (progress: number) => void,
+    signal?: AbortSignal
   ): Promise<string> {
+    const { enhancement } = options;
+    let rnnoiseModelPath: string | null = null;
+    if (options.rnnoiseModelPath && fs.existsSync(options.rnnoiseModelPath)) {
+      if (await this.hasFilter('arnndn')) {
+        rnnoiseModelPath = options.rnnoiseModelPath;
+      } else {
+        console.warn('This ffmpeg build has no arnndn, using FFT denoising instead');
+      }
+    }
+    const filters = buildEnhancementFilters(enhancement, rnnoiseModelPath);
+
+    // The first pass measures the cleaned audio, so it takes the first half of the progress
+    const target = enhancement.loudnessTarget;
+    if (target !== null) {
+      const measured = await this.measureLoudness(
+        videoPath,
+        filters,
+        target,
+        options.duration,
+        (progress) => onProgress?.(Math.round(progress / 2)),
+        signal
+      );
+      filters.push(
+        `loudnorm=I=${target}:TP=${TRUE_PEAK_LIMIT}:LRA=${LOUDNESS_RANGE}` +
+          `:measured_I=${measured.input_i}:measured_TP=${measured.input_tp}:measured_LRA=${measured.input_lra}` +
+          `:measured_thresh=${measured.input_thresh}:offset=${measured.target_offset}:linear=true`,
+        // loudnorm works at 192 kHz internally and can drop the channel layout on the way out
+        'aresample=48000',
+        'aformat=channel_layouts=mono|stereo'
+      );
+    }
+    if (filters.length === 0) {
+      filters.push('anull');
+    }
+    const progressStart = target !== null ? 50 : 0;
+
     return new Promise((resolve, reject) => {
-      const encoder = options.encoder ?? 'auto';
-      const useHardware = encoder !== 'auto' && encoder !== 'cpu';
-      const selectedEncoder =
-        encoder === 'nvenc'
-          ? 'h264_nvenc'
-          : encoder === 'qsv'
-          ? 'h264_qsv'
-          : encoder === 'amf'
-          ? 'h264_amf'
-          : 'libx264';
+      const command = ffmpeg(videoPath)
+        .audioFilters(filters.join(','))
+        .outputOptions([
+          '-map 0',
+          '-c copy',
+          `-c:a ${options.audioCodec}`,
+          `-b:a ${options.audioBitrate}`,
+          `-f ${options.format}`,
+        ])
+        .output(outputPath);
 
-      const command = ffmpeg(videoPath);
-      if (options.width > 0 && options.height > 0) {
-        command.videoFilters(`scale=${options.width}:${options.height}`);
-      }
+      command.on('progress', (progress) => {
+        if (!onProgress || !progress.timemark || options.duration <= 0) return;
+        const elapsed = parseTimemark(progress.timemark);
+        onProgress(Math.min(100, progressStart + Math.round((elapsed / options.duration) * (100 - progressStart))));
+      });
+
+      command.on('end', () => resolve(outputPath));
+      command.on('error', reject);
 
-      const outputOptions: string[] = [];
+      command.run();
+      bindAbortSignal(command, signal);
+    });
+  }
 
-      if (useHardware) {
-        outputOptions.push(`-c:v ${selectedEncoder}`);
-        outputOptions.push(`-b:v ${options.bitrate}`);
-        outputOptions.push('-maxrate', options.bitrate, '-bufsize', options.bitrate);
-        if (options.optimizeForSize) {
-          outputOptions.push('-rc:v vbr', '-cq', '25');
+  /**
+   * First loudnorm pass; the measurement is only printed to the log
+   */
+  private measureLoudness(
+    videoPath: string,
+    filters: string[],
+    target: number,
+    duration: number,
+    onProgress?: (progress: number) => void,
+    signal?: AbortSignal
+  ): Promise<LoudnessMeasurement> {
+    return new Promise((resolve, reject) => {
+      const log: string[] = [];
+      const command = ffmpeg(videoPath)
+        .noVideo()
+        .audioFilters(
+          [...filters, `loudnorm=I=${target}:TP=${TRUE_PEAK_LIMIT}:LRA=${LOUDNESS_RANGE}:print_format=json`].join(',')
+        )
+        .format('null')
+        .output('-');
+
+      command.on('stderr', (line: string) => log.push(line));
+      command.on('progress', (progress) => {
+        if (!onProgress || !progress.timemark || duration <= 0) return;
+        onProgress(Math.min(100, Math.round((parseTimemark(progress.timemark) / duration) * 100)));
+      });
+      command.on('end', () => {
+        const json = log.join('\n').match(/\{[^{}]*"input_i"[^{}]*\}/);
+        if (!json) {
+          reject(new Error('Loudness measurement missing from ffmpeg output'));
+          return;
         }
-      } else {
-        outputOptions.push('-c:v libx264');
-        if (options.optimizeForSize) {
-          outputOptions.push('-preset slow', '-crf 28');
-        } else {
-          outputOptions.push('-preset medium', `-b:v ${options.bitrate}`, '-maxrate', options.bitrate, '-bufsize', options.bitrate);
+        try {
+          resolve(JSON.parse(json[0]) as LoudnessMeasurement);
+        } catch (error) {
+          reject(error);
+        }
+      });
+      command.on('error', reject);
+
+      command.run();
+      bindAbortSignal(command, signal);
+    });
+  }
+
+  /**
+   * Find pauses in a file's audio with silencedetect; a pause running into the end of the file closes at its duration
+   */
+  async detectSilences(sourcePath: string, options: SilenceDetectionOptions, signal?: AbortSignal): Promise<SilenceRange[]> {
+    const metadata = await this.getMetadata(sourcePath);
+    if (!metadata.streams.some((stream) => stream.codec_type === 'audio')) {
+      return [];
+    }
+    const duration = Number(metadata.format.duration) || 0;
+
+    return new Promise((resolve, reject) => {
+      const silences: SilenceRange[] = [];
+      let openStart: number | null = null;
+      const command = ffmpeg(sourcePath)
+        .noVideo()
+        .audioFilters(`silencedetect=noise=${options.threshold}dB:d=${Math.max(0.05, options.minDuration)}`)
+        .format('null')
+        .output('-');
+
+      // silencedetect only reports through the log
+      command.on('stderr', (line: string) => {
+        const start = line.match(/silence_start: (-?[\d.]+)/);
+        if (start) {
+          openStart = Math.max(0, Number(start[1]));
+          return;
         }
+        const end = line.match(/silence_end: ([\d.]+)/);
+        if (end && openStart !== null) {
+          silences.push({ start: openStart, end: Number(end[1]) });
+          openStart = null;
+        }
+      });
+      command.on('end', () => {
+        if (openStart !== null && duration > openStart) {
+          silences.push({ start: openStart, end: duration });
+        }
+        resolve(silences);
+      });
+      command.on('error', reject);
+
+      command.run();
+      bindAbortSignal(command, signal);
+    });
+  }
+
+  /**
+   * Transcode video to a preset size/bitrate.
+   */
+  async transcodePreset(
+    videoPath: string,
+    outputPath: string,
+    options: { width: number; height: number; bitrate: string; encoder?: ExportEncoder; optimizeForSize?: boolean },
+    onProgress?: (progress: number) => void,
+    signal?: AbortSignal
+  ): Promise<string> {
+    const videoEncoder = await this.resolveVideoEncoder('h264', options.encoder);
+
+    return new Promise((resolve, reject) => {
+      const command = ffmpeg(videoPath);
+      if (options.width > 0 && options.height > 0) {
+        command.videoFilters(`scale=${options.width}:${options.height}`);
       }
 
-      outputOptions.push('-c:a aac', '-b:a 192k');
+      const outputOptions = [...buildVideoEncoderOptions({ ...options, videoEncoder }), '-c:a aac', '-b:a 192k'];
 
       command.outputOptions(outputOptions).output(outputPath);
 
@@ -570,27 +2090,233 @@ export class FFmpegService {
       command.on('error', reject);
 
       command.run();
+      bindAbortSignal(command, signal);
+    });
+  }
+
+  /**
+   * Convert a WebM recording to a seekable MP4, copying the video stream when remuxing
+   */
+  async convertToMp4(
+    videoPath: string,
+    outputPath: string,
+    options: Mp4ConversionOptions,
+    onProgress?: (progress: number) => void,
+    signal?: AbortSignal
+  ): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const outputOptions =
+        options.mode === 'remux'
+          ? ['-c:v copy']
+          : [
+              `-c:v ${options.videoEncoder}`,
+              `-b:v ${options.videoBitrate}`,
+              '-pix_fmt yuv420p',
+              // Apple players only recognise HEVC in MP4 with the hvc1 tag
+              ...(options.videoEncoder.includes('265') || options.videoEncoder.startsWith('hevc')
+                ? ['-tag:v hvc1']
+                : []),
+            ];
+      outputOptions.push('-c:a aac', `-b:a ${options.audioBitrate}`, '-movflags +faststart', '-f mp4');
+
+      const command = ffmpeg(videoPath).outputOptions(outputOptions).output(outputPath);
+      const chaptersPath = attachChapters(command, 1, options.chapters, options.duration, outputPath);
+
+      // MediaRecorder WebM files carry no duration, so measure against the recorded length
+      command.on('progress', (progress) => {
+        if (!onProgress || !progress.timemark || options.duration <= 0) return;
+        const elapsed = parseTimemark(progress.timemark);
+        onProgress(Math.min(100, Math.round((elapsed / options.duration) * 100)));
+      });
+
+      command.on('end', () => {
+        removeFile(chaptersPath);
+        resolve(outputPath);
+      });
+      command.on('error', (error) => {
+        removeFile(chaptersPath);
+        reject(error);
+      });
+
+      command.run();
+      bindAbortSignal(command, signal);
+    });
+  }
+
+  /**
+   * Convert a video to an animated GIF, a WebM or an audio-only file.
+   * GIFs get a palette generated from the clip itself so gradients and UI colors survive the 256-color limit.
+   */
+  async exportFormat(
+    videoPath: string,
+    outputPath: string,
+    options: FormatExportOptions,
+    onProgress?: (progress: number) => void,
+    signal?: AbortSignal
+  ): Promise<string> {
+    const { format, width, height, bitrate } = options;
+    const command = ffmpeg(videoPath);
+
+    if (format === 'gif') {
+      const gifFilters = [`fps=${options.fps ?? 12}`];
+      if (width > 0) {
+        gifFilters.push(`scale=${width}:-1:flags=lanczos`);
+      }
+      command
+        .complexFilter([
+          `[0:v]${gifFilters.join(',')},split[gifa][gifb]`,
+          '[gifa]palettegen=stats_mode=diff[palette]',
+          '[gifb][palette]paletteuse=dither=bayer:bayer_scale=5:diff_mode=rectangle[outv]',
+        ])
+        .outputOptions(['-map [outv]', '-loop 0', '-f gif']);
+    } else if (format === 'webm-vp9' || format === 'webm-av1') {
+      const videoEncoder = format === 'webm-vp9' ? 'libvpx-vp9' : await this.resolveAv1Encoder();
+      if (width > 0 && height > 0) {
+        command.videoFilters(`scale=${width}:${height}`);
+      }
+      const rateOptions = bitrate ? [`-b:v ${bitrate}`] : videoEncoder === 'libsvtav1' ? ['-crf 35'] : ['-crf 32', '-b:v 0'];
+      const speedOptions =
+        videoEncoder === 'libvpx-vp9'
+          ? ['-deadline good', '-cpu-used 2', '-row-mt 1']
+          : videoEncoder === 'libsvtav1'
+          ? ['-preset 8']
+          : // Older builds still flag libaom as experimental
+            ['-cpu-used 6', '-row-mt 1', '-strict experimental'];
+      // Soft subtitles are converted to WebVTT, the only subtitle codec WebM takes; chapters carry over as they are
+      command.outputOptions([
+        '-map 0:v:0',
+        '-map 0:a:0?',
+        '-map 0:s?',
+        '-map_chapters 0',
+        `-c:v ${videoEncoder}`,
+        ...rateOptions,
+        ...speedOptions,
+        '-pix_fmt yuv420p',
+        '-c:a libopus',
+        '-b:a 128k',
+        '-c:s webvtt',
+        '-f webm',
+      ]);
+    } else {
+      const metadata = await this.getMetadata(videoPath);
+      if (!metadata.streams.some((stream) => stream.codec_type === 'audio')) {
+        throw new Error('This video has no audio to export');
+      }
+      const audioOptions =
+        format === 'mp3'
+          ? ['-c:a libmp3lame', `-b:a ${bitrate || '192k'}`, '-f mp3']
+          : format === 'm4a'
+          ? ['-c:a aac', `-b:a ${bitrate || '192k'}`, '-movflags +faststart', '-f ipod']
+          : ['-c:a pcm_s16le', '-f wav'];
+      command.outputOptions(['-map 0:a:0', '-vn', ...audioOptions]);
+    }
+
+    return new Promise((resolve, reject) => {
+      command.output(outputPath);
+
+      command.on('progress', (progress) => {
+        if (!onProgress || !progress.timemark || options.duration <= 0) return;
+        const elapsed = parseTimemark(progress.timemark);
+        onProgress(Math.min(100, Math.round((elapsed / options.duration) * 100)));
+      });
+
+      command.on('end', () => resolve(outputPath));
+      command.on('error', reject);
+
+      command.run();
+      bindAbortSignal(command, signal);
+    });
+  }
+
+  /**
+   * SVT-AV1 is much faster than libaom, so it is preferred when the build has both
+   */
+  private async resolveAv1Encoder(): Promise<string> {
+    const { videoEncoders } = await this.probeEncoders();
+    if (videoEncoders.length === 0) {
+      return 'libaom-av1';
+    }
+    const encoder = ['libsvtav1', 'libaom-av1'].find((name) => videoEncoders.includes(name));
+    if (!encoder) {
+      throw new Error('This ffmpeg build has no AV1 encoder');
+    }
+    return encoder;
+  }
+
+  /**
+   * Copy a video with chapters and/or a soft subtitle stream added, without re-encoding
+   */
+  async remuxWithExtras(
+    videoPath: string,
+    outputPath: string,
+    extras: { chapters?: RecordingMarker[]; subtitles?: SubtitleCue[] },
+    duration: number,
+    signal?: AbortSignal
+  ): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const command = ffmpeg(videoPath).outputOptions(['-map 0', '-c copy']).output(outputPath);
+      const subtitlesPath = attachSubtitleStream(command, 1, extras.subtitles, outputPath);
+      const chaptersPath = attachChapters(command, subtitlesPath ? 2 : 1, extras.chapters, duration, outputPath);
+      const cleanup = () => {
+        removeFile(chaptersPath);
+        removeFile(subtitlesPath);
+      };
+
+      command.on('end', () => {
+        cleanup();
+        resolve(outputPath);
+      });
+      command.on('error', (error) => {
+        cleanup();
+        reject(error);
+      });
+
+      command.run();
+      bindAbortSignal(command, signal);
     });
   }
 
   /**
    * Generate an audio waveform image for a timeline preview.
+   * With music, the recording and the music are drawn as two lanes of half the height each.
    */
   async generateWaveformImage(
     videoPath: string,
     outputPath: string,
     width = 1280,
-    height = 200
+    height = 200,
+    music?: WaveformMusicLane
   ): Promise<string> {
     return new Promise((resolve, reject) => {
-      const command = ffmpeg(videoPath)
-        .outputOptions([
+      const command = ffmpeg(videoPath);
+      if (music) {
+        const laneHeight = Math.max(1, Math.round(height / 2));
+        command.input(music.path);
+        if (music.loop) {
+          command.inputOptions('-stream_loop -1');
+        }
+        command.outputOptions([
+          '-filter_complex',
+          [
+            `[0:a]showwavespic=s=${width}x${laneHeight}:colors=white[voicelane]`,
+            `[1:a]apad,atrim=duration=${Math.max(0.1, music.duration)},` +
+              `showwavespic=s=${width}x${laneHeight}:colors=${MUSIC_WAVEFORM_COLOR}[musiclane]`,
+            '[voicelane][musiclane]vstack[waveform]',
+          ].join(';'),
+          '-map',
+          '[waveform]',
+          '-frames:v',
+          '1',
+        ]);
+      } else {
+        command.outputOptions([
           '-filter_complex',
           `showwavespic=s=${width}x${height}:colors=white`,
           '-frames:v',
           '1',
-        ])
-        .output(outputPath);
+        ]);
+      }
+      command.output(outputPath);
 
       command.on('end', () => resolve(outputPath));
       command.on('error', reject);
@@ -0,0 +1,196 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { getFFmpegService } from './FFmpegService';
+import type { Mp4ConversionOptions } from './FFmpegService';
+import type { StorageService } from './StorageService';
+import { QUALITY_PRESETS } from '../../shared/constants/quality';
+import { relinkEditSource } from '../../shared/utils/clips';
+import type { Mp4ConversionMode, Recording, RecordingConversion } from '../../shared/types';
+
+// Codecs the MP4 muxer accepts as-is; anything else (VP8) has to be re-encoded
+const REMUXABLE_VIDEO_CODECS = new Set(['vp9', 'h264', 'hevc', 'av1']);
+
+export class RecordingConversionService {
+  private storageService: StorageService;
+  private notify: (recording: Recording) => void;
+  private onRelinked: (fromPath: string, toPath: string) => void;
+  private queue: string[];
+  private active: { id: string; controller: AbortController } | null;
+
+  /**
+   * @param onRelinked Runs when a converted file replaces the WebM, so pending work can follow it
+   */
+  constructor(
+    storageService: StorageService,
+    notify: (recording: Recording) => void,
+    onRelinked: (fromPath: string, toPath: string) => void
+  ) {
+    this.storageService = storageService;
+    this.notify = notify;
+    this.onRelinked = onRelinked;
+    this.queue = [];
+    this.active = null;
+  }
+
+  /**
+   * Queue a freshly saved recording when MP4 conversion is enabled
+   */
+  handleSaved(recording: Recording): void {
+    if ((this.storageService.getSettings().mp4Conversion ?? 'off') === 'off') return;
+    this.enqueue(recording.id);
+  }
+
+  enqueue(id: string): void {
+    const recording = this.storageService.getRecordingById(id);
+    if (!recording || recording.deletedAt || path.extname(recording.path).toLowerCase() !== '.webm') return;
+    if (this.queue.includes(id) || this.active?.id === id) return;
+
+    this.queue.push(id);
+    this.setConversion(id, { status: 'queued', progress: 0 });
+    this.processQueue();
+  }
+
+  cancel(id: string): void {
+    this.queue = this.queue.filter((queuedId) => queuedId !== id);
+    if (this.active?.id === id) {
+      this.active.controller.abort();
+    }
+  }
+
+  /**
+   * Re-queue conversions that were interrupted by an app restart
+   */
+  resumeInterrupted(): void {
+    this.storageService
+      .getRecordings()
+      .filter((recording) => recording.conversion && recording.conversion.status !== 'failed')
+      .forEach((recording) => this.enqueue(recording.id));
+  }
+
+  private setConversion(id: string, conversion: RecordingConversion | null, persist = true): void {
+    if (persist) {
+      this.storageService.updateRecording(id, { conversion });
+    }
+    const recording = this.storageService.getRecordingById(id);
+    if (recording) {
+      this.notify({ ...recording, conversion });
+    }
+  }
+
+  private processQueue(): void {
+    if (this.active) return;
+    const id = this.queue.shift();
+    if (!id) return;
+
+    const controller = new AbortController();
+    this.active = { id, controller };
+    this.convert(id, controller.signal)
+      .catch((error) => {
+        console.error('MP4 conversion failed unexpectedly:', error);
+      })
+      .finally(() => {
+        this.active = null;
+        this.processQueue();
+      });
+  }
+
+  private async convert(id: string, signal: AbortSignal): Promise<void> {
+    const recording = this.storageService.getRecordingById(id);
+    if (!recording || !fs.existsSync(recording.path)) {
+      this.setConversion(id, null);
+      return;
+    }
+
+    const settings = this.storageService.getSettings();
+    const preset = QUALITY_PRESETS[recording.quality] ?? QUALITY_PRESETS['1080p'];
+    const outputPath = this.resolveOutputPath(recording.path);
+    // Keep the partial file out of the library scan until it is complete
+    const partPath = `${outputPath}.part`;
+    const options: Mp4ConversionOptions = {
+      mode: await this.resolveMode(recording.path, settings.mp4Conversion),
+      duration: recording.duration,
+      videoEncoder: await getFFmpegService().resolveVideoEncoder(
+        preset.codec,
+        settings.useHardwareEncoder ? 'auto' : 'cpu'
+      ),
+      videoBitrate: preset.videoBitrate,
+      audioBitrate: preset.audioBitrate,
+      chapters: recording.markers,
+    };
+    const onProgress = (progress: number) => this.setConversion(id, { status: 'converting', progress }, false);
+
+    this.setConversion(id, { status: 'converting', progress: 0 });
+    try {
+      await getFFmpegService().convertToMp4(recording.path, partPath, options, onProgress, signal);
+
+      if (signal.aborted) {
+        throw new Error('Conversion cancelled');
+      }
+
+      fs.renameSync(partPath, outputPath);
+
+      // The recording may have been purged while ffmpeg was running
+      if (!this.storageService.getRecordingById(id)) {
+        fs.rmSync(outputPath, { force: true });
+        return;
+      }
+
+      this.storageService.updateRecording(id, {
+        path: outputPath,
+        fileSize: fs.statSync(outputPath).size,
+        conversion: null,
+      });
+      this.relinkProjects(recording.path, outputPath);
+      this.onRelinked(recording.path, outputPath);
+      this.setConversion(id, null, false);
+      // The MP4 is in place by now; a WebM still open elsewhere (Windows locks it) is only left behind
+      try {
+        fs.rmSync(recording.path, { force: true });
+      } catch (error) {
+        console.warn('Failed to remove the converted WebM:', error);
+      }
+    } catch (error) {
+      fs.rmSync(partPath, { force: true });
+      if (signal.aborted) {
+        if (this.storageService.getRecordingById(id)) {
+          this.setConversion(id, null);
+        }
+        return;
+      }
+      console.error('MP4 conversion failed:', error);
+      this.setConversion(id, {
+        status: 'failed',
+        progress: 0,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /**
+   * Point saved projects at the converted file before the WebM is removed
+   */
+  private relinkProjects(fromPath: string, toPath: string): void {
+    this.storageService
+      .getProjects()
+      .filter((project) => project.clips.some((clip) => clip.sourcePath === fromPath))
+      .forEach((project) => this.storageService.saveProject(relinkEditSource(project, fromPath, toPath)));
+  }
+
+  private async resolveMode(videoPath: string, setting?: Mp4ConversionMode): Promise<'remux' | 'transcode'> {
+    if (setting === 'transcode') return 'transcode';
+    try {
+      const metadata = await getFFmpegService().getMetadata(videoPath);
+      const videoStream = metadata.streams.find((stream) => stream.codec_type === 'video');
+      return videoStream?.codec_name && REMUXABLE_VIDEO_CODECS.has(videoStream.codec_name) ? 'remux' : 'transcode';
+    } catch (error) {
+      console.warn('Failed to probe recording codec, transcoding instead:', error);
+      return 'transcode';
+    }
+  }
+
+  private resolveOutputPath(sourcePath: string): string {
+    const basePath = sourcePath.replace(/\.\w+$/, '');
+    const outputPath = `${basePath}.mp4`;
+    return fs.existsSync(outputPath) ? `${basePath}-${Date.now()}.mp4` : outputPath;
+  }
+}
@@ -2,7 +2,7 @@ import fs from 'node:fs';
 import path from 'node:path';
 import { randomUUID } from 'node:crypto';
 import { getFFmpegService } from './FFmpegService';
-import type { Recording, QualityPreset } from '../../shared/types';
+import type { Recording, RecordingFinalizeMeta } from '../../shared/types';
 import type { StorageService } from './StorageService';
 
 const EXTENSION_BY_MIME: Record<string, string> = {
@@ -39,7 +39,7 @@ export class RecordingRecoveryService {
     fs.appendFileSync(filePath, buffer);
   }
 
-  async finalize(id: string, meta: { duration: number; quality: QualityPreset }): Promise<Recording> {
+  async finalize(id: string, meta: RecordingFinalizeMeta): Promise<Recording> {
     const filePath = this.active.get(id);
     if (!filePath) {
       throw new Error('Recovery session not found');
@@ -81,6 +81,7 @@ export class RecordingRecoveryService {
       createdAt,
       thumbnailPath,
       deletedAt: null,
+      markers: meta.markers ?? [],
     };
 
     this.storageService.addRecording(recording);
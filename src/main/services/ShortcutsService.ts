@@ -33,6 +33,13 @@ export class ShortcutsService {
         this.mainWindow.webContents.send('shortcut:drawing');
       });
     }
+
+    // Register marker shortcut
+    if (settings.shortcuts.marker) {
+      this.registerShortcut(settings.shortcuts.marker, () => {
+        this.mainWindow.webContents.send('shortcut:marker');
+      });
+    }
   }
 
   private registerShortcut(accelerator: string, callback: () => void): void {
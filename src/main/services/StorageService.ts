@@ -2,7 +2,15 @@ import { app } from 'electron';
 import path from 'node:path';
 import fs from 'node:fs';
 import { randomUUID } from 'node:crypto';
-import type { AppSettings, Recording } from '../../shared/types';
+import type {
+  AnnotationLayer,
+  AppSettings,
+  AudioTrackKind,
+  CursorTrack,
+  Recording,
+  TimelineProject,
+  Transcript,
+} from '../../shared/types';
 
 // Simple JSON file-based store (electron-store is ESM-only in v11+)
 class SimpleStore<T extends Record<string, unknown>> {
@@ -72,6 +80,7 @@ export class StorageService {
         startStop: 'CommandOrControl+Shift+R',
         pause: 'CommandOrControl+Shift+P',
         drawing: 'CommandOrControl+Shift+D',
+        marker: 'CommandOrControl+Shift+M',
       },
       webcam: {
         shape: 'circle',
@@ -81,6 +90,35 @@ export class StorageService {
         positionBySource: {},
         deviceId: null,
       },
+      captureRegionByDisplay: {},
+      mp4Conversion: 'off',
+      useHardwareEncoder: false,
+      separateAudioTracks: false,
+      transcription: {
+        binaryPath: '',
+        modelPath: '',
+        language: 'auto',
+        autoTranscribe: false,
+      },
+      audioCleanup: {
+        autoEnhance: false,
+        preset: 'voice',
+        rnnoiseModelPath: '',
+      },
+      microphoneProcessing: {
+        gain: 0,
+        gate: false,
+        gateThreshold: -50,
+        compressor: false,
+        monitor: false,
+      },
+      exportPresets: [],
+      drawing: {
+        fadeStrokes: false,
+        fadeAfter: 2,
+        autoClear: false,
+        autoClearAfter: 10,
+      },
     };
 
     this.migrateLegacyConfig();
@@ -152,7 +190,12 @@ export class StorageService {
 
   // Settings methods
   getSettings(): AppSettings {
-    return this.store.get('settings', this.defaultSettings);
+    const settings = this.store.get('settings', this.defaultSettings);
+    // Settings saved by older versions lack shortcuts added since
+    return {
+      ...settings,
+      shortcuts: { ...this.defaultSettings.shortcuts, ...settings.shortcuts },
+    };
   }
 
   setSettings(settings: Partial<AppSettings>): void {
@@ -180,6 +223,10 @@ export class StorageService {
             ...(settings.webcam?.positionBySource ?? {}),
           },
         },
+        captureRegionByDisplay: {
+          ...(current.captureRegionByDisplay ?? {}),
+          ...(settings.captureRegionByDisplay ?? {}),
+        },
       };
     this.store.set('settings', updated);
 
@@ -243,6 +290,15 @@ export class StorageService {
 
     const filtered = recordings.filter((r) => r.id !== id);
     this.store.set('recordings', filtered);
+
+    // Projects can't be resumed once their source recording is gone
+    this.getProjects()
+      .filter((project) => project.recordingId === id)
+      .forEach((project) => this.deleteProject(project.id));
+    this.deleteTranscript(id);
+    this.deleteCursorTrack(id);
+    this.deleteAnnotationLayer(id);
+    this.deleteAudioTracks(recording);
   }
 
   getRecordingById(id: string): Recording | undefined {
@@ -304,6 +360,259 @@ export class StorageService {
     this.store.set('recordings', recordings);
   }
 
+  // Project methods
+  getProjectsPath(): string {
+    return path.join(this.getSettings().storagePath, 'Projects');
+  }
+
+  private getProjectFilePath(id: string): string {
+    return path.join(this.getProjectsPath(), `${path.basename(id)}.choome-project.json`);
+  }
+
+  getProjects(): TimelineProject[] {
+    const projectsPath = this.getProjectsPath();
+    if (!fs.existsSync(projectsPath)) {
+      return [];
+    }
+
+    const projects: TimelineProject[] = [];
+    for (const file of fs.readdirSync(projectsPath)) {
+      if (!file.endsWith('.choome-project.json')) continue;
+      try {
+        const content = fs.readFileSync(path.join(projectsPath, file), 'utf-8');
+        projects.push(JSON.parse(content) as TimelineProject);
+      } catch (error) {
+        console.error(`Failed to read project ${file}:`, error);
+      }
+    }
+
+    return projects.sort(
+      (a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime()
+    );
+  }
+
+  getProjectById(id: string): TimelineProject | null {
+    const filePath = this.getProjectFilePath(id);
+    if (!fs.existsSync(filePath)) {
+      return null;
+    }
+    try {
+      return JSON.parse(fs.readFileSync(filePath, 'utf-8')) as TimelineProject;
+    } catch (error) {
+      console.error('Failed to read project:', error);
+      return null;
+    }
+  }
+
+  saveProject(project: TimelineProject): TimelineProject {
+    const projectsPath = this.getProjectsPath();
+    if (!fs.existsSync(projectsPath)) {
+      fs.mkdirSync(projectsPath, { recursive: true });
+    }
+
+    const existing = this.getProjectById(project.id);
+    const saved: TimelineProject = {
+      ...project,
+      createdAt: existing?.createdAt ?? project.createdAt ?? new Date().toISOString(),
+      updatedAt: new Date().toISOString(),
+    };
+
+    // Write to a temp file first so a crash never leaves a truncated project behind
+    const filePath = this.getProjectFilePath(project.id);
+    const tempPath = `${filePath}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(saved, null, 2));
+    fs.renameSync(tempPath, filePath);
+    return saved;
+  }
+
+  deleteProject(id: string): void {
+    const filePath = this.getProjectFilePath(id);
+    if (fs.existsSync(filePath)) {
+      fs.unlinkSync(filePath);
+    }
+  }
+
+  // Transcript methods
+  getTranscriptsPath(): string {
+    return path.join(this.getSettings().storagePath, 'Transcripts');
+  }
+
+  private getTranscriptFilePath(recordingId: string): string {
+    return path.join(this.getTranscriptsPath(), `${path.basename(recordingId)}.transcript.json`);
+  }
+
+  getTranscript(recordingId: string): Transcript | null {
+    const filePath = this.getTranscriptFilePath(recordingId);
+    if (!fs.existsSync(filePath)) {
+      return null;
+    }
+    try {
+      return JSON.parse(fs.readFileSync(filePath, 'utf-8')) as Transcript;
+    } catch (error) {
+      console.error('Failed to read transcript:', error);
+      return null;
+    }
+  }
+
+  saveTranscript(transcript: Transcript): void {
+    const transcriptsPath = this.getTranscriptsPath();
+    if (!fs.existsSync(transcriptsPath)) {
+      fs.mkdirSync(transcriptsPath, { recursive: true });
+    }
+
+    const filePath = this.getTranscriptFilePath(transcript.recordingId);
+    const tempPath = `${filePath}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(transcript, null, 2));
+    fs.renameSync(tempPath, filePath);
+  }
+
+  deleteTranscript(recordingId: string): void {
+    const filePath = this.getTranscriptFilePath(recordingId);
+    if (fs.existsSync(filePath)) {
+      fs.unlinkSync(filePath);
+    }
+  }
+
+  /**
+   * IDs of recordings whose transcript contains the query
+   */
+  searchTranscripts(query: string): string[] {
+    const needle = query.trim().toLowerCase();
+    if (!needle) return [];
+
+    return this.getRecordings()
+      .filter((recording) => recording.hasTranscript)
+      .filter((recording) =>
+        this.getTranscript(recording.id)?.segments.some((segment) => segment.text.toLowerCase().includes(needle))
+      )
+      .map((recording) => recording.id);
+  }
+
+  // Cursor track methods
+  getCursorTracksPath(): string {
+    return path.join(this.getSettings().storagePath, 'CursorTracks');
+  }
+
+  private getCursorTrackFilePath(recordingId: string): string {
+    return path.join(this.getCursorTracksPath(), `${path.basename(recordingId)}.cursor.json`);
+  }
+
+  getCursorTrack(recordingId: string): CursorTrack | null {
+    const filePath = this.getCursorTrackFilePath(recordingId);
+    if (!fs.existsSync(filePath)) {
+      return null;
+    }
+    try {
+      return JSON.parse(fs.readFileSync(filePath, 'utf-8')) as CursorTrack;
+    } catch (error) {
+      console.error('Failed to read cursor track:', error);
+      return null;
+    }
+  }
+
+  saveCursorTrack(track: CursorTrack): void {
+    const tracksPath = this.getCursorTracksPath();
+    if (!fs.existsSync(tracksPath)) {
+      fs.mkdirSync(tracksPath, { recursive: true });
+    }
+
+    const filePath = this.getCursorTrackFilePath(track.recordingId);
+    const tempPath = `${filePath}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(track));
+    fs.renameSync(tempPath, filePath);
+  }
+
+  deleteCursorTrack(recordingId: string): void {
+    const filePath = this.getCursorTrackFilePath(recordingId);
+    if (fs.existsSync(filePath)) {
+      fs.unlinkSync(filePath);
+    }
+  }
+
+  // Annotation layer methods
+  getAnnotationLayersPath(): string {
+    return path.join(this.getSettings().storagePath, 'Annotations');
+  }
+
+  private getAnnotationLayerFilePath(recordingId: string): string {
+    return path.join(this.getAnnotationLayersPath(), `${path.basename(recordingId)}.annotations.json`);
+  }
+
+  getAnnotationLayer(recordingId: string): AnnotationLayer | null {
+    const filePath = this.getAnnotationLayerFilePath(recordingId);
+    if (!fs.existsSync(filePath)) {
+      return null;
+    }
+    try {
+      return JSON.parse(fs.readFileSync(filePath, 'utf-8')) as AnnotationLayer;
+    } catch (error) {
+      console.error('Failed to read annotation layer:', error);
+      return null;
+    }
+  }
+
+  saveAnnotationLayer(layer: AnnotationLayer): void {
+    const layersPath = this.getAnnotationLayersPath();
+    if (!fs.existsSync(layersPath)) {
+      fs.mkdirSync(layersPath, { recursive: true });
+    }
+
+    const filePath = this.getAnnotationLayerFilePath(layer.recordingId);
+    const tempPath = `${filePath}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(layer));
+    fs.renameSync(tempPath, filePath);
+  }
+
+  deleteAnnotationLayer(recordingId: string): void {
+    const filePath = this.getAnnotationLayerFilePath(recordingId);
+    if (fs.existsSync(filePath)) {
+      fs.unlinkSync(filePath);
+    }
+  }
+
+  // Separate audio track methods
+  getAudioTracksPath(): string {
+    return path.join(this.getSettings().storagePath, 'AudioTracks');
+  }
+
+  /**
+   * Write one separately recorded track of a recording and return its path
+   */
+  saveAudioTrack(recordingId: string, kind: AudioTrackKind, buffer: Buffer): string {
+    const tracksPath = this.getAudioTracksPath();
+    if (!fs.existsSync(tracksPath)) {
+      fs.mkdirSync(tracksPath, { recursive: true });
+    }
+
+    const filePath = path.join(tracksPath, `${path.basename(recordingId)}.${kind}.webm`);
+    fs.writeFileSync(filePath, buffer);
+    return filePath;
+  }
+
+  deleteAudioTracks(recording: Recording): void {
+    (recording.audioTracks ?? []).forEach((track) => {
+      if (fs.existsSync(track.path)) {
+        fs.unlinkSync(track.path);
+      }
+    });
+  }
+
+  // Overlay images the editor created itself, such as rasterised SVGs
+  getOverlayImagesPath(): string {
+    return path.join(this.getSettings().storagePath, 'OverlayImages');
+  }
+
+  saveOverlayImage(data: Uint8Array): string {
+    const imagesPath = this.getOverlayImagesPath();
+    if (!fs.existsSync(imagesPath)) {
+      fs.mkdirSync(imagesPath, { recursive: true });
+    }
+
+    const filePath = path.join(imagesPath, `${randomUUID()}.png`);
+    fs.writeFileSync(filePath, data);
+    return filePath;
+  }
+
   // Helper to generate unique filename
   generateRecordingPath(extension = 'mp4'): string {
     const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
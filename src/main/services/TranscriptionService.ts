@@ -0,0 +1,274 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { spawn } from 'node:child_process';
+import { randomUUID } from 'node:crypto';
+import { getFFmpegService } from './FFmpegService';
+import type { StorageService } from './StorageService';
+import type {
+  Recording,
+  RecordingTranscription,
+  Transcript,
+  TranscriptSegment,
+  TranscriptWord,
+  TranscriptionSettings,
+} from '../../shared/types';
+
+// whisper.cpp only accepts 16 kHz mono PCM
+const WHISPER_SAMPLE_RATE = 16000;
+// Audio extraction is quick next to inference, so it only accounts for the first few percent
+const EXTRACT_PROGRESS = 5;
+
+interface WhisperToken {
+  text: string;
+  offsets: { from: number; to: number };
+}
+
+interface WhisperSegment {
+  text: string;
+  offsets: { from: number; to: number };
+  tokens?: WhisperToken[];
+}
+
+// Shape of whisper.cpp's --output-json-full file (offsets are milliseconds)
+interface WhisperOutput {
+  result?: { language?: string };
+  transcription?: WhisperSegment[];
+}
+
+// Tokens are sub-word pieces; a leading space starts a new word, special tokens look like [_BEG_]
+const collectWords = (tokens: WhisperToken[]): TranscriptWord[] => {
+  const words: TranscriptWord[] = [];
+  tokens
+    .filter((token) => !token.text.startsWith('[_'))
+    .forEach((token) => {
+      const start = token.offsets.from / 1000;
+      const end = token.offsets.to / 1000;
+      const last = words[words.length - 1];
+      if (last && !/^\s/.test(token.text)) {
+        last.text += token.text;
+        last.end = end;
+        return;
+      }
+      const text = token.text.trim();
+      if (text) {
+        words.push({ text, start, end });
+      }
+    });
+  return words;
+};
+
+export class TranscriptionService {
+  private storageService: StorageService;
+  private notify: (recording: Recording) => void;
+  private queue: string[];
+  private active: { id: string; controller: AbortController } | null;
+
+  constructor(storageService: StorageService, notify: (recording: Recording) => void) {
+    this.storageService = storageService;
+    this.notify = notify;
+    this.queue = [];
+    this.active = null;
+  }
+
+  /**
+   * Queue a freshly saved recording when automatic captions are enabled
+   */
+  handleSaved(recording: Recording): void {
+    if (!this.storageService.getSettings().transcription?.autoTranscribe) return;
+    this.enqueue(recording.id);
+  }
+
+  enqueue(id: string): void {
+    const recording = this.storageService.getRecordingById(id);
+    if (!recording || recording.deletedAt) return;
+    if (this.queue.includes(id) || this.active?.id === id) return;
+
+    this.queue.push(id);
+    this.setTranscription(id, { status: 'queued', progress: 0 });
+    this.processQueue();
+  }
+
+  cancel(id: string): void {
+    this.queue = this.queue.filter((queuedId) => queuedId !== id);
+    if (this.active?.id === id) {
+      this.active.controller.abort();
+    }
+  }
+
+  /**
+   * Re-queue transcriptions that were interrupted by an app restart
+   */
+  resumeInterrupted(): void {
+    this.storageService
+      .getRecordings()
+      .filter((recording) => recording.transcription && recording.transcription.status !== 'failed')
+      .forEach((recording) => this.enqueue(recording.id));
+  }
+
+  private setTranscription(id: string, transcription: RecordingTranscription | null, persist = true): void {
+    if (persist) {
+      this.storageService.updateRecording(id, { transcription });
+    }
+    const recording = this.storageService.getRecordingById(id);
+    if (recording) {
+      this.notify({ ...recording, transcription });
+    }
+  }
+
+  private processQueue(): void {
+    if (this.active) return;
+    const id = this.queue.shift();
+    if (!id) return;
+
+    const controller = new AbortController();
+    this.active = { id, controller };
+    this.transcribe(id, controller.signal)
+      .catch((error) => {
+        console.error('Transcription failed unexpectedly:', error);
+      })
+      .finally(() => {
+        this.active = null;
+        this.processQueue();
+      });
+  }
+
+  private async transcribe(id: string, signal: AbortSignal): Promise<void> {
+    const recording = this.storageService.getRecordingById(id);
+    if (!recording || !fs.existsSync(recording.path)) {
+      this.setTranscription(id, null);
+      return;
+    }
+
+    const workDir = path.join(this.storageService.getTempPath(), `transcribe-${id}`);
+    const audioPath = path.join(workDir, 'audio.wav');
+    const outputBase = path.join(workDir, 'transcript');
+    const onProgress = (progress: number) =>
+      this.setTranscription(id, { status: 'transcribing', progress }, false);
+
+    this.setTranscription(id, { status: 'transcribing', progress: 0 });
+    try {
+      const settings = this.resolveSettings();
+      fs.rmSync(workDir, { recursive: true, force: true });
+      fs.mkdirSync(workDir, { recursive: true });
+
+      await getFFmpegService().extractAudio(
+        recording.path,
+        audioPath,
+        { codec: 'pcm_s16le', sampleRate: WHISPER_SAMPLE_RATE, channels: 1 },
+        signal
+      );
+      onProgress(EXTRACT_PROGRESS);
+
+      await this.runWhisper(
+        settings,
+        audioPath,
+        outputBase,
+        (percent) => onProgress(Math.round(EXTRACT_PROGRESS + (percent * (100 - EXTRACT_PROGRESS)) / 100)),
+        signal
+      );
+
+      if (signal.aborted) {
+        throw new Error('Transcription cancelled');
+      }
+
+      // The recording may have been purged while the model was running
+      if (!this.storageService.getRecordingById(id)) return;
+
+      const output = JSON.parse(fs.readFileSync(`${outputBase}.json`, 'utf-8')) as WhisperOutput;
+      this.storageService.saveTranscript(this.toTranscript(id, output, settings.language));
+      this.storageService.updateRecording(id, { hasTranscript: true, transcription: null });
+      this.setTranscription(id, null, false);
+    } catch (error) {
+      if (signal.aborted) {
+        if (this.storageService.getRecordingById(id)) {
+          this.setTranscription(id, null);
+        }
+        return;
+      }
+      console.error('Transcription failed:', error);
+      this.setTranscription(id, {
+        status: 'failed',
+        progress: 0,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    } finally {
+      fs.rmSync(workDir, { recursive: true, force: true });
+    }
+  }
+
+  private resolveSettings(): TranscriptionSettings {
+    const settings = this.storageService.getSettings().transcription;
+    if (!settings?.binaryPath || !fs.existsSync(settings.binaryPath)) {
+      throw new Error('Speech-to-text program not found. Choose the whisper.cpp binary in Settings.');
+    }
+    if (!settings.modelPath || !fs.existsSync(settings.modelPath)) {
+      throw new Error('Speech model not found. Choose a ggml model file in Settings.');
+    }
+    return settings;
+  }
+
+  private runWhisper(
+    settings: TranscriptionSettings,
+    audioPath: string,
+    outputBase: string,
+    onProgress: (percent: number) => void,
+    signal: AbortSignal
+  ): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const args = [
+        '-m', settings.modelPath,
+        '-f', audioPath,
+        '-l', settings.language || 'auto',
+        '--output-json-full',
+        '--output-file', outputBase,
+        '--print-progress',
+      ];
+      const child = spawn(settings.binaryPath, args, { stdio: ['ignore', 'ignore', 'pipe'], windowsHide: true });
+      const handleAbort = () => child.kill('SIGKILL');
+      let stderrTail = '';
+
+      signal.addEventListener('abort', handleAbort, { once: true });
+      child.stderr.on('data', (chunk: Buffer) => {
+        const text = chunk.toString();
+        stderrTail = (stderrTail + text).slice(-2000);
+        const matches = [...text.matchAll(/progress\s*=\s*(\d+)%/g)];
+        if (matches.length > 0) {
+          onProgress(Number(matches[matches.length - 1][1]));
+        }
+      });
+      child.on('error', (error) => {
+        signal.removeEventListener('abort', handleAbort);
+        reject(error);
+      });
+      child.on('close', (code) => {
+        signal.removeEventListener('abort', handleAbort);
+        if (code === 0) {
+          resolve();
+          return;
+        }
+        const lastLine = stderrTail.trim().split('\n').pop();
+        reject(new Error(lastLine || `Speech-to-text exited with code ${code}`));
+      });
+    });
+  }
+
+  private toTranscript(recordingId: string, output: WhisperOutput, language: string): Transcript {
+    const segments: TranscriptSegment[] = (output.transcription ?? [])
+      .map((segment) => ({
+        id: randomUUID(),
+        start: segment.offsets.from / 1000,
+        end: segment.offsets.to / 1000,
+        text: segment.text.trim(),
+        words: collectWords(segment.tokens ?? []),
+      }))
+      // Drop empty lines and non-speech annotations like [BLANK_AUDIO]
+      .filter((segment) => segment.text && !/^\[[^\]]*\]$/.test(segment.text));
+
+    return {
+      recordingId,
+      language: output.result?.language ?? language,
+      createdAt: new Date().toISOString(),
+      segments,
+    };
+  }
+}
@@ -1,4 +1,4 @@
-import { BrowserWindow, screen } from 'electron';
+import { BrowserWindow, desktopCapturer, screen } from 'electron';
 import path from 'node:path';
 
 let overlayWindow: BrowserWindow | null = null;
@@ -75,6 +75,29 @@ export function setOverlayClickThrough(enabled: boolean): void {
   }
 }
 
+// Content protection keeps the window out of screen captures on Windows and macOS
+export function setOverlayCaptureExcluded(excluded: boolean): void {
+  if (!overlayWindow || overlayWindow.isDestroyed()) return;
+  overlayWindow.setContentProtection(excluded);
+}
+
+// Still image of the display under the overlay, used to pixelate blur boxes
+export async function captureOverlayDisplay(): Promise<string | null> {
+  const primaryDisplay = screen.getPrimaryDisplay();
+  const sources = await desktopCapturer.getSources({
+    types: ['screen'],
+    thumbnailSize: {
+      width: Math.round(primaryDisplay.size.width * primaryDisplay.scaleFactor),
+      height: Math.round(primaryDisplay.size.height * primaryDisplay.scaleFactor),
+    },
+  });
+  const source = sources.find((item) => item.display_id === String(primaryDisplay.id)) ?? sources[0];
+  if (!source || source.thumbnail.isEmpty()) {
+    return null;
+  }
+  return source.thumbnail.toDataURL();
+}
+
 export function isOverlayVisible(): boolean {
   return overlayWindow !== null && !overlayWindow.isDestroyed();
 }
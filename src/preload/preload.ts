@@ -3,6 +3,33 @@ import type {
   Recording,
   RecordingSaveRequest as SharedRecordingSaveRequest,
   RecordingRegisterRequest as SharedRecordingRegisterRequest,
+  RecordingFinalizeMeta,
+  RecordingMarker,
+  RecordingAudioTrack,
+  AudioTrackUpload,
+  RecordingTranscription,
+  Transcript,
+  SubtitleFormat,
+  TranscriptionSettings,
+  AudioCleanupSettings,
+  MicrophoneProcessingSettings,
+  ExportPreset,
+  CursorTrack,
+  CaptureRegion,
+  AnnotationShape,
+  AnnotationLayer,
+  SilenceDetectionOptions,
+  SilenceRange,
+  TimelineProject,
+  ExportJob,
+  ExportJobRequest,
+  EncoderCapabilities,
+  CropArea,
+  TextOverlay,
+  ImageOverlay,
+  EditorAudioSettings,
+  WatermarkSettings,
+  DrawingSettings,
 } from '../shared/types';
 
 // Expose protected methods that allow the renderer process to use
@@ -29,9 +56,43 @@ contextBridge.exposeInMainWorld('electronAPI', {
   saveRecording: (data: RecordingSaveRequest) => ipcRenderer.invoke('recording:save', data),
   beginRecordingRecovery: (mimeType: string) => ipcRenderer.invoke('recording:beginRecovery', mimeType),
   appendRecordingRecovery: (id: string, buffer: ArrayBuffer) => ipcRenderer.invoke('recording:appendRecovery', id, buffer),
-  finalizeRecordingRecovery: (id: string, meta: { duration: number; quality: '720p' | '1080p' | '1440p' | '4k' }) =>
+  finalizeRecordingRecovery: (id: string, meta: RecordingFinalizeMeta) =>
     ipcRenderer.invoke('recording:finalizeRecovery', id, meta),
   discardRecordingRecovery: (id: string) => ipcRenderer.invoke('recording:discardRecovery', id),
+  stageAudioTracks: (tracks: AudioTrackUpload[]) => ipcRenderer.invoke('recording:stageAudioTracks', tracks),
+  discardAudioTracks: () => ipcRenderer.invoke('recording:discardAudioTracks'),
+  convertRecordingToMp4: (id: string) => ipcRenderer.invoke('recording:convertToMp4', id),
+  transcribeRecording: (id: string) => ipcRenderer.invoke('recording:transcribe', id),
+  enhanceRecordingAudio: (id: string) => ipcRenderer.invoke('recording:enhanceAudio', id),
+
+  // Transcripts
+  getTranscript: (recordingId: string) => ipcRenderer.invoke('transcript:get', recordingId),
+  searchTranscripts: (query: string) => ipcRenderer.invoke('transcript:search', query),
+  exportTranscript: (recordingId: string, format: SubtitleFormat) =>
+    ipcRenderer.invoke('transcript:export', recordingId, format),
+
+  // Cursor tracking
+  startCursorTracking: (displayId: number | null, region: CaptureRegion | null) =>
+    ipcRenderer.invoke('cursor:start', displayId, region),
+  pauseCursorTracking: () => ipcRenderer.invoke('cursor:pause'),
+  resumeCursorTracking: () => ipcRenderer.invoke('cursor:resume'),
+  discardCursorTracking: () => ipcRenderer.invoke('cursor:discard'),
+  getCursorTrack: (recordingId: string) => ipcRenderer.invoke('cursor:getTrack', recordingId),
+
+  // Annotation layer
+  startAnnotationRecording: (displayId: number | null, region: CaptureRegion | null) =>
+    ipcRenderer.invoke('annotations:start', displayId, region),
+  pauseAnnotationRecording: () => ipcRenderer.invoke('annotations:pause'),
+  resumeAnnotationRecording: () => ipcRenderer.invoke('annotations:resume'),
+  discardAnnotationRecording: () => ipcRenderer.invoke('annotations:discard'),
+  addAnnotation: (shape: AnnotationShape) => ipcRenderer.invoke('annotations:add', shape),
+  removeAnnotations: (ids: string[]) => ipcRenderer.invoke('annotations:remove', ids),
+  getAnnotationLayer: (recordingId: string) => ipcRenderer.invoke('annotations:getLayer', recordingId),
+  onAnnotationRecordingStarted: (callback: () => void) => {
+    const subscription = () => callback();
+    ipcRenderer.on('annotations:started', subscription);
+    return () => ipcRenderer.removeListener('annotations:started', subscription);
+  },
 
   // Media devices
   getAudioDevices: () => ipcRenderer.invoke('media:getAudioDevices'),
@@ -46,6 +107,26 @@ contextBridge.exposeInMainWorld('electronAPI', {
   revealRecording: (id: string) => ipcRenderer.invoke('storage:revealRecording', id),
   openRecordingsFolder: () => ipcRenderer.invoke('storage:openFolder'),
   selectFolder: () => ipcRenderer.invoke('storage:selectFolder'),
+  selectFile: (options: SelectFileOptions) => ipcRenderer.invoke('storage:selectFile', options),
+  saveOverlayImage: (data: Uint8Array) => ipcRenderer.invoke('storage:saveOverlayImage', data),
+
+  // Editor projects
+  listProjects: () => ipcRenderer.invoke('project:list'),
+  getProject: (id: string) => ipcRenderer.invoke('project:get', id),
+  saveProject: (project: TimelineProject) => ipcRenderer.invoke('project:save', project),
+  deleteProject: (id: string) => ipcRenderer.invoke('project:delete', id),
+
+  // Export queue
+  addExportJob: (request: ExportJobRequest) => ipcRenderer.invoke('exportQueue:add', request),
+  getExportJobs: () => ipcRenderer.invoke('exportQueue:list'),
+  cancelExportJob: (id: string) => ipcRenderer.invoke('exportQueue:cancel', id),
+  clearFinishedExportJobs: () => ipcRenderer.invoke('exportQueue:clearFinished'),
+  revealExportOutput: (id: string) => ipcRenderer.invoke('exportQueue:reveal', id),
+  onExportJobUpdated: (callback: (job: ExportJob) => void) => {
+    const subscription = (_event: Electron.IpcRendererEvent, job: ExportJob) => callback(job);
+    ipcRenderer.on('exportQueue:updated', subscription);
+    return () => ipcRenderer.removeListener('exportQueue:updated', subscription);
+  },
 
   // Settings
   getSettings: () => ipcRenderer.invoke('settings:get'),
@@ -65,6 +146,8 @@ contextBridge.exposeInMainWorld('electronAPI', {
   closeOverlay: () => ipcRenderer.invoke('overlay:close'),
   setOverlayClickThrough: (enabled: boolean) => ipcRenderer.invoke('overlay:setClickThrough', enabled),
   isOverlayVisible: () => ipcRenderer.invoke('overlay:isVisible'),
+  setOverlayCaptureExcluded: (excluded: boolean) => ipcRenderer.invoke('overlay:setCaptureExcluded', excluded),
+  captureOverlayScreen: () => ipcRenderer.invoke('overlay:captureScreen'),
 
   // Event listeners
   onRecordingProgress: (callback: (progress: RecordingProgress) => void) => {
@@ -77,6 +160,11 @@ contextBridge.exposeInMainWorld('electronAPI', {
     ipcRenderer.on('recording:saved', subscription);
     return () => ipcRenderer.removeListener('recording:saved', subscription);
   },
+  onRecordingUpdated: (callback: (recording: Recording) => void) => {
+    const subscription = (_event: Electron.IpcRendererEvent, recording: Recording) => callback(recording);
+    ipcRenderer.on('recording:updated', subscription);
+    return () => ipcRenderer.removeListener('recording:updated', subscription);
+  },
 
   onEncodingProgress: (callback: (percent: number) => void) => {
     const subscription = (_event: Electron.IpcRendererEvent, percent: number) => callback(percent);
@@ -110,6 +198,12 @@ contextBridge.exposeInMainWorld('electronAPI', {
     return () => ipcRenderer.removeListener('shortcut:drawing', subscription);
   },
 
+  onShortcutMarker: (callback: () => void) => {
+    const subscription = () => callback();
+    ipcRenderer.on('shortcut:marker', subscription);
+    return () => ipcRenderer.removeListener('shortcut:marker', subscription);
+  },
+
   // FFmpeg video processing
   ffmpegCompositeWebcam: (options: {
     videoPath: string;
@@ -130,31 +224,20 @@ contextBridge.exposeInMainWorld('electronAPI', {
   ffmpegCropVideo: (videoPath: string, outputPath: string, x: number, y: number, width: number, height: number) =>
     ipcRenderer.invoke('ffmpeg:cropVideo', videoPath, outputPath, x, y, width, height),
 
-  ffmpegAddTextOverlay: (
-    videoPath: string,
-    outputPath: string,
-    text: string,
-    x: number,
-    y: number,
-    fontSize: number,
-    color: string,
-    startTime: number,
-    duration: number,
-    bold?: boolean,
-    italic?: boolean,
-    fontFamily?: string,
-    align?: 'left' | 'center' | 'right',
-    animate?: boolean,
-    endX?: number,
-    endY?: number
-  ) => ipcRenderer.invoke('ffmpeg:addTextOverlay', videoPath, outputPath, text, x, y, fontSize, color, startTime, duration, bold, italic, fontFamily, align, animate, endX, endY),
+  ffmpegAddTextOverlay: (videoPath: string, outputPath: string, overlay: TextOverlay) =>
+    ipcRenderer.invoke('ffmpeg:addTextOverlay', videoPath, outputPath, overlay),
+  ffmpegAddImageOverlay: (videoPath: string, outputPath: string, overlay: ImageOverlay) =>
+    ipcRenderer.invoke('ffmpeg:addImageOverlay', videoPath, outputPath, overlay),
 
   ffmpegRenderTimeline: (
     videoPath: string,
     outputPath: string,
-    segments: { start: number; end: number }[]
+    segments: { start: number; end: number; sourcePath?: string }[]
   ) => ipcRenderer.invoke('ffmpeg:renderTimeline', videoPath, outputPath, segments),
 
+  ffmpegRenderEdit: (options: EditRenderRequest, outputPath: string) =>
+    ipcRenderer.invoke('ffmpeg:renderEdit', options, outputPath),
+
   ffmpegGenerateProxy: (videoPath: string, outputPath: string, width?: number) =>
     ipcRenderer.invoke('ffmpeg:generateProxy', videoPath, outputPath, width),
 
@@ -170,8 +253,18 @@ contextBridge.exposeInMainWorld('electronAPI', {
     options: { width: number; height: number; bitrate: string; encoder?: 'auto' | 'cpu' | 'nvenc' | 'qsv' | 'amf'; optimizeForSize?: boolean }
   ) => ipcRenderer.invoke('ffmpeg:transcodePreset', videoPath, outputPath, options),
 
-  ffmpegGenerateWaveform: (videoPath: string, outputPath: string, width?: number, height?: number) =>
-    ipcRenderer.invoke('ffmpeg:generateWaveform', videoPath, outputPath, width, height),
+  ffmpegGenerateWaveform: (
+    videoPath: string,
+    outputPath: string,
+    width?: number,
+    height?: number,
+    music?: { path: string; loop: boolean; duration: number }
+  ) => ipcRenderer.invoke('ffmpeg:generateWaveform', videoPath, outputPath, width, height, music),
+
+  ffmpegGetEncoders: () => ipcRenderer.invoke('ffmpeg:getEncoders'),
+
+  ffmpegDetectSilences: (sourcePath: string, options: SilenceDetectionOptions) =>
+    ipcRenderer.invoke('ffmpeg:detectSilences', sourcePath, options),
 
   ffmpegGetMetadata: (videoPath: string) => ipcRenderer.invoke('ffmpeg:getMetadata', videoPath),
 
@@ -201,6 +294,22 @@ interface RecordingProgress {
 }
 
 type RecordingSaveRequest = SharedRecordingSaveRequest;
+
+interface EditRenderRequest {
+  sourcePath: string;
+  segments: { start: number; end: number; sourcePath?: string }[];
+  crop?: CropArea | null;
+  textOverlays?: TextOverlay[];
+  imageOverlays?: ImageOverlay[];
+  audio?: EditorAudioSettings;
+  output: {
+    width: number;
+    height: number;
+    bitrate: string;
+    encoder?: 'auto' | 'cpu' | 'nvenc' | 'qsv' | 'amf';
+    optimizeForSize?: boolean;
+  };
+}
 type RecordingRegisterRequest = SharedRecordingRegisterRequest;
 
 interface AppSettings {
@@ -212,6 +321,7 @@ interface AppSettings {
     startStop: string;
     pause: string;
     drawing: string;
+    marker: string;
   };
   webcam: {
     shape: 'circle' | 'rounded' | 'square';
@@ -219,6 +329,21 @@ interface AppSettings {
     position: { x: number; y: number };
     deviceId?: string | null;
   };
+  captureRegionByDisplay?: Record<string, { x: number; y: number; width: number; height: number }>;
+  mp4Conversion?: 'off' | 'remux' | 'transcode';
+  useHardwareEncoder?: boolean;
+  transcription?: TranscriptionSettings;
+  watermark?: WatermarkSettings;
+  drawing?: DrawingSettings;
+  separateAudioTracks?: boolean;
+  audioCleanup?: AudioCleanupSettings;
+  microphoneProcessing?: MicrophoneProcessingSettings;
+  exportPresets?: ExportPreset[];
+}
+
+interface SelectFileOptions {
+  title: string;
+  filters?: { name: string; extensions: string[] }[];
 }
 
 type DeepPartial<T> = {
@@ -250,8 +375,29 @@ declare global {
       saveRecording: (data: RecordingSaveRequest) => Promise<Recording>;
       beginRecordingRecovery: (mimeType: string) => Promise<{ id: string; path: string }>;
       appendRecordingRecovery: (id: string, buffer: ArrayBuffer) => Promise<void>;
-      finalizeRecordingRecovery: (id: string, meta: { duration: number; quality: '720p' | '1080p' | '1440p' | '4k' }) => Promise<Recording>;
+      finalizeRecordingRecovery: (id: string, meta: RecordingFinalizeMeta) => Promise<Recording>;
       discardRecordingRecovery: (id: string) => Promise<void>;
+      stageAudioTracks: (tracks: AudioTrackUpload[]) => Promise<void>;
+      discardAudioTracks: () => Promise<void>;
+      convertRecordingToMp4: (id: string) => Promise<void>;
+      transcribeRecording: (id: string) => Promise<void>;
+      enhanceRecordingAudio: (id: string) => Promise<void>;
+      getTranscript: (recordingId: string) => Promise<Transcript | null>;
+      searchTranscripts: (query: string) => Promise<string[]>;
+      exportTranscript: (recordingId: string, format: SubtitleFormat) => Promise<string | null>;
+      startCursorTracking: (displayId: number | null, region: CaptureRegion | null) => Promise<void>;
+      pauseCursorTracking: () => Promise<void>;
+      resumeCursorTracking: () => Promise<void>;
+      discardCursorTracking: () => Promise<void>;
+      getCursorTrack: (recordingId: string) => Promise<CursorTrack | null>;
+      startAnnotationRecording: (displayId: number | null, region: CaptureRegion | null) => Promise<void>;
+      pauseAnnotationRecording: () => Promise<void>;
+      resumeAnnotationRecording: () => Promise<void>;
+      discardAnnotationRecording: () => Promise<void>;
+      addAnnotation: (shape: AnnotationShape) => Promise<void>;
+      removeAnnotations: (ids: string[]) => Promise<void>;
+      getAnnotationLayer: (recordingId: string) => Promise<AnnotationLayer | null>;
+      onAnnotationRecordingStarted: (callback: () => void) => () => void;
       getAudioDevices: () => Promise<MediaDeviceInfo[]>;
       getCameras: () => Promise<MediaDeviceInfo[]>;
       getRecordings: () => Promise<Recording[]>;
@@ -262,6 +408,18 @@ declare global {
       revealRecording: (id: string) => Promise<void>;
       openRecordingsFolder: () => Promise<void>;
       selectFolder: () => Promise<string | null>;
+      selectFile: (options: SelectFileOptions) => Promise<string | null>;
+      saveOverlayImage: (data: Uint8Array) => Promise<string>;
+      listProjects: () => Promise<TimelineProject[]>;
+      getProject: (id: string) => Promise<TimelineProject | null>;
+      saveProject: (project: TimelineProject) => Promise<TimelineProject>;
+      deleteProject: (id: string) => Promise<void>;
+      addExportJob: (request: ExportJobRequest) => Promise<ExportJob>;
+      getExportJobs: () => Promise<ExportJob[]>;
+      cancelExportJob: (id: string) => Promise<void>;
+      clearFinishedExportJobs: () => Promise<void>;
+      revealExportOutput: (id: string) => Promise<void>;
+      onExportJobUpdated: (callback: (job: ExportJob) => void) => () => void;
       getSettings: () => Promise<AppSettings>;
       setSettings: (settings: DeepPartial<AppSettings>) => Promise<void>;
       openWebcam: (config?: WebcamConfig) => Promise<void>;
@@ -283,13 +441,17 @@ declare global {
       closeOverlay: () => Promise<void>;
       setOverlayClickThrough: (enabled: boolean) => Promise<void>;
       isOverlayVisible: () => Promise<boolean>;
+      setOverlayCaptureExcluded: (excluded: boolean) => Promise<void>;
+      captureOverlayScreen: () => Promise<string | null>;
       onRecordingProgress: (callback: (progress: RecordingProgress) => void) => () => void;
       onRecordingSaved: (callback: (recording: Recording) => void) => () => void;
+      onRecordingUpdated: (callback: (recording: Recording) => void) => () => void;
       onEncodingProgress: (callback: (percent: number) => void) => () => void;
       onDebugLog: (callback: (log: string) => void) => () => void;
       onShortcutStartStop: (callback: () => void) => () => void;
       onShortcutPause: (callback: () => void) => () => void;
       onShortcutDrawing: (callback: () => void) => () => void;
+      onShortcutMarker: (callback: () => void) => () => void;
       ffmpegCompositeWebcam: (options: {
         videoPath: string;
         webcamPath: string;
@@ -304,29 +466,14 @@ declare global {
       }) => Promise<string>;
       ffmpegTrimVideo: (videoPath: string, outputPath: string, startTime: number, endTime: number) => Promise<string>;
       ffmpegCropVideo: (videoPath: string, outputPath: string, x: number, y: number, width: number, height: number) => Promise<string>;
-      ffmpegAddTextOverlay: (
-        videoPath: string,
-        outputPath: string,
-        text: string,
-        x: number,
-        y: number,
-        fontSize: number,
-        color: string,
-        startTime: number,
-        duration: number,
-        bold?: boolean,
-        italic?: boolean,
-        fontFamily?: string,
-        align?: 'left' | 'center' | 'right',
-        animate?: boolean,
-        endX?: number,
-        endY?: number
-      ) => Promise<string>;
+      ffmpegAddTextOverlay: (videoPath: string, outputPath: string, overlay: TextOverlay) => Promise<string>;
+      ffmpegAddImageOverlay: (videoPath: string, outputPath: string, overlay: ImageOverlay) => Promise<string>;
       ffmpegRenderTimeline: (
         videoPath: string,
         outputPath: string,
-        segments: { start: number; end: number }[]
+        segments: { start: number; end: number; sourcePath?: string }[]
       ) => Promise<string>;
+      ffmpegRenderEdit: (options: EditRenderRequest, outputPath: string) => Promise<string>;
       ffmpegGenerateProxy: (videoPath: string, outputPath: string, width?: number) => Promise<string>;
       ffmpegApplyAudioFilters: (
         videoPath: string,
@@ -342,8 +489,11 @@ declare global {
         videoPath: string,
         outputPath: string,
         width?: number,
-        height?: number
+        height?: number,
+        music?: { path: string; loop: boolean; duration: number }
       ) => Promise<string>;
+      ffmpegGetEncoders: () => Promise<EncoderCapabilities>;
+      ffmpegDetectSilences: (sourcePath: string, options: SilenceDetectionOptions) => Promise<SilenceRange[]>;
       ffmpegGetMetadata: (videoPath: string) => Promise<unknown>;
       ffmpegGenerateThumbnail: (videoPath: string, outputPath: string, timestamp?: number) => Promise<string>;
       onFFmpegProgress: (callback: (progress: number) => void) => () => void;
@@ -360,6 +510,14 @@ declare global {
     createdAt: string;
     thumbnailPath?: string;
     deletedAt?: string | null;
+    conversion?: { status: 'queued' | 'converting' | 'failed'; progress: number; error?: string } | null;
+    enhancement?: { status: 'queued' | 'enhancing' | 'failed'; progress: number; error?: string } | null;
+    markers?: RecordingMarker[];
+    transcription?: RecordingTranscription | null;
+    hasTranscript?: boolean;
+    hasCursorTrack?: boolean;
+    hasAnnotations?: boolean;
+    audioTracks?: RecordingAudioTrack[];
   }
 }
 
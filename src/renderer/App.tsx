@@ -6,6 +6,7 @@ import { WebcamOverlay } from './components/WebcamBubble';
 import { DrawingOverlay } from './components/DrawingTools';
 import { RecordingList } from './components/Library';
 import { SettingsPage } from './components/Settings';
+import { ExportQueuePanel } from './components/ExportQueue';
 import { useRecordingStore } from './stores/recordingStore';
 import type { AppSettings, DisplayInfo } from '../shared/types';
 
@@ -121,6 +122,7 @@ export default function App() {
           {activeTab === 'settings' && <SettingsPage />}
         </main>
       </div>
+      <ExportQueuePanel />
       {ffmpegProgress !== null && (
         <div className="h-2 bg-dark-800">
           <div
@@ -455,6 +457,10 @@ function RecordPage() {
       window.dispatchEvent(event);
     };
 
+    const handleMarker = () => {
+      window.dispatchEvent(new CustomEvent('shortcut:marker'));
+    };
+
     const handleDrawing = async () => {
       const isVisible = await window.electronAPI?.isOverlayVisible();
       if (isVisible) {
@@ -467,11 +473,13 @@ function RecordPage() {
     const unsubStartStop = window.electronAPI?.onShortcutStartStop(handleStartStop);
     const unsubPause = window.electronAPI?.onShortcutPause(handlePause);
     const unsubDrawing = window.electronAPI?.onShortcutDrawing(handleDrawing);
+    const unsubMarker = window.electronAPI?.onShortcutMarker(handleMarker);
 
     return () => {
       unsubStartStop?.();
       unsubPause?.();
       unsubDrawing?.();
+      unsubMarker?.();
     };
   }, []);
 
@@ -503,7 +511,7 @@ function RecordPage() {
           {isProcessing
             ? 'Finalizing and saving your recording...'
             : selectedSource
-            ? `Selected: ${selectedSource.name}`
+            ? `Selected: ${selectedSource.name}${selectedSource.region ? ' (area)' : ''}`
             : 'Select a screen or window to begin'}
         </p>
       </div>
@@ -538,6 +546,18 @@ function RecordPage() {
               <p>Click to select screen or window</p>
             </div>
           )}
+          {selectedSource?.region && imageRect.width > 0 && imageRect.height > 0 && (
+            <div
+              className="absolute border-2 border-primary-500 pointer-events-none"
+              style={{
+                left: imageRect.x + selectedSource.region.x * imageRect.width,
+                top: imageRect.y + selectedSource.region.y * imageRect.height,
+                width: selectedSource.region.width * imageRect.width,
+                height: selectedSource.region.height * imageRect.height,
+                boxShadow: '0 0 0 9999px rgba(0, 0, 0, 0.45)',
+              }}
+            />
+          )}
           {includeWebcam && showPipPreview && webcamSettings && previewPipWidth > 0 && previewPipHeight > 0 && (
             <div
               ref={pipRef}
@@ -1,8 +1,10 @@
-import { useEffect, useCallback } from 'react';
+import { useEffect, useCallback, useRef } from 'react';
 import { MicrophoneSelector } from './MicrophoneSelector';
 import { VolumeIndicator, AudioLevelMeter } from './VolumeIndicator';
 import { useMediaDevices } from '../../hooks/useMediaDevices';
 import { useRecordingStore } from '../../stores/recordingStore';
+import { decibelsToMeterLevel, DEFAULT_MICROPHONE_PROCESSING } from '../../utils/microphoneProcessing';
+import type { MicrophoneProcessingSettings } from '../../../shared/types';
 
 interface AudioControlsProps {
   disabled?: boolean;
@@ -17,11 +19,13 @@ export function AudioControls({ disabled = false, compact = false }: AudioContro
     microphoneMuted,
     systemAudioMuted,
     systemAudioAvailable,
+    microphoneProcessing,
     setIncludeMicrophone,
     setIncludeSystemAudio,
     setSelectedMicrophoneId,
     setMicrophoneMuted,
     setSystemAudioMuted,
+    setMicrophoneProcessing,
   } = useRecordingStore();
 
   const isWindows = navigator.userAgent.toLowerCase().includes('windows');
@@ -31,12 +35,31 @@ export function AudioControls({ disabled = false, compact = false }: AudioContro
     microphoneLevel,
     startMicrophoneMonitor,
     stopMicrophoneMonitor,
+    updateMicrophoneProcessing,
   } = useMediaDevices();
+  const processingRef = useRef(microphoneProcessing);
 
-  // Start/stop microphone monitoring when enabled
+  useEffect(() => {
+    window.electronAPI?.getSettings().then((settings) => {
+      if (settings?.microphoneProcessing) {
+        setMicrophoneProcessing({ ...DEFAULT_MICROPHONE_PROCESSING, ...settings.microphoneProcessing });
+      }
+    });
+  }, [setMicrophoneProcessing]);
+
+  useEffect(() => {
+    processingRef.current = microphoneProcessing;
+    updateMicrophoneProcessing(microphoneProcessing);
+  }, [microphoneProcessing, updateMicrophoneProcessing]);
+
+  // Start/stop microphone monitoring when enabled.
+  // The compact controls stay mounted while recording, so they are the ones that play the headphone monitor.
   useEffect(() => {
     if (includeMicrophone && !microphoneMuted && selectedMicrophoneId) {
-      startMicrophoneMonitor(selectedMicrophoneId);
+      // Settings may have loaded while the microphone was opening
+      startMicrophoneMonitor(selectedMicrophoneId, processingRef.current, compact).then(() =>
+        updateMicrophoneProcessing(processingRef.current)
+      );
     } else {
       stopMicrophoneMonitor();
     }
@@ -44,7 +67,13 @@ export function AudioControls({ disabled = false, compact = false }: AudioContro
     return () => {
       stopMicrophoneMonitor();
     };
-  }, [includeMicrophone, microphoneMuted, selectedMicrophoneId, startMicrophoneMonitor, stopMicrophoneMonitor]);
+  }, [includeMicrophone, microphoneMuted, selectedMicrophoneId, compact, startMicrophoneMonitor, stopMicrophoneMonitor, updateMicrophoneProcessing]);
+
+  const updateProcessing = useCallback((updates: Partial<MicrophoneProcessingSettings>) => {
+    const next = { ...microphoneProcessing, ...updates };
+    setMicrophoneProcessing(next);
+    window.electronAPI?.setSettings({ microphoneProcessing: next });
+  }, [microphoneProcessing, setMicrophoneProcessing]);
 
   const handleMicrophoneSelect = useCallback((deviceId: string) => {
     setSelectedMicrophoneId(deviceId);
@@ -148,7 +177,78 @@ export function AudioControls({ disabled = false, compact = false }: AudioContro
               label="Input level"
               muted={microphoneMuted}
               onMuteToggle={() => setMicrophoneMuted(!microphoneMuted)}
+              marker={microphoneProcessing.gate ? decibelsToMeterLevel(microphoneProcessing.gateThreshold) : undefined}
             />
+
+            {/* Processing applied before the recorder */}
+            <div className="space-y-2 border-t border-dark-700 pt-3">
+              <div>
+                <label className="text-xs text-dark-400 mb-1 block">
+                  Input gain: {microphoneProcessing.gain > 0 ? '+' : ''}{microphoneProcessing.gain} dB
+                </label>
+                <input
+                  type="range"
+                  min="-12"
+                  max="24"
+                  step="1"
+                  value={microphoneProcessing.gain}
+                  onChange={(e) => updateProcessing({ gain: parseInt(e.target.value, 10) })}
+                  disabled={disabled}
+                  className="w-full accent-primary-600"
+                />
+              </div>
+              <label className="flex items-center gap-2 text-xs text-dark-300">
+                <input
+                  type="checkbox"
+                  checked={microphoneProcessing.gate}
+                  onChange={(e) => updateProcessing({ gate: e.target.checked })}
+                  disabled={disabled}
+                  className="rounded"
+                />
+                Noise gate
+              </label>
+              {microphoneProcessing.gate && (
+                <div>
+                  <label className="text-xs text-dark-400 mb-1 block">
+                    Gate threshold: {microphoneProcessing.gateThreshold} dB
+                  </label>
+                  <input
+                    type="range"
+                    min="-80"
+                    max="-20"
+                    step="1"
+                    value={microphoneProcessing.gateThreshold}
+                    onChange={(e) => updateProcessing({ gateThreshold: parseInt(e.target.value, 10) })}
+                    disabled={disabled}
+                    className="w-full accent-primary-600"
+                  />
+                </div>
+              )}
+              <label className="flex items-center gap-2 text-xs text-dark-300">
+                <input
+                  type="checkbox"
+                  checked={microphoneProcessing.compressor}
+                  onChange={(e) => updateProcessing({ compressor: e.target.checked })}
+                  disabled={disabled}
+                  className="rounded"
+                />
+                Compressor
+              </label>
+              <label className="flex items-center gap-2 text-xs text-dark-300">
+                <input
+                  type="checkbox"
+                  checked={microphoneProcessing.monitor}
+                  onChange={(e) => updateProcessing({ monitor: e.target.checked })}
+                  disabled={disabled}
+                  className="rounded"
+                />
+                Listen through headphones
+              </label>
+              <p className="text-xs text-dark-500">
+                The meter shows the processed level; sound below the white mark is silenced by the gate. Use
+                headphones while listening to avoid feedback.
+              </p>
+            </div>
           </div>
         )}
       </div>
@@ -8,6 +8,7 @@ interface VolumeIndicatorProps {
   onMuteToggle?: () => void;
   variant?: 'horizontal' | 'vertical';
   size?: 'sm' | 'md' | 'lg';
+  marker?: number; // 0-100, e.g. a gate threshold; horizontal only
 }
 
 export function VolumeIndicator({
@@ -18,6 +19,7 @@ export function VolumeIndicator({
   onMuteToggle,
   variant = 'horizontal',
   size = 'md',
+  marker,
 }: VolumeIndicatorProps) {
   const barRef = useRef<HTMLDivElement>(null);
 
@@ -97,6 +99,12 @@ export function VolumeIndicator({
             className={`absolute top-0 left-0 h-full transition-all duration-75 rounded-full ${getBarColor()}`}
             style={{ width: `${muted ? 0 : level}%` }}
           />
+          {marker !== undefined && (
+            <div
+              className="absolute top-0 h-full w-0.5 bg-white/70"
+              style={{ left: `${Math.max(0, Math.min(100, marker))}%` }}
+            />
+          )}
         </div>
       </div>
       {showValue && (
@@ -1,16 +1,94 @@
 import { useEffect, useRef, useState, useCallback } from 'react';
+import type { AnnotationShape, AnnotationTool, DrawingSettings } from '../../../shared/types';
+import { drawAnnotations, getAnnotationBounds, getAnnotationFontSize } from '../../utils/annotations';
 import { ToolPalette } from './ToolPalette';
 
-export type DrawingTool = 'pen' | 'arrow' | 'rectangle' | 'circle' | 'highlighter';
+export type DrawingTool = AnnotationTool;
 export type DrawingColor = '#FF0000' | '#00FF00' | '#0000FF' | '#FFFF00' | '#FF00FF' | '#00FFFF' | '#FFFFFF' | '#000000';
 
 interface DrawingAction {
+  id: string;
   tool: DrawingTool;
   color: DrawingColor;
   size: number;
   points: { x: number; y: number }[];
+  text?: string; // Label text, or the number of a step badge
+  patch?: HTMLCanvasElement | null; // Pixelated copy of the screen under a blur box
+  fadesAt?: number; // performance.now() time a laser stroke starts fading out
 }
 
+const DEFAULT_DRAWING_SETTINGS: DrawingSettings = {
+  fadeStrokes: false,
+  fadeAfter: 2,
+  autoClear: false,
+  autoClearAfter: 10,
+  recordAsLayer: false,
+};
+
+// Content protection does nothing on Linux, so drawings there are always in the capture and a layer would draw them twice
+const LAYER_RECORDING_SUPPORTED = !navigator.userAgent.toLowerCase().includes('linux');
+
+// Laser strokes take this long to fade once their time is up
+const LASER_FADE_DURATION_MS = 600;
+
+// Pixel size of the blocks a blur box is reduced to
+const PIXELATE_BLOCK_SIZE = 14;
+
+const getActionOpacity = (action: DrawingAction, now: number) => {
+  if (action.fadesAt === undefined || now <= action.fadesAt) return 1;
+  return Math.max(0, 1 - (now - action.fadesAt) / LASER_FADE_DURATION_MS);
+};
+
+const isActionFaded = (action: DrawingAction, now: number) =>
+  action.fadesAt !== undefined && now >= action.fadesAt + LASER_FADE_DURATION_MS;
+
+const drawActions = (ctx: CanvasRenderingContext2D, actions: DrawingAction[], now = performance.now()) => {
+  drawAnnotations(ctx, actions.map((action) => ({ ...action, opacity: getActionOpacity(action, now) })));
+};
+
+// Annotation layers store points relative to the display so the editor can draw them at any size
+const toAnnotationShape = (action: DrawingAction, width: number, height: number): AnnotationShape => ({
+  id: action.id,
+  tool: action.tool,
+  color: action.color,
+  size: action.size,
+  points: action.points.map((point) => ({ x: point.x / width, y: point.y / height })),
+  text: action.text,
+});
+
+const loadScreenshot = async (dataUrl: string) => {
+  const image = new Image();
+  image.src = dataUrl;
+  await image.decode();
+  return image;
+};
+
+// Shrink the area to a few pixels per block; it is scaled back up without smoothing when drawn
+const pixelateArea = (
+  screenshot: HTMLImageElement,
+  bounds: { x: number; y: number; width: number; height: number },
+  viewWidth: number
+) => {
+  const scale = screenshot.naturalWidth / viewWidth;
+  const patch = document.createElement('canvas');
+  patch.width = Math.max(1, Math.ceil(bounds.width / PIXELATE_BLOCK_SIZE));
+  patch.height = Math.max(1, Math.ceil(bounds.height / PIXELATE_BLOCK_SIZE));
+  const ctx = patch.getContext('2d');
+  if (!ctx) return null;
+  ctx.drawImage(
+    screenshot,
+    bounds.x * scale,
+    bounds.y * scale,
+    bounds.width * scale,
+    bounds.height * scale,
+    0,
+    0,
+    patch.width,
+    patch.height
+  );
+  return patch;
+};
+
 export function DrawingOverlay() {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const [isDrawing, setIsDrawing] = useState(false);
@@ -20,6 +98,16 @@ export function DrawingOverlay() {
   const [history, setHistory] = useState<DrawingAction[]>([]);
   const [currentAction, setCurrentAction] = useState<DrawingAction | null>(null);
   const [isToolbarVisible, setIsToolbarVisible] = useState(true);
+  const [drawingSettings, setDrawingSettings] = useState<DrawingSettings>(DEFAULT_DRAWING_SETTINGS);
+  const [pendingText, setPendingText] = useState<{ x: number; y: number; value: string } | null>(null);
+  // Enter and Escape unmount the input, which can also fire its blur; only the first one counts
+  const isTextPendingRef = useRef(false);
+  // Screen capture started when a blur box is begun, before the box itself is on screen
+  const screenCaptureRef = useRef<Promise<string | null> | null>(null);
+  // Drawings already sent to the annotation layer of the current recording
+  const recordedIdsRef = useRef<Set<string>>(new Set());
+  const [layerSession, setLayerSession] = useState(0);
+  const recordAsLayer = LAYER_RECORDING_SUPPORTED && Boolean(drawingSettings.recordAsLayer);
 
   // Initialize canvas
   useEffect(() => {
@@ -40,6 +128,53 @@ export function DrawingOverlay() {
     return () => window.removeEventListener('resize', handleResize);
   }, []);
 
+  useEffect(() => {
+    window.electronAPI?.getSettings().then((settings) => {
+      setDrawingSettings({ ...DEFAULT_DRAWING_SETTINGS, ...settings?.drawing });
+    });
+  }, []);
+
+  // Main keeps the overlay out of the capture only while a layer is recorded, so drawings are never lost
+  useEffect(() => {
+    window.electronAPI?.setOverlayCaptureExcluded(recordAsLayer);
+  }, [recordAsLayer]);
+
+  useEffect(() => {
+    return window.electronAPI?.onAnnotationRecordingStarted(() => {
+      recordedIdsRef.current = new Set();
+      setLayerSession((session) => session + 1);
+    });
+  }, []);
+
+  // Mirror what is on screen to the annotation layer; undo, clear and fading all end drawings there
+  useEffect(() => {
+    const recordedIds = recordedIdsRef.current;
+    const canvas = canvasRef.current;
+    if (!recordAsLayer || !canvas) {
+      if (recordedIds.size > 0) {
+        window.electronAPI?.removeAnnotations([...recordedIds]);
+        recordedIdsRef.current = new Set();
+      }
+      return;
+    }
+
+    const visibleIds = new Set(history.map((action) => action.id));
+    const removedIds = [...recordedIds].filter((id) => !visibleIds.has(id));
+    if (removedIds.length > 0) {
+      window.electronAPI?.removeAnnotations(removedIds);
+    }
+    history
+      .filter((action) => !recordedIds.has(action.id))
+      .forEach((action) => window.electronAPI?.addAnnotation(toAnnotationShape(action, canvas.width, canvas.height)));
+    recordedIdsRef.current = visibleIds;
+  }, [history, recordAsLayer, layerSession]);
+
+  const updateDrawingSettings = (updates: Partial<DrawingSettings>) => {
+    const drawing = { ...drawingSettings, ...updates };
+    setDrawingSettings(drawing);
+    window.electronAPI?.setSettings({ drawing });
+  };
+
   // Redraw all history
   const redrawCanvas = useCallback(() => {
     const canvas = canvasRef.current;
@@ -49,77 +184,15 @@ export function DrawingOverlay() {
     if (!ctx) return;
 
     ctx.clearRect(0, 0, canvas.width, canvas.height);
-
-    history.forEach((action) => {
-      drawAction(ctx, action);
-    });
+    drawActions(ctx, history);
   }, [history]);
 
-  // Draw a single action
-  const drawAction = (ctx: CanvasRenderingContext2D, action: DrawingAction) => {
-    ctx.strokeStyle = action.color;
-    ctx.lineWidth = action.size;
-    ctx.lineCap = 'round';
-    ctx.lineJoin = 'round';
-
-    if (action.tool === 'highlighter') {
-      ctx.globalAlpha = 0.3;
-    } else {
-      ctx.globalAlpha = 1;
-    }
-
-    switch (action.tool) {
-      case 'pen':
-      case 'highlighter':
-        if (action.points.length < 2) return;
-        ctx.beginPath();
-        ctx.moveTo(action.points[0].x, action.points[0].y);
-        action.points.forEach((point) => {
-          ctx.lineTo(point.x, point.y);
-        });
-        ctx.stroke();
-        break;
-
-      case 'arrow':
-      case 'rectangle':
-      case 'circle': {
-        if (action.points.length < 2) return;
-        const start = action.points[0];
-        const end = action.points[action.points.length - 1];
-
-        if (action.tool === 'arrow') {
-          drawArrow(ctx, start.x, start.y, end.x, end.y);
-        } else if (action.tool === 'rectangle') {
-          ctx.strokeRect(start.x, start.y, end.x - start.x, end.y - start.y);
-        } else if (action.tool === 'circle') {
-          const radius = Math.sqrt(Math.pow(end.x - start.x, 2) + Math.pow(end.y - start.y, 2));
-          ctx.beginPath();
-          ctx.arc(start.x, start.y, radius, 0, 2 * Math.PI);
-          ctx.stroke();
-        }
-        break;
-      }
-    }
-
-    ctx.globalAlpha = 1;
-  };
-
-  // Draw arrow helper
-  const drawArrow = (ctx: CanvasRenderingContext2D, x1: number, y1: number, x2: number, y2: number) => {
-    const headLength = 20;
-    const angle = Math.atan2(y2 - y1, x2 - x1);
-
-    ctx.beginPath();
-    ctx.moveTo(x1, y1);
-    ctx.lineTo(x2, y2);
-    ctx.stroke();
-
-    ctx.beginPath();
-    ctx.moveTo(x2, y2);
-    ctx.lineTo(x2 - headLength * Math.cos(angle - Math.PI / 6), y2 - headLength * Math.sin(angle - Math.PI / 6));
-    ctx.moveTo(x2, y2);
-    ctx.lineTo(x2 - headLength * Math.cos(angle + Math.PI / 6), y2 - headLength * Math.sin(angle + Math.PI / 6));
-    ctx.stroke();
+  // In laser mode new annotations fade out on their own; blur boxes stay so hidden areas are not revealed
+  const addAction = (action: DrawingAction) => {
+    const fadesAt = drawingSettings.fadeStrokes && action.tool !== 'blur'
+      ? performance.now() + drawingSettings.fadeAfter * 1000
+      : undefined;
+    setHistory((prev) => [...prev, { ...action, fadesAt }]);
   };
 
   // Mouse event handlers
@@ -130,16 +203,39 @@ export function DrawingOverlay() {
     const x = e.clientX - rect.left;
     const y = e.clientY - rect.top;
 
+    // Disable click-through while drawing
+    window.electronAPI?.setOverlayClickThrough(false);
+
+    if (tool === 'text') {
+      // Clicking elsewhere while typing commits the label through the input's blur
+      if (!pendingText) {
+        e.preventDefault();
+        isTextPendingRef.current = true;
+        setPendingText({ x, y, value: '' });
+      }
+      return;
+    }
+
+    if (tool === 'step') {
+      // Numbers follow the badges still on screen, so undoing one frees its number
+      const stepNumber = history.filter((action) => action.tool === 'step').length + 1;
+      addAction({ id: crypto.randomUUID(), tool, color, size: brushSize, points: [{ x, y }], text: String(stepNumber) });
+      window.electronAPI?.setOverlayClickThrough(true);
+      return;
+    }
+
+    if (tool === 'blur') {
+      screenCaptureRef.current = window.electronAPI?.captureOverlayScreen() ?? Promise.resolve(null);
+    }
+
     setIsDrawing(true);
     setCurrentAction({
+      id: crypto.randomUUID(),
       tool,
       color,
       size: brushSize,
       points: [{ x, y }],
     });
-
-    // Disable click-through while drawing
-    window.electronAPI?.setOverlayClickThrough(false);
   };
 
   const handleMouseMove = (e: React.MouseEvent<HTMLCanvasElement>) => {
@@ -160,20 +256,52 @@ export function DrawingOverlay() {
     const ctx = canvasRef.current.getContext('2d');
     if (ctx) {
       ctx.clearRect(0, 0, canvasRef.current.width, canvasRef.current.height);
-      history.forEach((action) => drawAction(ctx, action));
-      drawAction(ctx, updatedAction);
+      drawActions(ctx, [...history, updatedAction]);
     }
   };
 
-  const handleMouseUp = () => {
+  const handleMouseUp = async () => {
     if (!isDrawing || !currentAction) return;
 
     setIsDrawing(false);
-    setHistory([...history, currentAction]);
     setCurrentAction(null);
 
     // Re-enable click-through when not drawing
     window.electronAPI?.setOverlayClickThrough(true);
+
+    if (currentAction.tool === 'blur') {
+      const bounds = getAnnotationBounds(currentAction.points);
+      const capture = screenCaptureRef.current;
+      screenCaptureRef.current = null;
+      if (bounds.width < 2 || bounds.height < 2) {
+        redrawCanvas();
+        return;
+      }
+      let patch: HTMLCanvasElement | null = null;
+      try {
+        const dataUrl = await capture;
+        if (dataUrl) {
+          patch = pixelateArea(await loadScreenshot(dataUrl), bounds, canvasRef.current?.width ?? window.innerWidth);
+        }
+      } catch (error) {
+        console.error('Failed to pixelate blur box:', error);
+      }
+      addAction({ ...currentAction, patch });
+      return;
+    }
+
+    addAction(currentAction);
+  };
+
+  const finishPendingText = (commit: boolean) => {
+    if (!pendingText || !isTextPendingRef.current) return;
+    isTextPendingRef.current = false;
+    const text = pendingText.value.trim();
+    if (commit && text) {
+      addAction({ id: crypto.randomUUID(), tool: 'text', color, size: brushSize, points: [{ x: pendingText.x, y: pendingText.y }], text });
+    }
+    setPendingText(null);
+    window.electronAPI?.setOverlayClickThrough(true);
   };
 
   // Undo/Redo
@@ -196,6 +324,36 @@ export function DrawingOverlay() {
     redrawCanvas();
   }, [history, redrawCanvas]);
 
+  // Animate laser strokes while any are on screen and drop them once they have faded
+  useEffect(() => {
+    if (!history.some((action) => action.fadesAt !== undefined)) return;
+
+    let frame = 0;
+    const tick = () => {
+      const now = performance.now();
+      if (history.some((action) => isActionFaded(action, now))) {
+        setHistory((prev) => prev.filter((action) => !isActionFaded(action, now)));
+        return;
+      }
+      const canvas = canvasRef.current;
+      const ctx = canvas?.getContext('2d');
+      if (canvas && ctx) {
+        ctx.clearRect(0, 0, canvas.width, canvas.height);
+        drawActions(ctx, currentAction ? [...history, currentAction] : history, now);
+      }
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [history, currentAction]);
+
+  // Clear everything once nothing has been drawn for a while
+  useEffect(() => {
+    if (!drawingSettings.autoClear || history.length === 0 || isDrawing || pendingText) return;
+    const timeout = window.setTimeout(handleClear, drawingSettings.autoClearAfter * 1000);
+    return () => window.clearTimeout(timeout);
+  }, [history, isDrawing, pendingText, drawingSettings.autoClear, drawingSettings.autoClearAfter]);
+
   return (
     <div className="w-screen h-screen relative">
       {/* Drawing canvas */}
@@ -208,6 +366,33 @@ export function DrawingOverlay() {
         onMouseLeave={handleMouseUp}
       />
 
+      {/* Text label being typed */}
+      {pendingText && (
+        <input
+          autoFocus
+          value={pendingText.value}
+          onChange={(e) => setPendingText({ ...pendingText, value: e.target.value })}
+          onBlur={() => finishPendingText(true)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              finishPendingText(true);
+            } else if (e.key === 'Escape') {
+              finishPendingText(false);
+            }
+          }}
+          className="absolute bg-transparent border-b border-dashed border-white/70 outline-none font-bold"
+          style={{
+            left: pendingText.x,
+            top: pendingText.y,
+            color,
+            fontSize: getAnnotationFontSize(brushSize),
+            fontFamily: 'sans-serif',
+            textShadow: '0 0 4px rgba(0, 0, 0, 0.8)',
+          }}
+          placeholder="Type a label"
+        />
+      )}
+
       {/* Floating toolbar */}
       {isToolbarVisible && (
         <div className="absolute top-4 left-1/2 transform -translate-x-1/2 pointer-events-auto">
@@ -218,6 +403,9 @@ export function DrawingOverlay() {
             onToolChange={setTool}
             onColorChange={setColor}
             onBrushSizeChange={setBrushSize}
+            drawingSettings={drawingSettings}
+            onDrawingSettingsChange={updateDrawingSettings}
+            canRecordAsLayer={LAYER_RECORDING_SUPPORTED}
             onUndo={handleUndo}
             onClear={handleClear}
             onClose={() => window.electronAPI?.closeOverlay()}
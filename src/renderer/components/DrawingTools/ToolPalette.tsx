@@ -1,4 +1,5 @@
 import { useState } from 'react';
+import type { DrawingSettings } from '../../../shared/types';
 import type { DrawingTool, DrawingColor } from './DrawingOverlay';
 
 interface ToolPaletteProps {
@@ -8,6 +9,9 @@ interface ToolPaletteProps {
   onToolChange: (tool: DrawingTool) => void;
   onColorChange: (color: DrawingColor) => void;
   onBrushSizeChange: (size: number) => void;
+  drawingSettings: DrawingSettings;
+  onDrawingSettingsChange: (updates: Partial<DrawingSettings>) => void;
+  canRecordAsLayer: boolean; // False where the overlay cannot be kept out of the capture
   onUndo: () => void;
   onClear: () => void;
   onClose: () => void;
@@ -26,6 +30,8 @@ const COLORS: DrawingColor[] = [
 ];
 
 const SIZES = [2, 3, 5, 8, 12];
+const FADE_DELAYS = [1, 2, 3, 5, 10];
+const AUTO_CLEAR_DELAYS = [5, 10, 30, 60];
 
 export function ToolPalette({
   tool,
@@ -34,6 +40,9 @@ export function ToolPalette({
   onToolChange,
   onColorChange,
   onBrushSizeChange,
+  drawingSettings,
+  onDrawingSettingsChange,
+  canRecordAsLayer,
   onUndo,
   onClear,
   onClose,
@@ -41,6 +50,7 @@ export function ToolPalette({
 }: ToolPaletteProps) {
   const [showColorPicker, setShowColorPicker] = useState(false);
   const [showSizePicker, setShowSizePicker] = useState(false);
+  const [showTimingOptions, setShowTimingOptions] = useState(false);
 
   return (
     <div className="flex flex-col gap-2" onClick={(e) => e.stopPropagation()}>
@@ -85,6 +95,38 @@ export function ToolPalette({
           </ToolButton>
         </div>
 
+        {/* Annotation tools */}
+        <div className="flex gap-1 border-r border-dark-600 pr-2">
+          <ToolButton
+            active={tool === 'text'}
+            onClick={() => onToolChange('text')}
+            title="Text Label"
+          >
+            <TextIcon />
+          </ToolButton>
+          <ToolButton
+            active={tool === 'step'}
+            onClick={() => onToolChange('step')}
+            title="Numbered Step"
+          >
+            <StepIcon />
+          </ToolButton>
+          <ToolButton
+            active={tool === 'blur'}
+            onClick={() => onToolChange('blur')}
+            title="Blur Box"
+          >
+            <BlurIcon />
+          </ToolButton>
+          <ToolButton
+            active={tool === 'spotlight'}
+            onClick={() => onToolChange('spotlight')}
+            title="Spotlight"
+          >
+            <SpotlightIcon />
+          </ToolButton>
+        </div>
+
         {/* Color picker */}
         <div className="relative border-r border-dark-600 pr-2">
           <button
@@ -143,6 +185,75 @@ export function ToolPalette({
           )}
         </div>
 
+        {/* Laser pointer and auto-clear */}
+        <div className="relative flex gap-1 border-r border-dark-600 pr-2">
+          <ToolButton
+            active={drawingSettings.fadeStrokes}
+            onClick={() => onDrawingSettingsChange({ fadeStrokes: !drawingSettings.fadeStrokes })}
+            title="Laser Pointer (strokes fade out)"
+          >
+            <LaserIcon />
+          </ToolButton>
+          <ToolButton
+            active={showTimingOptions}
+            onClick={() => setShowTimingOptions(!showTimingOptions)}
+            title="Fade and Auto-Clear Timing"
+          >
+            <TimerIcon />
+          </ToolButton>
+          {canRecordAsLayer && (
+            <ToolButton
+              active={Boolean(drawingSettings.recordAsLayer)}
+              onClick={() => onDrawingSettingsChange({ recordAsLayer: !drawingSettings.recordAsLayer })}
+              title="Record as Editable Layer (screen and area captures of the main display keep drawings out of the video, editable in the editor)"
+            >
+              <LayerIcon />
+            </ToolButton>
+          )}
+          {showTimingOptions && (
+            <div className="absolute top-full left-0 mt-2 w-56 bg-dark-800 rounded-lg shadow-xl p-3 flex flex-col gap-3 z-50 text-sm text-dark-200">
+              <label className="flex items-center justify-between gap-2">
+                Fade after
+                <select
+                  className="select text-xs"
+                  value={drawingSettings.fadeAfter}
+                  onChange={(e) => onDrawingSettingsChange({ fadeAfter: Number(e.target.value) })}
+                >
+                  {FADE_DELAYS.map((seconds) => (
+                    <option key={seconds} value={seconds}>
+                      {seconds}s
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={drawingSettings.autoClear}
+                  onChange={(e) => onDrawingSettingsChange({ autoClear: e.target.checked })}
+                  className="rounded"
+                />
+                Auto-clear when idle
+              </label>
+              <label className="flex items-center justify-between gap-2">
+                Clear after
+                <select
+                  className="select text-xs"
+                  value={drawingSettings.autoClearAfter}
+                  disabled={!drawingSettings.autoClear}
+                  onChange={(e) => onDrawingSettingsChange({ autoClearAfter: Number(e.target.value) })}
+                >
+                  {AUTO_CLEAR_DELAYS.map((seconds) => (
+                    <option key={seconds} value={seconds}>
+                      {seconds}s
+                    </option>
+                  ))}
+                </select>
+              </label>
+            </div>
+          )}
+        </div>
+
         {/* Actions */}
         <div className="flex gap-1">
           <ActionButton
@@ -268,6 +379,67 @@ function CircleIcon() {
   );
 }
 
+function TextIcon() {
+  return (
+    <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 6V4h14v2M12 4v16m-3 0h6" />
+    </svg>
+  );
+}
+
+function StepIcon() {
+  return (
+    <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+      <circle cx="12" cy="12" r="9" strokeWidth={2} />
+      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10.5 9.5L12 8v8" />
+    </svg>
+  );
+}
+
+function BlurIcon() {
+  return (
+    <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+      <rect x="4" y="4" width="16" height="16" strokeWidth={2} rx="2" />
+      <path strokeWidth={2} d="M4 12h16M12 4v16" />
+      <path fill="currentColor" stroke="none" d="M4 4h8v8H4zM12 12h8v8h-8z" opacity={0.5} />
+    </svg>
+  );
+}
+
+function SpotlightIcon() {
+  return (
+    <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+      <path fill="currentColor" stroke="none" opacity={0.4} fillRule="evenodd" d="M3 3h18v18H3zM12 7a6 4.5 0 100 9 6 4.5 0 100-9z" />
+      <ellipse cx="12" cy="11.5" rx="6" ry="4.5" strokeWidth={2} />
+    </svg>
+  );
+}
+
+function LaserIcon() {
+  return (
+    <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+      <circle cx="17" cy="7" r="2.5" strokeWidth={2} />
+      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 20l8-8m-3 1l-2 2m6-6l-1.5 1.5" />
+    </svg>
+  );
+}
+
+function TimerIcon() {
+  return (
+    <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+    </svg>
+  );
+}
+
+function LayerIcon() {
+  return (
+    <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4l8 4-8 4-8-4 8-4zm-8 8l8 4 8-4m-16 4l8 4 8-4" />
+    </svg>
+  );
+}
+
 function UndoIcon() {
   return (
     <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
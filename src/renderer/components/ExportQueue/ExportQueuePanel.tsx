@@ -0,0 +1,162 @@
+import { useState, useEffect, useRef } from 'react';
+import type { ExportJob, ExportJobStatus } from '../../../shared/types';
+import { toast } from '../Toasts/toast';
+
+export function ExportQueuePanel() {
+  const [jobs, setJobs] = useState<ExportJob[]>([]);
+  const [isExpanded, setIsExpanded] = useState(true);
+  const statusByIdRef = useRef(new Map<string, ExportJobStatus>());
+
+  useEffect(() => {
+    let active = true;
+    window.electronAPI.getExportJobs()
+      .then((data) => {
+        if (!active) return;
+        data.forEach((job) => statusByIdRef.current.set(job.id, job.status));
+        setJobs(data);
+      })
+      .catch((error) => {
+        console.error('Failed to load export queue:', error);
+      });
+
+    const unsubscribe = window.electronAPI.onExportJobUpdated((job) => {
+      const previousStatus = statusByIdRef.current.get(job.id);
+      statusByIdRef.current.set(job.id, job.status);
+      if (previousStatus !== job.status) {
+        if (job.status === 'completed') {
+          toast({ type: 'success', title: 'Export finished', message: job.request.name });
+        } else if (job.status === 'failed') {
+          toast({ type: 'error', title: 'Export failed', message: job.error ?? job.request.name });
+        }
+      }
+      setJobs((prev) =>
+        prev.some((item) => item.id === job.id)
+          ? prev.map((item) => (item.id === job.id ? job : item))
+          : [...prev, job]
+      );
+    });
+
+    return () => {
+      active = false;
+      unsubscribe?.();
+    };
+  }, []);
+
+  const handleCancel = async (id: string) => {
+    try {
+      await window.electronAPI.cancelExportJob(id);
+    } catch (error) {
+      console.error('Failed to cancel export:', error);
+    }
+  };
+
+  const handleReveal = async (id: string) => {
+    try {
+      await window.electronAPI.revealExportOutput(id);
+    } catch (error) {
+      console.error('Failed to reveal export:', error);
+    }
+  };
+
+  const handleClearFinished = async () => {
+    await window.electronAPI.clearFinishedExportJobs();
+    setJobs((prev) => prev.filter((job) => job.status === 'queued' || job.status === 'running'));
+  };
+
+  if (jobs.length === 0) return null;
+
+  const activeCount = jobs.filter((job) => job.status === 'queued' || job.status === 'running').length;
+  const hasFinished = jobs.length > activeCount;
+
+  return (
+    <div className="fixed bottom-4 right-4 z-40 w-80 card shadow-lg overflow-hidden">
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="w-full flex items-center justify-between px-4 py-2 border-b border-dark-700 text-sm font-semibold"
+      >
+        <span>Exports{activeCount > 0 ? ` (${activeCount} active)` : ''}</span>
+        <ChevronIcon className={`w-4 h-4 transition-transform ${isExpanded ? '' : 'rotate-180'}`} />
+      </button>
+      {isExpanded && (
+        <div className="max-h-72 overflow-auto p-3 space-y-3">
+          {jobs.map((job) => (
+            <ExportJobRow key={job.id} job={job} onCancel={handleCancel} onReveal={handleReveal} />
+          ))}
+          {hasFinished && (
+            <button onClick={handleClearFinished} className="btn btn-secondary text-xs w-full">
+              Clear finished
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function ExportJobRow({
+  job,
+  onCancel,
+  onReveal,
+}: {
+  job: ExportJob;
+  onCancel: (id: string) => void;
+  onReveal: (id: string) => void;
+}) {
+  const isActive = job.status === 'queued' || job.status === 'running';
+  const statusColor =
+    job.status === 'failed'
+      ? 'text-red-400'
+      : job.status === 'completed'
+      ? 'text-emerald-400'
+      : job.status === 'cancelled'
+      ? 'text-dark-500'
+      : 'text-dark-300';
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center gap-2">
+        <span className="text-xs text-white truncate flex-1" title={job.request.name}>
+          {job.request.name}
+        </span>
+        {isActive && (
+          <button
+            onClick={() => onCancel(job.id)}
+            className="text-xs text-dark-400 hover:text-red-400"
+            title="Cancel export"
+          >
+            Cancel
+          </button>
+        )}
+        {job.status === 'completed' && job.outputPath && (
+          <button
+            onClick={() => onReveal(job.id)}
+            className="text-xs text-dark-400 hover:text-white"
+            title="Show in folder"
+          >
+            Show
+          </button>
+        )}
+      </div>
+      {job.status === 'running' && (
+        <div className="w-full h-1.5 bg-dark-700 rounded-full overflow-hidden">
+          <div className="h-full bg-primary-600 transition-all" style={{ width: `${job.progress}%` }} />
+        </div>
+      )}
+      <div className={`flex items-center justify-between text-[11px] ${statusColor}`}>
+        <span className="truncate" title={job.error}>
+          {job.status === 'failed' && job.error ? job.error : job.stage}
+        </span>
+        {job.status === 'running' && <span>{job.progress}%</span>}
+      </div>
+    </div>
+  );
+}
+
+// Icons
+function ChevronIcon({ className = 'w-5 h-5' }: { className?: string }) {
+  return (
+    <svg className={className} fill="none" viewBox="0 0 24 24" stroke="currentColor">
+      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+    </svg>
+  );
+}
@@ -0,0 +1 @@
+export { ExportQueuePanel } from './ExportQueuePanel';
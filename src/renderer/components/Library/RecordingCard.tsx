@@ -1,25 +1,37 @@
-import type { Recording } from '../../../shared/types';
+import type { Recording, SubtitleFormat } from '../../../shared/types';
 import { toMediaUrl } from '../../utils/mediaUrl';
 
 interface RecordingCardProps {
   recording: Recording;
   onPlay: (recording: Recording) => void;
   onEdit: (recording: Recording) => void;
+  onResumeEdit?: (recording: Recording) => void;
   onDelete: (id: string) => void;
   onRestore: (id: string) => void;
   onPurge: (id: string) => void;
   onReveal: (id: string) => void;
+  onConvert?: (id: string) => void;
+  onTranscribe?: (id: string) => void;
+  onEnhance?: (id: string) => void;
+  onExportCaptions?: (id: string, format: SubtitleFormat) => void;
 }
 
 export function RecordingCard({
   recording,
   onPlay,
   onEdit,
+  onResumeEdit,
   onDelete,
   onRestore,
   onPurge,
   onReveal,
+  onConvert,
+  onTranscribe,
+  onEnhance,
+  onExportCaptions,
 }: RecordingCardProps) {
+  const { conversion, enhancement, transcription } = recording;
+
   const formatDuration = (seconds: number): string => {
     const hours = Math.floor(seconds / 3600);
     const minutes = Math.floor((seconds % 3600) / 60);
@@ -101,6 +113,15 @@ export function RecordingCard({
               >
                 <EditIcon className="w-6 h-6 text-white" />
               </button>
+              {onResumeEdit && (
+                <button
+                  onClick={() => onResumeEdit(recording)}
+                  className="p-3 bg-purple-600 rounded-full hover:bg-purple-500 transition-colors"
+                  title="Resume Editing"
+                >
+                  <ResumeIcon className="w-6 h-6 text-white" />
+                </button>
+              )}
               <button
                 onClick={() => onReveal(recording.id)}
                 className="p-3 bg-dark-600 rounded-full hover:bg-dark-500 transition-colors"
@@ -128,6 +149,16 @@ export function RecordingCard({
         <div className="absolute top-2 right-2 px-2 py-1 bg-black/80 rounded text-xs font-medium text-white">
           {recording.quality}
         </div>
+
+        {/* MP4 conversion progress */}
+        {conversion && conversion.status !== 'failed' && (
+          <div className="absolute bottom-0 left-0 right-0 h-1 bg-black/60">
+            <div
+              className="h-full bg-primary-500 transition-all"
+              style={{ width: `${conversion.progress}%` }}
+            />
+          </div>
+        )}
       </div>
 
       {/* Info */}
@@ -142,6 +173,96 @@ export function RecordingCard({
         {recording.deletedAt && (
           <div className="text-xs text-red-400 mt-1">In Trash</div>
         )}
+        {!recording.deletedAt && enhancement?.status === 'queued' && (
+          <div className="text-xs text-dark-400 mt-1">Waiting to clean up audio</div>
+        )}
+        {!recording.deletedAt && enhancement?.status === 'enhancing' && (
+          <div className="text-xs text-primary-400 mt-1">Enhancing audio... {enhancement.progress}%</div>
+        )}
+        {!recording.deletedAt && enhancement?.status === 'failed' && (
+          <div className="flex items-center justify-between text-xs mt-1">
+            <span className="text-red-400 truncate" title={enhancement.error}>Audio cleanup failed</span>
+            {onEnhance && (
+              <button
+                onClick={() => onEnhance(recording.id)}
+                className="text-primary-400 hover:text-primary-300 ml-2"
+              >
+                Retry
+              </button>
+            )}
+          </div>
+        )}
+        {!recording.deletedAt && conversion?.status === 'queued' && (
+          <div className="text-xs text-dark-400 mt-1">Waiting to convert to MP4</div>
+        )}
+        {!recording.deletedAt && conversion?.status === 'converting' && (
+          <div className="text-xs text-primary-400 mt-1">Converting to MP4... {conversion.progress}%</div>
+        )}
+        {!recording.deletedAt && conversion?.status === 'failed' && (
+          <div className="flex items-center justify-between text-xs mt-1">
+            <span className="text-red-400 truncate" title={conversion.error}>MP4 conversion failed</span>
+            {onConvert && (
+              <button
+                onClick={() => onConvert(recording.id)}
+                className="text-primary-400 hover:text-primary-300 ml-2"
+              >
+                Retry
+              </button>
+            )}
+          </div>
+        )}
+        {!recording.deletedAt && transcription?.status === 'queued' && (
+          <div className="text-xs text-dark-400 mt-1">Waiting to generate captions</div>
+        )}
+        {!recording.deletedAt && transcription?.status === 'transcribing' && (
+          <div className="text-xs text-primary-400 mt-1">Generating captions... {transcription.progress}%</div>
+        )}
+        {!recording.deletedAt && transcription?.status === 'failed' && (
+          <div className="flex items-center justify-between text-xs mt-1">
+            <span className="text-red-400 truncate" title={transcription.error}>Captions failed</span>
+            {onTranscribe && (
+              <button
+                onClick={() => onTranscribe(recording.id)}
+                className="text-primary-400 hover:text-primary-300 ml-2"
+              >
+                Retry
+              </button>
+            )}
+          </div>
+        )}
+        {!recording.deletedAt && !transcription && recording.hasTranscript && onExportCaptions && (
+          <div className="flex items-center gap-2 text-xs mt-1">
+            <span className="text-dark-400">Captions:</span>
+            <button
+              onClick={() => onExportCaptions(recording.id, 'srt')}
+              className="text-primary-400 hover:text-primary-300"
+            >
+              SRT
+            </button>
+            <button
+              onClick={() => onExportCaptions(recording.id, 'vtt')}
+              className="text-primary-400 hover:text-primary-300"
+            >
+              VTT
+            </button>
+          </div>
+        )}
+        {!recording.deletedAt && !transcription && !recording.hasTranscript && onTranscribe && (
+          <button
+            onClick={() => onTranscribe(recording.id)}
+            className="block text-xs text-primary-400 hover:text-primary-300 mt-1"
+          >
+            Generate captions
+          </button>
+        )}
+        {!recording.deletedAt && onResumeEdit && (
+          <button
+            onClick={() => onResumeEdit(recording)}
+            className="text-xs text-primary-400 hover:text-primary-300 mt-1"
+          >
+            Resume editing
+          </button>
+        )}
       </div>
     </div>
   );
@@ -233,3 +354,16 @@ function FolderIcon({ className = 'w-5 h-5' }: { className?: string }) {
     </svg>
   );
 }
+
+function ResumeIcon({ className = 'w-5 h-5' }: { className?: string }) {
+  return (
+    <svg className={className} fill="none" viewBox="0 0 24 24" stroke="currentColor">
+      <path
+        strokeLinecap="round"
+        strokeLinejoin="round"
+        strokeWidth={2}
+        d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15"
+      />
+    </svg>
+  );
+}
@@ -2,14 +2,17 @@ import { useState, useEffect } from 'react';
 import { RecordingCard } from './RecordingCard';
 import { VideoPlayer } from './VideoPlayer';
 import { VideoEditor } from '../VideoEditor';
-import type { Recording } from '../../../shared/types';
+import type { Recording, SubtitleFormat, TimelineProject } from '../../../shared/types';
 
 export function RecordingList() {
   const [recordings, setRecordings] = useState<Recording[]>([]);
   const [searchQuery, setSearchQuery] = useState('');
+  const [transcriptMatches, setTranscriptMatches] = useState<Set<string>>(new Set());
   const [sortBy, setSortBy] = useState<'date' | 'name' | 'duration'>('date');
   const [selectedRecording, setSelectedRecording] = useState<Recording | null>(null);
   const [editingRecording, setEditingRecording] = useState<Recording | null>(null);
+  const [editingProject, setEditingProject] = useState<TimelineProject | null>(null);
+  const [projects, setProjects] = useState<TimelineProject[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [showTrash, setShowTrash] = useState(false);
 
@@ -33,6 +36,48 @@ export function RecordingList() {
     };
   }, []);
 
+  // MP4 conversion progress, and the new path once the MP4 replaces the WebM
+  useEffect(() => {
+    const unsubscribe = window.electronAPI.onRecordingUpdated((recording) => {
+      setRecordings((prev) => prev.map((r) => (r.id === recording.id ? recording : r)));
+      // An open editor and saved projects must follow the MP4, or saving them writes the deleted WebM back
+      setEditingRecording((prev) => (prev?.id === recording.id && prev.path !== recording.path ? recording : prev));
+      if (!recording.conversion) {
+        loadProjects();
+      }
+    });
+
+    return () => {
+      unsubscribe?.();
+    };
+  }, []);
+
+  // Transcripts live in the main process, so search them there once typing settles
+  useEffect(() => {
+    const query = searchQuery.trim();
+    if (!query) {
+      setTranscriptMatches(new Set());
+      return;
+    }
+
+    let cancelled = false;
+    const timeoutId = window.setTimeout(async () => {
+      try {
+        const ids = await window.electronAPI.searchTranscripts(query);
+        if (!cancelled) {
+          setTranscriptMatches(new Set(ids));
+        }
+      } catch (error) {
+        console.error('Failed to search transcripts:', error);
+      }
+    }, 250);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeoutId);
+    };
+  }, [searchQuery]);
+
   const loadRecordings = async () => {
     setIsLoading(true);
     try {
@@ -43,13 +88,27 @@ export function RecordingList() {
     } finally {
       setIsLoading(false);
     }
+    loadProjects();
+  };
+
+  const loadProjects = async () => {
+    try {
+      const data = await window.electronAPI.listProjects();
+      setProjects(data);
+    } catch (error) {
+      console.error('Failed to load projects:', error);
+    }
   };
 
+  // Projects come back newest first, so the first match is the latest edit
+  const getLatestProject = (recordingId: string) =>
+    projects.find((project) => project.recordingId === recordingId) ?? null;
+
   // Filter and sort recordings
   const filteredRecordings = recordings
     .filter((recording) => (showTrash ? recording.deletedAt : !recording.deletedAt))
     .filter((recording) =>
-      recording.name.toLowerCase().includes(searchQuery.toLowerCase())
+      recording.name.toLowerCase().includes(searchQuery.toLowerCase()) || transcriptMatches.has(recording.id)
     )
     .sort((a, b) => {
       switch (sortBy) {
@@ -119,6 +178,42 @@ export function RecordingList() {
     await window.electronAPI.revealRecording(id);
   };
 
+  const handleConvert = async (id: string) => {
+    try {
+      await window.electronAPI.convertRecordingToMp4(id);
+    } catch (error) {
+      console.error('Failed to queue MP4 conversion:', error);
+      alert('Failed to convert recording');
+    }
+  };
+
+  const handleTranscribe = async (id: string) => {
+    try {
+      await window.electronAPI.transcribeRecording(id);
+    } catch (error) {
+      console.error('Failed to queue transcription:', error);
+      alert('Failed to generate captions');
+    }
+  };
+
+  const handleEnhance = async (id: string) => {
+    try {
+      await window.electronAPI.enhanceRecordingAudio(id);
+    } catch (error) {
+      console.error('Failed to queue audio cleanup:', error);
+      alert('Failed to clean up audio');
+    }
+  };
+
+  const handleExportCaptions = async (id: string, format: SubtitleFormat) => {
+    try {
+      await window.electronAPI.exportTranscript(id, format);
+    } catch (error) {
+      console.error('Failed to export captions:', error);
+      alert('Failed to export captions');
+    }
+  };
+
   // Handle play
   const handlePlay = (recording: Recording) => {
     setSelectedRecording(recording);
@@ -126,13 +221,24 @@ export function RecordingList() {
 
   // Handle edit
   const handleEdit = (recording: Recording) => {
+    setEditingProject(null);
+    setEditingRecording(recording);
+  };
+
+  // Handle resume editing from a saved project
+  const handleResumeEdit = (recording: Recording) => {
+    setEditingProject(getLatestProject(recording.id));
     setEditingRecording(recording);
   };
 
-  // Handle save edited recording
-  const handleSaveEdit = async () => {
-    await loadRecordings();
+  const handleProjectSaved = (project: TimelineProject) => {
+    setProjects((prev) => [project, ...prev.filter((p) => p.id !== project.id)]);
+  };
+
+  // The exported recording arrives later through onRecordingSaved
+  const handleExportQueued = () => {
     setEditingRecording(null);
+    setEditingProject(null);
   };
 
   // Handle open folder
@@ -221,10 +327,15 @@ export function RecordingList() {
                 recording={recording}
                 onPlay={handlePlay}
                 onEdit={handleEdit}
+                onResumeEdit={getLatestProject(recording.id) ? handleResumeEdit : undefined}
                 onDelete={handleDelete}
                 onRestore={handleRestore}
                 onPurge={handlePurge}
                 onReveal={handleReveal}
+                onConvert={handleConvert}
+                onTranscribe={handleTranscribe}
+                onEnhance={handleEnhance}
+                onExportCaptions={handleExportCaptions}
               />
             ))}
           </div>
@@ -243,8 +354,13 @@ export function RecordingList() {
       {editingRecording && (
         <VideoEditor
           recording={editingRecording}
-          onClose={() => setEditingRecording(null)}
-          onSave={handleSaveEdit}
+          project={editingProject}
+          onClose={() => {
+            setEditingRecording(null);
+            setEditingProject(null);
+          }}
+          onExportQueued={handleExportQueued}
+          onProjectSaved={handleProjectSaved}
         />
       )}
     </div>
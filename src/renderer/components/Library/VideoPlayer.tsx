@@ -1,5 +1,5 @@
 import { useRef, useState, useEffect } from 'react';
-import type { Recording } from '../../../shared/types';
+import type { Recording, Transcript } from '../../../shared/types';
 import { toMediaUrl } from '../../utils/mediaUrl';
 
 interface VideoPlayerProps {
@@ -14,6 +14,29 @@ export function VideoPlayer({ recording, onClose }: VideoPlayerProps) {
   const [volume, setVolume] = useState(1);
   const [isMuted, setIsMuted] = useState(false);
   const [showControls, setShowControls] = useState(true);
+  const [transcript, setTranscript] = useState<Transcript | null>(null);
+  const [showCaptions, setShowCaptions] = useState(true);
+
+  useEffect(() => {
+    if (!recording.hasTranscript) {
+      setTranscript(null);
+      return;
+    }
+
+    let cancelled = false;
+    window.electronAPI
+      .getTranscript(recording.id)
+      .then((data) => {
+        if (!cancelled) {
+          setTranscript(data);
+        }
+      })
+      .catch((error) => console.error('Failed to load transcript:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [recording.id, recording.hasTranscript]);
 
   useEffect(() => {
     const video = videoRef.current;
@@ -62,15 +85,26 @@ export function VideoPlayer({ recording, onClose }: VideoPlayerProps) {
     }
   };
 
-  const handleSeek = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const seekTo = (time: number) => {
     const video = videoRef.current;
     if (!video) return;
 
-    const time = parseFloat(e.target.value);
     video.currentTime = time;
     setCurrentTime(time);
   };
 
+  const handleSeek = (e: React.ChangeEvent<HTMLInputElement>) => {
+    seekTo(parseFloat(e.target.value));
+  };
+
+  const markers = (recording.markers ?? []).filter(
+    (marker) => marker.time >= 0 && marker.time <= recording.duration
+  );
+
+  const activeCaption = showCaptions
+    ? transcript?.segments.find((segment) => currentTime >= segment.start && currentTime < segment.end)
+    : undefined;
+
   const handleVolumeChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const video = videoRef.current;
     if (!video) return;
@@ -144,6 +178,15 @@ export function VideoPlayer({ recording, onClose }: VideoPlayerProps) {
             controls={false}
           />
 
+          {/* Captions */}
+          {activeCaption && (
+            <div className="absolute left-0 right-0 bottom-28 flex justify-center px-8 pointer-events-none">
+              <span className="px-3 py-1 rounded bg-black/75 text-white text-lg text-center">
+                {activeCaption.text}
+              </span>
+            </div>
+          )}
+
           {/* Controls overlay */}
           <div
             className={`absolute bottom-0 left-0 right-0 bg-gradient-to-t from-black/80 to-transparent p-4 transition-opacity ${
@@ -151,15 +194,27 @@ export function VideoPlayer({ recording, onClose }: VideoPlayerProps) {
             }`}
           >
             {/* Progress bar */}
-            <input
-              type="range"
-              min="0"
-              max={recording.duration}
-              step="0.1"
-              value={currentTime}
-              onChange={handleSeek}
-              className="w-full mb-3 accent-primary-600"
-            />
+            <div className="relative mb-3">
+              <input
+                type="range"
+                min="0"
+                max={recording.duration}
+                step="0.1"
+                value={currentTime}
+                onChange={handleSeek}
+                className="w-full accent-primary-600"
+              />
+              {/* Marker ticks */}
+              {recording.duration > 0 && markers.map((marker) => (
+                <button
+                  key={marker.id}
+                  onClick={() => seekTo(marker.time)}
+                  className="absolute -top-1 w-1.5 h-4 -ml-[3px] rounded-sm bg-yellow-400 hover:bg-yellow-300"
+                  style={{ left: `${(marker.time / recording.duration) * 100}%` }}
+                  title={`${marker.label} (${formatTime(marker.time)})`}
+                />
+              ))}
+            </div>
 
             {/* Control buttons */}
             <div className="flex items-center gap-4">
@@ -216,6 +271,19 @@ export function VideoPlayer({ recording, onClose }: VideoPlayerProps) {
                 />
               </div>
 
+              {/* Captions toggle */}
+              {transcript && (
+                <button
+                  onClick={() => setShowCaptions(!showCaptions)}
+                  className={`p-2 rounded transition-colors text-white ${
+                    showCaptions ? 'bg-white/20' : 'hover:bg-white/10'
+                  }`}
+                  title={showCaptions ? 'Hide captions' : 'Show captions'}
+                >
+                  <CaptionsIcon />
+                </button>
+              )}
+
               {/* Quality badge */}
               <div className="px-2 py-1 bg-white/10 rounded text-xs font-medium text-white">
                 {recording.quality}
@@ -310,3 +378,12 @@ function ForwardIcon() {
     </svg>
   );
 }
+
+function CaptionsIcon() {
+  return (
+    <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+      <rect x="3" y="5" width="18" height="14" rx="2" strokeWidth={2} />
+      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 10.5a2 2 0 100 3M17 10.5a2 2 0 100 3" />
+    </svg>
+  );
+}
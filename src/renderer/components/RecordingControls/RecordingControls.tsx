@@ -1,10 +1,11 @@
-import { useEffect } from 'react';
+import { useEffect, useState } from 'react';
 import { useRecordingStore } from '../../stores/recordingStore';
 import { useRecording } from '../../hooks/useRecording';
 
 export function RecordingControls() {
-  const { status, selectedSource, duration } = useRecordingStore();
-  const { startRecording, stopRecording, pauseRecording, resumeRecording } = useRecording();
+  const { status, selectedSource, duration, markers } = useRecordingStore();
+  const { startRecording, stopRecording, pauseRecording, resumeRecording, addMarker } = useRecording();
+  const [markerLabel, setMarkerLabel] = useState('');
 
   const isIdle = status === 'idle';
   const isRecording = status === 'recording';
@@ -30,14 +31,28 @@ export function RecordingControls() {
       }
     };
 
+    // The label typed beforehand (if any) is used for the next marker
+    const handleMarkerShortcut = () => {
+      if (!isRecording && !isPaused) return;
+      addMarker(markerLabel);
+      setMarkerLabel('');
+    };
+
     window.addEventListener('shortcut:startStop', handleStartStopShortcut);
     window.addEventListener('shortcut:pause', handlePauseShortcut);
+    window.addEventListener('shortcut:marker', handleMarkerShortcut);
 
     return () => {
       window.removeEventListener('shortcut:startStop', handleStartStopShortcut);
       window.removeEventListener('shortcut:pause', handlePauseShortcut);
+      window.removeEventListener('shortcut:marker', handleMarkerShortcut);
     };
-  }, [isIdle, isRecording, isPaused, canStart, startRecording, stopRecording, pauseRecording, resumeRecording]);
+  }, [isIdle, isRecording, isPaused, canStart, markerLabel, startRecording, stopRecording, pauseRecording, resumeRecording, addMarker]);
+
+  const handleAddMarker = () => {
+    addMarker(markerLabel);
+    setMarkerLabel('');
+  };
 
   return (
     <div className="flex items-center gap-4">
@@ -81,6 +96,32 @@ export function RecordingControls() {
             {isPaused ? <PlayIcon /> : <PauseIcon />}
           </button>
 
+          {/* Marker */}
+          <div className="flex items-center gap-1">
+            <input
+              type="text"
+              value={markerLabel}
+              onChange={(e) => setMarkerLabel(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') handleAddMarker();
+              }}
+              placeholder="Marker label (optional)"
+              className="input text-xs w-44"
+            />
+            <button
+              onClick={handleAddMarker}
+              className="btn btn-secondary p-3 relative"
+              title="Add Marker"
+            >
+              <MarkerIcon />
+              {markers.length > 0 && (
+                <span className="absolute -top-1 -right-1 min-w-[1.25rem] h-5 px-1 rounded-full bg-primary-600 text-[10px] leading-5 text-white">
+                  {markers.length}
+                </span>
+              )}
+            </button>
+          </div>
+
           {/* Stop button */}
           <button
             onClick={stopRecording}
@@ -138,6 +179,14 @@ function PauseIcon() {
   );
 }
 
+function MarkerIcon() {
+  return (
+    <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 5a2 2 0 012-2h10a2 2 0 012 2v16l-7-3.5L5 21V5z" />
+    </svg>
+  );
+}
+
 function StopIcon() {
   return (
     <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 24 24">
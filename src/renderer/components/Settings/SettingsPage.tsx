@@ -1,5 +1,17 @@
 import { useState, useEffect, useMemo, useRef } from 'react';
-import type { AppSettings, DisplayInfo } from '../../../shared/types';
+import type {
+  AppSettings,
+  AudioCleanupSettings,
+  AudioEnhancementPreset,
+  DisplayInfo,
+  ExportFormat,
+  ExportPreset,
+  TranscriptionSettings,
+  WatermarkPosition,
+  WatermarkSettings,
+} from '../../../shared/types';
+import { AUDIO_ENHANCEMENT_LABELS } from '../../../shared/utils/audio';
+import { EXPORT_FORMATS } from '../../../shared/constants/export';
 import { useMediaDevices } from '../../hooks/useMediaDevices';
 
 const CAMERA_SIZE_PRESETS: Record<NonNullable<AppSettings['webcam']>['size'], number> = {
@@ -8,10 +20,76 @@ const CAMERA_SIZE_PRESETS: Record<NonNullable<AppSettings['webcam']>['size'], nu
   large: 350,
 };
 
+const DEFAULT_TRANSCRIPTION: TranscriptionSettings = {
+  binaryPath: '',
+  modelPath: '',
+  language: 'auto',
+  autoTranscribe: false,
+};
+
+const DEFAULT_AUDIO_CLEANUP: AudioCleanupSettings = {
+  autoEnhance: false,
+  preset: 'voice',
+  rnnoiseModelPath: '',
+};
+
+// Raw would make the automatic step a no-op
+const AUTO_CLEANUP_PRESETS: AudioEnhancementPreset[] = ['voice', 'podcast'];
+
+// Starting values of the new preset form; fields a format does not use are dropped on save
+const NEW_EXPORT_PRESET: Omit<ExportPreset, 'id'> = {
+  label: '',
+  format: 'mp4',
+  width: 1920,
+  height: 1080,
+  bitrate: '8000k',
+  fps: 12,
+};
+
+const describeExportPreset = (preset: ExportPreset) => {
+  const format = preset.format ?? 'mp4';
+  const { kind, label } = EXPORT_FORMATS[format];
+  const details =
+    kind === 'gif'
+      ? [preset.width > 0 ? `${preset.width}px wide` : 'Source width', `${preset.fps ?? 12} fps`]
+      : kind === 'audio'
+      ? [preset.bitrate]
+      : [preset.width > 0 && preset.height > 0 ? `${preset.width}×${preset.height}` : 'Source size', preset.bitrate];
+  return [label, ...details.filter(Boolean)].join(' · ');
+};
+
+const DEFAULT_WATERMARK: WatermarkSettings = {
+  enabled: false,
+  imagePath: '',
+  position: 'bottom-right',
+  size: 12,
+  opacity: 0.8,
+};
+
+const WATERMARK_POSITIONS: { value: WatermarkPosition; label: string }[] = [
+  { value: 'top-left', label: 'Top left' },
+  { value: 'top-right', label: 'Top right' },
+  { value: 'bottom-left', label: 'Bottom left' },
+  { value: 'bottom-right', label: 'Bottom right' },
+  { value: 'center', label: 'Center' },
+];
+
+const CAPTION_LANGUAGES: { value: string; label: string }[] = [
+  { value: 'auto', label: 'Detect automatically' },
+  { value: 'en', label: 'English' },
+  { value: 'es', label: 'Spanish' },
+  { value: 'fr', label: 'French' },
+  { value: 'de', label: 'German' },
+  { value: 'pt', label: 'Portuguese' },
+  { value: 'ja', label: 'Japanese' },
+  { value: 'zh', label: 'Chinese' },
+];
+
 const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
 
 export function SettingsPage() {
   const [settings, setSettings] = useState<AppSettings | null>(null);
+  const [newExportPreset, setNewExportPreset] = useState(NEW_EXPORT_PRESET);
   const [selectedFolder, setSelectedFolder] = useState('');
   const [isEditingShortcut, setIsEditingShortcut] = useState<string | null>(null);
   const [shortcutKeys, setShortcutKeys] = useState<string[]>([]);
@@ -55,6 +133,86 @@ export function SettingsPage() {
     }
   };
 
+  const updateTranscriptionSettings = async (updates: Partial<TranscriptionSettings>) => {
+    if (!settings) return;
+    const transcription = { ...DEFAULT_TRANSCRIPTION, ...settings.transcription, ...updates };
+    setSettings({ ...settings, transcription });
+    await window.electronAPI?.setSettings({ transcription });
+  };
+
+  const handleWhisperBinarySelect = async () => {
+    const binaryPath = await window.electronAPI?.selectFile({ title: 'Select whisper.cpp Program' });
+    if (binaryPath) {
+      await updateTranscriptionSettings({ binaryPath });
+    }
+  };
+
+  const handleWhisperModelSelect = async () => {
+    const modelPath = await window.electronAPI?.selectFile({
+      title: 'Select Speech Model',
+      filters: [{ name: 'ggml Models', extensions: ['bin'] }],
+    });
+    if (modelPath) {
+      await updateTranscriptionSettings({ modelPath });
+    }
+  };
+
+  const updateAudioCleanupSettings = async (updates: Partial<AudioCleanupSettings>) => {
+    if (!settings) return;
+    const audioCleanup = { ...DEFAULT_AUDIO_CLEANUP, ...settings.audioCleanup, ...updates };
+    setSettings({ ...settings, audioCleanup });
+    await window.electronAPI?.setSettings({ audioCleanup });
+  };
+
+  const handleRnnoiseModelSelect = async () => {
+    const rnnoiseModelPath = await window.electronAPI?.selectFile({
+      title: 'Select Noise Reduction Model',
+      filters: [{ name: 'RNNoise Models', extensions: ['rnnn'] }],
+    });
+    if (rnnoiseModelPath) {
+      await updateAudioCleanupSettings({ rnnoiseModelPath });
+    }
+  };
+
+  const saveExportPresets = async (exportPresets: ExportPreset[]) => {
+    if (!settings) return;
+    setSettings({ ...settings, exportPresets });
+    await window.electronAPI?.setSettings({ exportPresets });
+  };
+
+  const handleAddExportPreset = async () => {
+    const { label, format = 'mp4', width, height, bitrate, fps } = newExportPreset;
+    const { kind } = EXPORT_FORMATS[format];
+    const preset: ExportPreset = {
+      id: `custom-${crypto.randomUUID().slice(0, 8)}`,
+      label: label.trim(),
+      format,
+      width: kind === 'audio' ? 0 : width,
+      height: kind === 'video' ? height : 0,
+      bitrate: kind === 'gif' || format === 'wav' ? '' : bitrate.trim(),
+      ...(kind === 'gif' ? { fps } : {}),
+    };
+    await saveExportPresets([...(settings?.exportPresets ?? []), preset]);
+    setNewExportPreset(NEW_EXPORT_PRESET);
+  };
+
+  const updateWatermarkSettings = async (updates: Partial<WatermarkSettings>) => {
+    if (!settings) return;
+    const watermark = { ...DEFAULT_WATERMARK, ...settings.watermark, ...updates };
+    setSettings({ ...settings, watermark });
+    await window.electronAPI?.setSettings({ watermark });
+  };
+
+  const handleWatermarkImageSelect = async () => {
+    const imagePath = await window.electronAPI?.selectFile({
+      title: 'Select Watermark Image',
+      filters: [{ name: 'Images', extensions: ['png', 'jpg', 'jpeg', 'webp', 'svg'] }],
+    });
+    if (imagePath) {
+      await updateWatermarkSettings({ imagePath, enabled: true });
+    }
+  };
+
   const updateWebcamSettings = async (updates: Partial<AppSettings['webcam']>) => {
     if (!settings) return;
     const updatedWebcam = {
@@ -243,7 +401,7 @@ export function SettingsPage() {
     }
   };
 
-  const handleShortcutEdit = (shortcutKey: 'startStop' | 'pause' | 'drawing') => {
+  const handleShortcutEdit = (shortcutKey: keyof AppSettings['shortcuts']) => {
     setIsEditingShortcut(shortcutKey);
     setShortcutKeys([]);
   };
@@ -351,6 +509,304 @@ export function SettingsPage() {
           </div>
         </div>
 
+        {/* Recording Output */}
+        <div className="card p-4">
+          <h2 className="font-semibold mb-4">Recording Output</h2>
+          <div className="space-y-3">
+            <div>
+              <label className="text-xs text-dark-400 mb-1 block">Convert recordings to MP4</label>
+              <select
+                className="select w-full"
+                value={settings.mp4Conversion ?? 'off'}
+                onChange={(e) => {
+                  const value = e.target.value as NonNullable<AppSettings['mp4Conversion']>;
+                  setSettings({ ...settings, mp4Conversion: value });
+                  window.electronAPI?.setSettings({ mp4Conversion: value });
+                }}
+              >
+                <option value="off">Off (keep WebM)</option>
+                <option value="remux">Remux (fast, keeps original quality)</option>
+                <option value="transcode">Transcode with quality preset</option>
+              </select>
+              <p className="text-xs text-dark-500 mt-1">
+                Runs in the background after each recording. The WebM is kept until the MP4 is ready.
+              </p>
+            </div>
+            <label className="flex items-center gap-2 text-xs text-dark-400">
+              <input
+                type="checkbox"
+                checked={settings.useHardwareEncoder ?? false}
+                disabled={settings.mp4Conversion !== 'transcode'}
+                onChange={(e) => {
+                  setSettings({ ...settings, useHardwareEncoder: e.target.checked });
+                  window.electronAPI?.setSettings({ useHardwareEncoder: e.target.checked });
+                }}
+                className="rounded"
+              />
+              Use hardware encoder when transcoding
+            </label>
+            <label className="flex items-center gap-2 text-xs text-dark-400">
+              <input
+                type="checkbox"
+                checked={settings.separateAudioTracks ?? false}
+                onChange={(e) => {
+                  setSettings({ ...settings, separateAudioTracks: e.target.checked });
+                  window.electronAPI?.setSettings({ separateAudioTracks: e.target.checked });
+                }}
+                className="rounded"
+              />
+              Keep microphone and system audio as separate tracks
+            </label>
+            <p className="text-xs text-dark-500">
+              The recording still has the mixed audio; the editor can rebalance the separate tracks on export.
+            </p>
+          </div>
+        </div>
+
+        {/* Audio Cleanup */}
+        <div className="card p-4">
+          <h2 className="font-semibold mb-4">Audio Cleanup</h2>
+          <div className="space-y-3">
+            <label className="flex items-center gap-2 text-xs text-dark-400">
+              <input
+                type="checkbox"
+                checked={settings.audioCleanup?.autoEnhance ?? false}
+                onChange={(e) => updateAudioCleanupSettings({ autoEnhance: e.target.checked })}
+                className="rounded"
+              />
+              Clean up audio after each recording
+            </label>
+            <div>
+              <label className="text-xs text-dark-400 mb-1 block">Preset</label>
+              <select
+                className="select w-full"
+                value={settings.audioCleanup?.preset ?? 'voice'}
+                onChange={(e) => updateAudioCleanupSettings({ preset: e.target.value as AudioEnhancementPreset })}
+              >
+                {AUTO_CLEANUP_PRESETS.map((preset) => (
+                  <option key={preset} value={preset}>
+                    {AUDIO_ENHANCEMENT_LABELS[preset]}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="text-xs text-dark-400 mb-1 block">Noise reduction model (optional)</label>
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  className="input flex-1"
+                  value={settings.audioCleanup?.rnnoiseModelPath ?? ''}
+                  readOnly
+                  placeholder="Select an RNNoise model (.rnnn)..."
+                />
+                {settings.audioCleanup?.rnnoiseModelPath && (
+                  <button
+                    className="btn btn-secondary"
+                    onClick={() => updateAudioCleanupSettings({ rnnoiseModelPath: '' })}
+                  >
+                    Clear
+                  </button>
+                )}
+                <button className="btn btn-secondary" onClick={handleRnnoiseModelSelect}>
+                  Browse
+                </button>
+              </div>
+            </div>
+            <p className="text-xs text-dark-500">
+              Removes background noise and rumble, evens out levels and normalizes loudness to -16 LUFS. The same
+              presets are in the editor's audio settings. Without a model, FFT noise reduction is used.
+            </p>
+          </div>
+        </div>
+
+        {/* Export Presets */}
+        <div className="card p-4">
+          <h2 className="font-semibold mb-4">Export Presets</h2>
+          <div className="space-y-3">
+            {(settings.exportPresets ?? []).length > 0 && (
+              <div className="space-y-2">
+                {(settings.exportPresets ?? []).map((preset) => (
+                  <div key={preset.id} className="flex items-center gap-2">
+                    <div className="flex-1 min-w-0">
+                      <div className="text-sm truncate">{preset.label}</div>
+                      <div className="text-xs text-dark-500 truncate">{describeExportPreset(preset)}</div>
+                    </div>
+                    <button
+                      className="btn btn-secondary text-xs"
+                      onClick={() =>
+                        saveExportPresets((settings.exportPresets ?? []).filter((item) => item.id !== preset.id))
+                      }
+                    >
+                      Remove
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="text-xs text-dark-400 mb-1 block">Name</label>
+                <input
+                  type="text"
+                  className="input w-full text-xs"
+                  value={newExportPreset.label}
+                  onChange={(e) => setNewExportPreset({ ...newExportPreset, label: e.target.value })}
+                  placeholder="e.g. Docs GIF"
+                />
+              </div>
+              <div>
+                <label className="text-xs text-dark-400 mb-1 block">Format</label>
+                <select
+                  className="select w-full text-xs"
+                  value={newExportPreset.format}
+                  onChange={(e) => setNewExportPreset({ ...newExportPreset, format: e.target.value as ExportFormat })}
+                >
+                  {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map((format) => (
+                    <option key={format} value={format}>
+                      {EXPORT_FORMATS[format].label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              {EXPORT_FORMATS[newExportPreset.format ?? 'mp4'].kind !== 'audio' && (
+                <div>
+                  <label className="text-xs text-dark-400 mb-1 block">Width (0 keeps the source)</label>
+                  <input
+                    type="number"
+                    min="0"
+                    max="7680"
+                    step="2"
+                    value={newExportPreset.width}
+                    onChange={(e) =>
+                      setNewExportPreset({ ...newExportPreset, width: clamp(Number(e.target.value), 0, 7680) })
+                    }
+                    className="input w-full text-xs"
+                  />
+                </div>
+              )}
+              {EXPORT_FORMATS[newExportPreset.format ?? 'mp4'].kind === 'video' && (
+                <div>
+                  <label className="text-xs text-dark-400 mb-1 block">Height (0 keeps the source)</label>
+                  <input
+                    type="number"
+                    min="0"
+                    max="4320"
+                    step="2"
+                    value={newExportPreset.height}
+                    onChange={(e) =>
+                      setNewExportPreset({ ...newExportPreset, height: clamp(Number(e.target.value), 0, 4320) })
+                    }
+                    className="input w-full text-xs"
+                  />
+                </div>
+              )}
+              {newExportPreset.format === 'gif' && (
+                <div>
+                  <label className="text-xs text-dark-400 mb-1 block">Frame Rate (FPS)</label>
+                  <input
+                    type="number"
+                    min="1"
+                    max="30"
+                    step="1"
+                    value={newExportPreset.fps}
+                    onChange={(e) =>
+                      setNewExportPreset({ ...newExportPreset, fps: clamp(Number(e.target.value), 1, 30) })
+                    }
+                    className="input w-full text-xs"
+                  />
+                </div>
+              )}
+              {newExportPreset.format !== 'gif' && newExportPreset.format !== 'wav' && (
+                <div>
+                  <label className="text-xs text-dark-400 mb-1 block">Bitrate</label>
+                  <input
+                    type="text"
+                    className="input w-full text-xs"
+                    value={newExportPreset.bitrate}
+                    onChange={(e) => setNewExportPreset({ ...newExportPreset, bitrate: e.target.value })}
+                    placeholder={EXPORT_FORMATS[newExportPreset.format ?? 'mp4'].kind === 'audio' ? '192k' : '8000k'}
+                  />
+                </div>
+              )}
+            </div>
+            <button
+              className="btn btn-secondary text-xs"
+              onClick={handleAddExportPreset}
+              disabled={!newExportPreset.label.trim()}
+            >
+              Add Preset
+            </button>
+            <p className="text-xs text-dark-500">
+              Saved presets appear in the editor after the built-in ones. Leave the video bitrate empty to encode
+              for constant quality. GIFs keep their aspect ratio.
+            </p>
+          </div>
+        </div>
+
+        {/* Captions */}
+        <div className="card p-4">
+          <h2 className="font-semibold mb-4">Captions</h2>
+          <div className="space-y-3">
+            <div>
+              <label className="text-xs text-dark-400 mb-1 block">whisper.cpp program</label>
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  className="input flex-1"
+                  value={settings.transcription?.binaryPath ?? ''}
+                  readOnly
+                  placeholder="Select whisper-cli..."
+                />
+                <button className="btn btn-secondary" onClick={handleWhisperBinarySelect}>
+                  Browse
+                </button>
+              </div>
+            </div>
+            <div>
+              <label className="text-xs text-dark-400 mb-1 block">Speech model</label>
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  className="input flex-1"
+                  value={settings.transcription?.modelPath ?? ''}
+                  readOnly
+                  placeholder="Select a ggml model (.bin)..."
+                />
+                <button className="btn btn-secondary" onClick={handleWhisperModelSelect}>
+                  Browse
+                </button>
+              </div>
+            </div>
+            <div>
+              <label className="text-xs text-dark-400 mb-1 block">Spoken language</label>
+              <select
+                className="select w-full"
+                value={settings.transcription?.language ?? 'auto'}
+                onChange={(e) => updateTranscriptionSettings({ language: e.target.value })}
+              >
+                {CAPTION_LANGUAGES.map((language) => (
+                  <option key={language.value} value={language.value}>
+                    {language.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <label className="flex items-center gap-2 text-xs text-dark-400">
+              <input
+                type="checkbox"
+                checked={settings.transcription?.autoTranscribe ?? false}
+                onChange={(e) => updateTranscriptionSettings({ autoTranscribe: e.target.checked })}
+                className="rounded"
+              />
+              Generate captions after each recording
+            </label>
+            <p className="text-xs text-dark-500">
+              Transcription runs locally; audio never leaves this computer.
+            </p>
+          </div>
+        </div>
+
         {/* Storage Location */}
         <div className="card p-4">
           <h2 className="font-semibold mb-4">Storage Location</h2>
@@ -487,6 +943,85 @@ export function SettingsPage() {
           </div>
         </div>
 
+        {/* Watermark */}
+        <div className="card p-4">
+          <h2 className="font-semibold mb-4">Watermark</h2>
+          <div className="space-y-3">
+            <label className="flex items-center gap-2 text-xs text-dark-400">
+              <input
+                type="checkbox"
+                checked={settings.watermark?.enabled ?? false}
+                onChange={(e) => updateWatermarkSettings({ enabled: e.target.checked })}
+                disabled={!settings.watermark?.imagePath}
+                className="rounded"
+              />
+              Add a watermark to every recording
+            </label>
+            <div>
+              <label className="text-xs text-dark-400 mb-1 block">Image</label>
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  className="input flex-1"
+                  value={settings.watermark?.imagePath ?? ''}
+                  readOnly
+                  placeholder="Select a logo (PNG or SVG)..."
+                />
+                <button className="btn btn-secondary" onClick={handleWatermarkImageSelect}>
+                  Browse
+                </button>
+              </div>
+            </div>
+            <div>
+              <label className="text-xs text-dark-400 mb-1 block">Position</label>
+              <select
+                className="select w-full"
+                value={settings.watermark?.position ?? DEFAULT_WATERMARK.position}
+                onChange={(e) => updateWatermarkSettings({ position: e.target.value as WatermarkPosition })}
+              >
+                {WATERMARK_POSITIONS.map((position) => (
+                  <option key={position.value} value={position.value}>
+                    {position.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="text-xs text-dark-400 mb-1 block">
+                  Size: {settings.watermark?.size ?? DEFAULT_WATERMARK.size}% of width
+                </label>
+                <input
+                  type="range"
+                  min="2"
+                  max="50"
+                  step="1"
+                  value={settings.watermark?.size ?? DEFAULT_WATERMARK.size}
+                  onChange={(e) => updateWatermarkSettings({ size: Number(e.target.value) })}
+                  className="w-full accent-primary-600"
+                />
+              </div>
+              <div>
+                <label className="text-xs text-dark-400 mb-1 block">
+                  Opacity: {Math.round((settings.watermark?.opacity ?? DEFAULT_WATERMARK.opacity) * 100)}%
+                </label>
+                <input
+                  type="range"
+                  min="5"
+                  max="100"
+                  step="1"
+                  value={Math.round((settings.watermark?.opacity ?? DEFAULT_WATERMARK.opacity) * 100)}
+                  onChange={(e) => updateWatermarkSettings({ opacity: Number(e.target.value) / 100 })}
+                  className="w-full accent-primary-600"
+                />
+              </div>
+            </div>
+            <p className="text-xs text-dark-500">
+              The watermark is drawn into the video while recording, so it cannot be removed later.
+            </p>
+          </div>
+        </div>
+
         {/* Keyboard Shortcuts */}
         <div className="card p-4">
           <h2 className="font-semibold mb-4">Keyboard Shortcuts</h2>
@@ -526,6 +1061,18 @@ export function SettingsPage() {
               onSave={handleShortcutSave}
               onCancel={handleShortcutCancel}
             />
+
+            {/* Add Marker */}
+            <ShortcutRow
+              label="Add Marker"
+              shortcut={settings.shortcuts.marker}
+              isEditing={isEditingShortcut === 'marker'}
+              editingKeys={shortcutKeys}
+              onEdit={() => handleShortcutEdit('marker')}
+              onKeyDown={handleShortcutKeyDown}
+              onSave={handleShortcutSave}
+              onCancel={handleShortcutCancel}
+            />
           </div>
           <p className="text-xs text-dark-500 mt-3">
             Click on a shortcut to change it, then press your desired key combination.
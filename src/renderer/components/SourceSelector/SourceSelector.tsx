@@ -1,6 +1,11 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { useRecordingStore } from '../../stores/recordingStore';
-import type { SourceInfo, DisplayInfo } from '../../../shared/types';
+import type { SourceInfo, DisplayInfo, CaptureRegion } from '../../../shared/types';
+
+const MIN_REGION_SIZE = 0.02;
+const DEFAULT_REGION: CaptureRegion = { x: 0.1, y: 0.1, width: 0.8, height: 0.8 };
+
+const getRegionKey = (source: SourceInfo) => source.display_id || source.id;
 
 interface SourceSelectorProps {
   isOpen: boolean;
@@ -10,12 +15,14 @@ interface SourceSelectorProps {
 
 export function SourceSelector({ isOpen, onClose, onSelect }: SourceSelectorProps) {
   const { availableSources, setAvailableSources } = useRecordingStore();
-  const [filter, setFilter] = useState<'all' | 'screens' | 'windows'>('all');
+  const [filter, setFilter] = useState<'all' | 'screens' | 'windows' | 'area'>('all');
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [debugLog, setDebugLog] = useState<string | null>(null);
   const [displayInfo, setDisplayInfo] = useState<DisplayInfo[]>([]);
   const [frameRate, setFrameRate] = useState<number | null>(null);
+  const [savedRegions, setSavedRegions] = useState<Record<string, CaptureRegion>>({});
+  const [regionSource, setRegionSource] = useState<SourceInfo | null>(null);
 
   // Listen for debug logs from main process
   useEffect(() => {
@@ -30,6 +37,7 @@ export function SourceSelector({ isOpen, onClose, onSelect }: SourceSelectorProp
   useEffect(() => {
     if (isOpen) {
       setDebugLog(null);
+      setRegionSource(null);
       fetchSources();
       fetchDisplays();
       fetchSettings();
@@ -51,6 +59,7 @@ export function SourceSelector({ isOpen, onClose, onSelect }: SourceSelectorProp
       if (settings?.frameRate) {
         setFrameRate(settings.frameRate);
       }
+      setSavedRegions(settings?.captureRegionByDisplay ?? {});
     } catch (err) {
       console.error('Failed to fetch settings:', err);
     }
@@ -77,7 +86,7 @@ export function SourceSelector({ isOpen, onClose, onSelect }: SourceSelectorProp
 
   const filteredSources = availableSources.filter((source) => {
     if (filter === 'all') return true;
-    if (filter === 'screens') return source.id.startsWith('screen:');
+    if (filter === 'screens' || filter === 'area') return source.id.startsWith('screen:');
     if (filter === 'windows') return source.id.startsWith('window:');
     return true;
   });
@@ -85,6 +94,18 @@ export function SourceSelector({ isOpen, onClose, onSelect }: SourceSelectorProp
   const screens = availableSources.filter((s) => s.id.startsWith('screen:'));
   const windows = availableSources.filter((s) => s.id.startsWith('window:'));
 
+  const handleRegionConfirm = async (source: SourceInfo, region: CaptureRegion) => {
+    const key = getRegionKey(source);
+    setSavedRegions((prev) => ({ ...prev, [key]: region }));
+    try {
+      await window.electronAPI.setSettings({ captureRegionByDisplay: { [key]: region } });
+    } catch (err) {
+      console.error('Failed to save capture region:', err);
+    }
+    onSelect({ ...source, region });
+    onClose();
+  };
+
   if (!isOpen) return null;
 
   return (
@@ -118,6 +139,11 @@ export function SourceSelector({ isOpen, onClose, onSelect }: SourceSelectorProp
             onClick={() => setFilter('windows')}
             label={`Windows (${windows.length})`}
           />
+          <FilterTab
+            active={filter === 'area'}
+            onClick={() => setFilter('area')}
+            label="Select Area"
+          />
           <button
             onClick={fetchSources}
             className="ml-auto btn btn-secondary text-sm flex items-center gap-2"
@@ -130,7 +156,15 @@ export function SourceSelector({ isOpen, onClose, onSelect }: SourceSelectorProp
 
         {/* Sources grid */}
         <div className="flex-1 overflow-auto p-4">
-          {isLoading ? (
+          {regionSource ? (
+            <RegionPicker
+              source={regionSource}
+              display={displayInfo.find((d) => String(d.id) === String(regionSource.display_id))}
+              initialRegion={savedRegions[getRegionKey(regionSource)] ?? DEFAULT_REGION}
+              onCancel={() => setRegionSource(null)}
+              onConfirm={(region) => handleRegionConfirm(regionSource, region)}
+            />
+          ) : isLoading ? (
             <div className="flex items-center justify-center h-48">
               <div className="text-dark-400">Loading sources...</div>
             </div>
@@ -167,6 +201,10 @@ export function SourceSelector({ isOpen, onClose, onSelect }: SourceSelectorProp
                   displayInfo={displayInfo}
                   frameRate={frameRate}
                   onClick={() => {
+                    if (filter === 'area') {
+                      setRegionSource(source);
+                      return;
+                    }
                     onSelect(source);
                     onClose();
                   }}
@@ -269,6 +307,128 @@ function SourceCard({
   );
 }
 
+function RegionPicker({
+  source,
+  display,
+  initialRegion,
+  onCancel,
+  onConfirm,
+}: {
+  source: SourceInfo;
+  display?: DisplayInfo;
+  initialRegion: CaptureRegion;
+  onCancel: () => void;
+  onConfirm: (region: CaptureRegion) => void;
+}) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const dragStartRef = useRef<{ x: number; y: number } | null>(null);
+  const [region, setRegion] = useState<CaptureRegion>(initialRegion);
+
+  const clamp = (value: number) => Math.min(Math.max(value, 0), 1);
+
+  const getPointerPosition = (event: React.PointerEvent) => {
+    const rect = containerRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0 || rect.height === 0) return null;
+    return {
+      x: clamp((event.clientX - rect.left) / rect.width),
+      y: clamp((event.clientY - rect.top) / rect.height),
+    };
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+    const point = getPointerPosition(event);
+    if (!point) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    dragStartRef.current = point;
+    setRegion({ x: point.x, y: point.y, width: 0, height: 0 });
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    const start = dragStartRef.current;
+    if (!start) return;
+    const point = getPointerPosition(event);
+    if (!point) return;
+    setRegion({
+      x: Math.min(start.x, point.x),
+      y: Math.min(start.y, point.y),
+      width: Math.abs(point.x - start.x),
+      height: Math.abs(point.y - start.y),
+    });
+  };
+
+  const handlePointerUp = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (!dragStartRef.current) return;
+    event.currentTarget.releasePointerCapture(event.pointerId);
+    dragStartRef.current = null;
+  };
+
+  const isTooSmall = region.width < MIN_REGION_SIZE || region.height < MIN_REGION_SIZE;
+  const pixelSize = display
+    ? `${Math.round(region.width * display.width)}×${Math.round(region.height * display.height)}`
+    : null;
+  const aspectRatio = display ? display.width / display.height : 16 / 9;
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div className="text-sm text-dark-300">
+        Drag on <span className="text-white">{source.name}</span> to select the area to record.
+      </div>
+      <div
+        ref={containerRef}
+        className="relative w-full bg-dark-900 rounded-lg overflow-hidden cursor-crosshair select-none touch-none"
+        style={{ aspectRatio: `${aspectRatio}` }}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+      >
+        {source.thumbnail ? (
+          <img
+            src={source.thumbnail}
+            alt={source.name}
+            className="w-full h-full object-fill pointer-events-none"
+            draggable={false}
+          />
+        ) : (
+          <div className="flex items-center justify-center h-full text-dark-500">
+            <ScreenIcon className="w-12 h-12" />
+          </div>
+        )}
+        <div
+          className="absolute border-2 border-primary-500 pointer-events-none"
+          style={{
+            left: `${region.x * 100}%`,
+            top: `${region.y * 100}%`,
+            width: `${region.width * 100}%`,
+            height: `${region.height * 100}%`,
+            boxShadow: '0 0 0 9999px rgba(0, 0, 0, 0.55)',
+          }}
+        />
+      </div>
+      <div className="flex items-center gap-3">
+        <div className="text-xs text-dark-400">
+          {pixelSize ? `Area: ${pixelSize}` : `Area: ${Math.round(region.width * 100)}% × ${Math.round(region.height * 100)}%`}
+        </div>
+        <button
+          onClick={() => setRegion({ x: 0, y: 0, width: 1, height: 1 })}
+          className="ml-auto btn btn-secondary text-sm"
+        >
+          Full Screen
+        </button>
+        <button onClick={onCancel} className="btn btn-secondary text-sm">
+          Back
+        </button>
+        <button
+          onClick={() => onConfirm(region)}
+          className="btn btn-primary text-sm"
+          disabled={isTooSmall}
+        >
+          Use Area
+        </button>
+      </div>
+    </div>
+  );
+}
+
 // Icons
 function CloseIcon() {
   return (
@@ -0,0 +1,213 @@
+import type { Annotation, AnnotationTool, AnnotationTrack } from '../../../shared/types';
+
+interface AnnotationPanelProps {
+  track: AnnotationTrack | null; // Layer of the previewed source
+  sourceDuration: number;
+  selectedAnnotationId: string | null;
+  onSelectAnnotation: (id: string | null) => void;
+  onSeek: (time: number) => void;
+  onChange: (track: AnnotationTrack) => void;
+}
+
+const TOOL_LABELS: Record<AnnotationTool, string> = {
+  pen: 'Pen',
+  arrow: 'Arrow',
+  rectangle: 'Rectangle',
+  circle: 'Circle',
+  highlighter: 'Highlighter',
+  text: 'Text',
+  step: 'Step',
+  blur: 'Blur Box',
+  spotlight: 'Spotlight',
+};
+
+export function AnnotationPanel({
+  track,
+  sourceDuration,
+  selectedAnnotationId,
+  onSelectAnnotation,
+  onSeek,
+  onChange,
+}: AnnotationPanelProps) {
+  if (!track) {
+    return (
+      <p className="mt-6 text-xs text-dark-500">
+        This clip has no annotation layer. Turn on "Record as editable layer" in the drawing tools before recording to
+        keep drawings editable.
+      </p>
+    );
+  }
+
+  const annotations = [...track.annotations].sort((a, b) => a.start - b.start);
+  const selectedAnnotation = annotations.find((annotation) => annotation.id === selectedAnnotationId) ?? null;
+
+  const updateAnnotation = (id: string, updates: Partial<Annotation>) => {
+    onChange({
+      ...track,
+      annotations: track.annotations.map((annotation) => (annotation.id === id ? { ...annotation, ...updates } : annotation)),
+    });
+  };
+
+  const handleDeleteAnnotation = (id: string) => {
+    onChange({ ...track, annotations: track.annotations.filter((annotation) => annotation.id !== id) });
+    if (selectedAnnotationId === id) {
+      onSelectAnnotation(null);
+    }
+  };
+
+  const setAllHidden = (hidden: boolean) => {
+    onChange({ ...track, annotations: track.annotations.map((annotation) => ({ ...annotation, hidden })) });
+  };
+
+  return (
+    <div className="mt-6 space-y-4">
+      <div className="flex gap-2">
+        <button onClick={() => setAllHidden(false)} className="btn btn-secondary text-xs flex-1">
+          Show All
+        </button>
+        <button onClick={() => setAllHidden(true)} className="btn btn-secondary text-xs flex-1">
+          Hide All
+        </button>
+      </div>
+
+      {annotations.length === 0 && <p className="text-xs text-dark-500">All annotations were deleted.</p>}
+
+      {annotations.length > 0 && (
+        <div className="space-y-2 max-h-64 overflow-y-auto">
+          {annotations.map((annotation) => (
+            <div
+              key={annotation.id}
+              className={`card p-2 cursor-pointer ${selectedAnnotationId === annotation.id ? 'border-primary-600' : ''} ${
+                annotation.hidden ? 'opacity-50' : ''
+              }`}
+              onClick={() => {
+                onSelectAnnotation(annotation.id);
+                onSeek(annotation.start);
+              }}
+            >
+              <div className="flex items-center justify-between gap-2">
+                <div className="flex items-center gap-2 min-w-0">
+                  <span className="w-3 h-3 rounded-full flex-shrink-0" style={{ backgroundColor: annotation.color }} />
+                  <div className="min-w-0">
+                    <div className="text-xs truncate">
+                      {TOOL_LABELS[annotation.tool]}
+                      {annotation.text ? ` · ${annotation.text}` : ''}
+                    </div>
+                    <div className="text-xs text-dark-500">
+                      {annotation.start.toFixed(1)}s - {annotation.end === null ? 'end' : `${annotation.end.toFixed(1)}s`}
+                    </div>
+                  </div>
+                </div>
+                <div className="flex items-center gap-1">
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      updateAnnotation(annotation.id, { hidden: !annotation.hidden });
+                    }}
+                    className="btn-icon"
+                    title={annotation.hidden ? 'Show' : 'Hide'}
+                  >
+                    {annotation.hidden ? <HiddenIcon /> : <VisibleIcon />}
+                  </button>
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      handleDeleteAnnotation(annotation.id);
+                    }}
+                    className="btn-icon text-red-400 hover:text-red-300"
+                  >
+                    <DeleteIcon />
+                  </button>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Selected annotation */}
+      {selectedAnnotation && (
+        <div className="card p-3 space-y-3">
+          <label className="text-sm font-medium">Selected Annotation</label>
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <label className="text-xs text-dark-400 mb-1 block">Start (s)</label>
+              <input
+                type="number"
+                min="0"
+                max={sourceDuration}
+                step="0.1"
+                value={Number(selectedAnnotation.start.toFixed(2))}
+                onChange={(e) => {
+                  const start = Math.max(0, Math.min(Number(e.target.value), sourceDuration));
+                  const end = selectedAnnotation.end === null ? null : Math.max(selectedAnnotation.end, start + 0.1);
+                  updateAnnotation(selectedAnnotation.id, { start, end });
+                }}
+                className="input w-full text-xs"
+              />
+            </div>
+            <div>
+              <label className="text-xs text-dark-400 mb-1 block">End (s)</label>
+              <input
+                type="number"
+                min={selectedAnnotation.start + 0.1}
+                max={sourceDuration}
+                step="0.1"
+                value={Number((selectedAnnotation.end ?? sourceDuration).toFixed(2))}
+                disabled={selectedAnnotation.end === null}
+                onChange={(e) =>
+                  updateAnnotation(selectedAnnotation.id, {
+                    end: Math.max(selectedAnnotation.start + 0.1, Math.min(Number(e.target.value), sourceDuration)),
+                  })
+                }
+                className="input w-full text-xs"
+              />
+            </div>
+          </div>
+          <label className="flex items-center gap-2 text-xs text-dark-300">
+            <input
+              type="checkbox"
+              checked={selectedAnnotation.end === null}
+              onChange={(e) =>
+                updateAnnotation(selectedAnnotation.id, {
+                  end: e.target.checked ? null : Math.min(sourceDuration, selectedAnnotation.start + 5),
+                })
+              }
+              className="rounded"
+            />
+            Keep until the end of the recording
+          </label>
+        </div>
+      )}
+
+      <p className="text-xs text-dark-500">
+        Drawings recorded as a layer are added to the video on export. Hidden ones are left out.
+      </p>
+    </div>
+  );
+}
+
+function VisibleIcon() {
+  return (
+    <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
+      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z" />
+    </svg>
+  );
+}
+
+function HiddenIcon() {
+  return (
+    <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13.875 18.825A10.05 10.05 0 0112 19c-4.478 0-8.268-2.943-9.543-7a9.97 9.97 0 011.563-3.029m5.858.908a3 3 0 114.243 4.243M9.878 9.878l4.242 4.242M9.88 9.88l-3.29-3.29m7.532 7.532l3.29 3.29M3 3l3.59 3.59m0 0A9.953 9.953 0 0112 5c4.478 0 8.268 2.943 9.543 7a10.025 10.025 0 01-4.132 5.411m0 0L21 21" />
+    </svg>
+  );
+}
+
+function DeleteIcon() {
+  return (
+    <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+    </svg>
+  );
+}
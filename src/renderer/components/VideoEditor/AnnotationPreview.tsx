@@ -0,0 +1,94 @@
+import { useEffect, useRef, useState } from 'react';
+import type { RefObject } from 'react';
+import type { AnnotationTrack } from '../../../shared/types';
+import { drawAnnotations, getAnnotationBounds, isAnnotationShownAt, toDrawableAnnotation } from '../../utils/annotations';
+
+interface AnnotationPreviewProps {
+  videoRef: RefObject<HTMLVideoElement | null>;
+  currentTime: number;
+  isPlaying: boolean;
+  track: AnnotationTrack | null; // Layer of the previewed source
+}
+
+/**
+ * Draws the recorded annotation layer over the video. It copies the video's zoom transform,
+ * since the export adds annotations before crop and zoom.
+ */
+export function AnnotationPreview({ videoRef, currentTime, isPlaying, track }: AnnotationPreviewProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [time, setTime] = useState(currentTime);
+
+  useEffect(() => {
+    setTime(currentTime);
+  }, [currentTime]);
+
+  useEffect(() => {
+    if (!isPlaying) return;
+    let frame = requestAnimationFrame(function tick() {
+      if (videoRef.current) {
+        setTime(videoRef.current.currentTime);
+      }
+      frame = requestAnimationFrame(tick);
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [isPlaying]);
+
+  const video = videoRef.current;
+  const shown = track?.annotations.filter((annotation) => isAnnotationShownAt(annotation, time)) ?? [];
+  const width = video?.clientWidth ?? 0;
+  const height = video?.clientHeight ?? 0;
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx || !track) return;
+    const pixelRatio = window.devicePixelRatio || 1;
+    canvas.width = Math.round(width * pixelRatio);
+    canvas.height = Math.round(height * pixelRatio);
+    ctx.setTransform(canvas.width / track.width, 0, 0, canvas.height / track.height, 0, 0);
+    ctx.clearRect(0, 0, track.width, track.height);
+    drawAnnotations(
+      ctx,
+      shown
+        .filter((annotation) => annotation.tool !== 'blur')
+        .map((annotation) => toDrawableAnnotation(annotation, track.width, track.height))
+    );
+  });
+
+  if (!video || !track || shown.length === 0) return null;
+
+  return (
+    <div
+      className="absolute pointer-events-none overflow-hidden"
+      style={{
+        left: video.offsetLeft,
+        top: video.offsetTop,
+        width,
+        height,
+        transformOrigin: video.style.transformOrigin,
+        transform: video.style.transform,
+      }}
+    >
+      {/* Blur boxes are pixelated from the video on export; the preview blurs what is behind them */}
+      {shown
+        .filter((annotation) => annotation.tool === 'blur' && annotation.points.length >= 2)
+        .map((annotation) => {
+          const bounds = getAnnotationBounds(annotation.points);
+          return (
+            <div
+              key={annotation.id}
+              className="absolute"
+              style={{
+                left: `${bounds.x * 100}%`,
+                top: `${bounds.y * 100}%`,
+                width: `${bounds.width * 100}%`,
+                height: `${bounds.height * 100}%`,
+                backdropFilter: 'blur(8px)',
+              }}
+            />
+          );
+        })}
+      <canvas ref={canvasRef} className="absolute inset-0 w-full h-full" />
+    </div>
+  );
+}
@@ -0,0 +1,77 @@
+import type { AudioLevelSettings, AudioTrackKind } from '../../../shared/types';
+import { DEFAULT_AUDIO_LEVEL } from '../../../shared/utils/audio';
+
+interface AudioTracksPanelProps {
+  kinds: AudioTrackKind[]; // Kinds recorded separately by the sources on the timeline
+  levels: Partial<Record<AudioTrackKind, AudioLevelSettings>>;
+  onChange: (kind: AudioTrackKind, level: AudioLevelSettings) => void;
+}
+
+const TRACK_LABELS: Record<AudioTrackKind, string> = {
+  microphone: 'Microphone',
+  system: 'System Audio',
+};
+
+export function AudioTracksPanel({ kinds, levels, onChange }: AudioTracksPanelProps) {
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-dark-500">
+        These sources kept their tracks apart. They are mixed at these levels on export, before the master volume.
+      </p>
+      {kinds.map((kind) => {
+        const level = levels[kind] ?? DEFAULT_AUDIO_LEVEL;
+        const update = (updates: Partial<AudioLevelSettings>) => onChange(kind, { ...level, ...updates });
+        return (
+          <div key={kind} className="card p-3 space-y-2">
+            <div className="flex items-center justify-between">
+              <label className="text-xs font-medium">
+                {TRACK_LABELS[kind]}: {level.muted ? 'Muted' : `${level.volume}%`}
+              </label>
+              <button
+                onClick={() => update({ muted: !level.muted })}
+                className={`btn ${level.muted ? 'btn-primary' : 'btn-secondary'} text-xs px-2 py-1`}
+              >
+                {level.muted ? 'Unmute' : 'Mute'}
+              </button>
+            </div>
+            <input
+              type="range"
+              min="0"
+              max="200"
+              step="1"
+              value={level.muted ? 0 : level.volume}
+              onChange={(e) => update({ volume: parseInt(e.target.value, 10), muted: false })}
+              className="w-full accent-primary-600"
+            />
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <label className="text-xs text-dark-400 mb-1 block">Fade In (s)</label>
+                <input
+                  type="number"
+                  min="0"
+                  max="30"
+                  step="0.5"
+                  value={level.fadeIn}
+                  onChange={(e) => update({ fadeIn: Number(e.target.value) })}
+                  className="input w-full text-xs"
+                />
+              </div>
+              <div>
+                <label className="text-xs text-dark-400 mb-1 block">Fade Out (s)</label>
+                <input
+                  type="number"
+                  min="0"
+                  max="30"
+                  step="0.5"
+                  value={level.fadeOut}
+                  onChange={(e) => update({ fadeOut: Number(e.target.value) })}
+                  className="input w-full text-xs"
+                />
+              </div>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
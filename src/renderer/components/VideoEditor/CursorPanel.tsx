@@ -0,0 +1,312 @@
+import { useState } from 'react';
+import type { CursorEffects, CursorTrack, CursorZoomSegment, TimelineClip } from '../../../shared/types';
+import { CURSOR_ZOOM_RAMP, suggestZoomRanges } from '../../../shared/utils/cursor';
+import { toast } from '../Toasts/toast';
+
+interface CursorPanelProps {
+  track: CursorTrack | null; // Track of the previewed clip's source
+  effects: CursorEffects;
+  clips: TimelineClip[];
+  sourcePath: string; // Source of the previewed clip; segment times are relative to it
+  sourceDuration: number;
+  currentTime: number;
+  selectedSegmentId: string | null;
+  onSelectSegment: (id: string | null) => void;
+  onSeek: (time: number) => void;
+  onChange: (effects: CursorEffects, recordHistory?: boolean) => void;
+}
+
+const NEW_SEGMENT_DURATION = 4;
+const ZOOM_LEVELS = [1.5, 2, 2.5, 3];
+const MIN_SEGMENT_DURATION = CURSOR_ZOOM_RAMP * 2;
+
+export function CursorPanel({
+  track,
+  effects,
+  clips,
+  sourcePath,
+  sourceDuration,
+  currentTime,
+  selectedSegmentId,
+  onSelectSegment,
+  onSeek,
+  onChange,
+}: CursorPanelProps) {
+  const [zoomLevel, setZoomLevel] = useState(2);
+  const sourceSegments = effects.zoomSegments
+    .filter((segment) => segment.sourcePath === sourcePath)
+    .sort((a, b) => a.start - b.start);
+  const selectedSegment = effects.zoomSegments.find((segment) => segment.id === selectedSegmentId) ?? null;
+  // Without the native click hook a track only has positions
+  const clicksTracked = Boolean(track && (track.clicksTracked ?? track.clicks.length > 0));
+
+  const isSegmentInTimeline = (segment: CursorZoomSegment) =>
+    clips.some((clip) => clip.sourcePath === segment.sourcePath && segment.end > clip.sourceStart && segment.start < clip.sourceEnd);
+
+  const overlapsExisting = (start: number, end: number) =>
+    sourceSegments.some((segment) => end > segment.start && start < segment.end);
+
+  const addSegments = (segments: CursorZoomSegment[]) => {
+    onChange({ ...effects, zoomSegments: [...effects.zoomSegments, ...segments].sort((a, b) => a.start - b.start) });
+  };
+
+  const updateSegment = (id: string, updates: Partial<CursorZoomSegment>) => {
+    onChange({
+      ...effects,
+      zoomSegments: effects.zoomSegments.map((segment) => (segment.id === id ? { ...segment, ...updates } : segment)),
+    });
+  };
+
+  const handleAddSegment = () => {
+    const start = Math.min(currentTime, Math.max(0, sourceDuration - MIN_SEGMENT_DURATION));
+    const end = Math.min(sourceDuration, start + NEW_SEGMENT_DURATION);
+    if (overlapsExisting(start, end)) {
+      toast({ type: 'error', title: 'Zoom already set here', message: 'Move the playhead outside existing zooms.' });
+      return;
+    }
+    const segment: CursorZoomSegment = { id: crypto.randomUUID(), sourcePath, start, end, scale: zoomLevel };
+    addSegments([segment]);
+    onSelectSegment(segment.id);
+  };
+
+  const handleZoomOnClicks = () => {
+    const ranges = suggestZoomRanges(track?.clicks ?? [], sourceDuration)
+      .filter((range) => !overlapsExisting(range.start, range.end));
+    if (ranges.length === 0) {
+      toast({ type: 'info', title: 'No new zooms', message: 'Every click is already covered by a zoom.' });
+      return;
+    }
+    addSegments(ranges.map((range) => ({ id: crypto.randomUUID(), sourcePath, ...range, scale: zoomLevel })));
+    toast({ type: 'success', title: 'Zooms added', message: `${ranges.length} around clicks` });
+  };
+
+  const handleDeleteSegment = (id: string) => {
+    onChange({ ...effects, zoomSegments: effects.zoomSegments.filter((segment) => segment.id !== id) });
+    if (selectedSegmentId === id) {
+      onSelectSegment(null);
+    }
+  };
+
+  return (
+    <div className="mt-6 space-y-4">
+      {!track && (
+        <p className="text-xs text-dark-500">
+          No cursor data for this clip's source. Full-screen recordings save the cursor alongside the video.
+        </p>
+      )}
+
+      {/* Highlight and ripples */}
+      <div className="card p-3 space-y-3">
+        <label className="flex items-center justify-between text-xs text-dark-400">
+          Highlight cursor
+          <input
+            type="checkbox"
+            checked={effects.highlight}
+            onChange={(e) => onChange({ ...effects, highlight: e.target.checked })}
+            className="rounded"
+          />
+        </label>
+        {effects.highlight && (
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <label className="text-xs text-dark-400 mb-1 block">Color</label>
+              <input
+                type="color"
+                value={effects.highlightColor}
+                onChange={(e) => onChange({ ...effects, highlightColor: e.target.value })}
+                className="w-full h-9 rounded bg-dark-800 border border-dark-600"
+              />
+            </div>
+            <div>
+              <label className="text-xs text-dark-400 mb-1 block">Size</label>
+              <input
+                type="range"
+                min="1"
+                max="8"
+                step="0.5"
+                value={effects.highlightSize}
+                onChange={(e) => onChange({ ...effects, highlightSize: Number(e.target.value) }, false)}
+                onMouseUp={() => onChange(effects)}
+                className="w-full accent-primary-600 mt-3"
+              />
+            </div>
+          </div>
+        )}
+        <label className={`flex items-center justify-between text-xs text-dark-400 ${clicksTracked ? '' : 'opacity-50'}`}>
+          Click ripples
+          <input
+            type="checkbox"
+            checked={clicksTracked && effects.clickRipples}
+            onChange={(e) => onChange({ ...effects, clickRipples: e.target.checked })}
+            disabled={!clicksTracked}
+            className="rounded"
+          />
+        </label>
+        {clicksTracked && effects.clickRipples && (
+          <div>
+            <label className="text-xs text-dark-400 mb-1 block">Ripple color</label>
+            <input
+              type="color"
+              value={effects.rippleColor}
+              onChange={(e) => onChange({ ...effects, rippleColor: e.target.value })}
+              className="w-full h-9 rounded bg-dark-800 border border-dark-600"
+            />
+          </div>
+        )}
+        {track && !clicksTracked && (
+          <p className="text-xs text-dark-500">
+            Clicks could not be tracked on this system, so ripples and click zooms are unavailable.
+          </p>
+        )}
+        {clicksTracked && track?.clicks.length === 0 && (
+          <p className="text-xs text-dark-500">No clicks were captured for this recording.</p>
+        )}
+      </div>
+
+      {/* Follow-the-cursor zoom */}
+      <div className="space-y-2">
+        <label className="text-sm font-medium block">Auto-zoom</label>
+        <div className="grid grid-cols-2 gap-2">
+          <select
+            className="select w-full text-xs col-span-2"
+            value={zoomLevel}
+            onChange={(e) => setZoomLevel(Number(e.target.value))}
+          >
+            {ZOOM_LEVELS.map((level) => (
+              <option key={level} value={level}>
+                {level}x zoom
+              </option>
+            ))}
+          </select>
+          <button onClick={handleAddSegment} className="btn btn-secondary text-xs">
+            Add at Playhead
+          </button>
+          <button
+            onClick={handleZoomOnClicks}
+            className="btn btn-secondary text-xs"
+            disabled={!clicksTracked || track?.clicks.length === 0}
+          >
+            Zoom on Clicks
+          </button>
+        </div>
+      </div>
+
+      {sourceSegments.length > 0 && (
+        <div className="space-y-2 max-h-48 overflow-y-auto">
+          {sourceSegments.map((segment) => {
+            const inTimeline = isSegmentInTimeline(segment);
+            return (
+              <div
+                key={segment.id}
+                className={`card p-2 cursor-pointer ${selectedSegmentId === segment.id ? 'border-primary-600' : ''} ${
+                  inTimeline ? '' : 'opacity-50'
+                }`}
+                onClick={() => {
+                  onSelectSegment(segment.id);
+                  onSeek(segment.start);
+                }}
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <div className="text-xs">
+                    {segment.scale}x · {segment.start.toFixed(1)}s - {segment.end.toFixed(1)}s
+                    {!inTimeline && ' · cut from timeline'}
+                  </div>
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      handleDeleteSegment(segment.id);
+                    }}
+                    className="btn-icon text-red-400 hover:text-red-300"
+                  >
+                    <DeleteIcon />
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {/* Selected zoom */}
+      {selectedSegment && (
+        <div className="card p-3 space-y-3">
+          <label className="text-sm font-medium">Selected Zoom</label>
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <label className="text-xs text-dark-400 mb-1 block">Start (s)</label>
+              <input
+                type="number"
+                min="0"
+                step="0.1"
+                value={Number(selectedSegment.start.toFixed(2))}
+                onChange={(e) =>
+                  updateSegment(selectedSegment.id, {
+                    start: Math.max(0, Math.min(Number(e.target.value), selectedSegment.end - MIN_SEGMENT_DURATION)),
+                  })
+                }
+                className="input w-full text-xs"
+              />
+            </div>
+            <div>
+              <label className="text-xs text-dark-400 mb-1 block">End (s)</label>
+              <input
+                type="number"
+                min="0"
+                step="0.1"
+                value={Number(selectedSegment.end.toFixed(2))}
+                onChange={(e) =>
+                  updateSegment(selectedSegment.id, {
+                    end: Math.max(Number(e.target.value), selectedSegment.start + MIN_SEGMENT_DURATION),
+                  })
+                }
+                className="input w-full text-xs"
+              />
+            </div>
+            <button
+              onClick={() =>
+                updateSegment(selectedSegment.id, { start: Math.min(currentTime, selectedSegment.end - MIN_SEGMENT_DURATION) })
+              }
+              className="btn btn-secondary text-xs"
+            >
+              Start at Playhead
+            </button>
+            <button
+              onClick={() =>
+                updateSegment(selectedSegment.id, { end: Math.max(currentTime, selectedSegment.start + MIN_SEGMENT_DURATION) })
+              }
+              className="btn btn-secondary text-xs"
+            >
+              End at Playhead
+            </button>
+          </div>
+          <div>
+            <label className="text-xs text-dark-400 mb-1 block">Zoom</label>
+            <select
+              className="select w-full text-xs"
+              value={selectedSegment.scale}
+              onChange={(e) => updateSegment(selectedSegment.id, { scale: Number(e.target.value) })}
+            >
+              {ZOOM_LEVELS.map((level) => (
+                <option key={level} value={level}>
+                  {level}x
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+      )}
+
+      <p className="text-xs text-dark-500">
+        Zooms ease in and out and follow the cursor; the halo and ripples are drawn before crop and zoom.
+      </p>
+    </div>
+  );
+}
+
+function DeleteIcon() {
+  return (
+    <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+    </svg>
+  );
+}
@@ -0,0 +1,138 @@
+import { useEffect, useState } from 'react';
+import type { RefObject } from 'react';
+import type { CursorEffects, CursorSample, CursorTrack, ZoomSegment } from '../../../shared/types';
+import {
+  CLICK_RIPPLE_DURATION,
+  getCursorPosition,
+  getZoomFocus,
+  getZoomScale,
+  getZoomViewport,
+  isCursorOnScreen,
+} from '../../../shared/utils/cursor';
+import type { ZoomRange } from '../../../shared/utils/cursor';
+import { getZoomRectAt } from '../../../shared/utils/zoom';
+
+interface CursorPreviewProps {
+  videoRef: RefObject<HTMLVideoElement | null>;
+  currentTime: number;
+  isPlaying: boolean;
+  track: CursorTrack | null;
+  effects: CursorEffects;
+  zoomRanges: ZoomRange[]; // Source times of the previewed clip
+  keyframeZooms: ZoomSegment[]; // Keyframed zooms of the previewed clip, applied after the auto-zoom
+  zoomEnabled: boolean;
+}
+
+/**
+ * Draws the cursor halo and click ripples over the video and applies the auto and keyframed zooms to it.
+ * Runs on animation frames while playing since timeupdate is too coarse for cursor motion.
+ */
+export function CursorPreview({
+  videoRef,
+  currentTime,
+  isPlaying,
+  track,
+  effects,
+  zoomRanges,
+  keyframeZooms,
+  zoomEnabled,
+}: CursorPreviewProps) {
+  const [time, setTime] = useState(currentTime);
+
+  useEffect(() => {
+    setTime(currentTime);
+  }, [currentTime]);
+
+  useEffect(() => {
+    if (!isPlaying) return;
+    let frame = requestAnimationFrame(function tick() {
+      if (videoRef.current) {
+        setTime(videoRef.current.currentTime);
+      }
+      frame = requestAnimationFrame(tick);
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [isPlaying]);
+
+  const samples = track?.samples ?? [];
+  const cursorScale = zoomEnabled ? getZoomScale(zoomRanges, time) : 1;
+  const cursorViewport = cursorScale > 1 ? getZoomViewport(cursorScale, getZoomFocus(samples, time)) : { x: 0, y: 0 };
+  // The keyframed rectangle frames the auto-zoomed picture, as in the export
+  const zoomRect = zoomEnabled ? getZoomRectAt(keyframeZooms, time) : null;
+  const scale = zoomRect ? (cursorScale * 100) / zoomRect.size : cursorScale;
+  const viewport = zoomRect
+    ? {
+        x: cursorViewport.x + zoomRect.x / 100 / cursorScale,
+        y: cursorViewport.y + zoomRect.y / 100 / cursorScale,
+      }
+    : cursorViewport;
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+    video.style.transformOrigin = 'top left';
+    video.style.transform = scale > 1
+      ? `translate(${-viewport.x * scale * 100}%, ${-viewport.y * scale * 100}%) scale(${scale})`
+      : '';
+  }, [scale, viewport.x, viewport.y]);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    return () => {
+      if (video) {
+        video.style.transform = '';
+      }
+    };
+  }, []);
+
+  const video = videoRef.current;
+  if (!video || !track) return null;
+
+  // Container position of a normalised point after the preview zoom
+  const toPosition = (point: CursorSample) => ({
+    left: video.offsetLeft + (point.x - viewport.x) * scale * video.clientWidth,
+    top: video.offsetTop + (point.y - viewport.y) * scale * video.clientHeight,
+  });
+  const haloRadius = (effects.highlightSize / 100) * video.clientHeight * scale;
+  const rippleRadius = Math.max(haloRadius * 2, 0.04 * video.clientHeight * scale);
+  const position = effects.highlight ? getCursorPosition(samples, time) : null;
+  const ripples = effects.clickRipples
+    ? track.clicks.filter((click) => isCursorOnScreen(click) && time >= click.time && time < click.time + CLICK_RIPPLE_DURATION)
+    : [];
+
+  return (
+    <div className="absolute inset-0 pointer-events-none">
+      {position && isCursorOnScreen(position) && (
+        <div
+          className="absolute rounded-full"
+          style={{
+            ...toPosition(position),
+            width: haloRadius * 2,
+            height: haloRadius * 2,
+            transform: 'translate(-50%, -50%)',
+            backgroundColor: effects.highlightColor,
+            opacity: 0.5,
+          }}
+        />
+      )}
+      {ripples.map((click) => {
+        const progress = (time - click.time) / CLICK_RIPPLE_DURATION;
+        const radius = rippleRadius * (0.2 + 0.8 * progress);
+        return (
+          <div
+            key={`${click.time}-${click.x}-${click.y}`}
+            className="absolute rounded-full border-2"
+            style={{
+              ...toPosition(click),
+              width: radius * 2,
+              height: radius * 2,
+              transform: 'translate(-50%, -50%)',
+              borderColor: effects.rippleColor,
+              opacity: 1 - progress,
+            }}
+          />
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,210 @@
+import type { ImageOverlay } from '../../../shared/types';
+import { rasterizeSvg } from '../../utils/images';
+import { toMediaUrl } from '../../utils/mediaUrl';
+import { toast } from '../Toasts/toast';
+
+interface ImagePanelProps {
+  overlays: ImageOverlay[];
+  currentTime: number;
+  selectedOverlayId: string | null;
+  onSelectOverlay: (id: string | null) => void;
+  onSeek: (time: number) => void;
+  onChange: (overlays: ImageOverlay[], recordHistory?: boolean) => void;
+}
+
+const IMAGE_EXTENSIONS = ['png', 'jpg', 'jpeg', 'webp', 'gif', 'svg'];
+const NEW_OVERLAY_DURATION = 5;
+
+export function ImagePanel({
+  overlays,
+  currentTime,
+  selectedOverlayId,
+  onSelectOverlay,
+  onSeek,
+  onChange,
+}: ImagePanelProps) {
+  const selectedOverlay = overlays.find((overlay) => overlay.id === selectedOverlayId) ?? null;
+
+  const updateOverlay = (id: string, updates: Partial<ImageOverlay>) => {
+    onChange(overlays.map((overlay) => (overlay.id === id ? { ...overlay, ...updates } : overlay)));
+  };
+
+  const handleAddImage = async () => {
+    const filePath = await window.electronAPI?.selectFile({
+      title: 'Select Image',
+      filters: [{ name: 'Images', extensions: IMAGE_EXTENSIONS }],
+    });
+    if (!filePath) return;
+
+    let imagePath = filePath;
+    if (filePath.toLowerCase().endsWith('.svg')) {
+      try {
+        imagePath = await window.electronAPI.saveOverlayImage(await rasterizeSvg(filePath));
+      } catch (error) {
+        console.error('Failed to rasterize SVG:', error);
+        toast({ type: 'error', title: 'Could not load SVG', message: 'The file could not be drawn as an image.' });
+        return;
+      }
+    }
+
+    const overlay: ImageOverlay = {
+      id: crypto.randomUUID(),
+      name: filePath.split(/[\\/]/).pop() ?? 'Image',
+      path: imagePath,
+      x: 70,
+      y: 5,
+      width: 20,
+      opacity: 1,
+      timestamp: currentTime,
+      duration: NEW_OVERLAY_DURATION,
+    };
+    onChange([...overlays, overlay]);
+    onSelectOverlay(overlay.id);
+  };
+
+  const handleDeleteOverlay = (id: string) => {
+    onChange(overlays.filter((overlay) => overlay.id !== id));
+    if (selectedOverlayId === id) {
+      onSelectOverlay(null);
+    }
+  };
+
+  return (
+    <div className="mt-6 space-y-4">
+      <button onClick={handleAddImage} className="btn btn-secondary text-xs w-full">
+        Add Image at Playhead
+      </button>
+
+      {overlays.length > 0 && (
+        <div className="space-y-2 max-h-48 overflow-y-auto">
+          {overlays.map((overlay) => (
+            <div
+              key={overlay.id}
+              className={`card p-2 cursor-pointer ${selectedOverlayId === overlay.id ? 'border-primary-600' : ''}`}
+              onClick={() => {
+                onSelectOverlay(overlay.id);
+                onSeek(overlay.timestamp);
+              }}
+            >
+              <div className="flex items-center justify-between gap-2">
+                <div className="flex items-center gap-2 min-w-0">
+                  <img src={toMediaUrl(overlay.path)} alt="" className="w-8 h-8 object-contain flex-shrink-0" />
+                  <div className="min-w-0">
+                    <div className="text-xs truncate">{overlay.name}</div>
+                    <div className="text-xs text-dark-500">
+                      {overlay.timestamp.toFixed(1)}s - {(overlay.timestamp + overlay.duration).toFixed(1)}s
+                    </div>
+                  </div>
+                </div>
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    handleDeleteOverlay(overlay.id);
+                  }}
+                  className="btn-icon text-red-400 hover:text-red-300"
+                >
+                  <DeleteIcon />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Selected image */}
+      {selectedOverlay && (
+        <div className="card p-3 space-y-3">
+          <label className="text-sm font-medium">Selected Image</label>
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <label className="text-xs text-dark-400 mb-1 block">X (%)</label>
+              <input
+                type="number"
+                min="0"
+                max="100"
+                step="0.1"
+                value={Number(selectedOverlay.x.toFixed(1))}
+                onChange={(e) => updateOverlay(selectedOverlay.id, { x: Number(e.target.value) })}
+                className="input w-full text-xs"
+              />
+            </div>
+            <div>
+              <label className="text-xs text-dark-400 mb-1 block">Y (%)</label>
+              <input
+                type="number"
+                min="0"
+                max="100"
+                step="0.1"
+                value={Number(selectedOverlay.y.toFixed(1))}
+                onChange={(e) => updateOverlay(selectedOverlay.id, { y: Number(e.target.value) })}
+                className="input w-full text-xs"
+              />
+            </div>
+            <div>
+              <label className="text-xs text-dark-400 mb-1 block">Width (%)</label>
+              <input
+                type="number"
+                min="1"
+                max="100"
+                step="1"
+                value={Math.round(selectedOverlay.width)}
+                onChange={(e) =>
+                  updateOverlay(selectedOverlay.id, { width: Math.max(1, Math.min(100, Number(e.target.value))) })
+                }
+                className="input w-full text-xs"
+              />
+            </div>
+            <div>
+              <label className="text-xs text-dark-400 mb-1 block">Start (s)</label>
+              <input
+                type="number"
+                min="0"
+                step="0.1"
+                value={Number(selectedOverlay.timestamp.toFixed(2))}
+                onChange={(e) => updateOverlay(selectedOverlay.id, { timestamp: Math.max(0, Number(e.target.value)) })}
+                className="input w-full text-xs"
+              />
+            </div>
+            <div>
+              <label className="text-xs text-dark-400 mb-1 block">Duration (s)</label>
+              <input
+                type="number"
+                min="0.1"
+                step="0.1"
+                value={Number(selectedOverlay.duration.toFixed(2))}
+                onChange={(e) => updateOverlay(selectedOverlay.id, { duration: Math.max(0.1, Number(e.target.value)) })}
+                className="input w-full text-xs"
+              />
+            </div>
+          </div>
+          <div>
+            <label className="text-xs text-dark-400 mb-1 block">
+              Opacity: {Math.round(selectedOverlay.opacity * 100)}%
+            </label>
+            <input
+              type="range"
+              min="0"
+              max="100"
+              step="1"
+              value={Math.round(selectedOverlay.opacity * 100)}
+              onChange={(e) => updateOverlay(selectedOverlay.id, { opacity: Number(e.target.value) / 100 })}
+              className="w-full accent-primary-600"
+            />
+          </div>
+        </div>
+      )}
+
+      <p className="text-xs text-dark-500">
+        Drag an image on the preview to move it. SVGs are converted to PNG when added.
+      </p>
+    </div>
+  );
+}
+
+function DeleteIcon() {
+  return (
+    <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+    </svg>
+  );
+}
@@ -0,0 +1,173 @@
+import type { BackgroundMusic } from '../../../shared/types';
+import { toMediaUrl } from '../../utils/mediaUrl';
+import { toast } from '../Toasts/toast';
+
+interface MusicPanelProps {
+  music: BackgroundMusic | null;
+  onChange: (music: BackgroundMusic | null) => void;
+}
+
+const MUSIC_EXTENSIONS = ['mp3', 'm4a', 'aac', 'wav', 'ogg', 'flac'];
+
+// Compression ratios applied to the music while the voice is speaking
+const DUCK_STRENGTHS: { ratio: number; label: string }[] = [
+  { ratio: 4, label: 'Light' },
+  { ratio: 8, label: 'Medium' },
+  { ratio: 16, label: 'Strong' },
+];
+
+const readDuration = (filePath: string) =>
+  new Promise<number>((resolve, reject) => {
+    const audio = new Audio();
+    audio.preload = 'metadata';
+    audio.onloadedmetadata = () => resolve(Number.isFinite(audio.duration) ? audio.duration : 0);
+    audio.onerror = () => reject(new Error('Unsupported audio file'));
+    audio.src = toMediaUrl(filePath);
+  });
+
+export function MusicPanel({ music, onChange }: MusicPanelProps) {
+  const handleSelectMusic = async () => {
+    const filePath = await window.electronAPI?.selectFile({
+      title: 'Select Music',
+      filters: [{ name: 'Audio', extensions: MUSIC_EXTENSIONS }],
+    });
+    if (!filePath) return;
+
+    let duration: number;
+    try {
+      duration = await readDuration(filePath);
+    } catch (error) {
+      console.error('Failed to read music file:', error);
+      toast({ type: 'error', title: 'Could not load music', message: 'The file could not be read as audio.' });
+      return;
+    }
+
+    // A new file keeps the levels chosen for the previous one
+    onChange({
+      volume: 30,
+      muted: false,
+      fadeIn: 1,
+      fadeOut: 2,
+      loop: true,
+      duck: true,
+      duckRatio: 8,
+      ...music,
+      path: filePath,
+      name: filePath.split(/[\\/]/).pop() ?? 'Music',
+      duration,
+    });
+  };
+
+  if (!music) {
+    return (
+      <button onClick={handleSelectMusic} className="btn btn-secondary text-xs w-full">
+        Add Background Music
+      </button>
+    );
+  }
+
+  const update = (updates: Partial<BackgroundMusic>) => onChange({ ...music, ...updates });
+
+  return (
+    <div className="card p-3 space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <label className="text-xs font-medium truncate" title={music.path}>
+          Music: {music.name}
+        </label>
+        <button onClick={() => onChange(null)} className="btn-icon text-red-400 hover:text-red-300" title="Remove music">
+          <DeleteIcon />
+        </button>
+      </div>
+      <div className="flex items-center justify-between">
+        <label className="text-xs text-dark-400">Volume: {music.muted ? 'Muted' : `${music.volume}%`}</label>
+        <button
+          onClick={() => update({ muted: !music.muted })}
+          className={`btn ${music.muted ? 'btn-primary' : 'btn-secondary'} text-xs px-2 py-1`}
+        >
+          {music.muted ? 'Unmute' : 'Mute'}
+        </button>
+      </div>
+      <input
+        type="range"
+        min="0"
+        max="200"
+        step="1"
+        value={music.muted ? 0 : music.volume}
+        onChange={(e) => update({ volume: parseInt(e.target.value, 10), muted: false })}
+        className="w-full accent-primary-600"
+      />
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <label className="text-xs text-dark-400 mb-1 block">Fade In (s)</label>
+          <input
+            type="number"
+            min="0"
+            max="30"
+            step="0.5"
+            value={music.fadeIn}
+            onChange={(e) => update({ fadeIn: Number(e.target.value) })}
+            className="input w-full text-xs"
+          />
+        </div>
+        <div>
+          <label className="text-xs text-dark-400 mb-1 block">Fade Out (s)</label>
+          <input
+            type="number"
+            min="0"
+            max="30"
+            step="0.5"
+            value={music.fadeOut}
+            onChange={(e) => update({ fadeOut: Number(e.target.value) })}
+            className="input w-full text-xs"
+          />
+        </div>
+      </div>
+      <label className="flex items-center gap-2 text-xs text-dark-300">
+        <input
+          type="checkbox"
+          checked={music.loop}
+          onChange={(e) => update({ loop: e.target.checked })}
+          className="rounded"
+        />
+        Loop until the end of the video
+      </label>
+      <label className="flex items-center gap-2 text-xs text-dark-300">
+        <input
+          type="checkbox"
+          checked={music.duck}
+          onChange={(e) => update({ duck: e.target.checked })}
+          className="rounded"
+        />
+        Lower the music while someone speaks
+      </label>
+      {music.duck && (
+        <div>
+          <label className="text-xs text-dark-400 mb-1 block">Ducking</label>
+          <select
+            className="select w-full text-xs"
+            value={music.duckRatio}
+            onChange={(e) => update({ duckRatio: Number(e.target.value) })}
+          >
+            {DUCK_STRENGTHS.map((strength) => (
+              <option key={strength.ratio} value={strength.ratio}>
+                {strength.label}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+      <p className="text-xs text-dark-500">
+        The music starts with the first clip and is mixed in on export. A separate microphone track is used to detect
+        speech when there is one.
+      </p>
+    </div>
+  );
+}
+
+function DeleteIcon() {
+  return (
+    <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+    </svg>
+  );
+}
@@ -0,0 +1,245 @@
+import { useEffect, useRef, useState } from 'react';
+import type { CropArea, Redaction, RedactionStyle } from '../../../shared/types';
+import { simplifyRedactionPath } from '../../../shared/utils/redaction';
+import { trackRegion } from '../../utils/motionTracking';
+import { toast } from '../Toasts/toast';
+
+interface RedactionPanelProps {
+  redactions: Redaction[];
+  sourcePath: string;
+  videoPath: string; // File the preview plays, used to read frames for tracking
+  sourceDuration: number;
+  selectedRedactionId: string | null;
+  onSelectRedaction: (id: string | null) => void;
+  onSeek: (time: number) => void;
+  onChange: (redactions: Redaction[]) => void;
+}
+
+const AREA_FIELDS: Array<{ key: keyof CropArea; label: string }> = [
+  { key: 'x', label: 'X (%)' },
+  { key: 'y', label: 'Y (%)' },
+  { key: 'width', label: 'Width (%)' },
+  { key: 'height', label: 'Height (%)' },
+];
+
+export function RedactionPanel({
+  redactions,
+  sourcePath,
+  videoPath,
+  sourceDuration,
+  selectedRedactionId,
+  onSelectRedaction,
+  onSeek,
+  onChange,
+}: RedactionPanelProps) {
+  const [trackingProgress, setTrackingProgress] = useState<number | null>(null);
+  const trackingAbortRef = useRef<AbortController | null>(null);
+  // Tracking takes a while, so its result is applied to whatever the redactions are by then
+  const latestRef = useRef({ redactions, onChange });
+
+  useEffect(() => {
+    latestRef.current = { redactions, onChange };
+  });
+
+  useEffect(() => {
+    return () => trackingAbortRef.current?.abort();
+  }, []);
+
+  const sourceRedactions = redactions
+    .filter((redaction) => redaction.sourcePath === sourcePath)
+    .sort((a, b) => a.start - b.start);
+  const selectedRedaction = sourceRedactions.find((redaction) => redaction.id === selectedRedactionId) ?? null;
+
+  const updateRedaction = (id: string, updates: Partial<Redaction>) => {
+    onChange(redactions.map((redaction) => (redaction.id === id ? { ...redaction, ...updates } : redaction)));
+  };
+
+  // A tracked path no longer matches once the box or its start moves
+  const updateArea = (redaction: Redaction, key: keyof CropArea, value: number) => {
+    const area = { ...redaction.area, [key]: Math.max(0, Math.min(100, value)) };
+    area.width = Math.min(area.width, 100 - area.x);
+    area.height = Math.min(area.height, 100 - area.y);
+    updateRedaction(redaction.id, { area, path: undefined });
+  };
+
+  const handleDeleteRedaction = (id: string) => {
+    onChange(redactions.filter((redaction) => redaction.id !== id));
+    if (selectedRedactionId === id) {
+      onSelectRedaction(null);
+    }
+  };
+
+  const handleTrack = async (redaction: Redaction) => {
+    const controller = new AbortController();
+    trackingAbortRef.current = controller;
+    setTrackingProgress(0);
+    try {
+      const path = await trackRegion(
+        videoPath,
+        redaction.start,
+        redaction.end,
+        redaction.area,
+        setTrackingProgress,
+        controller.signal
+      );
+      const latest = latestRef.current;
+      latest.onChange(
+        latest.redactions.map((item) => (item.id === redaction.id ? { ...item, path: simplifyRedactionPath(path) } : item))
+      );
+      toast({ type: 'success', title: 'Tracking finished', message: 'The box now follows the region.' });
+    } catch (error) {
+      if (!controller.signal.aborted) {
+        console.error('Failed to track region:', error);
+        toast({ type: 'error', title: 'Tracking failed', message: 'The video frames could not be read.' });
+      }
+    } finally {
+      trackingAbortRef.current = null;
+      setTrackingProgress(null);
+    }
+  };
+
+  return (
+    <div className="mt-6 space-y-4">
+      <p className="text-xs text-dark-500">
+        Drag on the preview to hide a region from the playhead on. Redactions are applied before crop and zoom.
+      </p>
+
+      {sourceRedactions.length > 0 && (
+        <div className="space-y-2 max-h-48 overflow-y-auto">
+          {sourceRedactions.map((redaction) => (
+            <div
+              key={redaction.id}
+              className={`card p-2 cursor-pointer ${selectedRedactionId === redaction.id ? 'border-primary-600' : ''}`}
+              onClick={() => {
+                onSelectRedaction(redaction.id);
+                onSeek(redaction.start);
+              }}
+            >
+              <div className="flex items-center justify-between gap-2">
+                <div className="text-xs">
+                  {redaction.start.toFixed(1)}s - {redaction.end.toFixed(1)}s ·{' '}
+                  {redaction.style === 'blur' ? 'Blur' : 'Pixelate'}
+                  {redaction.path?.length ? ' · Tracked' : ''}
+                </div>
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    handleDeleteRedaction(redaction.id);
+                  }}
+                  className="btn-icon text-red-400 hover:text-red-300"
+                  disabled={trackingProgress !== null}
+                >
+                  <DeleteIcon />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Selected redaction */}
+      {selectedRedaction && (
+        <div className="card p-3 space-y-3">
+          <label className="text-sm font-medium">Selected Redaction</label>
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <label className="text-xs text-dark-400 mb-1 block">Start (s)</label>
+              <input
+                type="number"
+                min="0"
+                max={sourceDuration}
+                step="0.1"
+                value={Number(selectedRedaction.start.toFixed(2))}
+                onChange={(e) => {
+                  const start = Math.max(0, Math.min(Number(e.target.value), selectedRedaction.end - 0.1));
+                  updateRedaction(selectedRedaction.id, { start, path: undefined });
+                }}
+                className="input w-full text-xs"
+              />
+            </div>
+            <div>
+              <label className="text-xs text-dark-400 mb-1 block">End (s)</label>
+              <input
+                type="number"
+                min={selectedRedaction.start + 0.1}
+                max={sourceDuration}
+                step="0.1"
+                value={Number(selectedRedaction.end.toFixed(2))}
+                onChange={(e) =>
+                  updateRedaction(selectedRedaction.id, {
+                    end: Math.max(selectedRedaction.start + 0.1, Math.min(Number(e.target.value), sourceDuration)),
+                  })
+                }
+                className="input w-full text-xs"
+              />
+            </div>
+            {AREA_FIELDS.map(({ key, label }) => (
+              <div key={key}>
+                <label className="text-xs text-dark-400 mb-1 block">{label}</label>
+                <input
+                  type="number"
+                  min="0"
+                  max="100"
+                  step="0.1"
+                  value={Number(selectedRedaction.area[key].toFixed(1))}
+                  onChange={(e) => updateArea(selectedRedaction, key, Number(e.target.value))}
+                  className="input w-full text-xs"
+                />
+              </div>
+            ))}
+          </div>
+          <div>
+            <label className="text-xs text-dark-400 mb-1 block">Style</label>
+            <select
+              className="select w-full text-xs"
+              value={selectedRedaction.style}
+              onChange={(e) => updateRedaction(selectedRedaction.id, { style: e.target.value as RedactionStyle })}
+            >
+              <option value="blur">Blur</option>
+              <option value="pixelate">Pixelate</option>
+            </select>
+          </div>
+
+          {/* Motion tracking */}
+          {trackingProgress !== null ? (
+            <div className="space-y-2">
+              <div className="text-xs text-dark-400">Tracking… {trackingProgress}%</div>
+              <div className="h-1.5 bg-dark-700 rounded-full overflow-hidden">
+                <div className="h-full bg-primary-500" style={{ width: `${trackingProgress}%` }} />
+              </div>
+              <button onClick={() => trackingAbortRef.current?.abort()} className="btn btn-secondary text-xs w-full">
+                Cancel Tracking
+              </button>
+            </div>
+          ) : (
+            <div className="flex gap-2">
+              <button onClick={() => handleTrack(selectedRedaction)} className="btn btn-secondary text-xs flex-1">
+                {selectedRedaction.path?.length ? 'Track Again' : 'Track Motion'}
+              </button>
+              {Boolean(selectedRedaction.path?.length) && (
+                <button
+                  onClick={() => updateRedaction(selectedRedaction.id, { path: undefined })}
+                  className="btn btn-secondary text-xs flex-1"
+                >
+                  Stop Following
+                </button>
+              )}
+            </div>
+          )}
+          <p className="text-xs text-dark-500">
+            Tracking follows what is under the box at its start time. It works best on distinct content that does not
+            change shape.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function DeleteIcon() {
+  return (
+    <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+    </svg>
+  );
+}
@@ -0,0 +1,60 @@
+import type { RefObject } from 'react';
+import type { CropArea, Redaction } from '../../../shared/types';
+import { getRedactionArea } from '../../../shared/utils/redaction';
+
+interface RedactionPreviewProps {
+  videoRef: RefObject<HTMLVideoElement | null>;
+  time: number; // Source time of the previewed clip
+  redactions: Redaction[]; // Redactions of the previewed source
+  draft: CropArea | null; // Box being drawn
+  selectedRedactionId: string | null;
+  isEditing: boolean;
+}
+
+/**
+ * Blurs redacted boxes over the video. Like the export, they are applied before crop and zoom,
+ * so the layer copies the video's zoom transform.
+ */
+export function RedactionPreview({ videoRef, time, redactions, draft, selectedRedactionId, isEditing }: RedactionPreviewProps) {
+  const video = videoRef.current;
+  if (!video) return null;
+
+  const shown = redactions.filter((redaction) => time >= redaction.start && time < redaction.end);
+  if (shown.length === 0 && !draft) return null;
+
+  const toStyle = (area: CropArea) => ({
+    left: `${area.x}%`,
+    top: `${area.y}%`,
+    width: `${area.width}%`,
+    height: `${area.height}%`,
+  });
+
+  return (
+    <div
+      className="absolute pointer-events-none overflow-hidden"
+      style={{
+        left: video.offsetLeft,
+        top: video.offsetTop,
+        width: video.clientWidth,
+        height: video.clientHeight,
+        transformOrigin: video.style.transformOrigin,
+        transform: video.style.transform,
+      }}
+    >
+      {shown.map((redaction) => (
+        <div
+          key={redaction.id}
+          className={`absolute ${isEditing ? 'border border-dashed border-white/70' : ''} ${
+            isEditing && selectedRedactionId === redaction.id ? 'ring-2 ring-primary-500' : ''
+          }`}
+          style={{
+            ...toStyle(getRedactionArea(redaction, time - redaction.start)),
+            // The preview cannot pixelate what is behind it, so a coarse blur stands in for blocks
+            backdropFilter: redaction.style === 'pixelate' ? 'blur(6px) contrast(1.2)' : 'blur(12px)',
+          }}
+        />
+      ))}
+      {draft && <div className="absolute border-2 border-primary-500 bg-primary-500/10" style={toStyle(draft)} />}
+    </div>
+  );
+}
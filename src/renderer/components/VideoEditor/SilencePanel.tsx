@@ -0,0 +1,114 @@
+import { useState } from 'react';
+import type { SilenceRange, TimelineClip } from '../../../shared/types';
+import { getRemovedSilenceDuration, removeSilencesFromClip } from '../../../shared/utils/silence';
+import { toast } from '../Toasts/toast';
+
+interface SilencePanelProps {
+  clip: TimelineClip | null;
+  silences: SilenceRange[] | null; // Detected in the selected clip's source
+  padding: number;
+  onPaddingChange: (padding: number) => void;
+  onDetected: (sourcePath: string, silences: SilenceRange[]) => void;
+  onApply: (clips: TimelineClip[]) => void;
+}
+
+export function SilencePanel({ clip, silences, padding, onPaddingChange, onDetected, onApply }: SilencePanelProps) {
+  const [threshold, setThreshold] = useState(-35);
+  const [minDuration, setMinDuration] = useState(0.8);
+  const [isDetecting, setIsDetecting] = useState(false);
+
+  const clipSilences = clip && silences
+    ? silences.filter((silence) => silence.end > clip.sourceStart && silence.start < clip.sourceEnd)
+    : [];
+  const removedDuration = clip && silences ? getRemovedSilenceDuration(clip, silences, padding) : 0;
+
+  const handleDetect = async () => {
+    if (!clip) return;
+    try {
+      setIsDetecting(true);
+      const detected = await window.electronAPI.ffmpegDetectSilences(clip.sourcePath, { threshold, minDuration });
+      onDetected(clip.sourcePath, detected);
+      if (detected.length === 0) {
+        toast({ type: 'info', title: 'No silences found', message: 'Try a higher threshold or a shorter minimum pause.' });
+      }
+    } catch (error) {
+      console.error('Failed to detect silences:', error);
+      toast({ type: 'error', title: 'Silence detection failed' });
+    } finally {
+      setIsDetecting(false);
+    }
+  };
+
+  const handleApply = () => {
+    if (!clip || !silences) return;
+    const pieces = removeSilencesFromClip(clip, silences, padding);
+    if (pieces.length === 0) {
+      toast({ type: 'error', title: 'Nothing would be left', message: 'The whole clip is silent at this threshold.' });
+      return;
+    }
+    onApply(pieces);
+  };
+
+  return (
+    <div className="border-t border-dark-700 pt-3 space-y-3">
+      <h4 className="text-sm font-semibold">Remove Silences</h4>
+      <div className="grid grid-cols-3 gap-2">
+        <div>
+          <label className="text-xs text-dark-400 mb-1 block">Threshold (dB)</label>
+          <input
+            type="number"
+            min="-80"
+            max="-10"
+            step="1"
+            value={threshold}
+            onChange={(e) => setThreshold(Math.min(-10, Math.max(-80, Number(e.target.value))))}
+            className="input w-full text-xs"
+          />
+        </div>
+        <div>
+          <label className="text-xs text-dark-400 mb-1 block">Min Pause (s)</label>
+          <input
+            type="number"
+            min="0.1"
+            step="0.1"
+            value={minDuration}
+            onChange={(e) => setMinDuration(Math.max(0.1, Number(e.target.value)))}
+            className="input w-full text-xs"
+          />
+        </div>
+        <div>
+          <label className="text-xs text-dark-400 mb-1 block">Padding (s)</label>
+          <input
+            type="number"
+            min="0"
+            step="0.05"
+            value={padding}
+            onChange={(e) => onPaddingChange(Math.max(0, Number(e.target.value)))}
+            className="input w-full text-xs"
+          />
+        </div>
+      </div>
+      <div className="flex gap-2">
+        <button onClick={handleDetect} className="btn btn-secondary text-xs flex-1" disabled={!clip || isDetecting}>
+          {isDetecting ? 'Detecting…' : 'Detect Silences'}
+        </button>
+        <button
+          onClick={handleApply}
+          className="btn btn-primary text-xs flex-1"
+          disabled={!clip || clipSilences.length === 0 || removedDuration <= 0}
+        >
+          Remove Silences
+        </button>
+      </div>
+      {silences && (
+        <p className="text-xs text-dark-400">
+          {clipSilences.length} pause{clipSilences.length === 1 ? '' : 's'} in this clip, shown in red on the scrubber.
+          Removing them cuts {removedDuration.toFixed(1)}s.
+        </p>
+      )}
+      <p className="text-xs text-dark-500">
+        The clip is split into pieces around each pause. Turn on "Skip cuts" to hear the result, or undo to restore it.
+      </p>
+    </div>
+  );
+}
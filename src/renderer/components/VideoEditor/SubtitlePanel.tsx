@@ -0,0 +1,319 @@
+import { useRef } from 'react';
+import type { Recording, SubtitleTrack, SubtitleTrackCue, TimelineClip } from '../../../shared/types';
+import { parseSubtitles } from '../../../shared/utils/subtitles';
+import { toast } from '../Toasts/toast';
+
+interface SubtitlePanelProps {
+  recording: Recording;
+  track: SubtitleTrack;
+  clips: TimelineClip[];
+  sourcePath: string; // Source of the previewed clip; cue times are relative to it
+  currentTime: number;
+  selectedCueId: string | null;
+  onSelectCue: (id: string | null) => void;
+  onSeek: (time: number) => void;
+  onChange: (track: SubtitleTrack, recordHistory?: boolean) => void;
+}
+
+const NEW_CUE_DURATION = 3;
+
+export function SubtitlePanel({
+  recording,
+  track,
+  clips,
+  sourcePath,
+  currentTime,
+  selectedCueId,
+  onSelectCue,
+  onSeek,
+  onChange,
+}: SubtitlePanelProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const sourceCues = track.cues
+    .filter((cue) => cue.sourcePath === sourcePath)
+    .sort((a, b) => a.start - b.start);
+  const selectedCue = track.cues.find((cue) => cue.id === selectedCueId) ?? null;
+
+  // Cues outside every clip are kept in the project but left out of the export
+  const isCueInTimeline = (cue: SubtitleTrackCue) =>
+    clips.some((clip) => clip.sourcePath === cue.sourcePath && cue.end > clip.sourceStart && cue.start < clip.sourceEnd);
+
+  const addCues = (cues: SubtitleTrackCue[]) => {
+    onChange({ ...track, cues: [...track.cues, ...cues].sort((a, b) => a.start - b.start) });
+  };
+
+  const updateCue = (id: string, updates: Partial<SubtitleTrackCue>, recordHistory = true) => {
+    onChange(
+      { ...track, cues: track.cues.map((cue) => (cue.id === id ? { ...cue, ...updates } : cue)) },
+      recordHistory
+    );
+  };
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const parsed = parseSubtitles(await file.text());
+      if (parsed.length === 0) {
+        toast({ type: 'error', title: 'No subtitles found', message: `${file.name} has no readable cues.` });
+        return;
+      }
+      addCues(parsed.map((cue) => ({ ...cue, id: crypto.randomUUID(), sourcePath })));
+      toast({ type: 'success', title: 'Subtitles imported', message: `${parsed.length} cues from ${file.name}` });
+    } catch (error) {
+      console.error('Failed to import subtitles:', error);
+      toast({ type: 'error', title: 'Failed to import subtitles' });
+    }
+  };
+
+  const handleImportTranscript = async () => {
+    try {
+      const transcript = await window.electronAPI.getTranscript(recording.id);
+      if (!transcript || transcript.segments.length === 0) {
+        toast({ type: 'error', title: 'No captions found', message: 'Generate captions from the Library first.' });
+        return;
+      }
+      addCues(
+        transcript.segments.map((segment) => ({
+          id: crypto.randomUUID(),
+          sourcePath: recording.path,
+          start: segment.start,
+          end: segment.end,
+          text: segment.text,
+        }))
+      );
+    } catch (error) {
+      console.error('Failed to load transcript:', error);
+      toast({ type: 'error', title: 'Failed to load captions' });
+    }
+  };
+
+  const handleAddCue = () => {
+    const cue: SubtitleTrackCue = {
+      id: crypto.randomUUID(),
+      sourcePath,
+      start: currentTime,
+      end: currentTime + NEW_CUE_DURATION,
+      text: 'New subtitle',
+    };
+    addCues([cue]);
+    onSelectCue(cue.id);
+  };
+
+  const handleDeleteCue = (id: string) => {
+    onChange({ ...track, cues: track.cues.filter((cue) => cue.id !== id) });
+    if (selectedCueId === id) {
+      onSelectCue(null);
+    }
+  };
+
+  const updateStyle = (updates: Partial<SubtitleTrack['style']>) => {
+    onChange({ ...track, style: { ...track.style, ...updates } });
+  };
+
+  return (
+    <div className="mt-6 space-y-4">
+      <div className="grid grid-cols-2 gap-2">
+        <button onClick={() => fileInputRef.current?.click()} className="btn btn-secondary text-xs">
+          Import SRT/VTT
+        </button>
+        <button onClick={handleAddCue} className="btn btn-secondary text-xs">
+          Add at Playhead
+        </button>
+        {recording.hasTranscript && (
+          <button onClick={handleImportTranscript} className="btn btn-secondary text-xs col-span-2">
+            Use Generated Captions
+          </button>
+        )}
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".srt,.vtt"
+          className="hidden"
+          onChange={handleFileChange}
+        />
+      </div>
+
+      {/* Cue list */}
+      {sourceCues.length > 0 ? (
+        <div>
+          <label className="text-sm font-medium mb-2 block">Cues ({sourceCues.length})</label>
+          <div className="space-y-2 max-h-64 overflow-y-auto">
+            {sourceCues.map((cue) => {
+              const inTimeline = isCueInTimeline(cue);
+              return (
+                <div
+                  key={cue.id}
+                  className={`card p-2 cursor-pointer ${selectedCueId === cue.id ? 'border-primary-600' : ''} ${
+                    inTimeline ? '' : 'opacity-50'
+                  }`}
+                  onClick={() => {
+                    onSelectCue(cue.id);
+                    onSeek(cue.start);
+                  }}
+                >
+                  <div className="flex items-start justify-between gap-2">
+                    <div className="flex-1 text-xs line-clamp-2">{cue.text}</div>
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        handleDeleteCue(cue.id);
+                      }}
+                      className="btn-icon text-red-400 hover:text-red-300"
+                    >
+                      <DeleteIcon />
+                    </button>
+                  </div>
+                  <div className="text-[10px] text-dark-400 mt-1">
+                    {cue.start.toFixed(1)}s - {cue.end.toFixed(1)}s
+                    {!inTimeline && ' · cut from timeline'}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      ) : (
+        <p className="text-xs text-dark-500">
+          No subtitles for this clip's source yet. Import a file or add cues at the playhead.
+        </p>
+      )}
+
+      {/* Selected cue */}
+      {selectedCue && (
+        <div className="card p-3 space-y-3">
+          <label className="text-sm font-medium">Selected Cue</label>
+          <textarea
+            value={selectedCue.text}
+            onChange={(e) => updateCue(selectedCue.id, { text: e.target.value })}
+            className="input w-full text-xs"
+            rows={2}
+          />
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <label className="text-xs text-dark-400 mb-1 block">Start (s)</label>
+              <input
+                type="number"
+                min="0"
+                step="0.1"
+                value={Number(selectedCue.start.toFixed(2))}
+                onChange={(e) =>
+                  updateCue(selectedCue.id, { start: Math.max(0, Math.min(Number(e.target.value), selectedCue.end - 0.1)) })
+                }
+                className="input w-full text-xs"
+              />
+            </div>
+            <div>
+              <label className="text-xs text-dark-400 mb-1 block">End (s)</label>
+              <input
+                type="number"
+                min="0"
+                step="0.1"
+                value={Number(selectedCue.end.toFixed(2))}
+                onChange={(e) => updateCue(selectedCue.id, { end: Math.max(Number(e.target.value), selectedCue.start + 0.1) })}
+                className="input w-full text-xs"
+              />
+            </div>
+            <button
+              onClick={() => updateCue(selectedCue.id, { start: Math.min(currentTime, selectedCue.end - 0.1) })}
+              className="btn btn-secondary text-xs"
+            >
+              Start at Playhead
+            </button>
+            <button
+              onClick={() => updateCue(selectedCue.id, { end: Math.max(currentTime, selectedCue.start + 0.1) })}
+              className="btn btn-secondary text-xs"
+            >
+              End at Playhead
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Export and style */}
+      <div className="card p-3 space-y-3">
+        <div>
+          <label className="text-xs text-dark-400 mb-1 block">On export</label>
+          <select
+            className="select w-full text-xs"
+            value={track.mode}
+            onChange={(e) => onChange({ ...track, mode: e.target.value as SubtitleTrack['mode'] })}
+          >
+            <option value="burn">Burn into video</option>
+            <option value="soft">Add as subtitle track</option>
+          </select>
+        </div>
+        {track.mode === 'burn' && (
+          <>
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <label className="text-xs text-dark-400 mb-1 block">Font</label>
+                <select
+                  className="select w-full text-xs"
+                  value={track.style.fontFamily}
+                  onChange={(e) => updateStyle({ fontFamily: e.target.value })}
+                >
+                  <option value="Arial">Arial</option>
+                  <option value="Calibri">Calibri</option>
+                  <option value="Helvetica">Helvetica</option>
+                  <option value="Times New Roman">Times New Roman</option>
+                  <option value="Courier New">Courier New</option>
+                  <option value="Verdana">Verdana</option>
+                </select>
+              </div>
+              <div>
+                <label className="text-xs text-dark-400 mb-1 block">Size</label>
+                <input
+                  type="number"
+                  min="8"
+                  max="64"
+                  value={track.style.fontSize}
+                  onChange={(e) => updateStyle({ fontSize: Number(e.target.value) })}
+                  className="input w-full text-xs"
+                />
+              </div>
+              <div>
+                <label className="text-xs text-dark-400 mb-1 block">Color</label>
+                <input
+                  type="color"
+                  value={track.style.color}
+                  onChange={(e) => updateStyle({ color: e.target.value })}
+                  className="w-full h-9 rounded bg-dark-800 border border-dark-600"
+                />
+              </div>
+            </div>
+            <div className="flex items-center gap-2">
+              <button
+                type="button"
+                onClick={() => updateStyle({ bold: !track.style.bold })}
+                className={`btn text-xs flex-1 ${track.style.bold ? 'btn-primary' : 'btn-secondary'}`}
+              >
+                Bold
+              </button>
+              <button
+                type="button"
+                onClick={() => updateStyle({ italic: !track.style.italic })}
+                className={`btn text-xs flex-1 ${track.style.italic ? 'btn-primary' : 'btn-secondary'}`}
+              >
+                Italic
+              </button>
+            </div>
+          </>
+        )}
+        <p className="text-xs text-dark-500">
+          Cues follow their clip when you split or trim; parts outside the timeline are dropped on export.
+        </p>
+      </div>
+    </div>
+  );
+}
+
+function DeleteIcon() {
+  return (
+    <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+    </svg>
+  );
+}
@@ -0,0 +1,262 @@
+import type { Easing, TextKeyframe, TextOverlay, TextReveal } from '../../../shared/types';
+import { EASING_LABELS } from '../../../shared/utils/easing';
+import { DEFAULT_REVEAL_DURATION, getKeyframedState, getTextKeyframes } from '../../../shared/utils/textAnimation';
+import { toast } from '../Toasts/toast';
+
+interface TextAnimationPanelProps {
+  overlay: TextOverlay;
+  currentTime: number;
+  selectedKeyframeId: string | null;
+  onSelectKeyframe: (id: string | null) => void;
+  onSeek: (time: number) => void;
+  onChange: (updates: Partial<TextOverlay>) => void;
+}
+
+export function TextAnimationPanel({
+  overlay,
+  currentTime,
+  selectedKeyframeId,
+  onSelectKeyframe,
+  onSeek,
+  onChange,
+}: TextAnimationPanelProps) {
+  const keyframes = getTextKeyframes(overlay);
+  const selectedKeyframe = keyframes.find((keyframe) => keyframe.id === selectedKeyframeId) ?? null;
+
+  // Legacy moves are converted on the first edit
+  const updateKeyframes = (next: TextKeyframe[]) => {
+    onChange({ animate: false, keyframes: [...next].sort((a, b) => a.time - b.time) });
+  };
+
+  const updateKeyframe = (id: string, updates: Partial<TextKeyframe>) => {
+    updateKeyframes(keyframes.map((keyframe) => (keyframe.id === id ? { ...keyframe, ...updates } : keyframe)));
+  };
+
+  const handleAddKeyframe = () => {
+    const time = currentTime - overlay.timestamp;
+    if (time < 0 || time > overlay.duration) {
+      toast({ type: 'error', title: 'Playhead outside text', message: 'Move the playhead inside the selected text.' });
+      return;
+    }
+    if (keyframes.some((keyframe) => Math.abs(keyframe.time - time) < 0.05)) {
+      toast({ type: 'error', title: 'Keyframe already set here' });
+      return;
+    }
+    // Start from the current animated state so adding a keyframe changes nothing
+    const keyframe: TextKeyframe = {
+      ...getKeyframedState(overlay, time),
+      id: crypto.randomUUID(),
+      time,
+      easing: 'ease-in-out',
+    };
+    updateKeyframes([...keyframes, keyframe]);
+    onSelectKeyframe(keyframe.id);
+  };
+
+  const handleDeleteKeyframe = (id: string) => {
+    updateKeyframes(keyframes.filter((keyframe) => keyframe.id !== id));
+    if (selectedKeyframeId === id) {
+      onSelectKeyframe(null);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <label className="text-xs text-dark-400 mb-1 block">Fade In (s)</label>
+          <input
+            type="number"
+            min="0"
+            max={overlay.duration}
+            step="0.1"
+            value={overlay.fadeIn ?? 0}
+            onChange={(e) => onChange({ fadeIn: Math.max(0, Number(e.target.value)) })}
+            className="input w-full text-xs"
+          />
+        </div>
+        <div>
+          <label className="text-xs text-dark-400 mb-1 block">Fade Out (s)</label>
+          <input
+            type="number"
+            min="0"
+            max={overlay.duration}
+            step="0.1"
+            value={overlay.fadeOut ?? 0}
+            onChange={(e) => onChange({ fadeOut: Math.max(0, Number(e.target.value)) })}
+            className="input w-full text-xs"
+          />
+        </div>
+        <div>
+          <label className="text-xs text-dark-400 mb-1 block">Reveal</label>
+          <select
+            className="select w-full text-xs"
+            value={overlay.reveal ?? 'none'}
+            onChange={(e) => onChange({ reveal: e.target.value as TextReveal })}
+          >
+            <option value="none">None</option>
+            <option value="typewriter">Typewriter</option>
+          </select>
+        </div>
+        {overlay.reveal === 'typewriter' && (
+          <div>
+            <label className="text-xs text-dark-400 mb-1 block">Reveal Time (s)</label>
+            <input
+              type="number"
+              min="0.1"
+              max={overlay.duration}
+              step="0.1"
+              value={overlay.revealDuration ?? DEFAULT_REVEAL_DURATION}
+              onChange={(e) => onChange({ revealDuration: Math.max(0.1, Number(e.target.value)) })}
+              className="input w-full text-xs"
+            />
+          </div>
+        )}
+      </div>
+
+      {/* Keyframes */}
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <label className="text-xs text-dark-400">Keyframes</label>
+          <button onClick={handleAddKeyframe} className="btn btn-secondary text-xs">
+            Add at Playhead
+          </button>
+        </div>
+        {keyframes.length === 0 && (
+          <p className="text-xs text-dark-500">Without keyframes the text stays where it is placed.</p>
+        )}
+        {keyframes.map((keyframe) => (
+          <div
+            key={keyframe.id}
+            className={`card p-2 cursor-pointer ${selectedKeyframeId === keyframe.id ? 'border-primary-600' : ''}`}
+            onClick={() => {
+              onSelectKeyframe(keyframe.id);
+              onSeek(overlay.timestamp + keyframe.time);
+            }}
+          >
+            <div className="flex items-center justify-between gap-2">
+              <div className="text-xs">
+                +{keyframe.time.toFixed(2)}s · {keyframe.scale.toFixed(2)}x · {Math.round(keyframe.rotation)}°
+              </div>
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  handleDeleteKeyframe(keyframe.id);
+                }}
+                className="btn-icon text-red-400 hover:text-red-300"
+              >
+                <DeleteIcon />
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {/* Selected keyframe */}
+      {selectedKeyframe && (
+        <div className="grid grid-cols-2 gap-2">
+          <div>
+            <label className="text-xs text-dark-400 mb-1 block">Time (s)</label>
+            <input
+              type="number"
+              min="0"
+              max={overlay.duration}
+              step="0.1"
+              value={Number(selectedKeyframe.time.toFixed(2))}
+              onChange={(e) =>
+                updateKeyframe(selectedKeyframe.id, {
+                  time: Math.max(0, Math.min(Number(e.target.value), overlay.duration)),
+                })
+              }
+              className="input w-full text-xs"
+            />
+          </div>
+          <div>
+            <label className="text-xs text-dark-400 mb-1 block">Easing</label>
+            <select
+              className="select w-full text-xs"
+              value={selectedKeyframe.easing}
+              onChange={(e) => updateKeyframe(selectedKeyframe.id, { easing: e.target.value as Easing })}
+            >
+              {(Object.keys(EASING_LABELS) as Easing[]).map((easing) => (
+                <option key={easing} value={easing}>
+                  {EASING_LABELS[easing]}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="text-xs text-dark-400 mb-1 block">X (%)</label>
+            <input
+              type="number"
+              min="0"
+              max="100"
+              step="0.1"
+              value={Number(selectedKeyframe.x.toFixed(1))}
+              onChange={(e) => updateKeyframe(selectedKeyframe.id, { x: Number(e.target.value) })}
+              className="input w-full text-xs"
+            />
+          </div>
+          <div>
+            <label className="text-xs text-dark-400 mb-1 block">Y (%)</label>
+            <input
+              type="number"
+              min="0"
+              max="100"
+              step="0.1"
+              value={Number(selectedKeyframe.y.toFixed(1))}
+              onChange={(e) => updateKeyframe(selectedKeyframe.id, { y: Number(e.target.value) })}
+              className="input w-full text-xs"
+            />
+          </div>
+          <div>
+            <label className="text-xs text-dark-400 mb-1 block">Scale</label>
+            <input
+              type="number"
+              min="0.1"
+              max="5"
+              step="0.1"
+              value={selectedKeyframe.scale}
+              onChange={(e) => updateKeyframe(selectedKeyframe.id, { scale: Math.max(0.1, Number(e.target.value)) })}
+              className="input w-full text-xs"
+            />
+          </div>
+          <div>
+            <label className="text-xs text-dark-400 mb-1 block">Rotation (°)</label>
+            <input
+              type="number"
+              min="-360"
+              max="360"
+              step="1"
+              value={selectedKeyframe.rotation}
+              onChange={(e) => updateKeyframe(selectedKeyframe.id, { rotation: Number(e.target.value) })}
+              className="input w-full text-xs"
+            />
+          </div>
+          <div className="col-span-2">
+            <label className="text-xs text-dark-400 mb-1 block">
+              Opacity: {Math.round(selectedKeyframe.opacity * 100)}%
+            </label>
+            <input
+              type="range"
+              min="0"
+              max="100"
+              step="1"
+              value={Math.round(selectedKeyframe.opacity * 100)}
+              onChange={(e) => updateKeyframe(selectedKeyframe.id, { opacity: Number(e.target.value) / 100 })}
+              className="w-full accent-primary-600"
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function DeleteIcon() {
+  return (
+    <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+    </svg>
+  );
+}
@@ -0,0 +1,298 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import type { Recording, RecordingTranscription, TimelineClip, Transcript } from '../../../shared/types';
+import type { SourceRange } from '../../../shared/utils/clips';
+import {
+  FILLER_WORDS,
+  getTranscriptWords,
+  getWordRanges,
+  isFillerWord,
+  isWordInClips,
+  normalizeTranscriptWord,
+} from '../../../shared/utils/transcript';
+import { toast } from '../Toasts/toast';
+
+interface TranscriptPanelProps {
+  recording: Recording;
+  clips: TimelineClip[];
+  sourcePath: string; // Source of the previewed clip; the playhead only follows words of the recording itself
+  currentTime: number;
+  isPlaying: boolean;
+  onSeek: (time: number) => void;
+  onRemoveRanges: (ranges: SourceRange[]) => void; // Ranges of the recording's source to cut from the timeline
+}
+
+export function TranscriptPanel({
+  recording,
+  clips,
+  sourcePath,
+  currentTime,
+  isPlaying,
+  onSeek,
+  onRemoveRanges,
+}: TranscriptPanelProps) {
+  const [transcript, setTranscript] = useState<Transcript | null>(null);
+  const [hasTranscript, setHasTranscript] = useState(Boolean(recording.hasTranscript));
+  const [transcription, setTranscription] = useState<RecordingTranscription | null>(recording.transcription ?? null);
+  const [selection, setSelection] = useState<{ anchor: number; focus: number } | null>(null);
+  const [skippedFillers, setSkippedFillers] = useState<Set<string>>(new Set());
+  const activeWordRef = useRef<HTMLSpanElement>(null);
+
+  // Transcription runs in the main process; follow its progress while the editor is open
+  useEffect(() => {
+    const unsubscribe = window.electronAPI.onRecordingUpdated((updated) => {
+      if (updated.id !== recording.id) return;
+      setTranscription(updated.transcription ?? null);
+      setHasTranscript(Boolean(updated.hasTranscript));
+    });
+    return () => {
+      unsubscribe?.();
+    };
+  }, [recording.id]);
+
+  useEffect(() => {
+    if (!hasTranscript) {
+      setTranscript(null);
+      return;
+    }
+
+    let cancelled = false;
+    window.electronAPI
+      .getTranscript(recording.id)
+      .then((data) => {
+        if (!cancelled) {
+          setTranscript(data);
+        }
+      })
+      .catch((error) => console.error('Failed to load transcript:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [recording.id, hasTranscript]);
+
+  const words = useMemo(() => (transcript ? getTranscriptWords(transcript) : []), [transcript]);
+  const wordsBySegment = useMemo(() => {
+    const groups: Array<typeof words> = transcript ? transcript.segments.map(() => []) : [];
+    words.forEach((word) => groups[word.segmentIndex].push(word));
+    return groups;
+  }, [transcript, words]);
+  const keptWords = useMemo(
+    () => new Set(words.filter((word) => isWordInClips(word, clips, recording.path)).map((word) => word.index)),
+    [words, clips, recording.path]
+  );
+  const fillerCounts = useMemo(() => {
+    const counts = new Map<string, number>();
+    words
+      .filter((word) => keptWords.has(word.index) && isFillerWord(word.text))
+      .forEach((word) => {
+        const filler = normalizeTranscriptWord(word.text);
+        counts.set(filler, (counts.get(filler) ?? 0) + 1);
+      });
+    return FILLER_WORDS.filter((filler) => counts.has(filler)).map((filler) => ({ filler, count: counts.get(filler) ?? 0 }));
+  }, [words, keptWords]);
+
+  const activeWordIndex = sourcePath === recording.path
+    ? words.find((word) => currentTime >= word.start && currentTime < word.end)?.index ?? null
+    : null;
+
+  useEffect(() => {
+    if (isPlaying) {
+      activeWordRef.current?.scrollIntoView({ block: 'nearest' });
+    }
+  }, [activeWordIndex, isPlaying]);
+
+  const selectedRange = selection
+    ? { from: Math.min(selection.anchor, selection.focus), to: Math.max(selection.anchor, selection.focus) }
+    : null;
+  const selectedWords = selectedRange
+    ? words.slice(selectedRange.from, selectedRange.to + 1).filter((word) => keptWords.has(word.index))
+    : [];
+
+  const removeWords = (removed: typeof words) => {
+    if (removed.length === 0) return;
+    onRemoveRanges(getWordRanges(removed));
+    setSelection(null);
+  };
+
+  const handleWordClick = (event: React.MouseEvent, index: number) => {
+    if (event.shiftKey && selection) {
+      setSelection({ ...selection, focus: index });
+      return;
+    }
+    setSelection({ anchor: index, focus: index });
+    onSeek(words[index].start);
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    if (event.key === 'Delete' || event.key === 'Backspace') {
+      event.preventDefault();
+      removeWords(selectedWords);
+    } else if (event.key === 'Escape') {
+      setSelection(null);
+    }
+  };
+
+  const handleRemoveFillers = () => {
+    const fillers = words.filter(
+      (word) =>
+        keptWords.has(word.index) && isFillerWord(word.text) && !skippedFillers.has(normalizeTranscriptWord(word.text))
+    );
+    removeWords(fillers);
+    toast({
+      type: 'success',
+      title: 'Filler words removed',
+      message: `${fillers.length} word${fillers.length === 1 ? '' : 's'} cut from the timeline.`,
+    });
+  };
+
+  const toggleFiller = (filler: string) => {
+    setSkippedFillers((prev) => {
+      const next = new Set(prev);
+      if (next.has(filler)) {
+        next.delete(filler);
+      } else {
+        next.add(filler);
+      }
+      return next;
+    });
+  };
+
+  const handleTranscribe = async () => {
+    try {
+      await window.electronAPI.transcribeRecording(recording.id);
+      setTranscription({ status: 'queued', progress: 0 });
+    } catch (error) {
+      console.error('Failed to queue transcription:', error);
+      toast({ type: 'error', title: 'Failed to start transcription' });
+    }
+  };
+
+  if (!transcript) {
+    return (
+      <div className="mt-6 space-y-3">
+        <p className="text-xs text-dark-500">
+          Edit the video by editing its words. The transcript is generated offline from the recording's audio.
+        </p>
+        {transcription?.status === 'queued' && <div className="text-xs text-dark-400">Waiting to transcribe…</div>}
+        {transcription?.status === 'transcribing' && (
+          <div className="space-y-2">
+            <div className="text-xs text-dark-400">Transcribing… {transcription.progress}%</div>
+            <div className="h-1.5 bg-dark-700 rounded-full overflow-hidden">
+              <div className="h-full bg-primary-500" style={{ width: `${transcription.progress}%` }} />
+            </div>
+          </div>
+        )}
+        {transcription?.status === 'failed' && (
+          <div className="text-xs text-red-400" title={transcription.error}>
+            Transcription failed. Check the speech-to-text setup in Settings.
+          </div>
+        )}
+        {(!transcription || transcription.status === 'failed') && !hasTranscript && (
+          <button onClick={handleTranscribe} className="btn btn-secondary text-xs w-full">
+            Transcribe Recording
+          </button>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="mt-6 space-y-4">
+      <p className="text-xs text-dark-500">
+        Click a word to jump to it, shift-click to select a range, then press Delete to cut it. Cut words are struck
+        through; undo brings them back.
+      </p>
+
+      {/* Filler words */}
+      {fillerCounts.length > 0 && (
+        <div className="card p-3 space-y-2">
+          <label className="text-sm font-medium">Filler Words</label>
+          <div className="flex flex-wrap gap-1.5">
+            {fillerCounts.map(({ filler, count }) => (
+              <button
+                key={filler}
+                onClick={() => toggleFiller(filler)}
+                className={`px-2 py-0.5 rounded text-xs ${
+                  skippedFillers.has(filler) ? 'bg-dark-700 text-dark-500 line-through' : 'bg-yellow-500/20 text-yellow-300'
+                }`}
+                title={skippedFillers.has(filler) ? 'Kept when removing fillers' : 'Removed with the fillers'}
+              >
+                {filler} · {count}
+              </button>
+            ))}
+          </div>
+          <button
+            onClick={handleRemoveFillers}
+            className="btn btn-secondary text-xs w-full"
+            disabled={fillerCounts.every(({ filler }) => skippedFillers.has(filler))}
+          >
+            Remove Filler Words
+          </button>
+        </div>
+      )}
+
+      {selectedWords.length > 0 && (
+        <button onClick={() => removeWords(selectedWords)} className="btn btn-primary text-xs w-full">
+          Cut {selectedWords.length} Selected Word{selectedWords.length === 1 ? '' : 's'}
+        </button>
+      )}
+
+      {/* Transcript */}
+      <div
+        tabIndex={0}
+        onKeyDown={handleKeyDown}
+        className="space-y-3 max-h-96 overflow-y-auto text-sm leading-relaxed focus:outline-none"
+      >
+        {transcript.segments.map((segment, segmentIndex) => {
+          const segmentWords = wordsBySegment[segmentIndex];
+          const keptSegmentWords = segmentWords.filter((word) => keptWords.has(word.index));
+          return (
+            <div key={segment.id} className="group flex items-start gap-2">
+              <p className="flex-1">
+                {segmentWords.map((word) => {
+                  const isKept = keptWords.has(word.index);
+                  const isSelected = Boolean(
+                    selectedRange && word.index >= selectedRange.from && word.index <= selectedRange.to
+                  );
+                  const isActive = word.index === activeWordIndex;
+                  return (
+                    <span key={word.index}>
+                      <span
+                        ref={isActive ? activeWordRef : undefined}
+                        onClick={(e) => handleWordClick(e, word.index)}
+                        className={`cursor-pointer rounded px-0.5 ${
+                          isKept ? 'hover:bg-dark-700' : 'text-dark-600 line-through'
+                        } ${isKept && isFillerWord(word.text) ? 'bg-yellow-500/20 text-yellow-300' : ''} ${
+                          isSelected ? 'bg-primary-600/40' : ''
+                        } ${isActive ? 'text-primary-300 underline' : ''}`}
+                      >
+                        {word.text}
+                      </span>{' '}
+                    </span>
+                  );
+                })}
+              </p>
+              {keptSegmentWords.length > 0 && (
+                <button
+                  onClick={() => removeWords(keptSegmentWords)}
+                  className="btn-icon text-red-400 hover:text-red-300 opacity-0 group-hover:opacity-100"
+                  title="Cut sentence"
+                >
+                  <DeleteIcon />
+                </button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+function DeleteIcon() {
+  return (
+    <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+    </svg>
+  );
+}
@@ -1,47 +1,112 @@
 import { useState, useRef, useEffect } from 'react';
-import type { Recording, TimelineClip } from '../../../shared/types';
+import type {
+  Recording,
+  RecordingMarker,
+  ExportJob,
+  ExportEncoder,
+  ExportPreset,
+  TimelineClip,
+  TimelineProject,
+  TextOverlay,
+  ImageOverlay,
+  SubtitleTrack,
+  CursorEffects,
+  CursorTrack,
+  ZoomSegment,
+  AnnotationTrack,
+  AnnotationRenderItem,
+  Redaction,
+  SilenceRange,
+  CropArea,
+  EditorAudioSettings,
+  AudioEnhancementPreset,
+  AudioTrackKind,
+  SourceAudioTrack,
+} from '../../../shared/types';
 import { toMediaUrl } from '../../utils/mediaUrl';
+import { toast } from '../Toasts/toast';
+import { SubtitlePanel } from './SubtitlePanel';
+import { CursorPanel } from './CursorPanel';
+import { CursorPreview } from './CursorPreview';
+import { ZoomPanel } from './ZoomPanel';
+import { TextAnimationPanel } from './TextAnimationPanel';
+import { ImagePanel } from './ImagePanel';
+import { AnnotationPanel } from './AnnotationPanel';
+import { AnnotationPreview } from './AnnotationPreview';
+import { RedactionPanel } from './RedactionPanel';
+import { RedactionPreview } from './RedactionPreview';
+import { SilencePanel } from './SilencePanel';
+import { TranscriptPanel } from './TranscriptPanel';
+import { AudioTracksPanel } from './AudioTracksPanel';
+import { MusicPanel } from './MusicPanel';
+import { getAnnotationBounds, rasterizeAnnotation } from '../../utils/annotations';
+import { clampZoomRect } from '../../../shared/utils/zoom';
+import { cutRangesFromClips, relinkEditSource, relinkSourcePaths } from '../../../shared/utils/clips';
+import { AUDIO_ENHANCEMENT_LABELS } from '../../../shared/utils/audio';
+import { BUILT_IN_EXPORT_PRESETS, EXPORT_FORMATS } from '../../../shared/constants/export';
+import type { SourceRange } from '../../../shared/utils/clips';
+import { getRevealedText, getTextAnimationState, getTextKeyframes, placeTextOverlay } from '../../../shared/utils/textAnimation';
 
 interface VideoEditorProps {
   recording: Recording;
+  project?: TimelineProject | null;
   onClose: () => void;
-  onSave: (editedRecording: Recording) => void;
+  onExportQueued: (job: ExportJob) => void;
+  onProjectSaved?: (project: TimelineProject) => void;
 }
 
-type EditorTool = 'trim' | 'crop' | 'text';
-
-interface TextOverlay {
-  id: string;
-  text: string;
-  x: number; // Percent
-  y: number; // Percent
-  endX: number;
-  endY: number;
-  animate: boolean;
-  fontSize: number;
-  color: string;
-  bold: boolean;
-  italic: boolean;
-  fontFamily: string;
-  align: 'left' | 'center' | 'right';
-  timestamp: number; // Start time in seconds
-  duration: number; // Duration in seconds
-}
-
-interface CropArea {
-  // Percent values relative to the video frame
-  x: number;
-  y: number;
-  width: number;
-  height: number;
-}
-
-export function VideoEditor({ recording, onClose, onSave }: VideoEditorProps) {
+type EditorTool = 'trim' | 'crop' | 'text' | 'image' | 'subtitles' | 'cursor' | 'zoom' | 'annotations' | 'redact' | 'transcript';
+
+const LIBRARY_RECORDING_MIME = 'application/x-choome-recording';
+
+// Seconds a newly drawn redaction lasts
+const NEW_REDACTION_DURATION = 5;
+
+// Sections of the preset picker; saved presets follow as their own section
+const BUILT_IN_PRESET_GROUPS = [
+  { label: 'Video', kind: 'video' },
+  { label: 'GIF', kind: 'gif' },
+  { label: 'Audio', kind: 'audio' },
+].map(({ label, kind }) => ({
+  label,
+  presets: BUILT_IN_EXPORT_PRESETS.filter((preset) => EXPORT_FORMATS[preset.format ?? 'mp4'].kind === kind),
+}));
+
+const ENCODER_LABELS: Record<ExportEncoder, string> = {
+  auto: 'Auto (best available)',
+  cpu: 'CPU (libx264)',
+  nvenc: 'NVIDIA NVENC',
+  qsv: 'Intel QuickSync',
+  amf: 'AMD AMF',
+};
+
+const DEFAULT_SUBTITLE_TRACK: SubtitleTrack = {
+  cues: [],
+  mode: 'burn',
+  style: { fontFamily: 'Arial', fontSize: 20, color: '#FFFFFF', bold: false, italic: false },
+};
+
+// libass sizes subtitles against a 288px tall frame
+const SUBTITLE_PLAY_RES_Y = 288;
+
+const DEFAULT_CURSOR_EFFECTS: CursorEffects = {
+  highlight: false,
+  highlightColor: '#FACC15',
+  highlightSize: 3,
+  clickRipples: false,
+  rippleColor: '#FACC15',
+  zoomSegments: [],
+};
+
+export function VideoEditor({ recording, project, onClose, onExportQueued, onProjectSaved }: VideoEditorProps) {
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const videoContainerRef = useRef<HTMLDivElement>(null);
-  const initialClipIdRef = useRef(crypto.randomUUID());
+  const initialClipIdRef = useRef(project?.clips[0]?.id ?? crypto.randomUUID());
+  const projectIdRef = useRef(project?.id ?? crypto.randomUUID());
+  const projectCreatedAtRef = useRef(project?.createdAt ?? new Date().toISOString());
   const cropStartRef = useRef<{ x: number; y: number } | null>(null);
+  const zoomStartRef = useRef<{ x: number; y: number } | null>(null);
 
   const [activeTool, setActiveTool] = useState<EditorTool | null>(null);
   const [currentTime, setCurrentTime] = useState(0);
@@ -49,35 +114,105 @@ export function VideoEditor({ recording, onClose, onSave }: VideoEditorProps) {
   const [videoSize, setVideoSize] = useState<{ width: number; height: number } | null>(null);
 
   // Timeline state (EDL)
-  const [clips, setClips] = useState<TimelineClip[]>(() => ([
-    {
-      id: initialClipIdRef.current,
-      sourcePath: recording.path,
-      sourceStart: 0,
-      sourceEnd: recording.duration,
-    },
-  ]));
+  const [clips, setClips] = useState<TimelineClip[]>(() => (
+    project?.clips.length
+      ? project.clips
+      : [
+          {
+            id: initialClipIdRef.current,
+            sourcePath: recording.path,
+            sourceStart: 0,
+            sourceEnd: recording.duration,
+          },
+        ]
+  ));
   const [selectedClipId, setSelectedClipId] = useState(initialClipIdRef.current);
 
   // Crop state (percent-based)
-  const [cropArea, setCropArea] = useState<CropArea | null>(null);
+  const [cropArea, setCropArea] = useState<CropArea | null>(project?.cropArea ?? null);
   const [isDraggingCrop, setIsDraggingCrop] = useState(false);
 
   // Text overlay state
-  const [textOverlays, setTextOverlays] = useState<TextOverlay[]>([]);
+  const [textOverlays, setTextOverlays] = useState<TextOverlay[]>(project?.textOverlays ?? []);
   const [selectedOverlay, setSelectedOverlay] = useState<string | null>(null);
+  const [selectedTextKeyframeId, setSelectedTextKeyframeId] = useState<string | null>(null);
   const [newText, setNewText] = useState('');
   const [draggingOverlayId, setDraggingOverlayId] = useState<string | null>(null);
   const [dragOffset, setDragOffset] = useState<{ x: number; y: number } | null>(null);
 
+  // Image overlays (logos, screenshots, arrows)
+  const [imageOverlays, setImageOverlays] = useState<ImageOverlay[]>(project?.imageOverlays ?? []);
+  const [selectedImageId, setSelectedImageId] = useState<string | null>(null);
+  const [imageDrag, setImageDrag] = useState<{ id: string; offsetX: number; offsetY: number } | null>(null);
+  const updateImageOverlays = (next: ImageOverlay[], recordHistory = true) => {
+    setImageOverlays(next);
+    if (recordHistory) {
+      pushHistory(createSnapshot({ imageOverlays: next }));
+    }
+  };
+
+  // Subtitle track
+  const [subtitles, setSubtitles] = useState<SubtitleTrack>(project?.subtitles ?? DEFAULT_SUBTITLE_TRACK);
+  const [selectedCueId, setSelectedCueId] = useState<string | null>(null);
+  const updateSubtitles = (next: SubtitleTrack, recordHistory = true) => {
+    setSubtitles(next);
+    if (recordHistory) {
+      pushHistory(createSnapshot({ subtitles: next }));
+    }
+  };
+
+  // Cursor effects; tracks are loaded per source file as clips are previewed
+  const [cursorEffects, setCursorEffects] = useState<CursorEffects>(project?.cursorEffects ?? DEFAULT_CURSOR_EFFECTS);
+  const [selectedZoomId, setSelectedZoomId] = useState<string | null>(null);
+  const [cursorTracks, setCursorTracks] = useState<Record<string, CursorTrack | null>>({});
+  const updateCursorEffects = (next: CursorEffects, recordHistory = true) => {
+    setCursorEffects(next);
+    if (recordHistory) {
+      pushHistory(createSnapshot({ cursorEffects: next }));
+    }
+  };
+
+  // Keyframed zoom-and-pan segments (source times)
+  const [zoomSegments, setZoomSegments] = useState<ZoomSegment[]>(project?.zoomSegments ?? []);
+  const [selectedZoomSegmentId, setSelectedZoomSegmentId] = useState<string | null>(null);
+  const [selectedZoomKeyframeId, setSelectedZoomKeyframeId] = useState<string | null>(null);
+  const updateZoomSegments = (next: ZoomSegment[], recordHistory = true) => {
+    setZoomSegments(next);
+    if (recordHistory) {
+      pushHistory(createSnapshot({ zoomSegments: next }));
+    }
+  };
+
+  // Annotation layers recorded with the drawing overlay, loaded per source file like cursor tracks
+  const [annotationTracks, setAnnotationTracks] = useState<AnnotationTrack[]>(project?.annotationTracks ?? []);
+  const [selectedAnnotationId, setSelectedAnnotationId] = useState<string | null>(null);
+  const requestedAnnotationSourcesRef = useRef<Set<string>>(new Set());
+  const updateAnnotationTrack = (track: AnnotationTrack) => {
+    const next = annotationTracks.map((item) => (item.sourcePath === track.sourcePath ? track : item));
+    setAnnotationTracks(next);
+    pushHistory(createSnapshot({ annotationTracks: next }));
+  };
+
+  // Redacted boxes (source times)
+  const [redactions, setRedactions] = useState<Redaction[]>(project?.redactions ?? []);
+  const [selectedRedactionId, setSelectedRedactionId] = useState<string | null>(null);
+  const [redactionDraft, setRedactionDraft] = useState<CropArea | null>(null);
+  const redactionStartRef = useRef<{ x: number; y: number } | null>(null);
+  const updateRedactions = (next: Redaction[], recordHistory = true) => {
+    setRedactions(next);
+    if (recordHistory) {
+      pushHistory(createSnapshot({ redactions: next }));
+    }
+  };
+
   // Audio controls
-  const [audioSettings, setAudioSettings] = useState({
+  const [audioSettings, setAudioSettings] = useState<EditorAudioSettings>(project?.audioSettings ?? {
     volume: 100,
     muted: false,
     fadeIn: 0,
     fadeOut: 0,
   });
-  const updateAudioSettings = (updates: Partial<typeof audioSettings>) => {
+  const updateAudioSettings = (updates: Partial<EditorAudioSettings>) => {
     setAudioSettings((prev) => {
       const next = { ...prev, ...updates };
       pushHistory(createSnapshot({ audioSettings: next }));
@@ -89,7 +224,13 @@ export function VideoEditor({ recording, onClose, onSave }: VideoEditorProps) {
     clips: TimelineClip[];
     cropArea: CropArea | null;
     textOverlays: TextOverlay[];
-    audioSettings: typeof audioSettings;
+    imageOverlays: ImageOverlay[];
+    subtitles: SubtitleTrack;
+    cursorEffects: CursorEffects;
+    zoomSegments: ZoomSegment[];
+    annotationTracks: AnnotationTrack[];
+    redactions: Redaction[];
+    audioSettings: EditorAudioSettings;
     selectedPresetId: string;
   };
 
@@ -100,8 +241,13 @@ export function VideoEditor({ recording, onClose, onSave }: VideoEditorProps) {
   const [isProxyLoading, setIsProxyLoading] = useState(false);
 
   const [isExporting, setIsExporting] = useState(false);
-  const [exportProgress, setExportProgress] = useState(0);
-  const [exportStage, setExportStage] = useState('Preparing');
+  const [isSavingProject, setIsSavingProject] = useState(false);
+  const [libraryRecordings, setLibraryRecordings] = useState<Recording[]>([]);
+  const [isTimelineDropTarget, setIsTimelineDropTarget] = useState(false);
+  // Pauses found per source file; not part of the edit, so undo leaves them alone
+  const [detectedSilences, setDetectedSilences] = useState<Record<string, SilenceRange[]>>({});
+  const [silencePadding, setSilencePadding] = useState(0.15);
+  const [skipCutsInPreview, setSkipCutsInPreview] = useState(false);
 
   const [waveformPath, setWaveformPath] = useState<string | null>(null);
   const [audioLevel, setAudioLevel] = useState(0);
@@ -110,14 +256,13 @@ export function VideoEditor({ recording, onClose, onSave }: VideoEditorProps) {
   const animationFrameRef = useRef<number | null>(null);
   const mediaSourceRef = useRef<MediaElementAudioSourceNode | null>(null);
 
-  const exportPresets = [
-    { id: 'source', label: 'Source', width: 0, height: 0, bitrate: '' },
-    { id: '1080p', label: '1080p (16:9)', width: 1920, height: 1080, bitrate: '8000k' },
-    { id: '720p', label: '720p (16:9)', width: 1280, height: 720, bitrate: '5000k' },
-    { id: 'shorts', label: 'Shorts (9:16)', width: 1080, height: 1920, bitrate: '6000k' },
-  ];
-  const [selectedPresetId, setSelectedPresetId] = useState('source');
-  const [encoder, setEncoder] = useState<'auto' | 'cpu' | 'nvenc' | 'qsv' | 'amf'>('auto');
+  const [customPresets, setCustomPresets] = useState<ExportPreset[]>([]);
+  const exportPresets = [...BUILT_IN_EXPORT_PRESETS, ...customPresets];
+  const [selectedPresetId, setSelectedPresetId] = useState(project?.exportPresetId ?? 'source');
+  // A deleted custom preset falls back to the source preset
+  const selectedPreset = exportPresets.find((p) => p.id === selectedPresetId) ?? exportPresets[0];
+  const [encoder, setEncoder] = useState<ExportEncoder>('auto');
+  const [availableEncoders, setAvailableEncoders] = useState<ExportEncoder[]>(['auto', 'cpu']);
   const [optimizeForSize, setOptimizeForSize] = useState(false);
   const handlePresetChange = (presetId: string) => {
     setSelectedPresetId(presetId);
@@ -128,6 +273,12 @@ export function VideoEditor({ recording, onClose, onSave }: VideoEditorProps) {
     clips,
     cropArea,
     textOverlays,
+    imageOverlays,
+    subtitles,
+    cursorEffects,
+    zoomSegments,
+    annotationTracks,
+    redactions,
     audioSettings,
     selectedPresetId,
     ...overrides,
@@ -148,6 +299,12 @@ export function VideoEditor({ recording, onClose, onSave }: VideoEditorProps) {
     setClips(prevSnapshot.clips);
     setCropArea(prevSnapshot.cropArea);
     setTextOverlays(prevSnapshot.textOverlays);
+    setImageOverlays(prevSnapshot.imageOverlays);
+    setSubtitles(prevSnapshot.subtitles);
+    setCursorEffects(prevSnapshot.cursorEffects);
+    setZoomSegments(prevSnapshot.zoomSegments);
+    setAnnotationTracks(prevSnapshot.annotationTracks);
+    setRedactions(prevSnapshot.redactions);
     setAudioSettings(prevSnapshot.audioSettings);
     setSelectedPresetId(prevSnapshot.selectedPresetId);
     setHistoryIndex(historyIndex - 1);
@@ -159,17 +316,66 @@ export function VideoEditor({ recording, onClose, onSave }: VideoEditorProps) {
     setClips(nextSnapshot.clips);
     setCropArea(nextSnapshot.cropArea);
     setTextOverlays(nextSnapshot.textOverlays);
+    setImageOverlays(nextSnapshot.imageOverlays);
+    setSubtitles(nextSnapshot.subtitles);
+    setCursorEffects(nextSnapshot.cursorEffects);
+    setZoomSegments(nextSnapshot.zoomSegments);
+    setAnnotationTracks(nextSnapshot.annotationTracks);
+    setRedactions(nextSnapshot.redactions);
     setAudioSettings(nextSnapshot.audioSettings);
     setSelectedPresetId(nextSnapshot.selectedPresetId);
     setHistoryIndex(historyIndex + 1);
   };
 
+  // MP4 conversion can replace the source file while the editor is open; the edit and its undo steps follow it
+  const recordingPathRef = useRef(recording.path);
+  useEffect(() => {
+    const fromPath = recordingPathRef.current;
+    const toPath = recording.path;
+    recordingPathRef.current = toPath;
+    if (fromPath === toPath) return;
+
+    const relink = <T extends { sourcePath: string }>(items: T[]) => relinkSourcePaths(items, fromPath, toPath);
+    setClips(relink);
+    setSubtitles((prev) => ({ ...prev, cues: relink(prev.cues) }));
+    setCursorEffects((prev) => ({ ...prev, zoomSegments: relink(prev.zoomSegments) }));
+    setZoomSegments(relink);
+    setAnnotationTracks(relink);
+    setRedactions(relink);
+    setHistory((prev) => prev.map((snapshot) => relinkEditSource(snapshot, fromPath, toPath)));
+  }, [recording.path]);
+
   useEffect(() => {
     if (historyIndex === -1) {
       pushHistory(createSnapshot());
     }
   }, []);
 
+  useEffect(() => {
+    window.electronAPI.getSettings()
+      .then((settings) => setCustomPresets(settings.exportPresets ?? []))
+      .catch((error) => {
+        console.warn('Failed to load export presets:', error);
+      });
+  }, []);
+
+  // Only offer hardware encoders that passed the ffmpeg probe
+  useEffect(() => {
+    let active = true;
+    window.electronAPI.ffmpegGetEncoders()
+      .then((capabilities) => {
+        if (active) {
+          setAvailableEncoders(capabilities.available);
+        }
+      })
+      .catch((error) => {
+        console.warn('Failed to probe encoders:', error);
+      });
+    return () => {
+      active = false;
+    };
+  }, []);
+
   // Video player controls
   useEffect(() => {
     const video = videoRef.current;
@@ -198,11 +404,17 @@ export function VideoEditor({ recording, onClose, onSave }: VideoEditorProps) {
     };
   }, []);
 
+  // The music gets a lane of its own under the recording's waveform
+  const musicPath = audioSettings.music?.path ?? null;
+  const musicLoop = audioSettings.music?.loop ?? false;
   useEffect(() => {
     let active = true;
     const basePath = recording.path.replace(/\.\w+$/, '');
-    const waveformOutput = `${basePath}-waveform-${recording.id}.png`;
-    window.electronAPI.ffmpegGenerateWaveform(recording.path, waveformOutput, 1200, 120)
+    const music = musicPath ? { path: musicPath, loop: musicLoop, duration: recording.duration } : undefined;
+    // A file per variant so the preview never shows a cached image of the other one
+    const variant = music ? `-music${music.loop ? '-loop' : ''}` : '';
+    const waveformOutput = `${basePath}-waveform-${recording.id}${variant}.png`;
+    window.electronAPI.ffmpegGenerateWaveform(recording.path, waveformOutput, 1200, music ? 240 : 120, music)
       .then((path) => {
         if (!active) return;
         setWaveformPath(path);
@@ -215,7 +427,7 @@ export function VideoEditor({ recording, onClose, onSave }: VideoEditorProps) {
     return () => {
       active = false;
     };
-  }, [recording.id, recording.path]);
+  }, [recording.id, recording.path, recording.duration, musicPath, musicLoop]);
 
   useEffect(() => {
     const video = videoRef.current;
@@ -262,15 +474,6 @@ export function VideoEditor({ recording, onClose, onSave }: VideoEditorProps) {
     };
   }, []);
 
-  useEffect(() => {
-    const unsubscribe = window.electronAPI?.onFFmpegProgress((progress) => {
-      setExportProgress(progress);
-    });
-    return () => {
-      unsubscribe?.();
-    };
-  }, []);
-
   useEffect(() => {
     let active = true;
     const basePath = recording.path.replace(/\.\w+$/, '');
@@ -323,6 +526,146 @@ export function VideoEditor({ recording, onClose, onSave }: VideoEditorProps) {
   const selectedClip = clips.find((clip) => clip.id === selectedClipId) ?? clips[0];
   const clipStart = selectedClip?.sourceStart ?? 0;
   const clipEnd = selectedClip?.sourceEnd ?? recording.duration;
+  const isForeignClip = Boolean(selectedClip && selectedClip.sourcePath !== recording.path);
+  const sourceDuration = isForeignClip ? selectedClip?.sourceDuration ?? clipEnd : recording.duration;
+  // Clips from other recordings preview straight from their source file
+  const previewPath = isForeignClip && selectedClip ? selectedClip.sourcePath : proxyPath ?? recording.path;
+  // Markers are stored per recording, so look them up by the clip's source file
+  const markersBySource = new Map<string, RecordingMarker[]>(
+    [recording, ...libraryRecordings].map((item) => [item.path, item.markers ?? []])
+  );
+  // Separately recorded mic and system tracks of the sources on the timeline
+  const sourceAudioTracks: SourceAudioTrack[] = [recording, ...libraryRecordings]
+    .filter((item, index, all) => all.findIndex((other) => other.path === item.path) === index)
+    .filter((item) => clips.some((clip) => clip.sourcePath === item.path))
+    .flatMap((item) => (item.audioTracks ?? []).map((track) => ({ ...track, sourcePath: item.path })));
+  const audioTrackKinds = (['microphone', 'system'] as AudioTrackKind[]).filter((kind) =>
+    sourceAudioTracks.some((track) => track.kind === kind)
+  );
+  const selectedClipMarkers = (selectedClip ? markersBySource.get(selectedClip.sourcePath) ?? [] : [])
+    .filter((marker) => marker.time > clipStart && marker.time < clipEnd)
+    .sort((a, b) => a.time - b.time);
+  // Subtitle cues are timed against the previewed source, like the playhead
+  const previewSourcePath = selectedClip?.sourcePath ?? recording.path;
+  const previewCues = subtitles.cues.filter((cue) => cue.sourcePath === previewSourcePath);
+  const activeCue = previewCues.find((cue) => currentTime >= cue.start && currentTime < cue.end);
+  const previewCursorTrack = cursorTracks[previewSourcePath] ?? null;
+  const previewZoomSegments = cursorEffects.zoomSegments.filter((segment) => segment.sourcePath === previewSourcePath);
+  const previewKeyframeZooms = zoomSegments.filter((segment) => segment.sourcePath === previewSourcePath);
+  const previewAnnotationTrack = annotationTracks.find((track) => track.sourcePath === previewSourcePath) ?? null;
+  const previewRedactions = redactions.filter((redaction) => redaction.sourcePath === previewSourcePath);
+  const selectedOverlayItem = textOverlays.find((overlay) => overlay.id === selectedOverlay) ?? null;
+  // The audio meter re-renders every frame while playing, so animated text can follow the video clock rather than timeupdate
+  const textPreviewTime = isPlaying && videoRef.current ? videoRef.current.currentTime : currentTime;
+  const framedZoomSegment = activeTool === 'zoom'
+    ? zoomSegments.find((segment) => segment.id === selectedZoomSegmentId) ?? null
+    : null;
+  // While a keyframe is being framed the preview shows the whole picture with the rectangle on top
+  const framedZoomKeyframe = framedZoomSegment?.keyframes.find((keyframe) => keyframe.id === selectedZoomKeyframeId) ?? null;
+
+  useEffect(() => {
+    if (previewSourcePath in cursorTracks) return;
+    const source = [recording, ...libraryRecordings].find((item) => item.path === previewSourcePath);
+    if (!source?.hasCursorTrack) return;
+
+    let active = true;
+    window.electronAPI.getCursorTrack(source.id)
+      .then((track) => {
+        if (active) {
+          setCursorTracks((prev) => ({ ...prev, [previewSourcePath]: track }));
+        }
+      })
+      .catch((error) => {
+        console.error('Failed to load cursor track:', error);
+      });
+    return () => {
+      active = false;
+    };
+  }, [previewSourcePath, libraryRecordings]);
+
+  // A loaded layer is part of the source, so every undo step gets it rather than undo dropping it again
+  useEffect(() => {
+    if (requestedAnnotationSourcesRef.current.has(previewSourcePath)) return;
+    if (annotationTracks.some((track) => track.sourcePath === previewSourcePath)) return;
+    const source = [recording, ...libraryRecordings].find((item) => item.path === previewSourcePath);
+    if (!source?.hasAnnotations) return;
+
+    const sourcePath = previewSourcePath;
+    requestedAnnotationSourcesRef.current.add(sourcePath);
+    window.electronAPI.getAnnotationLayer(source.id)
+      .then((layer) => {
+        if (!layer) return;
+        const track: AnnotationTrack = {
+          sourcePath,
+          width: layer.width,
+          height: layer.height,
+          annotations: layer.annotations,
+        };
+        const withTrack = (tracks: AnnotationTrack[]) =>
+          tracks.some((item) => item.sourcePath === sourcePath) ? tracks : [...tracks, track];
+        setAnnotationTracks(withTrack);
+        setHistory((prev) => prev.map((snapshot) => ({ ...snapshot, annotationTracks: withTrack(snapshot.annotationTracks) })));
+      })
+      .catch((error) => {
+        console.error('Failed to load annotation layer:', error);
+      });
+  }, [previewSourcePath, libraryRecordings]);
+
+  useEffect(() => {
+    let active = true;
+    window.electronAPI.getRecordings()
+      .then((data) => {
+        if (!active) return;
+        setLibraryRecordings(data.filter((item) => !item.deletedAt && item.id !== recording.id));
+      })
+      .catch((error) => {
+        console.error('Failed to load library recordings:', error);
+      });
+
+    return () => {
+      active = false;
+    };
+  }, [recording.id]);
+
+  // Jump to the clip's in-point when the preview switches to another source file
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video || !isForeignClip) return;
+    const seekToClipStart = () => {
+      video.currentTime = clipStart;
+    };
+    video.addEventListener('loadedmetadata', seekToClipStart, { once: true });
+    return () => {
+      video.removeEventListener('loadedmetadata', seekToClipStart);
+    };
+  }, [previewPath]);
+
+  const addRecordingClip = (source: Recording) => {
+    const newClip: TimelineClip = {
+      id: crypto.randomUUID(),
+      sourcePath: source.path,
+      sourceStart: 0,
+      sourceEnd: source.duration,
+      sourceDuration: source.duration,
+      sourceName: source.name,
+    };
+    setClips((prev) => {
+      const next = [...prev, newClip];
+      pushHistory(createSnapshot({ clips: next }));
+      return next;
+    });
+    setSelectedClipId(newClip.id);
+  };
+
+  const handleTimelineDrop = (event: React.DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    setIsTimelineDropTarget(false);
+    const recordingId = event.dataTransfer.getData(LIBRARY_RECORDING_MIME);
+    const source = libraryRecordings.find((item) => item.id === recordingId);
+    if (source) {
+      addRecordingClip(source);
+    }
+  };
 
   const updateClip = (id: string, updates: Partial<TimelineClip>) => {
     setClips((prev) => {
@@ -345,10 +688,10 @@ export function VideoEditor({ recording, onClose, onSave }: VideoEditorProps) {
     updateClip(selectedClip.id, { sourceEnd: newEnd });
   };
 
-  const handleSplitAtPlayhead = () => {
+  const splitSelectedClip = (time: number) => {
     if (!selectedClip) return;
-    if (currentTime <= clipStart || currentTime >= clipEnd) return;
-    const splitTime = Math.min(Math.max(currentTime, clipStart + 0.1), clipEnd - 0.1);
+    if (time <= clipStart || time >= clipEnd) return;
+    const splitTime = Math.min(Math.max(time, clipStart + 0.1), clipEnd - 0.1);
     const newClipId = crypto.randomUUID();
     const firstClip: TimelineClip = { ...selectedClip, sourceEnd: splitTime };
     const secondClip: TimelineClip = {
@@ -369,6 +712,74 @@ export function VideoEditor({ recording, onClose, onSave }: VideoEditorProps) {
     setSelectedClipId(newClipId);
   };
 
+  const replaceSelectedClip = (pieces: TimelineClip[]) => {
+    if (!selectedClip) return;
+    setClips((prev) => {
+      const index = prev.findIndex((clip) => clip.id === selectedClip.id);
+      if (index === -1) return prev;
+      const updated = [...prev];
+      updated.splice(index, 1, ...pieces);
+      pushHistory(createSnapshot({ clips: updated }));
+      return updated;
+    });
+    setSelectedClipId(pieces[0].id);
+    toast({
+      type: 'success',
+      title: 'Silences removed',
+      message: `The clip was split into ${pieces.length} piece${pieces.length === 1 ? '' : 's'}.`,
+    });
+  };
+
+  // Playback jumps over the gaps between clips of the previewed source so cuts can be heard before export
+  useEffect(() => {
+    if (!skipCutsInPreview || !isPlaying) return;
+    const sourceClips = clips
+      .filter((clip) => clip.sourcePath === previewSourcePath)
+      .sort((a, b) => a.sourceStart - b.sourceStart);
+    if (sourceClips.length === 0) return;
+    if (sourceClips.some((clip) => currentTime >= clip.sourceStart && currentTime < clip.sourceEnd)) return;
+    const nextClip = sourceClips.find((clip) => clip.sourceStart > currentTime);
+    if (nextClip) {
+      setSelectedClipId(nextClip.id);
+      handleSeek(nextClip.sourceStart);
+    } else {
+      videoRef.current?.pause();
+    }
+  }, [currentTime, isPlaying, skipCutsInPreview]);
+
+  // Transcript times are in the recording's own source, so a word jumps to the clip that plays it
+  const handleTranscriptSeek = (time: number) => {
+    const clip = clips.find(
+      (item) => item.sourcePath === recording.path && time >= item.sourceStart && time < item.sourceEnd
+    );
+    if (clip) {
+      setSelectedClipId(clip.id);
+    }
+    handleSeek(time);
+  };
+
+  const removeTranscriptRanges = (ranges: SourceRange[]) => {
+    const updated = cutRangesFromClips(clips, recording.path, ranges);
+    if (updated.length === 0) {
+      toast({ type: 'error', title: 'Nothing would be left', message: 'Keep at least part of the recording.' });
+      return;
+    }
+    if (!updated.some((clip) => clip.id === selectedClipId)) {
+      setSelectedClipId(updated[0].id);
+    }
+    setClips(updated);
+    pushHistory(createSnapshot({ clips: updated }));
+  };
+
+  const handleSplitAtPlayhead = () => {
+    splitSelectedClip(currentTime);
+  };
+
+  const handleSplitAtMarker = (marker: RecordingMarker) => {
+    splitSelectedClip(marker.time);
+    handleSeek(marker.time);
+  };
+
   const moveClip = (direction: -1 | 1) => {
     if (!selectedClip) return;
     setClips((prev) => {
@@ -406,9 +817,6 @@ export function VideoEditor({ recording, onClose, onSave }: VideoEditorProps) {
       text: newText,
       x: 50,
       y: 50,
-      endX: 50,
-      endY: 50,
-      animate: false,
       fontSize: 24,
       color: '#FFFFFF',
       bold: false,
@@ -463,11 +871,16 @@ export function VideoEditor({ recording, onClose, onSave }: VideoEditorProps) {
     event.stopPropagation();
     const rect = getContainerRect();
     if (!rect) return;
+    if (selectedOverlay !== overlay.id) {
+      setSelectedTextKeyframeId(null);
+    }
     setSelectedOverlay(overlay.id);
     setDraggingOverlayId(overlay.id);
 
-    const overlayX = (overlay.x / 100) * rect.width;
-    const overlayY = (overlay.y / 100) * rect.height;
+    // Measure from where the text is drawn right now, which differs from its base position once keyframed
+    const position = getTextAnimationState(overlay, currentTime - overlay.timestamp);
+    const overlayX = (position.x / 100) * rect.width;
+    const overlayY = (position.y / 100) * rect.height;
     setDragOffset({
       x: event.clientX - rect.left - overlayX,
       y: event.clientY - rect.top - overlayY,
@@ -484,7 +897,14 @@ export function VideoEditor({ recording, onClose, onSave }: VideoEditorProps) {
       const rawY = event.clientY - rect.top - dragOffset.y;
       const xPercent = clamp((rawX / rect.width) * 100, 0, 100);
       const yPercent = clamp((rawY / rect.height) * 100, 0, 100);
-      updateOverlay(draggingOverlayId, { x: xPercent, y: yPercent }, false);
+      // Keyframed text moves at the playhead, keeping the rest of its path
+      setTextOverlays((prev) =>
+        prev.map((overlay) =>
+          overlay.id === draggingOverlayId
+            ? placeTextOverlay(overlay, currentTime - overlay.timestamp, xPercent, yPercent)
+            : overlay
+        )
+      );
     };
 
     const handleUp = () => {
@@ -501,6 +921,45 @@ export function VideoEditor({ recording, onClose, onSave }: VideoEditorProps) {
     };
   }, [draggingOverlayId, dragOffset]);
 
+  const handleImageMouseDown = (overlay: ImageOverlay, event: React.MouseEvent<HTMLImageElement>) => {
+    if (activeTool !== 'image') return;
+    event.preventDefault();
+    event.stopPropagation();
+    const rect = getContainerRect();
+    if (!rect) return;
+    setSelectedImageId(overlay.id);
+    setImageDrag({
+      id: overlay.id,
+      offsetX: event.clientX - rect.left - (overlay.x / 100) * rect.width,
+      offsetY: event.clientY - rect.top - (overlay.y / 100) * rect.height,
+    });
+  };
+
+  // Re-subscribed as the image moves so the history entry on release records its final position
+  useEffect(() => {
+    if (!imageDrag) return;
+
+    const handleMove = (event: MouseEvent) => {
+      const rect = getContainerRect();
+      if (!rect) return;
+      const x = clamp(((event.clientX - rect.left - imageDrag.offsetX) / rect.width) * 100, 0, 100);
+      const y = clamp(((event.clientY - rect.top - imageDrag.offsetY) / rect.height) * 100, 0, 100);
+      setImageOverlays((prev) => prev.map((overlay) => (overlay.id === imageDrag.id ? { ...overlay, x, y } : overlay)));
+    };
+
+    const handleUp = () => {
+      setImageDrag(null);
+      pushHistory(createSnapshot());
+    };
+
+    window.addEventListener('mousemove', handleMove);
+    window.addEventListener('mouseup', handleUp);
+    return () => {
+      window.removeEventListener('mousemove', handleMove);
+      window.removeEventListener('mouseup', handleUp);
+    };
+  }, [imageDrag, imageOverlays]);
+
   const handleCropMouseDown = (event: React.MouseEvent<HTMLDivElement>) => {
     if (activeTool !== 'crop') return;
     const rect = getContainerRect();
@@ -532,6 +991,101 @@ export function VideoEditor({ recording, onClose, onSave }: VideoEditorProps) {
     pushHistory(createSnapshot({ cropArea }));
   };
 
+  // Zoom rectangles are percent of the picture itself, so measure against the video rather than the container
+  const getVideoPoint = (event: React.MouseEvent<HTMLDivElement>) => {
+    const rect = videoRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0 || rect.height === 0) return null;
+    return {
+      x: clamp(((event.clientX - rect.left) / rect.width) * 100, 0, 100),
+      y: clamp(((event.clientY - rect.top) / rect.height) * 100, 0, 100),
+    };
+  };
+
+  const updateFramedKeyframe = (point: { x: number; y: number }, recordHistory: boolean) => {
+    const start = zoomStartRef.current;
+    if (!start || !framedZoomSegment || !framedZoomKeyframe) return;
+    const size = Math.max(Math.abs(point.x - start.x), Math.abs(point.y - start.y));
+    // A plain click keeps the current framing
+    if (size < 1) return;
+    const rect = clampZoomRect({
+      x: point.x < start.x ? start.x - size : start.x,
+      y: point.y < start.y ? start.y - size : start.y,
+      size,
+    });
+    updateZoomSegments(
+      zoomSegments.map((segment) =>
+        segment.id === framedZoomSegment.id
+          ? {
+              ...segment,
+              keyframes: segment.keyframes.map((keyframe) =>
+                keyframe.id === framedZoomKeyframe.id ? { ...keyframe, rect } : keyframe
+              ),
+            }
+          : segment
+      ),
+      recordHistory
+    );
+  };
+
+  const handleZoomMouseDown = (event: React.MouseEvent<HTMLDivElement>) => {
+    if (!framedZoomKeyframe) return;
+    zoomStartRef.current = getVideoPoint(event);
+  };
+
+  const handleZoomMouseMove = (event: React.MouseEvent<HTMLDivElement>) => {
+    const point = getVideoPoint(event);
+    if (point) {
+      updateFramedKeyframe(point, false);
+    }
+  };
+
+  const handleZoomMouseUp = (event: React.MouseEvent<HTMLDivElement>) => {
+    const point = getVideoPoint(event);
+    if (point) {
+      updateFramedKeyframe(point, true);
+    }
+    zoomStartRef.current = null;
+  };
+
+  // Redaction boxes are percent of the picture; the preview zoom is off while the tool is open
+  const handleRedactionMouseDown = (event: React.MouseEvent<HTMLDivElement>) => {
+    if (activeTool !== 'redact') return;
+    const point = getVideoPoint(event);
+    if (!point) return;
+    redactionStartRef.current = point;
+    setRedactionDraft({ ...point, width: 0, height: 0 });
+  };
+
+  const handleRedactionMouseMove = (event: React.MouseEvent<HTMLDivElement>) => {
+    const start = redactionStartRef.current;
+    const point = start ? getVideoPoint(event) : null;
+    if (!start || !point) return;
+    setRedactionDraft({
+      x: Math.min(start.x, point.x),
+      y: Math.min(start.y, point.y),
+      width: Math.abs(point.x - start.x),
+      height: Math.abs(point.y - start.y),
+    });
+  };
+
+  const handleRedactionMouseUp = () => {
+    const draft = redactionDraft;
+    redactionStartRef.current = null;
+    setRedactionDraft(null);
+    // A plain click selects nothing new
+    if (!draft || draft.width < 1 || draft.height < 1) return;
+    const redaction: Redaction = {
+      id: crypto.randomUUID(),
+      sourcePath: previewSourcePath,
+      start: currentTime,
+      end: Math.min(sourceDuration, currentTime + NEW_REDACTION_DURATION),
+      area: draft,
+      style: 'blur',
+    };
+    updateRedactions([...redactions, redaction]);
+    setSelectedRedactionId(redaction.id);
+  };
+
   const applyCropPreset = (ratio: number) => {
     const { width, height } = getVideoDimensions();
     if (ratio <= 0) {
@@ -557,126 +1111,113 @@ export function VideoEditor({ recording, onClose, onSave }: VideoEditorProps) {
     pushHistory(createSnapshot({ cropArea: nextCrop }));
   };
 
-  const handleSave = async () => {
-    try {
-      setIsExporting(true);
-      setExportProgress(0);
-      let currentPath = recording.path;
-      const basePath = recording.path.replace(/\.\w+$/, '');
-      const timelineDuration = clips.reduce((total, clip) => total + (clip.sourceEnd - clip.sourceStart), 0);
-      const { width: baseWidth, height: baseHeight } = getVideoDimensions();
-      let outputWidth = baseWidth;
-      let outputHeight = baseHeight;
-
-      const hasEdits = clips.length > 1 || clips.some((clip) => clip.sourceStart > 0 || clip.sourceEnd < recording.duration);
-      if (hasEdits) {
-        setExportStage('Rendering timeline');
-        const timelinePath = `${basePath}-timeline-${Date.now()}.mp4`;
-        console.log('Rendering timeline:', clips);
-        currentPath = await window.electronAPI.ffmpegRenderTimeline(
-          currentPath,
-          timelinePath,
-          clips.map((clip) => ({ start: clip.sourceStart, end: clip.sourceEnd }))
-        );
-      }
-
-      if (cropArea && cropArea.width > 0.5 && cropArea.height > 0.5) {
-        setExportStage('Applying crop');
-        const cropX = Math.round((cropArea.x / 100) * outputWidth);
-        const cropY = Math.round((cropArea.y / 100) * outputHeight);
-        const cropWidth = Math.round((cropArea.width / 100) * outputWidth);
-        const cropHeight = Math.round((cropArea.height / 100) * outputHeight);
-        const cropPath = `${basePath}-crop-${Date.now()}.mp4`;
-        currentPath = await window.electronAPI.ffmpegCropVideo(
-          currentPath,
-          cropPath,
-          cropX,
-          cropY,
-          cropWidth,
-          cropHeight
-        );
-        outputWidth = cropWidth;
-        outputHeight = cropHeight;
-      }
-
-      // Apply text overlays if any
-      for (const overlay of textOverlays) {
-        setExportStage('Applying text overlay');
-        const textPath = `${basePath}-text-${Date.now()}.mp4`;
-        console.log('Adding text overlay:', overlay.text);
-        const xPx = Math.round((overlay.x / 100) * outputWidth);
-        const yPx = Math.round((overlay.y / 100) * outputHeight);
-        currentPath = await window.electronAPI.ffmpegAddTextOverlay(
-          currentPath,
-          textPath,
-          overlay.text,
-          xPx,
-          yPx,
-          overlay.fontSize,
-          overlay.color,
-          overlay.timestamp,
-          overlay.duration,
-          overlay.bold,
-          overlay.italic,
-          overlay.fontFamily,
-          overlay.align,
-          overlay.animate,
-          Math.round((overlay.endX / 100) * outputWidth),
-          Math.round((overlay.endY / 100) * outputHeight)
-        );
-      }
+  const buildProject = (): TimelineProject => ({
+    id: projectIdRef.current,
+    name: recording.name,
+    recordingId: recording.id,
+    clips,
+    cropArea,
+    textOverlays,
+    imageOverlays,
+    subtitles,
+    cursorEffects,
+    zoomSegments,
+    annotationTracks,
+    redactions,
+    audioSettings,
+    exportPresetId: selectedPresetId,
+    createdAt: projectCreatedAtRef.current,
+    updatedAt: new Date().toISOString(),
+  });
 
-      const hasAudioAdjustments =
-        audioSettings.muted ||
-        audioSettings.volume !== 100 ||
-        audioSettings.fadeIn > 0 ||
-        audioSettings.fadeOut > 0;
-
-      if (hasAudioAdjustments) {
-        setExportStage('Processing audio');
-        const audioPath = `${basePath}-audio-${Date.now()}.mp4`;
-        currentPath = await window.electronAPI.ffmpegApplyAudioFilters(currentPath, audioPath, {
-          volume: audioSettings.volume,
-          muted: audioSettings.muted,
-          fadeIn: audioSettings.fadeIn,
-          fadeOut: audioSettings.fadeOut,
-          duration: timelineDuration || recording.duration,
-        });
+  const handleSaveProject = async (notify = true) => {
+    try {
+      setIsSavingProject(true);
+      const saved = await window.electronAPI.saveProject(buildProject());
+      onProjectSaved?.(saved);
+      if (notify) {
+        toast({ type: 'success', title: 'Project saved', message: 'You can resume editing from the Library.' });
       }
+    } catch (error) {
+      console.error('Failed to save project:', error);
+      toast({ type: 'error', title: 'Failed to save project' });
+    } finally {
+      setIsSavingProject(false);
+    }
+  };
 
-      const preset = exportPresets.find((p) => p.id === selectedPresetId);
-      const shouldTranscode = preset && (preset.id !== 'source' || optimizeForSize || encoder !== 'auto');
-      if (preset && shouldTranscode) {
-        setExportStage('Exporting preset');
-        const presetPath = `${basePath}-export-${preset.id}-${Date.now()}.mp4`;
-        currentPath = await window.electronAPI.ffmpegTranscodePreset(currentPath, presetPath, {
-          width: preset.width,
-          height: preset.height,
-          bitrate: preset.bitrate,
-          encoder,
-          optimizeForSize,
-        });
+  // ffmpeg cannot draw the overlay's shapes, so each visible annotation is rendered to a PNG here
+  const buildAnnotationRenderItems = async (): Promise<AnnotationRenderItem[]> => {
+    const items: AnnotationRenderItem[] = [];
+    for (const track of annotationTracks) {
+      if (!clips.some((clip) => clip.sourcePath === track.sourcePath)) continue;
+      for (const annotation of track.annotations) {
+        if (annotation.hidden) continue;
+        const timing = { sourcePath: track.sourcePath, start: annotation.start, end: annotation.end };
+        if (annotation.tool === 'blur') {
+          if (annotation.points.length < 2) continue;
+          const bounds = getAnnotationBounds(annotation.points);
+          // A box drawn partly outside the captured area only pixelates the part inside it
+          const left = Math.max(0, bounds.x);
+          const top = Math.max(0, bounds.y);
+          const right = Math.min(1, bounds.x + bounds.width);
+          const bottom = Math.min(1, bounds.y + bounds.height);
+          if (right <= left || bottom <= top) continue;
+          items.push({
+            ...timing,
+            pixelate: { x: left * 100, y: top * 100, width: (right - left) * 100, height: (bottom - top) * 100 },
+          });
+          continue;
+        }
+        const image = await rasterizeAnnotation(annotation, track.width, track.height);
+        items.push({ ...timing, imagePath: await window.electronAPI.saveOverlayImage(image) });
       }
+    }
+    return items;
+  };
 
-      const resolvedDuration = Math.max(1, Math.round(timelineDuration || recording.duration));
-      const resolvedQuality = preset?.id && ['720p', '1080p', '1440p', '4k'].includes(preset.id)
-        ? (preset.id as Recording['quality'])
-        : recording.quality;
+  const handleSave = async () => {
+    try {
+      setIsExporting(true);
+      const annotations = await buildAnnotationRenderItems();
 
-      const savedRecording = await window.electronAPI.addRecording({
-        path: currentPath,
-        duration: resolvedDuration,
-        quality: resolvedQuality,
+      // Rendering happens in the main-process export queue, so the editor can close right away
+      const job = await window.electronAPI.addExportJob({
+        recordingId: recording.id,
         name: `${recording.name} (Edited)`,
+        sourcePath: recording.path,
+        sourceDuration: recording.duration,
+        quality: recording.quality,
+        clips,
+        cropArea,
+        textOverlays,
+        imageOverlays,
+        subtitles,
+        cursorEffects,
+        zoomSegments,
+        annotations,
+        redactions,
+        audioSettings,
+        audioTracks: sourceAudioTracks,
+        preset: {
+          id: selectedPreset.id,
+          format: selectedPreset.format,
+          width: selectedPreset.width,
+          height: selectedPreset.height,
+          bitrate: selectedPreset.bitrate,
+          fps: selectedPreset.fps,
+        },
+        encoder,
+        optimizeForSize,
       });
 
-      console.log('Video editing completed:', savedRecording);
-      onSave(savedRecording);
-      setIsExporting(false);
-      setExportProgress(0);
+      await handleSaveProject(false);
+      toast({ type: 'info', title: 'Export queued', message: 'Progress is shown in the export queue.' });
+      onExportQueued(job);
     } catch (error) {
-      console.error('Failed to save edited video:', error);
-      alert('Failed to save edited video. Please try again.');
+      console.error('Failed to queue export:', error);
+      toast({ type: 'error', title: 'Failed to queue export', message: 'Please try again.' });
+    } finally {
       setIsExporting(false);
     }
   };
@@ -710,8 +1251,15 @@ export function VideoEditor({ recording, onClose, onSave }: VideoEditorProps) {
           >
             Redo
           </button>
+          <button
+            onClick={() => handleSaveProject()}
+            className="btn btn-secondary"
+            disabled={isExporting || isSavingProject}
+          >
+            {isSavingProject ? 'Saving…' : 'Save Project'}
+          </button>
           <button onClick={handleSave} className="btn btn-primary" disabled={isExporting}>
-            Save Changes
+            {isExporting ? 'Queuing…' : 'Export'}
           </button>
           <button onClick={onClose} className="btn btn-secondary" disabled={isExporting}>
             Cancel
@@ -727,12 +1275,28 @@ export function VideoEditor({ recording, onClose, onSave }: VideoEditorProps) {
           <div
             ref={videoContainerRef}
             className={`flex-1 relative bg-black rounded-lg overflow-hidden flex items-center justify-center ${
-              activeTool === 'crop' ? 'cursor-crosshair' : ''
+              activeTool === 'crop' || activeTool === 'redact' || framedZoomKeyframe ? 'cursor-crosshair' : ''
             }`}
-            onMouseDown={handleCropMouseDown}
-            onMouseMove={handleCropMouseMove}
-            onMouseUp={handleCropMouseUp}
-            onMouseLeave={handleCropMouseUp}
+            onMouseDown={(event) => {
+              handleCropMouseDown(event);
+              handleZoomMouseDown(event);
+              handleRedactionMouseDown(event);
+            }}
+            onMouseMove={(event) => {
+              handleCropMouseMove(event);
+              handleZoomMouseMove(event);
+              handleRedactionMouseMove(event);
+            }}
+            onMouseUp={(event) => {
+              handleCropMouseUp();
+              handleZoomMouseUp(event);
+              handleRedactionMouseUp();
+            }}
+            onMouseLeave={(event) => {
+              handleCropMouseUp();
+              handleZoomMouseUp(event);
+              handleRedactionMouseUp();
+            }}
           >
             {isProxyLoading && (
               <div className="absolute inset-0 z-10 flex items-center justify-center bg-black/60 text-sm text-dark-200">
@@ -741,7 +1305,7 @@ export function VideoEditor({ recording, onClose, onSave }: VideoEditorProps) {
             )}
             <video
               ref={videoRef}
-              src={toMediaUrl(proxyPath ?? recording.path)}
+              src={toMediaUrl(previewPath)}
               className="max-w-full max-h-full"
               onClick={togglePlay}
             />
@@ -751,6 +1315,46 @@ export function VideoEditor({ recording, onClose, onSave }: VideoEditorProps) {
               style={{ display: activeTool === 'crop' ? 'block' : 'none' }}
             />
 
+            <CursorPreview
+              videoRef={videoRef}
+              currentTime={currentTime}
+              isPlaying={isPlaying}
+              track={previewCursorTrack}
+              effects={cursorEffects}
+              zoomRanges={previewZoomSegments}
+              keyframeZooms={previewKeyframeZooms}
+              zoomEnabled={activeTool !== 'crop' && activeTool !== 'redact' && !framedZoomKeyframe}
+            />
+
+            <RedactionPreview
+              videoRef={videoRef}
+              time={textPreviewTime}
+              redactions={previewRedactions}
+              draft={redactionDraft}
+              selectedRedactionId={selectedRedactionId}
+              isEditing={activeTool === 'redact'}
+            />
+
+            <AnnotationPreview
+              videoRef={videoRef}
+              currentTime={currentTime}
+              isPlaying={isPlaying}
+              track={previewAnnotationTrack}
+            />
+
+            {/* Framed zoom keyframe */}
+            {framedZoomKeyframe && videoRef.current && (
+              <div
+                className="absolute border-2 border-violet-400 bg-violet-400/10 pointer-events-none"
+                style={{
+                  left: videoRef.current.offsetLeft + (framedZoomKeyframe.rect.x / 100) * videoRef.current.clientWidth,
+                  top: videoRef.current.offsetTop + (framedZoomKeyframe.rect.y / 100) * videoRef.current.clientHeight,
+                  width: (framedZoomKeyframe.rect.size / 100) * videoRef.current.clientWidth,
+                  height: (framedZoomKeyframe.rect.size / 100) * videoRef.current.clientHeight,
+                }}
+              />
+            )}
+
             {/* Crop preview */}
             {activeTool === 'crop' && cropArea && (
               <div
@@ -764,15 +1368,34 @@ export function VideoEditor({ recording, onClose, onSave }: VideoEditorProps) {
               />
             )}
 
+            {/* Image overlays preview; text is drawn above images, like the export */}
+            {imageOverlays
+              .filter((overlay) => textPreviewTime >= overlay.timestamp && textPreviewTime < overlay.timestamp + overlay.duration)
+              .map((overlay) => (
+                <img
+                  key={overlay.id}
+                  src={toMediaUrl(overlay.path)}
+                  alt=""
+                  draggable={false}
+                  className={`absolute ${activeTool === 'image' ? 'pointer-events-auto cursor-move' : 'pointer-events-none'} ${
+                    selectedImageId === overlay.id ? 'ring-2 ring-primary-500' : ''
+                  }`}
+                  onMouseDown={(event) => handleImageMouseDown(overlay, event)}
+                  style={{
+                    left: `${overlay.x}%`,
+                    top: `${overlay.y}%`,
+                    width: `${overlay.width}%`,
+                    opacity: overlay.opacity,
+                  }}
+                />
+              ))}
+
             {/* Text overlays preview */}
             {textOverlays
-              .filter(o => currentTime >= o.timestamp && currentTime < o.timestamp + o.duration)
+              .filter(o => textPreviewTime >= o.timestamp && textPreviewTime < o.timestamp + o.duration)
               .map(overlay => {
-                const progress = overlay.duration > 0
-                  ? Math.min(1, Math.max(0, (currentTime - overlay.timestamp) / overlay.duration))
-                  : 0;
-                const effectiveX = overlay.animate ? overlay.x + (overlay.endX - overlay.x) * progress : overlay.x;
-                const effectiveY = overlay.animate ? overlay.y + (overlay.endY - overlay.y) * progress : overlay.y;
+                const localTime = textPreviewTime - overlay.timestamp;
+                const state = getTextAnimationState(overlay, localTime);
                 const alignTransform = overlay.align === 'center'
                   ? 'translateX(-50%)'
                   : overlay.align === 'right'
@@ -787,23 +1410,46 @@ export function VideoEditor({ recording, onClose, onSave }: VideoEditorProps) {
                     }`}
                     onMouseDown={(event) => handleOverlayMouseDown(overlay, event)}
                     style={{
-                      left: `${effectiveX}%`,
-                      top: `${effectiveY}%`,
+                      left: `${state.x}%`,
+                      top: `${state.y}%`,
                       fontSize: `${overlay.fontSize}px`,
                       color: overlay.color,
                       fontWeight: overlay.bold ? '700' : '400',
                       fontStyle: overlay.italic ? 'italic' : 'normal',
                       fontFamily: overlay.fontFamily,
                       textAlign: overlay.align,
-                      transform: alignTransform,
+                      // Scale and rotation pivot on the anchor, like the export
+                      transform: `${alignTransform} rotate(${state.rotation}deg) scale(${state.scale})`,
+                      transformOrigin: `${overlay.align} top`,
+                      opacity: state.opacity,
+                      whiteSpace: 'pre',
                       textShadow: '2px 2px 4px rgba(0,0,0,0.8)',
                     }}
                   >
-                    {overlay.text}
+                    {getRevealedText(overlay, localTime)}
                   </div>
                 );
               })}
 
+            {/* Subtitle preview */}
+            {activeCue && (
+              <div className="absolute left-0 right-0 bottom-4 flex justify-center px-6 pointer-events-none">
+                <span
+                  className="text-center whitespace-pre-line"
+                  style={{
+                    fontSize: `${(subtitles.style.fontSize / SUBTITLE_PLAY_RES_Y) * (videoContainerRef.current?.clientHeight ?? SUBTITLE_PLAY_RES_Y)}px`,
+                    color: subtitles.style.color,
+                    fontWeight: subtitles.style.bold ? '700' : '400',
+                    fontStyle: subtitles.style.italic ? 'italic' : 'normal',
+                    fontFamily: subtitles.style.fontFamily,
+                    textShadow: '0 0 2px #000, 0 0 2px #000',
+                  }}
+                >
+                  {activeCue.text}
+                </span>
+              </div>
+            )}
+
             {/* Play button overlay */}
             {!isPlaying && !isExporting && (
               <button
@@ -815,24 +1461,6 @@ export function VideoEditor({ recording, onClose, onSave }: VideoEditorProps) {
             )}
           </div>
 
-          {isExporting && (
-            <div className="mt-4 card p-4 space-y-2">
-              <div className="flex items-center justify-between text-sm">
-                <span>{exportStage}</span>
-                <span>{exportProgress}%</span>
-              </div>
-              <div className="w-full h-2 bg-dark-700 rounded-full overflow-hidden">
-                <div
-                  className="h-full bg-primary-600 transition-all"
-                  style={{ width: `${exportProgress}%` }}
-                />
-              </div>
-              <p className="text-xs text-dark-400">
-                Export in progress. Please keep the editor open.
-              </p>
-            </div>
-          )}
-
           {/* Timeline */}
           <div className="mt-4 space-y-2">
             {/* Main timeline */}
@@ -840,15 +1468,146 @@ export function VideoEditor({ recording, onClose, onSave }: VideoEditorProps) {
               <input
                 type="range"
                 min="0"
-                max={recording.duration}
+                max={sourceDuration}
                 step="0.1"
                 value={currentTime}
                 onChange={(e) => handleSeek(parseFloat(e.target.value))}
                 className="w-full accent-primary-600"
               />
+              {/* Subtitle track */}
+              {previewCues.length > 0 && sourceDuration > 0 && (
+                <div className="relative h-2.5 mt-1 rounded bg-dark-800" title="Subtitles">
+                  {previewCues.map((cue) => (
+                    <button
+                      key={cue.id}
+                      onClick={() => {
+                        setActiveTool('subtitles');
+                        setSelectedCueId(cue.id);
+                        handleSeek(cue.start);
+                      }}
+                      className={`absolute top-0 h-full rounded-sm ${
+                        cue.id === selectedCueId ? 'bg-yellow-300' : 'bg-yellow-500/60 hover:bg-yellow-400'
+                      }`}
+                      style={{
+                        left: `${(cue.start / sourceDuration) * 100}%`,
+                        width: `${Math.max(0.5, ((cue.end - cue.start) / sourceDuration) * 100)}%`,
+                      }}
+                      title={cue.text}
+                    />
+                  ))}
+                </div>
+              )}
+              {/* Auto-zoom track */}
+              {previewZoomSegments.length > 0 && sourceDuration > 0 && (
+                <div className="relative h-2.5 mt-1 rounded bg-dark-800" title="Auto-zoom">
+                  {previewZoomSegments.map((segment) => (
+                    <button
+                      key={segment.id}
+                      onClick={() => {
+                        setActiveTool('cursor');
+                        setSelectedZoomId(segment.id);
+                        handleSeek(segment.start);
+                      }}
+                      className={`absolute top-0 h-full rounded-sm ${
+                        segment.id === selectedZoomId ? 'bg-sky-300' : 'bg-sky-500/60 hover:bg-sky-400'
+                      }`}
+                      style={{
+                        left: `${(segment.start / sourceDuration) * 100}%`,
+                        width: `${Math.max(0.5, ((segment.end - segment.start) / sourceDuration) * 100)}%`,
+                      }}
+                      title={`${segment.scale}x zoom`}
+                    />
+                  ))}
+                </div>
+              )}
+              {/* Detected silences */}
+              {(detectedSilences[previewSourcePath]?.length ?? 0) > 0 && sourceDuration > 0 && (
+                <div className="relative h-1.5 mt-1 rounded bg-dark-800" title="Detected silences">
+                  {detectedSilences[previewSourcePath].map((silence) => (
+                    <button
+                      key={`${silence.start}-${silence.end}`}
+                      onClick={() => handleSeek(silence.start)}
+                      className="absolute top-0 h-full rounded-sm bg-red-500/70 hover:bg-red-400"
+                      style={{
+                        left: `${(silence.start / sourceDuration) * 100}%`,
+                        width: `${Math.max(0.3, ((silence.end - silence.start) / sourceDuration) * 100)}%`,
+                      }}
+                      title={`Silence ${formatTime(silence.start)} - ${formatTime(silence.end)}`}
+                    />
+                  ))}
+                </div>
+              )}
+              {/* Keyframed zoom track */}
+              {previewKeyframeZooms.length > 0 && sourceDuration > 0 && (
+                <div className="relative h-2.5 mt-1 rounded bg-dark-800" title="Zoom & pan">
+                  {previewKeyframeZooms.map((segment) => (
+                    <button
+                      key={segment.id}
+                      onClick={() => {
+                        setActiveTool('zoom');
+                        setSelectedZoomSegmentId(segment.id);
+                        setSelectedZoomKeyframeId(null);
+                        handleSeek(segment.start);
+                      }}
+                      className={`absolute top-0 h-full rounded-sm ${
+                        segment.id === selectedZoomSegmentId ? 'bg-violet-300' : 'bg-violet-500/60 hover:bg-violet-400'
+                      }`}
+                      style={{
+                        left: `${(segment.start / sourceDuration) * 100}%`,
+                        width: `${Math.max(0.5, ((segment.end - segment.start) / sourceDuration) * 100)}%`,
+                      }}
+                      title={`${segment.keyframes.length} keyframes`}
+                    >
+                      {segment.keyframes.map((keyframe) => (
+                        <span
+                          key={keyframe.id}
+                          className="absolute top-0 h-full w-0.5 bg-white/80"
+                          style={{ left: `${(keyframe.time / (segment.end - segment.start)) * 100}%` }}
+                        />
+                      ))}
+                    </button>
+                  ))}
+                </div>
+              )}
+              {/* Text overlay keyframe lanes */}
+              {sourceDuration > 0 && textOverlays.map((overlay) => (
+                <div key={overlay.id} className="relative h-3 mt-1 rounded bg-dark-800" title={overlay.text}>
+                  <button
+                    onClick={() => {
+                      setActiveTool('text');
+                      setSelectedOverlay(overlay.id);
+                      setSelectedTextKeyframeId(null);
+                      handleSeek(overlay.timestamp);
+                    }}
+                    className={`absolute top-0 h-full rounded-sm ${
+                      overlay.id === selectedOverlay ? 'bg-emerald-400/70' : 'bg-emerald-600/50 hover:bg-emerald-500/60'
+                    }`}
+                    style={{
+                      left: `${(overlay.timestamp / sourceDuration) * 100}%`,
+                      width: `${Math.max(0.5, (overlay.duration / sourceDuration) * 100)}%`,
+                    }}
+                  />
+                  {getTextKeyframes(overlay).map((keyframe) => (
+                    <button
+                      key={keyframe.id}
+                      onClick={() => {
+                        setActiveTool('text');
+                        setSelectedOverlay(overlay.id);
+                        setSelectedTextKeyframeId(keyframe.id);
+                        handleSeek(overlay.timestamp + keyframe.time);
+                      }}
+                      className={`absolute top-0.5 w-2 h-2 rotate-45 -translate-x-1/2 ${
+                        keyframe.id === selectedTextKeyframeId ? 'bg-white' : 'bg-emerald-200 hover:bg-white'
+                      }`}
+                      style={{ left: `${((overlay.timestamp + keyframe.time) / sourceDuration) * 100}%` }}
+                      title={`Keyframe at +${keyframe.time.toFixed(2)}s`}
+                    />
+                  ))}
+                </div>
+              ))}
               <div className="flex justify-between text-xs text-dark-400 mt-1">
                 <span>{formatTime(currentTime)}</span>
-                <span>{formatTime(recording.duration)}</span>
+                <span>{formatTime(sourceDuration)}</span>
               </div>
             </div>
 
@@ -883,7 +1642,33 @@ export function VideoEditor({ recording, onClose, onSave }: VideoEditorProps) {
                   </button>
                 </div>
               </div>
-              <div className="flex flex-wrap gap-2">
+              {selectedClipMarkers.length > 0 && (
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="text-xs text-dark-400">Markers:</span>
+                  {selectedClipMarkers.map((marker) => (
+                    <button
+                      key={marker.id}
+                      onClick={() => handleSplitAtMarker(marker)}
+                      className="px-2 py-1 rounded text-xs bg-yellow-500/20 text-yellow-300 hover:bg-yellow-500/30 transition-colors"
+                      title="Split the selected clip at this marker"
+                    >
+                      Split at {marker.label} ({formatTime(marker.time)})
+                    </button>
+                  ))}
+                </div>
+              )}
+              <div
+                className={`flex flex-wrap gap-2 rounded p-1 -m-1 transition-colors ${
+                  isTimelineDropTarget ? 'bg-primary-600/20 ring-1 ring-primary-500' : ''
+                }`}
+                onDragOver={(event) => {
+                  if (!event.dataTransfer.types.includes(LIBRARY_RECORDING_MIME)) return;
+                  event.preventDefault();
+                  setIsTimelineDropTarget(true);
+                }}
+                onDragLeave={() => setIsTimelineDropTarget(false)}
+                onDrop={handleTimelineDrop}
+              >
                 {clips.map((clip, index) => (
                   <button
                     key={clip.id}
@@ -894,7 +1679,12 @@ export function VideoEditor({ recording, onClose, onSave }: VideoEditorProps) {
                     title={`${formatTime(clip.sourceStart)} - ${formatTime(clip.sourceEnd)}`}
                   >
                     <span className="flex items-center gap-2">
-                      <span>Clip {index + 1} · {formatTime(clip.sourceEnd - clip.sourceStart)}</span>
+                      <span>
+                        Clip {index + 1}
+                        {clip.sourcePath !== recording.path && clip.sourceName ? ` (${clip.sourceName})` : ''}
+                        {' · '}
+                        {formatTime(clip.sourceEnd - clip.sourceStart)}
+                      </span>
                       {clip.id === selectedClipId && (
                         <span className="inline-flex items-center gap-1">
                           <span
@@ -917,12 +1707,50 @@ export function VideoEditor({ recording, onClose, onSave }: VideoEditorProps) {
                   <img
                     src={toMediaUrl(waveformPath)}
                     alt="Audio waveform"
-                    className="w-full h-20 object-cover opacity-70"
+                    className={`w-full ${musicPath ? 'h-40' : 'h-20'} object-cover opacity-70`}
                   />
                 </div>
               )}
+              {libraryRecordings.length > 0 && (
+                <div className="space-y-1">
+                  <div className="text-xs text-dark-400">Drag a recording onto the timeline (or click) to append it</div>
+                  <div className="flex gap-2 overflow-x-auto pb-1">
+                    {libraryRecordings.map((item) => (
+                      <button
+                        key={item.id}
+                        draggable
+                        onDragStart={(event) => {
+                          event.dataTransfer.setData(LIBRARY_RECORDING_MIME, item.id);
+                          event.dataTransfer.effectAllowed = 'copy';
+                        }}
+                        onClick={() => addRecordingClip(item)}
+                        className="flex-shrink-0 w-28 rounded bg-dark-800 border border-dark-700 hover:border-primary-500 text-left overflow-hidden"
+                        title={item.name}
+                        disabled={isExporting}
+                      >
+                        {item.thumbnailPath ? (
+                          <img src={toMediaUrl(item.thumbnailPath)} alt="" className="w-full h-14 object-cover" draggable={false} />
+                        ) : (
+                          <div className="w-full h-14 bg-dark-900" />
+                        )}
+                        <div className="px-1.5 py-1 text-[10px] text-dark-200 truncate">{item.name}</div>
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
+              <label className="flex items-center gap-2 text-xs text-dark-300">
+                <input
+                  type="checkbox"
+                  checked={skipCutsInPreview}
+                  onChange={(e) => setSkipCutsInPreview(e.target.checked)}
+                  className="rounded"
+                />
+                Skip cuts during playback
+              </label>
               <p className="text-xs text-dark-500">
-                Timeline edits apply on export. Preview playback uses the full source.
+                Timeline edits apply on export. Preview playback uses the full source unless cuts are skipped.
+                Clips with different sizes or frame rates are matched to the first clip.
               </p>
             </div>
 
@@ -936,7 +1764,7 @@ export function VideoEditor({ recording, onClose, onSave }: VideoEditorProps) {
                     <input
                       type="range"
                       min="0"
-                      max={recording.duration}
+                      max={sourceDuration}
                       step="0.1"
                       value={clipStart}
                       onChange={(e) => handleTrimStartChange(parseFloat(e.target.value))}
@@ -948,7 +1776,7 @@ export function VideoEditor({ recording, onClose, onSave }: VideoEditorProps) {
                     <input
                       type="range"
                       min="0"
-                      max={recording.duration}
+                      max={sourceDuration}
                       step="0.1"
                       value={clipEnd}
                       onChange={(e) => handleTrimEndChange(parseFloat(e.target.value))}
@@ -959,6 +1787,16 @@ export function VideoEditor({ recording, onClose, onSave }: VideoEditorProps) {
                 <div className="text-xs text-dark-400">
                   Selected clip duration: {formatTime(clipEnd - clipStart)}
                 </div>
+                <SilencePanel
+                  clip={selectedClip ?? null}
+                  silences={selectedClip ? detectedSilences[selectedClip.sourcePath] ?? null : null}
+                  padding={silencePadding}
+                  onPaddingChange={setSilencePadding}
+                  onDetected={(sourcePath, silences) =>
+                    setDetectedSilences((prev) => ({ ...prev, [sourcePath]: silences }))
+                  }
+                  onApply={replaceSelectedClip}
+                />
               </div>
             )}
 
@@ -975,7 +1813,7 @@ export function VideoEditor({ recording, onClose, onSave }: VideoEditorProps) {
                 {isPlaying ? <PauseIcon /> : <PlayIcon className="w-5 h-5" />}
               </button>
               <button
-                onClick={() => handleSeek(Math.min(recording.duration, currentTime + 5))}
+                onClick={() => handleSeek(Math.min(sourceDuration, currentTime + 5))}
                 className="btn-icon"
                 title="Forward 5s"
               >
@@ -1016,8 +1854,163 @@ export function VideoEditor({ recording, onClose, onSave }: VideoEditorProps) {
               <TextIcon />
               Add Text
             </button>
+
+            {/* Image tool */}
+            <button
+              onClick={() => setActiveTool(activeTool === 'image' ? null : 'image')}
+              className={`w-full btn ${activeTool === 'image' ? 'btn-primary' : 'btn-secondary'} justify-start gap-2`}
+            >
+              <ImageIcon />
+              Images &amp; Logos
+            </button>
+
+            {/* Subtitles tool */}
+            <button
+              onClick={() => setActiveTool(activeTool === 'subtitles' ? null : 'subtitles')}
+              className={`w-full btn ${activeTool === 'subtitles' ? 'btn-primary' : 'btn-secondary'} justify-start gap-2`}
+            >
+              <SubtitlesIcon />
+              Subtitles
+            </button>
+
+            {/* Transcript tool */}
+            <button
+              onClick={() => setActiveTool(activeTool === 'transcript' ? null : 'transcript')}
+              className={`w-full btn ${activeTool === 'transcript' ? 'btn-primary' : 'btn-secondary'} justify-start gap-2`}
+            >
+              <TranscriptIcon />
+              Transcript
+            </button>
+
+            {/* Cursor tool */}
+            <button
+              onClick={() => setActiveTool(activeTool === 'cursor' ? null : 'cursor')}
+              className={`w-full btn ${activeTool === 'cursor' ? 'btn-primary' : 'btn-secondary'} justify-start gap-2`}
+            >
+              <CursorIcon />
+              Cursor &amp; Zoom
+            </button>
+
+            {/* Zoom tool */}
+            <button
+              onClick={() => setActiveTool(activeTool === 'zoom' ? null : 'zoom')}
+              className={`w-full btn ${activeTool === 'zoom' ? 'btn-primary' : 'btn-secondary'} justify-start gap-2`}
+            >
+              <ZoomIcon />
+              Zoom &amp; Pan
+            </button>
+
+            {/* Annotations tool */}
+            <button
+              onClick={() => setActiveTool(activeTool === 'annotations' ? null : 'annotations')}
+              className={`w-full btn ${activeTool === 'annotations' ? 'btn-primary' : 'btn-secondary'} justify-start gap-2`}
+            >
+              <AnnotationIcon />
+              Annotations
+            </button>
+
+            {/* Redact tool */}
+            <button
+              onClick={() => setActiveTool(activeTool === 'redact' ? null : 'redact')}
+              className={`w-full btn ${activeTool === 'redact' ? 'btn-primary' : 'btn-secondary'} justify-start gap-2`}
+            >
+              <RedactIcon />
+              Redact
+            </button>
           </div>
 
+          {activeTool === 'image' && (
+            <ImagePanel
+              overlays={imageOverlays}
+              currentTime={currentTime}
+              selectedOverlayId={selectedImageId}
+              onSelectOverlay={setSelectedImageId}
+              onSeek={handleSeek}
+              onChange={updateImageOverlays}
+            />
+          )}
+
+          {activeTool === 'subtitles' && (
+            <SubtitlePanel
+              recording={recording}
+              track={subtitles}
+              clips={clips}
+              sourcePath={previewSourcePath}
+              currentTime={currentTime}
+              selectedCueId={selectedCueId}
+              onSelectCue={setSelectedCueId}
+              onSeek={handleSeek}
+              onChange={updateSubtitles}
+            />
+          )}
+
+          {activeTool === 'transcript' && (
+            <TranscriptPanel
+              recording={recording}
+              clips={clips}
+              sourcePath={previewSourcePath}
+              currentTime={currentTime}
+              isPlaying={isPlaying}
+              onSeek={handleTranscriptSeek}
+              onRemoveRanges={removeTranscriptRanges}
+            />
+          )}
+
+          {activeTool === 'cursor' && (
+            <CursorPanel
+              track={previewCursorTrack}
+              effects={cursorEffects}
+              clips={clips}
+              sourcePath={previewSourcePath}
+              sourceDuration={sourceDuration}
+              currentTime={currentTime}
+              selectedSegmentId={selectedZoomId}
+              onSelectSegment={setSelectedZoomId}
+              onSeek={handleSeek}
+              onChange={updateCursorEffects}
+            />
+          )}
+
+          {activeTool === 'zoom' && (
+            <ZoomPanel
+              segments={zoomSegments}
+              clips={clips}
+              sourcePath={previewSourcePath}
+              sourceDuration={sourceDuration}
+              currentTime={currentTime}
+              selectedSegmentId={selectedZoomSegmentId}
+              selectedKeyframeId={selectedZoomKeyframeId}
+              onSelectSegment={setSelectedZoomSegmentId}
+              onSelectKeyframe={setSelectedZoomKeyframeId}
+              onSeek={handleSeek}
+              onChange={updateZoomSegments}
+            />
+          )}
+
+          {activeTool === 'annotations' && (
+            <AnnotationPanel
+              track={previewAnnotationTrack}
+              sourceDuration={sourceDuration}
+              selectedAnnotationId={selectedAnnotationId}
+              onSelectAnnotation={setSelectedAnnotationId}
+              onSeek={handleSeek}
+              onChange={updateAnnotationTrack}
+            />
+          )}
+
+          {activeTool === 'redact' && (
+            <RedactionPanel
+              redactions={redactions}
+              sourcePath={previewSourcePath}
+              videoPath={previewPath}
+              sourceDuration={sourceDuration}
+              selectedRedactionId={selectedRedactionId}
+              onSelectRedaction={setSelectedRedactionId}
+              onSeek={handleSeek}
+              onChange={updateRedactions}
+            />
+          )}
+
           {/* Tool-specific options */}
           {activeTool === 'text' && (
             <div className="mt-6 space-y-4">
@@ -1049,7 +2042,10 @@ export function VideoEditor({ recording, onClose, onSave }: VideoEditorProps) {
                       <div
                         key={overlay.id}
                         className={`card p-3 cursor-pointer ${selectedOverlay === overlay.id ? 'border-primary-600' : ''}`}
-                        onClick={() => setSelectedOverlay(overlay.id)}
+                        onClick={() => {
+                          setSelectedOverlay(overlay.id);
+                          setSelectedTextKeyframeId(null);
+                        }}
                       >
                         <div className="flex items-start justify-between mb-2">
                           <div className="flex-1 truncate text-sm">{overlay.text}</div>
@@ -1170,42 +2166,15 @@ export function VideoEditor({ recording, onClose, onSave }: VideoEditorProps) {
                       Italic
                     </button>
                   </div>
-                  <div className="flex items-center justify-between">
-                    <label className="text-xs text-dark-400">Animate position</label>
-                    <input
-                      type="checkbox"
-                      checked={textOverlays.find((o) => o.id === selectedOverlay)?.animate ?? false}
-                      onChange={(e) => updateOverlay(selectedOverlay, { animate: e.target.checked })}
-                      className="rounded"
+                  {selectedOverlayItem && (
+                    <TextAnimationPanel
+                      overlay={selectedOverlayItem}
+                      currentTime={currentTime}
+                      selectedKeyframeId={selectedTextKeyframeId}
+                      onSelectKeyframe={setSelectedTextKeyframeId}
+                      onSeek={handleSeek}
+                      onChange={(updates) => updateOverlay(selectedOverlayItem.id, updates)}
                     />
-                  </div>
-                  {textOverlays.find((o) => o.id === selectedOverlay)?.animate && (
-                    <div className="grid grid-cols-2 gap-2">
-                      <div>
-                        <label className="text-xs text-dark-400 mb-1 block">End X (%)</label>
-                        <input
-                          type="number"
-                          min="0"
-                          max="100"
-                          step="0.1"
-                          value={textOverlays.find((o) => o.id === selectedOverlay)?.endX ?? 50}
-                          onChange={(e) => updateOverlay(selectedOverlay, { endX: Number(e.target.value) })}
-                          className="input w-full text-xs"
-                        />
-                      </div>
-                      <div>
-                        <label className="text-xs text-dark-400 mb-1 block">End Y (%)</label>
-                        <input
-                          type="number"
-                          min="0"
-                          max="100"
-                          step="0.1"
-                          value={textOverlays.find((o) => o.id === selectedOverlay)?.endY ?? 50}
-                          onChange={(e) => updateOverlay(selectedOverlay, { endY: Number(e.target.value) })}
-                          className="input w-full text-xs"
-                        />
-                      </div>
-                    </div>
                   )}
                   <p className="text-xs text-dark-500">
                     Drag text directly on the video to reposition it.
@@ -1289,44 +2258,86 @@ export function VideoEditor({ recording, onClose, onSave }: VideoEditorProps) {
                   />
                 </div>
               </div>
+              <div>
+                <label className="text-xs text-dark-400 mb-1 block">Enhancement</label>
+                <select
+                  className="select w-full text-xs"
+                  value={audioSettings.enhancement ?? 'raw'}
+                  onChange={(e) => updateAudioSettings({ enhancement: e.target.value as AudioEnhancementPreset })}
+                >
+                  {(Object.keys(AUDIO_ENHANCEMENT_LABELS) as AudioEnhancementPreset[]).map((preset) => (
+                    <option key={preset} value={preset}>
+                      {AUDIO_ENHANCEMENT_LABELS[preset]}
+                    </option>
+                  ))}
+                </select>
+                <p className="text-xs text-dark-500 mt-1">
+                  Voice and Podcast remove noise, even out levels and normalize loudness on export. Not heard in the
+                  preview.
+                </p>
+              </div>
+              <MusicPanel
+                music={audioSettings.music ?? null}
+                onChange={(music) => updateAudioSettings({ music })}
+              />
+              {audioTrackKinds.length > 0 && (
+                <AudioTracksPanel
+                  kinds={audioTrackKinds}
+                  levels={audioSettings.tracks ?? {}}
+                  onChange={(kind, level) => updateAudioSettings({ tracks: { ...audioSettings.tracks, [kind]: level } })}
+                />
+              )}
             </div>
           </div>
 
           <div className="mt-8 border-t border-dark-800 pt-4 space-y-3">
             <h4 className="text-sm font-semibold">Export Preset</h4>
-            <div className="space-y-2">
-              {exportPresets.map((preset) => (
-                <button
-                  key={preset.id}
-                  onClick={() => handlePresetChange(preset.id)}
-                  className={`w-full btn text-xs ${selectedPresetId === preset.id ? 'btn-primary' : 'btn-secondary'}`}
-                >
-                  {preset.label}
-                </button>
-              ))}
-            </div>
+            <select
+              className="select w-full text-xs"
+              value={selectedPreset.id}
+              onChange={(e) => handlePresetChange(e.target.value)}
+            >
+              {[...BUILT_IN_PRESET_GROUPS, { label: 'Custom', presets: customPresets }]
+                .filter((group) => group.presets.length > 0)
+                .map((group) => (
+                  <optgroup key={group.label} label={group.label}>
+                    {group.presets.map((preset) => (
+                      <option key={preset.id} value={preset.id}>
+                        {preset.label}
+                      </option>
+                    ))}
+                  </optgroup>
+                ))}
+            </select>
+            {EXPORT_FORMATS[selectedPreset.format ?? 'mp4'].kind !== 'video' && (
+              <p className="text-xs text-dark-500">
+                GIF and audio exports are saved to the recordings folder but not added to the library.
+              </p>
+            )}
             <div className="pt-3 space-y-2">
               <label className="text-xs text-dark-400 mb-1 block">Encoder</label>
               <select
                 className="select w-full text-xs"
                 value={encoder}
-                onChange={(e) => setEncoder(e.target.value as typeof encoder)}
+                onChange={(e) => setEncoder(e.target.value as ExportEncoder)}
               >
-                <option value="auto">Auto (CPU)</option>
-                <option value="cpu">CPU (libx264)</option>
-                <option value="nvenc">NVIDIA NVENC</option>
-                <option value="qsv">Intel QuickSync</option>
-                <option value="amf">AMD AMF</option>
+                {availableEncoders.map((option) => (
+                  <option key={option} value={option}>
+                    {ENCODER_LABELS[option]}
+                  </option>
+                ))}
               </select>
-              <label className="flex items-center gap-2 text-xs text-dark-400">
-                <input
-                  type="checkbox"
-                  checked={optimizeForSize}
-                  onChange={(e) => setOptimizeForSize(e.target.checked)}
-                  className="rounded"
-                />
-                Optimize for smaller files
-              </label>
+              {(selectedPreset.format ?? 'mp4').startsWith('mp4') && (
+                <label className="flex items-center gap-2 text-xs text-dark-400">
+                  <input
+                    type="checkbox"
+                    checked={optimizeForSize}
+                    onChange={(e) => setOptimizeForSize(e.target.checked)}
+                    className="rounded"
+                  />
+                  Optimize for smaller files
+                </label>
+              )}
             </div>
           </div>
         </div>
@@ -1392,6 +2403,65 @@ function TextIcon() {
   );
 }
 
+function SubtitlesIcon() {
+  return (
+    <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+      <rect x="3" y="5" width="18" height="14" rx="2" strokeWidth={2} />
+      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 15h4m3 0h3M7 11h10" />
+    </svg>
+  );
+}
+
+function CursorIcon() {
+  return (
+    <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 3l14 7-6 2-2 6-6-15z" />
+      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M14 14l5 5" />
+    </svg>
+  );
+}
+
+function ZoomIcon() {
+  return (
+    <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-5.2-5.2M10 7v6m-3-3h6m4 0a7 7 0 11-14 0 7 7 0 0114 0z" />
+    </svg>
+  );
+}
+
+function ImageIcon() {
+  return (
+    <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" />
+    </svg>
+  );
+}
+
+function AnnotationIcon() {
+  return (
+    <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.232 5.232l3.536 3.536m-2.036-5.036a2.5 2.5 0 113.536 3.536L6.5 21.036H3v-3.572L16.732 3.732z" />
+    </svg>
+  );
+}
+
+function TranscriptIcon() {
+  return (
+    <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h16M4 10h16M4 14h10M4 18h7m7-4l-4 4m0-4l4 4" />
+    </svg>
+  );
+}
+
+function RedactIcon() {
+  return (
+    <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+      <rect x="3" y="8" width="18" height="8" rx="1" strokeWidth={2} />
+      <path strokeLinecap="round" strokeWidth={2} d="M7 8v8m4-8v8m4-8v8" />
+    </svg>
+  );
+}
+
 function DeleteIcon() {
   return (
     <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
@@ -0,0 +1,322 @@
+import type { Easing, TimelineClip, ZoomKeyframe, ZoomRect, ZoomSegment } from '../../../shared/types';
+import { EASING_LABELS } from '../../../shared/utils/easing';
+import { clampZoomRect, getZoomPath, interpolateZoomPath } from '../../../shared/utils/zoom';
+import { toast } from '../Toasts/toast';
+
+interface ZoomPanelProps {
+  segments: ZoomSegment[];
+  clips: TimelineClip[];
+  sourcePath: string; // Source of the previewed clip; segment times are relative to it
+  sourceDuration: number;
+  currentTime: number;
+  selectedSegmentId: string | null;
+  selectedKeyframeId: string | null;
+  onSelectSegment: (id: string | null) => void;
+  onSelectKeyframe: (id: string | null) => void;
+  onSeek: (time: number) => void;
+  onChange: (segments: ZoomSegment[], recordHistory?: boolean) => void;
+}
+
+const NEW_SEGMENT_DURATION = 4;
+const MIN_SEGMENT_DURATION = 1;
+const DEFAULT_RECT: ZoomRect = { x: 25, y: 25, size: 50 };
+
+export function ZoomPanel({
+  segments,
+  clips,
+  sourcePath,
+  sourceDuration,
+  currentTime,
+  selectedSegmentId,
+  selectedKeyframeId,
+  onSelectSegment,
+  onSelectKeyframe,
+  onSeek,
+  onChange,
+}: ZoomPanelProps) {
+  const sourceSegments = segments
+    .filter((segment) => segment.sourcePath === sourcePath)
+    .sort((a, b) => a.start - b.start);
+  const selectedSegment = segments.find((segment) => segment.id === selectedSegmentId) ?? null;
+  const selectedKeyframes = selectedSegment
+    ? [...selectedSegment.keyframes].sort((a, b) => a.time - b.time)
+    : [];
+
+  const isSegmentInTimeline = (segment: ZoomSegment) =>
+    clips.some((clip) => clip.sourcePath === segment.sourcePath && segment.end > clip.sourceStart && segment.start < clip.sourceEnd);
+
+  const updateSegment = (id: string, updates: Partial<ZoomSegment>, recordHistory = true) => {
+    onChange(
+      segments.map((segment) => (segment.id === id ? { ...segment, ...updates } : segment)),
+      recordHistory
+    );
+  };
+
+  const updateKeyframe = (segment: ZoomSegment, id: string, updates: Partial<ZoomKeyframe>) => {
+    updateSegment(segment.id, {
+      keyframes: segment.keyframes.map((keyframe) => (keyframe.id === id ? { ...keyframe, ...updates } : keyframe)),
+    });
+  };
+
+  const handleAddSegment = () => {
+    const start = Math.min(currentTime, Math.max(0, sourceDuration - MIN_SEGMENT_DURATION));
+    const end = Math.min(sourceDuration, start + NEW_SEGMENT_DURATION);
+    if (sourceSegments.some((segment) => end > segment.start && start < segment.end)) {
+      toast({ type: 'error', title: 'Zoom already set here', message: 'Move the playhead outside existing zooms.' });
+      return;
+    }
+    // Zoom in over the first quarter, hold, then zoom back out over the last quarter
+    const duration = end - start;
+    const keyframes: ZoomKeyframe[] = [
+      { id: crypto.randomUUID(), time: duration / 4, rect: DEFAULT_RECT },
+      { id: crypto.randomUUID(), time: (duration * 3) / 4, rect: DEFAULT_RECT },
+    ];
+    const segment: ZoomSegment = { id: crypto.randomUUID(), sourcePath, start, end, easing: 'ease-in-out', keyframes };
+    onChange([...segments, segment].sort((a, b) => a.start - b.start));
+    onSelectSegment(segment.id);
+    onSelectKeyframe(keyframes[0].id);
+  };
+
+  const handleDeleteSegment = (id: string) => {
+    onChange(segments.filter((segment) => segment.id !== id));
+    if (selectedSegmentId === id) {
+      onSelectSegment(null);
+      onSelectKeyframe(null);
+    }
+  };
+
+  const handleAddKeyframe = (segment: ZoomSegment) => {
+    const time = currentTime - segment.start;
+    if (time <= 0 || time >= segment.end - segment.start) {
+      toast({ type: 'error', title: 'Playhead outside zoom', message: 'Move the playhead inside the selected zoom.' });
+      return;
+    }
+    if (segment.keyframes.some((keyframe) => Math.abs(keyframe.time - time) < 0.05)) {
+      toast({ type: 'error', title: 'Keyframe already set here' });
+      return;
+    }
+    // Start from the framing the zoom already has at the playhead so adding a keyframe changes nothing
+    const keyframe: ZoomKeyframe = {
+      id: crypto.randomUUID(),
+      time,
+      rect: clampZoomRect(interpolateZoomPath(getZoomPath(segment), segment.easing, time)),
+    };
+    updateSegment(segment.id, { keyframes: [...segment.keyframes, keyframe] });
+    onSelectKeyframe(keyframe.id);
+  };
+
+  const handleDeleteKeyframe = (segment: ZoomSegment, id: string) => {
+    updateSegment(segment.id, { keyframes: segment.keyframes.filter((keyframe) => keyframe.id !== id) });
+    if (selectedKeyframeId === id) {
+      onSelectKeyframe(null);
+    }
+  };
+
+  const updateRect = (segment: ZoomSegment, keyframe: ZoomKeyframe, updates: Partial<ZoomRect>) => {
+    updateKeyframe(segment, keyframe.id, { rect: clampZoomRect({ ...keyframe.rect, ...updates }) });
+  };
+
+  return (
+    <div className="mt-6 space-y-4">
+      <button onClick={handleAddSegment} className="btn btn-secondary text-xs w-full">
+        Add Zoom at Playhead
+      </button>
+
+      {sourceSegments.length > 0 && (
+        <div className="space-y-2 max-h-48 overflow-y-auto">
+          {sourceSegments.map((segment) => {
+            const inTimeline = isSegmentInTimeline(segment);
+            return (
+              <div
+                key={segment.id}
+                className={`card p-2 cursor-pointer ${selectedSegmentId === segment.id ? 'border-primary-600' : ''} ${
+                  inTimeline ? '' : 'opacity-50'
+                }`}
+                onClick={() => {
+                  onSelectSegment(segment.id);
+                  onSelectKeyframe(null);
+                  onSeek(segment.start);
+                }}
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <div className="text-xs">
+                    {segment.start.toFixed(1)}s - {segment.end.toFixed(1)}s · {segment.keyframes.length} keyframe
+                    {segment.keyframes.length === 1 ? '' : 's'}
+                    {!inTimeline && ' · cut from timeline'}
+                  </div>
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      handleDeleteSegment(segment.id);
+                    }}
+                    className="btn-icon text-red-400 hover:text-red-300"
+                  >
+                    <DeleteIcon />
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {/* Selected zoom */}
+      {selectedSegment && (
+        <div className="card p-3 space-y-3">
+          <label className="text-sm font-medium">Selected Zoom</label>
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <label className="text-xs text-dark-400 mb-1 block">Start (s)</label>
+              <input
+                type="number"
+                min="0"
+                step="0.1"
+                value={Number(selectedSegment.start.toFixed(2))}
+                onChange={(e) =>
+                  updateSegment(selectedSegment.id, {
+                    start: Math.max(0, Math.min(Number(e.target.value), selectedSegment.end - MIN_SEGMENT_DURATION)),
+                  })
+                }
+                className="input w-full text-xs"
+              />
+            </div>
+            <div>
+              <label className="text-xs text-dark-400 mb-1 block">End (s)</label>
+              <input
+                type="number"
+                min="0"
+                step="0.1"
+                value={Number(selectedSegment.end.toFixed(2))}
+                onChange={(e) =>
+                  updateSegment(selectedSegment.id, {
+                    end: Math.max(Number(e.target.value), selectedSegment.start + MIN_SEGMENT_DURATION),
+                  })
+                }
+                className="input w-full text-xs"
+              />
+            </div>
+          </div>
+          <div>
+            <label className="text-xs text-dark-400 mb-1 block">Easing</label>
+            <select
+              className="select w-full text-xs"
+              value={selectedSegment.easing}
+              onChange={(e) => updateSegment(selectedSegment.id, { easing: e.target.value as Easing })}
+            >
+              {(Object.keys(EASING_LABELS) as Easing[]).map((easing) => (
+                <option key={easing} value={easing}>
+                  {EASING_LABELS[easing]}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {/* Keyframes */}
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <label className="text-xs text-dark-400">Keyframes</label>
+              <button onClick={() => handleAddKeyframe(selectedSegment)} className="btn btn-secondary text-xs">
+                Add at Playhead
+              </button>
+            </div>
+            {selectedKeyframes.length === 0 && (
+              <p className="text-xs text-dark-500">Without keyframes this zoom keeps the full frame.</p>
+            )}
+            {selectedKeyframes.map((keyframe) => {
+              const isSelected = selectedKeyframeId === keyframe.id;
+              return (
+                <div
+                  key={keyframe.id}
+                  className={`card p-2 cursor-pointer ${isSelected ? 'border-primary-600' : ''}`}
+                  onClick={() => {
+                    onSelectKeyframe(keyframe.id);
+                    onSeek(selectedSegment.start + keyframe.time);
+                  }}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="text-xs">
+                      +{keyframe.time.toFixed(2)}s · {(100 / keyframe.rect.size).toFixed(1)}x
+                    </div>
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        handleDeleteKeyframe(selectedSegment, keyframe.id);
+                      }}
+                      className="btn-icon text-red-400 hover:text-red-300"
+                    >
+                      <DeleteIcon />
+                    </button>
+                  </div>
+                  {isSelected && (
+                    <div className="grid grid-cols-2 gap-2 mt-2" onClick={(e) => e.stopPropagation()}>
+                      <div>
+                        <label className="text-xs text-dark-400 mb-1 block">Time (s)</label>
+                        <input
+                          type="number"
+                          min="0"
+                          step="0.1"
+                          value={Number(keyframe.time.toFixed(2))}
+                          onChange={(e) =>
+                            updateKeyframe(selectedSegment, keyframe.id, {
+                              time: Math.max(0, Math.min(Number(e.target.value), selectedSegment.end - selectedSegment.start)),
+                            })
+                          }
+                          className="input w-full text-xs"
+                        />
+                      </div>
+                      <div>
+                        <label className="text-xs text-dark-400 mb-1 block">Size (%)</label>
+                        <input
+                          type="number"
+                          min="10"
+                          max="100"
+                          value={Math.round(keyframe.rect.size)}
+                          onChange={(e) => updateRect(selectedSegment, keyframe, { size: Number(e.target.value) })}
+                          className="input w-full text-xs"
+                        />
+                      </div>
+                      <div>
+                        <label className="text-xs text-dark-400 mb-1 block">X (%)</label>
+                        <input
+                          type="number"
+                          min="0"
+                          max="90"
+                          value={Math.round(keyframe.rect.x)}
+                          onChange={(e) => updateRect(selectedSegment, keyframe, { x: Number(e.target.value) })}
+                          className="input w-full text-xs"
+                        />
+                      </div>
+                      <div>
+                        <label className="text-xs text-dark-400 mb-1 block">Y (%)</label>
+                        <input
+                          type="number"
+                          min="0"
+                          max="90"
+                          value={Math.round(keyframe.rect.y)}
+                          onChange={(e) => updateRect(selectedSegment, keyframe, { y: Number(e.target.value) })}
+                          className="input w-full text-xs"
+                        />
+                      </div>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      <p className="text-xs text-dark-500">
+        Drag on the preview to frame the selected keyframe. Zooms start and end on the full frame.
+      </p>
+    </div>
+  );
+}
+
+function DeleteIcon() {
+  return (
+    <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+    </svg>
+  );
+}
@@ -1,4 +1,7 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
+import type { MicrophoneProcessingSettings } from '../../shared/types';
+import { createMicrophoneChain, DEFAULT_MICROPHONE_PROCESSING } from '../utils/microphoneProcessing';
+import type { MicrophoneChain } from '../utils/microphoneProcessing';
 
 export interface AudioDevice {
   deviceId: string;
@@ -25,8 +28,13 @@ interface UseMediaDevicesReturn {
 
   // Actions
   refreshDevices: () => Promise<void>;
-  startMicrophoneMonitor: (deviceId?: string) => Promise<void>;
+  startMicrophoneMonitor: (
+    deviceId?: string,
+    processing?: MicrophoneProcessingSettings,
+    allowMonitor?: boolean
+  ) => Promise<void>;
   stopMicrophoneMonitor: () => void;
+  updateMicrophoneProcessing: (processing: MicrophoneProcessingSettings) => void;
 }
 
 export function useMediaDevices(): UseMediaDevicesReturn {
@@ -38,7 +46,7 @@ export function useMediaDevices(): UseMediaDevicesReturn {
 
   // Refs for audio monitoring
   const audioContextRef = useRef<AudioContext | null>(null);
-  const analyserRef = useRef<AnalyserNode | null>(null);
+  const chainRef = useRef<MicrophoneChain | null>(null);
   const micStreamRef = useRef<MediaStream | null>(null);
   const animationFrameRef = useRef<number | null>(null);
 
@@ -86,8 +94,12 @@ export function useMediaDevices(): UseMediaDevicesReturn {
     }
   }, []);
 
-  // Start microphone level monitoring
-  const startMicrophoneMonitor = useCallback(async (deviceId?: string) => {
+  // Start microphone level monitoring; the level is measured after the processing chain
+  const startMicrophoneMonitor = useCallback(async (
+    deviceId?: string,
+    processing: MicrophoneProcessingSettings = DEFAULT_MICROPHONE_PROCESSING,
+    allowMonitor = false
+  ) => {
     // Stop any existing monitor
     stopMicrophoneMonitor();
 
@@ -100,37 +112,16 @@ export function useMediaDevices(): UseMediaDevicesReturn {
 
       micStreamRef.current = stream;
 
-      // Create audio context and analyser
-      const audioContext = new AudioContext();
+      // Headphone monitoring needs the shortest output buffer
+      const audioContext = new AudioContext({ latencyHint: 'interactive' });
       audioContextRef.current = audioContext;
-
-      const analyser = audioContext.createAnalyser();
-      analyser.fftSize = 256;
-      analyser.smoothingTimeConstant = 0.8;
-      analyserRef.current = analyser;
-
-      // Connect microphone to analyser
-      const source = audioContext.createMediaStreamSource(stream);
-      source.connect(analyser);
+      chainRef.current = createMicrophoneChain(audioContext, stream, processing, allowMonitor);
 
       // Start monitoring
-      const dataArray = new Uint8Array(analyser.frequencyBinCount);
-
       const updateLevel = () => {
-        if (!analyserRef.current) return;
+        if (!chainRef.current) return;
 
-        analyserRef.current.getByteFrequencyData(dataArray);
-
-        // Calculate average level
-        let sum = 0;
-        for (let i = 0; i < dataArray.length; i++) {
-          sum += dataArray[i];
-        }
-        const average = sum / dataArray.length;
-
-        // Normalize to 0-100 range
-        const normalizedLevel = Math.min(100, (average / 128) * 100);
-        setMicrophoneLevel(normalizedLevel);
+        setMicrophoneLevel(chainRef.current.getLevel());
 
         animationFrameRef.current = requestAnimationFrame(updateLevel);
       };
@@ -154,15 +145,22 @@ export function useMediaDevices(): UseMediaDevicesReturn {
       micStreamRef.current = null;
     }
 
+    chainRef.current?.disconnect();
+    chainRef.current = null;
+
     if (audioContextRef.current) {
       audioContextRef.current.close();
       audioContextRef.current = null;
     }
 
-    analyserRef.current = null;
     setMicrophoneLevel(0);
   }, []);
 
+  // Apply changed settings to the running monitor without reopening the microphone
+  const updateMicrophoneProcessing = useCallback((processing: MicrophoneProcessingSettings) => {
+    chainRef.current?.update(processing);
+  }, []);
+
   // Load devices on mount
   useEffect(() => {
     refreshDevices();
@@ -189,5 +187,6 @@ export function useMediaDevices(): UseMediaDevicesReturn {
     refreshDevices,
     startMicrophoneMonitor,
     stopMicrophoneMonitor,
+    updateMicrophoneProcessing,
   };
 }
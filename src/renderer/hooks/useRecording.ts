@@ -1,7 +1,70 @@
 import { useCallback, useRef, useEffect } from 'react';
 import { useRecordingStore } from '../stores/recordingStore';
-import type { SourceInfo } from '../../shared/types';
+import type { AudioTrackKind, AudioTrackUpload, CaptureRegion, SourceInfo, WatermarkSettings } from '../../shared/types';
 import { toast } from '../components/Toasts/toast';
+import { loadImage } from '../utils/images';
+import {
+  createMicrophoneChain,
+  DEFAULT_MICROPHONE_PROCESSING,
+  isMicrophoneProcessingActive,
+} from '../utils/microphoneProcessing';
+import type { MicrophoneChain } from '../utils/microphoneProcessing';
+
+// Convert a fractional capture region into an even-sized pixel crop of the source frame.
+const resolveRegionCrop = (region: CaptureRegion, frameWidth: number, frameHeight: number) => {
+  const clampUnit = (value: number) => Math.min(Math.max(value, 0), 1);
+  const toEven = (value: number) => Math.max(2, Math.floor(value / 2) * 2);
+  const x = Math.round(clampUnit(region.x) * frameWidth);
+  const y = Math.round(clampUnit(region.y) * frameHeight);
+  const width = toEven(Math.min(clampUnit(region.width) * frameWidth, frameWidth - x));
+  const height = toEven(Math.min(clampUnit(region.height) * frameHeight, frameHeight - y));
+  return { x, y, width, height };
+};
+
+// Place the watermark in a corner (or the center) of the frame, sized by its share of the frame width.
+const resolveWatermarkRect = (
+  watermark: WatermarkSettings,
+  image: HTMLImageElement,
+  frameWidth: number,
+  frameHeight: number
+) => {
+  const margin = Math.round(Math.min(frameWidth, frameHeight) * 0.02);
+  const width = Math.max(1, Math.round((frameWidth * watermark.size) / 100));
+  const height = Math.max(1, Math.round(width * (image.naturalHeight / (image.naturalWidth || 1))));
+  const left = watermark.position.endsWith('left');
+  const top = watermark.position.startsWith('top');
+  if (watermark.position === 'center') {
+    return { x: Math.round((frameWidth - width) / 2), y: Math.round((frameHeight - height) / 2), width, height };
+  }
+  return {
+    x: left ? margin : frameWidth - width - margin,
+    y: top ? margin : frameHeight - height - margin,
+    width,
+    height,
+  };
+};
+
+const loadWatermarkImage = async (watermark: WatermarkSettings) => {
+  try {
+    return await loadImage(watermark.imagePath);
+  } catch (error) {
+    console.warn('Failed to load watermark image:', error);
+    toast({
+      type: 'warning',
+      title: 'Watermark unavailable',
+      message: 'The watermark image could not be loaded, recording without it.',
+    });
+    return null;
+  }
+};
+
+// Audio-only recorder running beside the main one when separate audio tracks are enabled
+interface AudioTrackRecorder {
+  kind: AudioTrackKind;
+  recorder: MediaRecorder;
+  chunks: Blob[];
+  startedAt: number | null;
+}
 
 interface UseRecordingReturn {
   // State
@@ -15,6 +78,7 @@ interface UseRecordingReturn {
   stopRecording: () => Promise<string | null>;
   pauseRecording: () => void;
   resumeRecording: () => void;
+  addMarker: (label?: string) => void;
 }
 
 export function useRecording(): UseRecordingReturn {
@@ -36,6 +100,8 @@ export function useRecording(): UseRecordingReturn {
     setAvailableSources,
     setDuration,
     setFileSize,
+    addMarker: addStoreMarker,
+    clearMarkers,
   } = useRecordingStore();
 
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
@@ -47,7 +113,10 @@ export function useRecording(): UseRecordingReturn {
   const systemAudioStreamRef = useRef<MediaStream | null>(null);
   const micAudioStreamRef = useRef<MediaStream | null>(null);
   const audioContextRef = useRef<AudioContext | null>(null);
+  const micChainRef = useRef<MicrophoneChain | null>(null);
   const mixedAudioStreamRef = useRef<MediaStream | null>(null);
+  const audioTrackRecordersRef = useRef<AudioTrackRecorder[]>([]);
+  const videoStartedAtRef = useRef<number>(0);
   const recoveryIdRef = useRef<string | null>(null);
   const animationFrameRef = useRef<number | null>(null);
   const screenVideoRef = useRef<HTMLVideoElement | null>(null);
@@ -56,6 +125,7 @@ export function useRecording(): UseRecordingReturn {
   const timerRef = useRef<number | null>(null);
   const startTimeRef = useRef<number>(0);
   const pausedDurationRef = useRef<number>(0);
+  const pauseStartedAtRef = useRef<number | null>(null);
   const webcamHiddenRef = useRef<boolean>(false);
   const mainWindowBoundsRef = useRef<{ x: number; y: number; width: number; height: number } | null>(null);
   const livePositionRef = useRef<{ x: number; y: number } | null>(null);
@@ -98,6 +168,8 @@ export function useRecording(): UseRecordingReturn {
         mixedAudioStreamRef.current.getTracks().forEach((track) => track.stop());
         mixedAudioStreamRef.current = null;
       }
+      micChainRef.current?.disconnect();
+      micChainRef.current = null;
       if (audioContextRef.current) {
         audioContextRef.current.close();
         audioContextRef.current = null;
@@ -110,6 +182,8 @@ export function useRecording(): UseRecordingReturn {
         window.electronAPI.discardRecordingRecovery(recoveryIdRef.current);
         recoveryIdRef.current = null;
       }
+      window.electronAPI.discardCursorTracking();
+      window.electronAPI.discardAnnotationRecording();
     };
   }, []);
 
@@ -199,9 +273,15 @@ export function useRecording(): UseRecordingReturn {
 
       let videoSourceStream: MediaStream = screenStream;
 
-      if (includeWebcam) {
+      const captureRegion = selectedSource.region ?? null;
+      const watermark = settings?.watermark?.enabled && settings.watermark.imagePath ? settings.watermark : null;
+      const watermarkImage = watermark ? await loadWatermarkImage(watermark) : null;
+
+      if (includeWebcam || captureRegion || watermarkImage) {
         try {
-          const overlayConfig = await window.electronAPI?.getWebcamOverlayConfig(resolvedDisplayId);
+          const overlayConfig = includeWebcam
+            ? await window.electronAPI?.getWebcamOverlayConfig(resolvedDisplayId)
+            : null;
           const webcamShape = overlayConfig?.shape ?? settings?.webcam?.shape ?? 'circle';
           const sourcePosition = settings?.webcam?.positionBySource?.[selectedSource.id];
           const persistedWebcamId = selectedWebcamId || settings?.webcam?.deviceId || window.localStorage.getItem('choome:webcamDeviceId');
@@ -238,8 +318,18 @@ export function useRecording(): UseRecordingReturn {
             throw lastError;
           };
 
-          const webcamStream = await getWebcamStream();
-          webcamStreamRef.current = webcamStream;
+          let webcamStream: MediaStream | null = null;
+          if (includeWebcam) {
+            try {
+              webcamStream = await getWebcamStream();
+              webcamStreamRef.current = webcamStream;
+            } catch (webcamError) {
+              if (!captureRegion) {
+                throw webcamError;
+              }
+              console.error('Failed to start webcam overlay, recording region without webcam:', webcamError);
+            }
+          }
 
           const screenVideo = document.createElement('video');
           screenVideo.muted = true;
@@ -247,11 +337,14 @@ export function useRecording(): UseRecordingReturn {
           screenVideo.srcObject = screenStream;
           screenVideoRef.current = screenVideo;
 
-          const webcamVideo = document.createElement('video');
-          webcamVideo.muted = true;
-          webcamVideo.playsInline = true;
-          webcamVideo.srcObject = webcamStream;
-          webcamVideoRef.current = webcamVideo;
+          let webcamVideo: HTMLVideoElement | null = null;
+          if (webcamStream) {
+            webcamVideo = document.createElement('video');
+            webcamVideo.muted = true;
+            webcamVideo.playsInline = true;
+            webcamVideo.srcObject = webcamStream;
+            webcamVideoRef.current = webcamVideo;
+          }
 
           if (hiddenVideoContainerRef.current) {
             hiddenVideoContainerRef.current.remove();
@@ -260,7 +353,10 @@ export function useRecording(): UseRecordingReturn {
           const hiddenContainer = document.createElement('div');
           hiddenContainer.style.cssText =
             'position:fixed;left:-10000px;top:0;width:1px;height:1px;opacity:0;pointer-events:none;';
-          hiddenContainer.append(screenVideo, webcamVideo);
+          hiddenContainer.append(screenVideo);
+          if (webcamVideo) {
+            hiddenContainer.append(webcamVideo);
+          }
           document.body.appendChild(hiddenContainer);
           hiddenVideoContainerRef.current = hiddenContainer;
 
@@ -277,34 +373,47 @@ export function useRecording(): UseRecordingReturn {
             screenVideo.play().catch((error) => {
               console.warn('Screen video play was blocked:', error);
             }),
-            webcamVideo.play().catch((error) => {
-              console.warn('Webcam video play was blocked:', error);
-            }),
             ensureVideoReady(screenVideo),
-            ensureVideoReady(webcamVideo),
+            ...(webcamVideo
+              ? [
+                  webcamVideo.play().catch((error) => {
+                    console.warn('Webcam video play was blocked:', error);
+                  }),
+                  ensureVideoReady(webcamVideo),
+                ]
+              : []),
           ]);
 
           const screenSettings = screenStream.getVideoTracks()[0]?.getSettings() || {};
-          const canvasWidth = screenSettings.width || 1920;
-          const canvasHeight = screenSettings.height || 1080;
+          const sourceWidth = screenSettings.width || screenVideo.videoWidth || 1920;
+          const sourceHeight = screenSettings.height || screenVideo.videoHeight || 1080;
           const frameRate = screenSettings.frameRate || frameRateSetting || 30;
+          const regionCrop = captureRegion
+            ? resolveRegionCrop(captureRegion, sourceWidth, sourceHeight)
+            : { x: 0, y: 0, width: sourceWidth, height: sourceHeight };
+          const canvasWidth = regionCrop.width;
+          const canvasHeight = regionCrop.height;
 
+          // Overlay config is in display coordinates; shift it into the cropped frame.
           const adjustedOverlayConfig = overlayConfig && overlayConfig.displayWidth && overlayConfig.displayHeight
             ? {
                 ...overlayConfig,
-                x: Math.round(overlayConfig.x * (canvasWidth / overlayConfig.displayWidth)),
-                y: Math.round(overlayConfig.y * (canvasHeight / overlayConfig.displayHeight)),
-                width: Math.max(1, Math.round(overlayConfig.width * (canvasWidth / overlayConfig.displayWidth))),
-                height: Math.max(1, Math.round(overlayConfig.height * (canvasHeight / overlayConfig.displayHeight))),
+                x: Math.round(overlayConfig.x * (sourceWidth / overlayConfig.displayWidth)) - regionCrop.x,
+                y: Math.round(overlayConfig.y * (sourceHeight / overlayConfig.displayHeight)) - regionCrop.y,
+                width: Math.max(1, Math.round(overlayConfig.width * (sourceWidth / overlayConfig.displayWidth))),
+                height: Math.max(1, Math.round(overlayConfig.height * (sourceHeight / overlayConfig.displayHeight))),
               }
             : overlayConfig;
+          const watermarkRect = watermark && watermarkImage
+            ? resolveWatermarkRect(watermark, watermarkImage, canvasWidth, canvasHeight)
+            : null;
 
           const canvas = document.createElement('canvas');
           canvas.width = canvasWidth;
           canvas.height = canvasHeight;
           const ctx = canvas.getContext('2d');
           if (!ctx) {
-            throw new Error('Failed to create canvas context for webcam overlay');
+            throw new Error('Failed to create canvas context for capture compositing');
           }
 
           let lastWebcamTime = -1;
@@ -314,7 +423,7 @@ export function useRecording(): UseRecordingReturn {
 
           const refreshWebcamStream = async () => {
             const now = performance.now();
-            if (webcamRefreshInFlight || now < webcamRefreshCooldownUntil) return;
+            if (!webcamVideo || webcamRefreshInFlight || now < webcamRefreshCooldownUntil) return;
             webcamRefreshInFlight = true;
             try {
               const newStream = await getWebcamStream();
@@ -341,7 +450,7 @@ export function useRecording(): UseRecordingReturn {
             }
           };
 
-          const initialTrack = webcamStream.getVideoTracks()[0];
+          const initialTrack = webcamStream?.getVideoTracks()[0];
           if (initialTrack) {
             initialTrack.addEventListener('ended', refreshWebcamStream);
             initialTrack.addEventListener('mute', refreshWebcamStream);
@@ -387,10 +496,23 @@ export function useRecording(): UseRecordingReturn {
           const drawFrame = () => {
             ctx.clearRect(0, 0, canvasWidth, canvasHeight);
             if (screenVideo.readyState >= 2) {
-              ctx.drawImage(screenVideo, 0, 0, canvasWidth, canvasHeight);
+              // The live frame can differ from the track settings (e.g. after a display change).
+              const scaleX = screenVideo.videoWidth ? screenVideo.videoWidth / sourceWidth : 1;
+              const scaleY = screenVideo.videoHeight ? screenVideo.videoHeight / sourceHeight : 1;
+              ctx.drawImage(
+                screenVideo,
+                regionCrop.x * scaleX,
+                regionCrop.y * scaleY,
+                regionCrop.width * scaleX,
+                regionCrop.height * scaleY,
+                0,
+                0,
+                canvasWidth,
+                canvasHeight
+              );
             }
 
-            if (webcamVideo.readyState >= 2) {
+            if (webcamVideo && webcamVideo.readyState >= 2) {
               if (webcamVideo.currentTime !== lastWebcamTime) {
                 lastWebcamTime = webcamVideo.currentTime;
                 lastWebcamFrameAt = performance.now();
@@ -474,6 +596,13 @@ export function useRecording(): UseRecordingReturn {
               ctx.restore();
             }
 
+            if (watermarkImage && watermarkRect) {
+              ctx.save();
+              ctx.globalAlpha = watermark?.opacity ?? 1;
+              ctx.drawImage(watermarkImage, watermarkRect.x, watermarkRect.y, watermarkRect.width, watermarkRect.height);
+              ctx.restore();
+            }
+
             animationFrameRef.current = requestAnimationFrame(drawFrame);
           };
 
@@ -485,12 +614,25 @@ export function useRecording(): UseRecordingReturn {
           const canvasStream = canvas.captureStream(frameRate);
           canvasStreamRef.current = canvasStream;
           videoSourceStream = canvasStream;
-        } catch (webcamError) {
-          console.error('Failed to start webcam overlay, falling back to screen-only:', webcamError);
+        } catch (compositeError) {
+          console.error('Failed to start composited capture, falling back to screen-only:', compositeError);
           if (webcamStreamRef.current) {
             webcamStreamRef.current.getTracks().forEach((track) => track.stop());
             webcamStreamRef.current = null;
           }
+          if (captureRegion) {
+            toast({
+              type: 'warning',
+              title: 'Region capture unavailable',
+              message: 'Recording the full source instead of the selected area.',
+            });
+          } else if (watermarkImage) {
+            toast({
+              type: 'warning',
+              title: 'Watermark unavailable',
+              message: 'Recording without the watermark.',
+            });
+          }
         }
       }
 
@@ -561,7 +703,19 @@ export function useRecording(): UseRecordingReturn {
 
           const micTracks = micStream.getAudioTracks();
           console.log('✓ Microphone tracks captured:', micTracks.length);
-          audioStreams.push(micStream);
+
+          // Gain, gate and compressor are baked into the recording; the headphone monitor stays with the controls
+          const processing = { ...DEFAULT_MICROPHONE_PROCESSING, ...settings?.microphoneProcessing };
+          if (isMicrophoneProcessingActive(processing)) {
+            try {
+              const audioContext = new AudioContext();
+              audioContextRef.current = audioContext;
+              micChainRef.current = createMicrophoneChain(audioContext, micStream, processing);
+            } catch (chainError) {
+              console.warn('Failed to process microphone, recording it unprocessed:', chainError);
+            }
+          }
+          audioStreams.push(micChainRef.current?.stream ?? micStream);
         } catch (micError) {
           console.error('✗ Failed to capture microphone:', micError);
           toast({
@@ -578,7 +732,7 @@ export function useRecording(): UseRecordingReturn {
         audioStreams[0].getAudioTracks().forEach((track) => combinedStream.addTrack(track));
       } else if (audioStreams.length > 1) {
         try {
-          const audioContext = new AudioContext();
+          const audioContext = audioContextRef.current ?? new AudioContext();
           audioContextRef.current = audioContext;
           const destination = audioContext.createMediaStreamDestination();
 
@@ -653,6 +807,37 @@ export function useRecording(): UseRecordingReturn {
 
       chunksRef.current = [];
 
+      // Mic and system audio also go to recorders of their own so the editor can rebalance them
+      audioTrackRecordersRef.current = [];
+      if (settings?.separateAudioTracks) {
+        const trackSources: Array<{ kind: AudioTrackKind; stream: MediaStream | null }> = [
+          { kind: 'microphone', stream: micChainRef.current?.stream ?? micAudioStreamRef.current },
+          { kind: 'system', stream: systemAudioStreamRef.current },
+        ];
+        trackSources.forEach(({ kind, stream }) => {
+          const tracks = stream?.getAudioTracks().filter((track) => track.readyState === 'live') ?? [];
+          if (tracks.length === 0) return;
+          try {
+            const recorder = new MediaRecorder(new MediaStream(tracks), {
+              mimeType: 'audio/webm;codecs=opus',
+              audioBitsPerSecond: 128_000,
+            });
+            const trackRecorder: AudioTrackRecorder = { kind, recorder, chunks: [], startedAt: null };
+            recorder.ondataavailable = (event) => {
+              if (event.data.size > 0) {
+                trackRecorder.chunks.push(event.data);
+              }
+            };
+            recorder.onstart = () => {
+              trackRecorder.startedAt = performance.now();
+            };
+            audioTrackRecordersRef.current.push(trackRecorder);
+          } catch (error) {
+            console.warn(`Failed to record the ${kind} audio separately:`, error);
+          }
+        });
+      }
+
       mediaRecorderRef.current.ondataavailable = (event) => {
         if (event.data.size > 0) {
           chunksRef.current.push(event.data);
@@ -668,9 +853,27 @@ export function useRecording(): UseRecordingReturn {
       };
 
       mediaRecorderRef.current.onstart = () => {
+        videoStartedAtRef.current = performance.now();
+        audioTrackRecordersRef.current.forEach(({ recorder }) => recorder.start(1000));
         setStatus('recording');
         startTimeRef.current = Date.now();
         pausedDurationRef.current = 0;
+        pauseStartedAtRef.current = null;
+        clearMarkers();
+
+        // Cursor positions are normalised to the captured display or area, so window captures go without a track
+        if (selectedSource.id.startsWith('screen:')) {
+          window.electronAPI
+            .startCursorTracking(resolvedDisplayId ? Number(resolvedDisplayId) : null, selectedSource.region ?? null)
+            .catch((error) => {
+              console.warn('Failed to start cursor tracking:', error);
+            });
+          window.electronAPI
+            .startAnnotationRecording(resolvedDisplayId ? Number(resolvedDisplayId) : null, selectedSource.region ?? null)
+            .catch((error) => {
+              console.warn('Failed to start annotation recording:', error);
+            });
+        }
 
         // Start timer
         timerRef.current = window.setInterval(() => {
@@ -738,6 +941,39 @@ export function useRecording(): UseRecordingReturn {
 
       setStatus('processing');
 
+      // Stop the separate audio recorders with the video so the tracks end together
+      const trackRecorders = audioTrackRecordersRef.current;
+      audioTrackRecordersRef.current = [];
+      // A track whose recorder fails is left out rather than holding up the save
+      const audioTracksPromise = Promise.all(
+        trackRecorders
+          .filter(({ recorder }) => recorder.state !== 'inactive')
+          .map(
+            (track) =>
+              new Promise<AudioTrackUpload | null>((resolveTrack) => {
+                track.recorder.onerror = (event) => {
+                  console.warn(`Failed to record the ${track.kind} audio separately:`, event);
+                  resolveTrack(null);
+                };
+                track.recorder.onstop = async () => {
+                  const trackBlob = new Blob(track.chunks, { type: 'audio/webm' });
+                  const offset = track.startedAt !== null ? (track.startedAt - videoStartedAtRef.current) / 1000 : 0;
+                  resolveTrack({
+                    kind: track.kind,
+                    buffer: await trackBlob.arrayBuffer(),
+                    offset: Math.round(offset * 1000) / 1000,
+                  });
+                };
+                try {
+                  track.recorder.stop();
+                } catch (error) {
+                  console.warn(`Failed to stop the ${track.kind} audio recorder:`, error);
+                  resolveTrack(null);
+                }
+              })
+          )
+      ).then((tracks) => tracks.filter((track): track is AudioTrackUpload => track !== null));
+
       mediaRecorderRef.current.onstop = async () => {
         if (webcamHiddenRef.current) {
           await window.electronAPI?.openWebcam();
@@ -788,6 +1024,8 @@ export function useRecording(): UseRecordingReturn {
           mixedAudioStreamRef.current.getTracks().forEach((track) => track.stop());
           mixedAudioStreamRef.current = null;
         }
+        micChainRef.current?.disconnect();
+        micChainRef.current = null;
         if (audioContextRef.current) {
           audioContextRef.current.close();
           audioContextRef.current = null;
@@ -801,6 +1039,18 @@ export function useRecording(): UseRecordingReturn {
         const blob = new Blob(chunksRef.current, { type: 'video/webm' });
         chunksRef.current = [];
 
+        const { markers } = useRecordingStore.getState();
+        clearMarkers();
+
+        const audioTracks = await audioTracksPromise;
+        if (audioTracks.length > 0) {
+          try {
+            await window.electronAPI.stageAudioTracks(audioTracks);
+          } catch (error) {
+            console.warn('Failed to hand over the separate audio tracks:', error);
+          }
+        }
+
         let recovered = false;
         const recoveryId = recoveryIdRef.current;
         if (recoveryId) {
@@ -808,6 +1058,7 @@ export function useRecording(): UseRecordingReturn {
             await window.electronAPI.finalizeRecordingRecovery(recoveryId, {
               duration,
               quality,
+              markers,
             });
             recovered = true;
           } catch (error) {
@@ -830,6 +1081,7 @@ export function useRecording(): UseRecordingReturn {
               mimeType: blob.type || 'video/webm',
               duration,
               quality,
+              markers,
             });
           } catch (saveError) {
             console.error('Failed to save recording via IPC:', saveError);
@@ -838,6 +1090,9 @@ export function useRecording(): UseRecordingReturn {
               title: 'Save failed',
               message: 'Falling back to a local download.',
             });
+            window.electronAPI.discardCursorTracking();
+            window.electronAPI.discardAnnotationRecording();
+            window.electronAPI.discardAudioTracks();
             // Fallback to browser download so user doesn't lose the recording
             const url = URL.createObjectURL(blob);
             const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
@@ -860,13 +1115,17 @@ export function useRecording(): UseRecordingReturn {
 
       mediaRecorderRef.current.stop();
     });
-  }, [duration, quality, setStatus, setDuration, setFileSize]);
+  }, [duration, quality, setStatus, setDuration, setFileSize, clearMarkers]);
 
   // Pause recording
   const pauseRecording = useCallback(() => {
     if (mediaRecorderRef.current && mediaRecorderRef.current.state === 'recording') {
       mediaRecorderRef.current.pause();
+      audioTrackRecordersRef.current.forEach(({ recorder }) => recorder.pause());
       setStatus('paused');
+      pauseStartedAtRef.current = Date.now();
+      window.electronAPI.pauseCursorTracking();
+      window.electronAPI.pauseAnnotationRecording();
 
       // Track paused time
       if (timerRef.current) {
@@ -879,7 +1138,14 @@ export function useRecording(): UseRecordingReturn {
   const resumeRecording = useCallback(() => {
     if (mediaRecorderRef.current && mediaRecorderRef.current.state === 'paused') {
       mediaRecorderRef.current.resume();
+      audioTrackRecordersRef.current.forEach(({ recorder }) => recorder.resume());
       setStatus('recording');
+      window.electronAPI.resumeCursorTracking();
+      window.electronAPI.resumeAnnotationRecording();
+      if (pauseStartedAtRef.current !== null) {
+        pausedDurationRef.current += Date.now() - pauseStartedAtRef.current;
+        pauseStartedAtRef.current = null;
+      }
 
       // Resume timer
       timerRef.current = window.setInterval(() => {
@@ -889,6 +1155,21 @@ export function useRecording(): UseRecordingReturn {
     }
   }, [setStatus, setDuration]);
 
+  // Drop a marker at the current position in the recorded media (pauses are not part of it)
+  const addMarker = useCallback((label?: string) => {
+    const state = mediaRecorderRef.current?.state;
+    if (state !== 'recording' && state !== 'paused') return;
+
+    const now = pauseStartedAtRef.current ?? Date.now();
+    const elapsed = Math.max(0, (now - startTimeRef.current - pausedDurationRef.current) / 1000);
+    const count = useRecordingStore.getState().markers.length;
+    addStoreMarker({
+      id: crypto.randomUUID(),
+      time: Math.round(elapsed * 10) / 10,
+      label: label?.trim() || `Chapter ${count + 1}`,
+    });
+  }, [addStoreMarker]);
+
   return {
     isRecording: status === 'recording',
     isPaused: status === 'paused',
@@ -898,5 +1179,6 @@ export function useRecording(): UseRecordingReturn {
     stopRecording,
     pauseRecording,
     resumeRecording,
+    addMarker,
   };
 }
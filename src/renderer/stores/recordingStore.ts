@@ -1,5 +1,12 @@
 import { create } from 'zustand';
-import type { RecordingStatus, QualityPreset, SourceInfo } from '../../shared/types';
+import type {
+  RecordingStatus,
+  QualityPreset,
+  SourceInfo,
+  RecordingMarker,
+  MicrophoneProcessingSettings,
+} from '../../shared/types';
+import { DEFAULT_MICROPHONE_PROCESSING } from '../utils/microphoneProcessing';
 
 interface RecordingState {
   // Recording status
@@ -16,6 +23,7 @@ interface RecordingState {
   microphoneMuted: boolean;
   systemAudioMuted: boolean;
   systemAudioAvailable: boolean | null;
+  microphoneProcessing: MicrophoneProcessingSettings; // Mirrors the saved setting
 
   // Webcam settings
   includeWebcam: boolean;
@@ -28,6 +36,9 @@ interface RecordingState {
   duration: number;
   fileSize: number;
 
+  // Markers dropped during the current recording
+  markers: RecordingMarker[];
+
   // Actions
   setStatus: (status: RecordingStatus) => void;
   setSelectedSource: (source: SourceInfo | null) => void;
@@ -38,11 +49,14 @@ interface RecordingState {
   setMicrophoneMuted: (muted: boolean) => void;
   setSystemAudioMuted: (muted: boolean) => void;
   setSystemAudioAvailable: (available: boolean | null) => void;
+  setMicrophoneProcessing: (settings: MicrophoneProcessingSettings) => void;
   setIncludeWebcam: (include: boolean) => void;
   setSelectedWebcamId: (id: string | null) => void;
   setQuality: (quality: QualityPreset) => void;
   setDuration: (duration: number) => void;
   setFileSize: (fileSize: number) => void;
+  addMarker: (marker: RecordingMarker) => void;
+  clearMarkers: () => void;
   reset: () => void;
 }
 
@@ -56,11 +70,13 @@ const initialState = {
   microphoneMuted: false,
   systemAudioMuted: false,
   systemAudioAvailable: null,
+  microphoneProcessing: DEFAULT_MICROPHONE_PROCESSING,
   includeWebcam: false,
   selectedWebcamId: null,
   quality: '1080p' as QualityPreset,
   duration: 0,
   fileSize: 0,
+  markers: [] as RecordingMarker[],
 };
 
 export const useRecordingStore = create<RecordingState>((set) => ({
@@ -75,10 +91,13 @@ export const useRecordingStore = create<RecordingState>((set) => ({
   setMicrophoneMuted: (muted) => set({ microphoneMuted: muted }),
   setSystemAudioMuted: (muted) => set({ systemAudioMuted: muted }),
   setSystemAudioAvailable: (available) => set({ systemAudioAvailable: available }),
+  setMicrophoneProcessing: (settings) => set({ microphoneProcessing: settings }),
   setIncludeWebcam: (include) => set({ includeWebcam: include }),
   setSelectedWebcamId: (id) => set({ selectedWebcamId: id }),
   setQuality: (quality) => set({ quality }),
   setDuration: (duration) => set({ duration }),
   setFileSize: (fileSize) => set({ fileSize }),
+  addMarker: (marker) => set((state) => ({ markers: [...state.markers, marker] })),
+  clearMarkers: () => set({ markers: [] }),
   reset: () => set(initialState),
 }));
@@ -0,0 +1,228 @@
+import type { Annotation, AnnotationShape, AnnotationTool } from '../../shared/types';
+
+// An annotation in canvas coordinates (DIPs of the display it was drawn on)
+export interface DrawableAnnotation {
+  tool: AnnotationTool;
+  color: string;
+  size: number;
+  points: { x: number; y: number }[];
+  text?: string;
+  patch?: HTMLCanvasElement | null; // Pixelated copy of the screen under a blur box
+  opacity?: number;
+}
+
+const SPOTLIGHT_DIM = 'rgba(0, 0, 0, 0.6)';
+const ARROW_HEAD_LENGTH = 20;
+
+export const getAnnotationFontSize = (size: number) => 12 + size * 4;
+const getStepRadius = (size: number) => 12 + size * 2;
+
+export const getAnnotationBounds = (points: { x: number; y: number }[]) => {
+  const start = points[0];
+  const end = points[points.length - 1];
+  return {
+    x: Math.min(start.x, end.x),
+    y: Math.min(start.y, end.y),
+    width: Math.abs(end.x - start.x),
+    height: Math.abs(end.y - start.y),
+  };
+};
+
+// Dark text on light badge colors, white on the rest
+const getContrastColor = (color: string) => {
+  const red = parseInt(color.slice(1, 3), 16);
+  const green = parseInt(color.slice(3, 5), 16);
+  const blue = parseInt(color.slice(5, 7), 16);
+  return red * 0.299 + green * 0.587 + blue * 0.114 > 150 ? '#000000' : '#FFFFFF';
+};
+
+const drawArrow = (ctx: CanvasRenderingContext2D, x1: number, y1: number, x2: number, y2: number) => {
+  const angle = Math.atan2(y2 - y1, x2 - x1);
+
+  ctx.beginPath();
+  ctx.moveTo(x1, y1);
+  ctx.lineTo(x2, y2);
+  ctx.stroke();
+
+  ctx.beginPath();
+  ctx.moveTo(x2, y2);
+  ctx.lineTo(x2 - ARROW_HEAD_LENGTH * Math.cos(angle - Math.PI / 6), y2 - ARROW_HEAD_LENGTH * Math.sin(angle - Math.PI / 6));
+  ctx.moveTo(x2, y2);
+  ctx.lineTo(x2 - ARROW_HEAD_LENGTH * Math.cos(angle + Math.PI / 6), y2 - ARROW_HEAD_LENGTH * Math.sin(angle + Math.PI / 6));
+  ctx.stroke();
+};
+
+// Drawn first on a cleared canvas, so cutting the holes only removes the dim layer
+const drawSpotlights = (ctx: CanvasRenderingContext2D, spotlights: DrawableAnnotation[]) => {
+  ctx.save();
+  ctx.globalAlpha = Math.max(...spotlights.map((annotation) => annotation.opacity ?? 1));
+  ctx.save();
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+  ctx.fillStyle = SPOTLIGHT_DIM;
+  ctx.fillRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+  ctx.restore();
+  ctx.globalCompositeOperation = 'destination-out';
+  ctx.fillStyle = '#000000';
+  spotlights.forEach((annotation) => {
+    const bounds = getAnnotationBounds(annotation.points);
+    ctx.beginPath();
+    ctx.ellipse(
+      bounds.x + bounds.width / 2,
+      bounds.y + bounds.height / 2,
+      bounds.width / 2,
+      bounds.height / 2,
+      0,
+      0,
+      2 * Math.PI
+    );
+    ctx.fill();
+  });
+  ctx.restore();
+};
+
+const drawAnnotation = (ctx: CanvasRenderingContext2D, annotation: DrawableAnnotation) => {
+  ctx.save();
+  ctx.strokeStyle = annotation.color;
+  ctx.lineWidth = annotation.size;
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+  ctx.globalAlpha = (annotation.tool === 'highlighter' ? 0.3 : 1) * (annotation.opacity ?? 1);
+
+  switch (annotation.tool) {
+    case 'pen':
+    case 'highlighter':
+      if (annotation.points.length < 2) break;
+      ctx.beginPath();
+      ctx.moveTo(annotation.points[0].x, annotation.points[0].y);
+      annotation.points.forEach((point) => {
+        ctx.lineTo(point.x, point.y);
+      });
+      ctx.stroke();
+      break;
+
+    case 'text': {
+      if (!annotation.text) break;
+      ctx.font = `bold ${getAnnotationFontSize(annotation.size)}px sans-serif`;
+      ctx.textBaseline = 'top';
+      ctx.fillStyle = annotation.color;
+      ctx.shadowColor = 'rgba(0, 0, 0, 0.8)';
+      ctx.shadowBlur = 4;
+      ctx.fillText(annotation.text, annotation.points[0].x, annotation.points[0].y);
+      break;
+    }
+
+    case 'step': {
+      const { x, y } = annotation.points[0];
+      const radius = getStepRadius(annotation.size);
+      ctx.beginPath();
+      ctx.arc(x, y, radius, 0, 2 * Math.PI);
+      ctx.fillStyle = annotation.color;
+      ctx.fill();
+      ctx.lineWidth = 2;
+      ctx.strokeStyle = 'rgba(255, 255, 255, 0.9)';
+      ctx.stroke();
+      ctx.font = `bold ${Math.round(radius * 1.1)}px sans-serif`;
+      ctx.textAlign = 'center';
+      ctx.textBaseline = 'middle';
+      ctx.fillStyle = getContrastColor(annotation.color);
+      ctx.fillText(annotation.text ?? '', x, y + 1);
+      break;
+    }
+
+    case 'blur': {
+      if (annotation.points.length < 2) break;
+      const bounds = getAnnotationBounds(annotation.points);
+      if (annotation.patch) {
+        ctx.imageSmoothingEnabled = false;
+        ctx.drawImage(annotation.patch, bounds.x, bounds.y, bounds.width, bounds.height);
+      } else if (annotation.patch === null) {
+        // Without a screen capture the box is filled solid so the area stays hidden
+        ctx.fillStyle = '#1F2937';
+        ctx.fillRect(bounds.x, bounds.y, bounds.width, bounds.height);
+      } else {
+        // Still being drawn, or pixelated elsewhere
+        ctx.setLineDash([6, 4]);
+        ctx.lineWidth = 2;
+        ctx.strokeStyle = '#FFFFFF';
+        ctx.strokeRect(bounds.x, bounds.y, bounds.width, bounds.height);
+      }
+      break;
+    }
+
+    case 'arrow':
+    case 'rectangle':
+    case 'circle': {
+      if (annotation.points.length < 2) break;
+      const start = annotation.points[0];
+      const end = annotation.points[annotation.points.length - 1];
+
+      if (annotation.tool === 'arrow') {
+        drawArrow(ctx, start.x, start.y, end.x, end.y);
+      } else if (annotation.tool === 'rectangle') {
+        ctx.strokeRect(start.x, start.y, end.x - start.x, end.y - start.y);
+      } else {
+        const radius = Math.sqrt(Math.pow(end.x - start.x, 2) + Math.pow(end.y - start.y, 2));
+        ctx.beginPath();
+        ctx.arc(start.x, start.y, radius, 0, 2 * Math.PI);
+        ctx.stroke();
+      }
+      break;
+    }
+
+    case 'spotlight':
+      break;
+  }
+
+  ctx.restore();
+};
+
+/**
+ * Draw annotations in order; spotlights share one dim layer so overlapping ones do not darken each other
+ */
+export const drawAnnotations = (ctx: CanvasRenderingContext2D, annotations: DrawableAnnotation[]) => {
+  const spotlights = annotations.filter((annotation) => annotation.tool === 'spotlight' && annotation.points.length >= 2);
+  if (spotlights.length > 0) {
+    drawSpotlights(ctx, spotlights);
+  }
+  annotations.forEach((annotation) => {
+    if (annotation.tool !== 'spotlight') {
+      drawAnnotation(ctx, annotation);
+    }
+  });
+};
+
+/**
+ * Place a recorded annotation back on a display of the given size
+ */
+export const toDrawableAnnotation = (annotation: AnnotationShape, width: number, height: number): DrawableAnnotation => ({
+  tool: annotation.tool,
+  color: annotation.color,
+  size: annotation.size,
+  points: annotation.points.map((point) => ({ x: point.x * width, y: point.y * height })),
+  text: annotation.text,
+});
+
+/**
+ * Render one annotation to a transparent PNG the size of the display it was drawn on
+ */
+export async function rasterizeAnnotation(annotation: AnnotationShape, width: number, height: number): Promise<Uint8Array> {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Canvas is not available');
+  }
+  drawAnnotations(ctx, [toDrawableAnnotation(annotation, width, height)]);
+  const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, 'image/png'));
+  if (!blob) {
+    throw new Error('Failed to rasterize annotation');
+  }
+  return new Uint8Array(await blob.arrayBuffer());
+}
+
+/**
+ * Whether a recorded annotation is on screen at a source time
+ */
+export const isAnnotationShownAt = (annotation: Annotation, time: number) =>
+  !annotation.hidden && time >= annotation.start && (annotation.end === null || time < annotation.end);
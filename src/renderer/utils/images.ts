@@ -0,0 +1,35 @@
+import { toMediaUrl } from './mediaUrl';
+
+// SVGs without an intrinsic size are drawn at this width
+const DEFAULT_SVG_WIDTH = 512;
+
+export async function loadImage(filePath: string): Promise<HTMLImageElement> {
+  const image = new Image();
+  // The media protocol sends CORS headers, so images drawn on a recording canvas keep it untainted
+  image.crossOrigin = 'anonymous';
+  image.src = toMediaUrl(filePath);
+  await image.decode();
+  return image;
+}
+
+/**
+ * Render an SVG file to PNG bytes since ffmpeg cannot decode SVG
+ */
+export async function rasterizeSvg(filePath: string): Promise<Uint8Array> {
+  const image = await loadImage(filePath);
+  const width = image.naturalWidth || DEFAULT_SVG_WIDTH;
+  const height = image.naturalHeight || width;
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Canvas is not available');
+  }
+  context.drawImage(image, 0, 0, width, height);
+  const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, 'image/png'));
+  if (!blob) {
+    throw new Error('Failed to rasterize SVG');
+  }
+  return new Uint8Array(await blob.arrayBuffer());
+}
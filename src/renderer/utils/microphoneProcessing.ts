@@ -0,0 +1,154 @@
+import type { MicrophoneProcessingSettings } from '../../shared/types';
+
+export const DEFAULT_MICROPHONE_PROCESSING: MicrophoneProcessingSettings = {
+  gain: 0,
+  gate: false,
+  gateThreshold: -50,
+  compressor: false,
+  monitor: false,
+};
+
+// Bottom of the level meter; quieter input shows as an empty bar
+const METER_FLOOR_DB = -60;
+// Cutoffs of the gate's envelope follower and of the smoothing that keeps it from clicking
+const GATE_ENVELOPE_HZ = 10;
+const GATE_SMOOTHING_HZ = 40;
+const CURVE_POINTS = 65537;
+
+export interface MicrophoneChain {
+  stream: MediaStream; // Processed audio for a recorder
+  update: (settings: MicrophoneProcessingSettings) => void;
+  getLevel: () => number; // 0-100 on the meter's dB scale
+  disconnect: () => void;
+}
+
+/**
+ * Whether the settings change the microphone at all, so recording can skip the chain
+ */
+export const isMicrophoneProcessingActive = (settings: MicrophoneProcessingSettings): boolean =>
+  settings.gain !== 0 || settings.gate || settings.compressor;
+
+/**
+ * Position of a dBFS level on the 0-100 meter scale
+ */
+export const decibelsToMeterLevel = (decibels: number): number =>
+  Math.max(0, Math.min(100, ((decibels - METER_FLOOR_DB) / -METER_FLOOR_DB) * 100));
+
+const decibelsToGain = (decibels: number) => Math.pow(10, decibels / 20);
+
+// WaveShaper curves map the input range -1..1 onto these points
+const buildCurve = (map: (x: number) => number) => {
+  const curve = new Float32Array(CURVE_POINTS);
+  for (let index = 0; index < CURVE_POINTS; index += 1) {
+    curve[index] = map((index / (CURVE_POINTS - 1)) * 2 - 1);
+  }
+  return curve;
+};
+
+const createLowpass = (context: AudioContext, frequency: number) => {
+  const filter = context.createBiquadFilter();
+  filter.type = 'lowpass';
+  filter.frequency.value = frequency;
+  return filter;
+};
+
+/**
+ * Input gain, noise gate and compressor, built from native nodes so it keeps running while the window is hidden.
+ * The gate follows the input's envelope and drives the gain of the signal path directly.
+ * With allowMonitor, the processed microphone can be heard on the default output.
+ */
+export function createMicrophoneChain(
+  context: AudioContext,
+  input: MediaStream,
+  settings: MicrophoneProcessingSettings,
+  allowMonitor = false
+): MicrophoneChain {
+  const source = context.createMediaStreamSource(input);
+  const inputGain = context.createGain();
+  const gate = context.createGain();
+  const compressor = context.createDynamicsCompressor();
+  const output = context.createGain();
+  const monitor = context.createGain();
+  const analyser = context.createAnalyser();
+  const destination = context.createMediaStreamDestination();
+
+  // Rectify, follow the envelope, switch at the threshold, then smooth the switch
+  const rectifier = context.createWaveShaper();
+  rectifier.curve = buildCurve(Math.abs);
+  const envelope = createLowpass(context, GATE_ENVELOPE_HZ);
+  const threshold = context.createWaveShaper();
+  const smoothing = createLowpass(context, GATE_SMOOTHING_HZ);
+
+  compressor.threshold.value = -24;
+  compressor.knee.value = 6;
+  compressor.ratio.value = 4;
+  compressor.attack.value = 0.003;
+  compressor.release.value = 0.25;
+  analyser.fftSize = 1024;
+
+  source.connect(inputGain);
+  inputGain.connect(gate);
+  inputGain.connect(rectifier);
+  rectifier.connect(envelope);
+  envelope.connect(threshold);
+  threshold.connect(smoothing);
+  output.connect(destination);
+  output.connect(analyser);
+  output.connect(monitor);
+  monitor.connect(context.destination);
+
+  let gateConnected = false;
+  let compressorRouted: boolean | null = null;
+
+  const update = (next: MicrophoneProcessingSettings) => {
+    inputGain.gain.value = decibelsToGain(next.gain);
+
+    // The gate's gain is the smoothed switch alone while it is on
+    const gateThreshold = decibelsToGain(next.gateThreshold);
+    threshold.curve = buildCurve((x) => (x >= gateThreshold ? 1 : 0));
+    if (next.gate !== gateConnected) {
+      if (next.gate) {
+        smoothing.connect(gate.gain);
+      } else {
+        smoothing.disconnect();
+      }
+      gateConnected = next.gate;
+    }
+    gate.gain.value = next.gate ? 0 : 1;
+
+    if (next.compressor !== compressorRouted) {
+      gate.disconnect();
+      compressor.disconnect();
+      if (next.compressor) {
+        gate.connect(compressor);
+        compressor.connect(output);
+      } else {
+        gate.connect(output);
+      }
+      compressorRouted = next.compressor;
+    }
+
+    monitor.gain.value = allowMonitor && next.monitor ? 1 : 0;
+  };
+
+  update(settings);
+
+  const samples = new Float32Array(analyser.fftSize);
+  const getLevel = () => {
+    analyser.getFloatTimeDomainData(samples);
+    let sum = 0;
+    for (let index = 0; index < samples.length; index += 1) {
+      sum += samples[index] * samples[index];
+    }
+    const rms = Math.sqrt(sum / samples.length);
+    return rms > 0 ? decibelsToMeterLevel(20 * Math.log10(rms)) : 0;
+  };
+
+  const disconnect = () => {
+    [source, inputGain, gate, compressor, output, monitor, rectifier, envelope, threshold, smoothing].forEach((node) =>
+      node.disconnect()
+    );
+  };
+
+  return { stream: destination.stream, update, getLevel, disconnect };
+}
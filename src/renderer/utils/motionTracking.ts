@@ -0,0 +1,150 @@
+import type { CropArea, RedactionPathPoint } from '../../shared/types';
+import { toMediaUrl } from './mediaUrl';
+
+// Frames are compared at this width; the search stays cheap enough to run on the UI thread between seeks
+const ANALYSIS_WIDTH = 320;
+// Seconds between tracked frames
+const TRACKING_STEP = 0.2;
+// How far the box may move between two tracked frames, in analysis pixels
+const SEARCH_RADIUS = 24;
+
+interface GrayFrame {
+  width: number;
+  height: number;
+  pixels: Float32Array;
+}
+
+const seekTo = (video: HTMLVideoElement, time: number) =>
+  new Promise<void>((resolve, reject) => {
+    const handleSeeked = () => {
+      video.removeEventListener('error', handleError);
+      resolve();
+    };
+    const handleError = () => {
+      video.removeEventListener('seeked', handleSeeked);
+      reject(new Error('Failed to seek the video'));
+    };
+    video.addEventListener('seeked', handleSeeked, { once: true });
+    video.addEventListener('error', handleError, { once: true });
+    video.currentTime = time;
+  });
+
+const readGrayFrame = (video: HTMLVideoElement, ctx: CanvasRenderingContext2D): GrayFrame => {
+  const { width, height } = ctx.canvas;
+  ctx.drawImage(video, 0, 0, width, height);
+  const { data } = ctx.getImageData(0, 0, width, height);
+  const pixels = new Float32Array(width * height);
+  for (let index = 0; index < pixels.length; index += 1) {
+    pixels[index] = data[index * 4] * 0.299 + data[index * 4 + 1] * 0.587 + data[index * 4 + 2] * 0.114;
+  }
+  return { width, height, pixels };
+};
+
+const cutTemplate = (frame: GrayFrame, x: number, y: number, width: number, height: number) => {
+  const template = new Float32Array(width * height);
+  for (let row = 0; row < height; row += 1) {
+    template.set(frame.pixels.subarray((y + row) * frame.width + x, (y + row) * frame.width + x + width), row * width);
+  }
+  return template;
+};
+
+// Best match of the template near the previous position by sum of absolute differences
+const findTemplate = (
+  frame: GrayFrame,
+  template: Float32Array,
+  width: number,
+  height: number,
+  previous: { x: number; y: number }
+) => {
+  let best = { x: previous.x, y: previous.y, score: Number.POSITIVE_INFINITY };
+  const minX = Math.max(0, previous.x - SEARCH_RADIUS);
+  const maxX = Math.min(frame.width - width, previous.x + SEARCH_RADIUS);
+  const minY = Math.max(0, previous.y - SEARCH_RADIUS);
+  const maxY = Math.min(frame.height - height, previous.y + SEARCH_RADIUS);
+  for (let y = minY; y <= maxY; y += 1) {
+    for (let x = minX; x <= maxX; x += 1) {
+      let score = 0;
+      for (let row = 0; row < height && score < best.score; row += 1) {
+        const frameOffset = (y + row) * frame.width + x;
+        const templateOffset = row * width;
+        for (let column = 0; column < width; column += 1) {
+          score += Math.abs(frame.pixels[frameOffset + column] - template[templateOffset + column]);
+        }
+      }
+      // Ties keep the box still rather than drifting across flat areas
+      const isCloser = Math.abs(x - previous.x) + Math.abs(y - previous.y) < Math.abs(best.x - previous.x) + Math.abs(best.y - previous.y);
+      if (score < best.score || (score === best.score && isCloser)) {
+        best = { x, y, score };
+      }
+    }
+  }
+  return best;
+};
+
+/**
+ * Follow the content under a box through a time range of a video by template matching against the first frame.
+ * Positions are returned as the box corner in percent of the frame, with times from `start`.
+ */
+export async function trackRegion(
+  videoPath: string,
+  start: number,
+  end: number,
+  area: CropArea,
+  onProgress?: (progress: number) => void,
+  signal?: AbortSignal
+): Promise<RedactionPathPoint[]> {
+  const video = document.createElement('video');
+  video.muted = true;
+  video.preload = 'auto';
+  // The media protocol sends CORS headers, so frames can be read back from the canvas
+  video.crossOrigin = 'anonymous';
+  video.src = toMediaUrl(videoPath);
+  await new Promise<void>((resolve, reject) => {
+    video.addEventListener('loadeddata', () => resolve(), { once: true });
+    video.addEventListener('error', () => reject(new Error('Failed to load the video')), { once: true });
+  });
+
+  try {
+    const canvas = document.createElement('canvas');
+    canvas.width = ANALYSIS_WIDTH;
+    canvas.height = Math.max(1, Math.round((ANALYSIS_WIDTH * video.videoHeight) / video.videoWidth));
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) {
+      throw new Error('Canvas is not available');
+    }
+
+    const width = Math.max(4, Math.min(canvas.width, Math.round((area.width / 100) * canvas.width)));
+    const height = Math.max(4, Math.min(canvas.height, Math.round((area.height / 100) * canvas.height)));
+    const origin = {
+      x: Math.min(canvas.width - width, Math.max(0, Math.round((area.x / 100) * canvas.width))),
+      y: Math.min(canvas.height - height, Math.max(0, Math.round((area.y / 100) * canvas.height))),
+    };
+    let position = origin;
+
+    await seekTo(video, start);
+    const template = cutTemplate(readGrayFrame(video, ctx), origin.x, origin.y, width, height);
+    // Moves are added to the drawn position so the box keeps its exact placement
+    const path: RedactionPathPoint[] = [{ time: 0, x: area.x, y: area.y }];
+    const duration = end - start;
+
+    for (let time = TRACKING_STEP; time < duration + TRACKING_STEP / 2; time += TRACKING_STEP) {
+      if (signal?.aborted) {
+        throw new Error('Tracking cancelled');
+      }
+      const frameTime = Math.min(time, duration);
+      await seekTo(video, start + frameTime);
+      const match = findTemplate(readGrayFrame(video, ctx), template, width, height, position);
+      position = { x: match.x, y: match.y };
+      path.push({
+        time: frameTime,
+        x: area.x + ((position.x - origin.x) / canvas.width) * 100,
+        y: area.y + ((position.y - origin.y) / canvas.height) * 100,
+      });
+      onProgress?.(Math.min(100, Math.round((frameTime / duration) * 100)));
+    }
+    return path;
+  } finally {
+    video.removeAttribute('src');
+    video.load();
+  }
+}
@@ -0,0 +1,32 @@
+import type { ExportFormat, ExportPreset } from '../types';
+
+export interface ExportFormatConfig {
+  label: string;
+  extension: string;
+  kind: 'video' | 'gif' | 'audio'; // Only videos are added to the library
+}
+
+export const EXPORT_FORMATS: Record<ExportFormat, ExportFormatConfig> = {
+  mp4: { label: 'MP4 (H.264)', extension: '.mp4', kind: 'video' },
+  'mp4-h265': { label: 'MP4 (H.265)', extension: '.mp4', kind: 'video' },
+  'webm-vp9': { label: 'WebM (VP9)', extension: '.webm', kind: 'video' },
+  'webm-av1': { label: 'WebM (AV1)', extension: '.webm', kind: 'video' },
+  gif: { label: 'Animated GIF', extension: '.gif', kind: 'gif' },
+  mp3: { label: 'MP3 Audio', extension: '.mp3', kind: 'audio' },
+  wav: { label: 'WAV Audio', extension: '.wav', kind: 'audio' },
+  m4a: { label: 'M4A Audio', extension: '.m4a', kind: 'audio' },
+};
+
+export const BUILT_IN_EXPORT_PRESETS: ExportPreset[] = [
+  { id: 'source', label: 'Source', format: 'mp4', width: 0, height: 0, bitrate: '' },
+  { id: '1080p', label: '1080p (16:9)', format: 'mp4', width: 1920, height: 1080, bitrate: '8000k' },
+  { id: '720p', label: '720p (16:9)', format: 'mp4', width: 1280, height: 720, bitrate: '5000k' },
+  { id: 'shorts', label: 'Shorts (9:16)', format: 'mp4', width: 1080, height: 1920, bitrate: '6000k' },
+  { id: 'h265-1080p', label: '1080p H.265', format: 'mp4-h265', width: 1920, height: 1080, bitrate: '5000k' },
+  { id: 'webm-vp9', label: 'WebM VP9', format: 'webm-vp9', width: 0, height: 0, bitrate: '' },
+  { id: 'webm-av1', label: 'WebM AV1', format: 'webm-av1', width: 0, height: 0, bitrate: '' },
+  { id: 'gif', label: 'GIF (640px, 12 fps)', format: 'gif', width: 640, height: 0, bitrate: '', fps: 12 },
+  { id: 'mp3', label: 'MP3 Audio', format: 'mp3', width: 0, height: 0, bitrate: '192k' },
+  { id: 'wav', label: 'WAV Audio', format: 'wav', width: 0, height: 0, bitrate: '' },
+  { id: 'm4a', label: 'M4A Audio', format: 'm4a', width: 0, height: 0, bitrate: '192k' },
+];
@@ -0,0 +1,41 @@
+export type AnnotationTool =
+  | 'pen'
+  | 'arrow'
+  | 'rectangle'
+  | 'circle'
+  | 'highlighter'
+  | 'text'
+  | 'step'
+  | 'blur'
+  | 'spotlight';
+
+// Points are normalised to the display the overlay covers (0-1); a layer of an area recording uses the captured area
+export interface AnnotationPoint {
+  x: number;
+  y: number;
+}
+
+// A drawing action as sent by the overlay, before it is timed
+export interface AnnotationShape {
+  id: string;
+  tool: AnnotationTool;
+  color: string;
+  size: number; // Stroke width in DIPs of the display
+  points: AnnotationPoint[];
+  text?: string; // Label text, or the number of a step badge
+}
+
+// Times are seconds from the start of the recording
+export interface Annotation extends AnnotationShape {
+  start: number;
+  end: number | null; // When it was undone, cleared or faded out; null keeps it to the end
+  hidden?: boolean; // Hidden in the editor and left out of exports
+}
+
+// Sidecar saved next to a recording drawn on with the overlay excluded from capture
+export interface AnnotationLayer {
+  recordingId: string;
+  width: number; // Size of the captured display or area in DIPs
+  height: number;
+  annotations: Annotation[];
+}
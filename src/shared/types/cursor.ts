@@ -0,0 +1,23 @@
+// Cursor positions are normalised to the captured display or area (0-1) and timed in seconds from the start of the recording
+export interface CursorSample {
+  time: number;
+  x: number;
+  y: number;
+}
+
+export type CursorButton = 'left' | 'right' | 'middle';
+
+export interface CursorClick extends CursorSample {
+  button: CursorButton;
+}
+
+// Sidecar saved next to a recording; samples are only written when the cursor moves
+export interface CursorTrack {
+  recordingId: string;
+  displayId: number;
+  width: number; // Size of the captured display or area in DIPs
+  height: number;
+  samples: CursorSample[];
+  clicks: CursorClick[];
+  clicksTracked?: boolean; // False when the click hook was unavailable; older tracks leave it out
+}
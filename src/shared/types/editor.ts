@@ -1,13 +1,225 @@
+import type { SubtitleCue } from './transcript';
+import type { Annotation } from './annotation';
+import type { AudioTrackKind } from './index';
+
 export interface TimelineClip {
   id: string;
   sourcePath: string;
   sourceStart: number;
   sourceEnd: number;
+  sourceDuration?: number; // Length of the source file, for clips from other recordings
+  sourceName?: string;
+}
+
+export type Easing = 'linear' | 'ease-in' | 'ease-out' | 'ease-in-out';
+
+export interface TextKeyframe {
+  id: string;
+  time: number; // Seconds from the overlay start
+  x: number; // Percent
+  y: number; // Percent
+  scale: number; // Multiplier of the font size
+  opacity: number; // 0-1
+  rotation: number; // Degrees clockwise around the anchor
+  easing: Easing; // Curve of the move into this keyframe
+}
+
+export type TextReveal = 'none' | 'typewriter';
+
+export interface TextOverlay {
+  id: string;
+  text: string;
+  x: number; // Percent; the anchor is the top of the text at its aligned edge
+  y: number; // Percent
+  // Legacy single linear move from x/y, superseded by keyframes
+  endX?: number;
+  endY?: number;
+  animate?: boolean;
+  keyframes?: TextKeyframe[];
+  fadeIn?: number; // Seconds
+  fadeOut?: number;
+  reveal?: TextReveal;
+  revealDuration?: number; // Seconds the typewriter takes to show the whole text
+  fontSize: number;
+  color: string;
+  bold: boolean;
+  italic: boolean;
+  fontFamily: string;
+  align: 'left' | 'center' | 'right';
+  timestamp: number; // Start time in seconds
+  duration: number; // Duration in seconds
+}
+
+export interface ImageOverlay {
+  id: string;
+  name: string;
+  path: string; // PNG, JPEG, WebP or GIF; SVGs are rasterised to PNG when added
+  x: number; // Percent; top-left corner
+  y: number; // Percent
+  width: number; // Percent of the frame width; the height follows the image
+  opacity: number; // 0-1
+  timestamp: number; // Start time in seconds
+  duration: number; // Duration in seconds
+}
+
+export interface CropArea {
+  // Percent values relative to the video frame
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Cues are timed against their source file like clips, so splits and trims carry them along
+export interface SubtitleTrackCue extends SubtitleCue {
+  sourcePath: string;
+}
+
+export type SubtitleExportMode = 'burn' | 'soft';
+
+export interface SubtitleStyle {
+  fontFamily: string;
+  fontSize: number; // libass units, relative to a 288px tall frame
+  color: string;
+  bold: boolean;
+  italic: boolean;
+}
+
+export interface SubtitleTrack {
+  cues: SubtitleTrackCue[];
+  mode: SubtitleExportMode;
+  style: SubtitleStyle;
+}
+
+// Follow-the-cursor zoom, timed against its source file like subtitle cues
+export interface CursorZoomSegment {
+  id: string;
+  sourcePath: string;
+  start: number;
+  end: number;
+  scale: number;
+}
+
+export interface CursorEffects {
+  highlight: boolean;
+  highlightColor: string;
+  highlightSize: number; // Halo radius as a percent of the frame height
+  clickRipples: boolean;
+  rippleColor: string;
+  zoomSegments: CursorZoomSegment[];
+}
+
+// Percent of the frame on both axes, so the zoomed view keeps the output aspect ratio
+export interface ZoomRect {
+  x: number;
+  y: number;
+  size: number;
+}
+
+export interface ZoomKeyframe {
+  id: string;
+  time: number; // Seconds from the segment start
+  rect: ZoomRect;
+}
+
+// Zooms from the full frame through its keyframes and back out; timed against its source file
+export interface ZoomSegment {
+  id: string;
+  sourcePath: string;
+  start: number;
+  end: number;
+  easing: Easing;
+  keyframes: ZoomKeyframe[];
+}
+
+export type RedactionStyle = 'blur' | 'pixelate';
+
+export interface RedactionPathPoint {
+  time: number; // Seconds from the redaction start
+  x: number; // Box corner in percent of the frame
+  y: number;
+}
+
+// Hides part of the picture for a time range; timed against its source file
+export interface Redaction {
+  id: string;
+  sourcePath: string;
+  start: number;
+  end: number;
+  area: CropArea; // Percent of the frame
+  style: RedactionStyle;
+  path?: RedactionPathPoint[]; // Found by motion tracking; without it the box stays put
+}
+
+// A recording's annotation layer as edited in the editor; annotation times are source times
+export interface AnnotationTrack {
+  sourcePath: string;
+  width: number; // Display size the annotations were drawn on, in DIPs
+  height: number;
+  annotations: Annotation[];
+}
+
+// Pause in a source's audio found by silence detection, in source seconds
+export interface SilenceRange {
+  start: number;
+  end: number;
+}
+
+export interface SilenceDetectionOptions {
+  threshold: number; // Level in dB below which audio counts as silence
+  minDuration: number; // Shortest pause reported, in seconds
+}
+
+export interface AudioLevelSettings {
+  volume: number;
+  muted: boolean;
+  fadeIn: number;
+  fadeOut: number;
+}
+
+export type AudioEnhancementPreset = 'raw' | 'voice' | 'podcast';
+
+// Cleanup chain run over the finished mix, in this order
+export interface AudioEnhancement {
+  highPass: number; // Cutoff in Hz, 0 keeps the lows
+  denoise: number; // FFT noise reduction in dB, 0 skips it
+  compressorRatio: number; // 1 skips compression
+  limiter: boolean;
+  loudnessTarget: number | null; // Integrated loudness in LUFS, reached with two-pass loudnorm
+}
+
+// Music laid under the edited timeline from its start; the master level does not apply to it
+export interface BackgroundMusic extends AudioLevelSettings {
+  path: string;
+  name: string;
+  duration: number; // Seconds of the music file
+  loop: boolean; // Repeat until the timeline ends
+  duck: boolean; // Lower the music while the voice is speaking
+  duckRatio: number; // Compression ratio applied while the voice is above the threshold
+}
+
+export interface EditorAudioSettings extends AudioLevelSettings {
+  tracks?: Partial<Record<AudioTrackKind, AudioLevelSettings>>; // Separately recorded tracks, mixed before the master level
+  enhancement?: AudioEnhancementPreset;
+  music?: BackgroundMusic | null;
 }
 
+// Saved editor state; clips reference source files instead of rendered output
 export interface TimelineProject {
   id: string;
   name: string;
+  recordingId: string;
   clips: TimelineClip[];
+  cropArea: CropArea | null;
+  textOverlays: TextOverlay[];
+  imageOverlays?: ImageOverlay[];
+  subtitles?: SubtitleTrack;
+  cursorEffects?: CursorEffects;
+  zoomSegments?: ZoomSegment[];
+  annotationTracks?: AnnotationTrack[];
+  redactions?: Redaction[];
+  audioSettings: EditorAudioSettings;
+  exportPresetId: string;
   createdAt: string;
+  updatedAt: string;
 }
@@ -0,0 +1,90 @@
+import type { QualityPreset, RecordingAudioTrack } from './index';
+import type {
+  TimelineClip,
+  CropArea,
+  TextOverlay,
+  ImageOverlay,
+  SubtitleTrack,
+  CursorEffects,
+  ZoomSegment,
+  Redaction,
+  EditorAudioSettings,
+} from './editor';
+
+export type ExportEncoder = 'auto' | 'cpu' | 'nvenc' | 'qsv' | 'amf';
+
+// Result of the ffmpeg encoder probe; hardware encoders are only listed once a test encode succeeds
+export interface EncoderCapabilities {
+  available: ExportEncoder[]; // Always includes 'auto' and 'cpu'
+  videoEncoders: string[]; // ffmpeg encoder names, e.g. h264_nvenc
+}
+
+// mp4 is H.264; the audio formats drop the video
+export type ExportFormat = 'mp4' | 'mp4-h265' | 'webm-vp9' | 'webm-av1' | 'gif' | 'mp3' | 'wav' | 'm4a';
+
+export interface ExportPresetOptions {
+  id: string;
+  format?: ExportFormat; // Defaults to mp4
+  width: number; // 0 keeps the source size; a GIF keeps its aspect ratio and only uses the width
+  height: number;
+  bitrate: string; // Audio bitrate for the audio formats
+  fps?: number; // GIF frame rate
+}
+
+// A preset the editor offers; user-defined ones are saved in the settings
+export interface ExportPreset extends ExportPresetOptions {
+  label: string;
+}
+
+// An annotation rasterised by the editor, timed against its source file
+export interface AnnotationRenderItem {
+  sourcePath: string;
+  start: number;
+  end: number | null; // null runs to the end of the source
+  imagePath?: string; // Transparent PNG covering the whole frame
+  pixelate?: CropArea; // Blur boxes are pixelated from the video instead
+}
+
+// A separately recorded track of one of the edit's source files
+export interface SourceAudioTrack extends RecordingAudioTrack {
+  sourcePath: string;
+}
+
+// Everything the main process needs to render an edit without the editor open
+export interface ExportJobRequest {
+  recordingId: string;
+  name: string;
+  sourcePath: string;
+  sourceDuration: number;
+  quality: QualityPreset;
+  clips: TimelineClip[];
+  cropArea: CropArea | null;
+  textOverlays: TextOverlay[];
+  imageOverlays?: ImageOverlay[];
+  subtitles?: SubtitleTrack;
+  cursorEffects?: CursorEffects;
+  zoomSegments?: ZoomSegment[];
+  annotations?: AnnotationRenderItem[];
+  redactions?: Redaction[];
+  audioSettings: EditorAudioSettings;
+  audioTracks?: SourceAudioTrack[];
+  preset: ExportPresetOptions;
+  encoder: ExportEncoder;
+  optimizeForSize: boolean;
+}
+
+export type ExportJobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface ExportJob {
+  id: string;
+  request: ExportJobRequest;
+  status: ExportJobStatus;
+  stage: string;
+  progress: number; // Overall percent across all stages
+  error?: string;
+  outputRecordingId?: string; // Unset for GIF and audio exports, which are only saved to the folder
+  outputPath?: string;
+  createdAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+}
@@ -1,3 +1,9 @@
+import type { AudioEnhancementPreset, SilenceDetectionOptions, SilenceRange, TimelineProject } from './editor';
+import type { EncoderCapabilities, ExportJob, ExportJobRequest, ExportPreset } from './exportQueue';
+import type { RecordingTranscription, SubtitleFormat, Transcript, TranscriptionSettings } from './transcript';
+import type { CursorTrack } from './cursor';
+import type { AnnotationLayer, AnnotationShape } from './annotation';
+
 // Recording types
 export interface RecordingOptions {
   sourceId: string;
@@ -18,6 +24,36 @@ export interface RecordingSaveRequest {
   mimeType: string;
   duration: number;
   quality: QualityPreset;
+  markers?: RecordingMarker[];
+}
+
+// Dropped with the marker shortcut while recording; exported as chapters
+export interface RecordingMarker {
+  id: string;
+  time: number; // Seconds from the start of the recording
+  label: string;
+}
+
+// Microphone and system audio recorded apart from the mixed track so the editor can rebalance them
+export type AudioTrackKind = 'microphone' | 'system';
+
+export interface RecordingAudioTrack {
+  kind: AudioTrackKind;
+  path: string;
+  offset: number; // Seconds the track starts after the video
+}
+
+// A separate track as sent from the renderer once recording stops
+export interface AudioTrackUpload {
+  kind: AudioTrackKind;
+  buffer: ArrayBuffer;
+  offset: number;
+}
+
+export interface RecordingFinalizeMeta {
+  duration: number;
+  quality: QualityPreset;
+  markers?: RecordingMarker[];
 }
 
 export interface RecordingRegisterRequest {
@@ -25,6 +61,7 @@ export interface RecordingRegisterRequest {
   duration: number;
   quality: QualityPreset;
   name?: string;
+  markers?: RecordingMarker[];
 }
 
 export interface Recording {
@@ -37,6 +74,32 @@ export interface Recording {
   createdAt: string;
   thumbnailPath?: string;
   deletedAt?: string | null;
+  conversion?: RecordingConversion | null;
+  enhancement?: RecordingEnhancement | null;
+  markers?: RecordingMarker[];
+  transcription?: RecordingTranscription | null;
+  hasTranscript?: boolean;
+  hasCursorTrack?: boolean;
+  hasAnnotations?: boolean;
+  audioTracks?: RecordingAudioTrack[];
+}
+
+// Background WebM -> MP4 conversion; cleared once the MP4 replaces the original
+export type RecordingConversionStatus = 'queued' | 'converting' | 'failed';
+
+export interface RecordingConversion {
+  status: RecordingConversionStatus;
+  progress: number;
+  error?: string;
+}
+
+// Automatic audio cleanup of a new recording; cleared once the cleaned file replaces the original
+export type RecordingEnhancementStatus = 'queued' | 'enhancing' | 'failed';
+
+export interface RecordingEnhancement {
+  status: RecordingEnhancementStatus;
+  progress: number;
+  error?: string;
 }
 
 export type RecordingStatus = 'idle' | 'recording' | 'paused' | 'processing';
@@ -62,6 +125,7 @@ export interface AppSettings {
     startStop: string;
     pause: string;
     drawing: string;
+    marker: string;
   };
   webcam: {
     shape: 'circle' | 'rounded' | 'square';
@@ -71,6 +135,63 @@ export interface AppSettings {
     positionBySource?: Record<string, { x: number; y: number }>;
     deviceId?: string | null;
   };
+  captureRegionByDisplay?: Record<string, CaptureRegion>;
+  mp4Conversion?: Mp4ConversionMode;
+  useHardwareEncoder?: boolean;
+  transcription?: TranscriptionSettings;
+  watermark?: WatermarkSettings;
+  drawing?: DrawingSettings;
+  separateAudioTracks?: boolean;
+  audioCleanup?: AudioCleanupSettings;
+  microphoneProcessing?: MicrophoneProcessingSettings;
+  exportPresets?: ExportPreset[]; // User-defined, listed after the built-in ones
+}
+
+// Web Audio chain the microphone runs through before it is recorded
+export interface MicrophoneProcessingSettings {
+  gain: number; // dB
+  gate: boolean;
+  gateThreshold: number; // dBFS; quieter input is silenced
+  compressor: boolean;
+  monitor: boolean; // Play the processed microphone on the default output
+}
+
+// Cleanup applied to every new recording before it is converted or transcribed
+export interface AudioCleanupSettings {
+  autoEnhance: boolean;
+  preset: AudioEnhancementPreset;
+  rnnoiseModelPath: string; // Optional RNNoise model for arnndn; FFT denoising is used without one
+}
+
+export type WatermarkPosition = 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right' | 'center';
+
+// Image composited into every recording while it is captured
+export interface WatermarkSettings {
+  enabled: boolean;
+  imagePath: string;
+  position: WatermarkPosition;
+  size: number; // Percent of the frame width
+  opacity: number; // 0-1
+}
+
+// Drawing overlay behavior for live demos
+export interface DrawingSettings {
+  fadeStrokes: boolean; // Laser-pointer mode
+  fadeAfter: number; // Seconds a stroke stays before fading out
+  autoClear: boolean;
+  autoClearAfter: number; // Seconds without drawing before all annotations are cleared
+  recordAsLayer?: boolean; // Save drawings as an editable layer, with the overlay kept out of captures that get one
+}
+
+// What happens to WebM recordings once they are saved
+export type Mp4ConversionMode = 'off' | 'remux' | 'transcode';
+
+// Region capture (fractions of the display, 0-1)
+export interface CaptureRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
 }
 
 // Source types
@@ -80,6 +201,7 @@ export interface SourceInfo {
   thumbnail: string;
   appIcon?: string;
   display_id?: string;
+  region?: CaptureRegion;
 }
 
 export interface DisplayInfo {
@@ -104,7 +226,60 @@ export interface VideoDevice {
   label: string;
 }
 
-export type { TimelineClip, TimelineProject } from './editor';
+export type {
+  TimelineClip,
+  TimelineProject,
+  Easing,
+  TextKeyframe,
+  TextReveal,
+  TextOverlay,
+  ImageOverlay,
+  CropArea,
+  SubtitleTrackCue,
+  SubtitleExportMode,
+  SubtitleStyle,
+  SubtitleTrack,
+  CursorZoomSegment,
+  CursorEffects,
+  ZoomRect,
+  ZoomKeyframe,
+  ZoomSegment,
+  AnnotationTrack,
+  RedactionStyle,
+  RedactionPathPoint,
+  Redaction,
+  SilenceRange,
+  SilenceDetectionOptions,
+  AudioLevelSettings,
+  AudioEnhancementPreset,
+  AudioEnhancement,
+  BackgroundMusic,
+  EditorAudioSettings,
+} from './editor';
+export type {
+  ExportEncoder,
+  EncoderCapabilities,
+  ExportFormat,
+  ExportPresetOptions,
+  ExportPreset,
+  ExportJobRequest,
+  AnnotationRenderItem,
+  SourceAudioTrack,
+  ExportJobStatus,
+  ExportJob,
+} from './exportQueue';
+export type {
+  SubtitleCue,
+  SubtitleFormat,
+  TranscriptWord,
+  TranscriptSegment,
+  Transcript,
+  TranscriptionStatus,
+  RecordingTranscription,
+  TranscriptionSettings,
+} from './transcript';
+export type { CursorSample, CursorButton, CursorClick, CursorTrack } from './cursor';
+export type { AnnotationTool, AnnotationPoint, AnnotationShape, Annotation, AnnotationLayer } from './annotation';
 
 // IPC channel types
 export interface IPCChannels {
@@ -127,8 +302,36 @@ export interface IPCChannels {
   'recording:progress': RecordingProgress;
   'recording:beginRecovery': (mimeType: string) => { id: string; path: string };
   'recording:appendRecovery': (id: string, buffer: ArrayBuffer) => void;
-  'recording:finalizeRecovery': (id: string, meta: { duration: number; quality: QualityPreset }) => Recording;
+  'recording:finalizeRecovery': (id: string, meta: RecordingFinalizeMeta) => Recording;
   'recording:discardRecovery': (id: string) => void;
+  'recording:stageAudioTracks': (tracks: AudioTrackUpload[]) => void;
+  'recording:discardAudioTracks': () => void;
+  'recording:convertToMp4': (id: string) => void;
+  'recording:updated': Recording;
+  'recording:transcribe': (id: string) => void;
+  'recording:enhanceAudio': (id: string) => void;
+
+  // Transcripts
+  'transcript:get': (recordingId: string) => Transcript | null;
+  'transcript:search': (query: string) => string[];
+  'transcript:export': (recordingId: string, format: SubtitleFormat) => string | null;
+
+  // Cursor tracking
+  'cursor:start': (displayId: number | null, region: CaptureRegion | null) => void;
+  'cursor:pause': () => void;
+  'cursor:resume': () => void;
+  'cursor:discard': () => void;
+  'cursor:getTrack': (recordingId: string) => CursorTrack | null;
+
+  // Annotation layer
+  'annotations:start': (displayId: number | null, region: CaptureRegion | null) => void;
+  'annotations:pause': () => void;
+  'annotations:resume': () => void;
+  'annotations:discard': () => void;
+  'annotations:add': (shape: AnnotationShape) => void;
+  'annotations:remove': (ids: string[]) => void;
+  'annotations:getLayer': (recordingId: string) => AnnotationLayer | null;
+  'annotations:started': void;
 
   // Media
   'media:getAudioDevices': () => AudioDevice[];
@@ -143,6 +346,21 @@ export interface IPCChannels {
   'storage:revealRecording': (id: string) => void;
   'storage:openFolder': () => void;
   'storage:selectFolder': () => string | null;
+  'storage:selectFile': (options: { title: string; filters?: { name: string; extensions: string[] }[] }) => string | null;
+  'storage:saveOverlayImage': (data: Uint8Array) => string;
+
+  // Editor projects
+  'project:list': () => TimelineProject[];
+  'project:get': (id: string) => TimelineProject | null;
+  'project:save': (project: TimelineProject) => TimelineProject;
+  'project:delete': (id: string) => void;
+
+  // Export queue
+  'exportQueue:add': (request: ExportJobRequest) => ExportJob;
+  'exportQueue:list': () => ExportJob[];
+  'exportQueue:cancel': (id: string) => void;
+  'exportQueue:clearFinished': () => void;
+  'exportQueue:updated': ExportJob;
 
   // Settings
   'settings:get': () => AppSettings;
@@ -150,4 +368,6 @@ export interface IPCChannels {
 
   // Encoding
   'encoding:progress': number;
+  'ffmpeg:getEncoders': () => EncoderCapabilities;
+  'ffmpeg:detectSilences': (sourcePath: string, options: SilenceDetectionOptions) => SilenceRange[];
 }
@@ -0,0 +1,43 @@
+// Captions and transcripts (times are seconds from the start of the recording)
+export interface SubtitleCue {
+  id: string;
+  start: number;
+  end: number;
+  text: string;
+}
+
+export interface TranscriptWord {
+  text: string;
+  start: number;
+  end: number;
+}
+
+export interface TranscriptSegment extends SubtitleCue {
+  words: TranscriptWord[];
+}
+
+export interface Transcript {
+  recordingId: string;
+  language: string;
+  createdAt: string;
+  segments: TranscriptSegment[];
+}
+
+// Background speech-to-text run; cleared once the transcript is stored
+export type TranscriptionStatus = 'queued' | 'transcribing' | 'failed';
+
+export interface RecordingTranscription {
+  status: TranscriptionStatus;
+  progress: number;
+  error?: string;
+}
+
+// Offline whisper.cpp setup; nothing is sent over the network
+export interface TranscriptionSettings {
+  binaryPath: string;
+  modelPath: string;
+  language: string; // 'auto' or an ISO 639-1 code
+  autoTranscribe: boolean;
+}
+
+export type SubtitleFormat = 'srt' | 'vtt';
@@ -0,0 +1,27 @@
+import type { AudioEnhancement, AudioEnhancementPreset, AudioLevelSettings } from '../types';
+
+export const DEFAULT_AUDIO_LEVEL: AudioLevelSettings = {
+  volume: 100,
+  muted: false,
+  fadeIn: 0,
+  fadeOut: 0,
+};
+
+/**
+ * Whether a level changes the audio at all, so untouched edits can skip a render
+ */
+export const isAudioLevelChanged = (level: AudioLevelSettings): boolean =>
+  level.muted || level.volume !== 100 || level.fadeIn > 0 || level.fadeOut > 0;
+
+// Raw leaves the audio alone; Podcast cleans harder and compresses to a steadier level than Voice
+export const AUDIO_ENHANCEMENT_PRESETS: Record<AudioEnhancementPreset, AudioEnhancement> = {
+  raw: { highPass: 0, denoise: 0, compressorRatio: 1, limiter: false, loudnessTarget: null },
+  voice: { highPass: 80, denoise: 12, compressorRatio: 2.5, limiter: false, loudnessTarget: -16 },
+  podcast: { highPass: 100, denoise: 20, compressorRatio: 4, limiter: true, loudnessTarget: -16 },
+};
+
+export const AUDIO_ENHANCEMENT_LABELS: Record<AudioEnhancementPreset, string> = {
+  raw: 'Raw',
+  voice: 'Voice',
+  podcast: 'Podcast',
+};
@@ -0,0 +1,95 @@
+import type {
+  AnnotationRenderItem,
+  AnnotationTrack,
+  CursorEffects,
+  Redaction,
+  SourceAudioTrack,
+  SubtitleTrack,
+  TimelineClip,
+  ZoomSegment,
+} from '../types';
+
+// Pieces shorter than this are dropped instead of becoming clips of their own
+const MIN_CLIP_LENGTH = 0.1;
+
+export interface SourceRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Split a clip so the given source ranges are left out; the first piece keeps the clip's id so it stays selected
+ */
+export const cutRangesFromClip = (clip: TimelineClip, ranges: SourceRange[]): TimelineClip[] => {
+  const cuts = ranges
+    .map((range) => ({
+      start: Math.max(clip.sourceStart, range.start),
+      end: Math.min(clip.sourceEnd, range.end),
+    }))
+    .filter((cut) => cut.end - cut.start > 0)
+    .sort((a, b) => a.start - b.start);
+  if (cuts.length === 0) return [clip];
+
+  const pieces: SourceRange[] = [];
+  let position = clip.sourceStart;
+  cuts.forEach((cut) => {
+    if (cut.start > position) {
+      pieces.push({ start: position, end: cut.start });
+    }
+    position = Math.max(position, cut.end);
+  });
+  if (clip.sourceEnd > position) {
+    pieces.push({ start: position, end: clip.sourceEnd });
+  }
+
+  return pieces
+    .filter((piece) => piece.end - piece.start >= MIN_CLIP_LENGTH)
+    .map((piece, index) => ({
+      ...clip,
+      id: index === 0 ? clip.id : crypto.randomUUID(),
+      sourceStart: piece.start,
+      sourceEnd: piece.end,
+    }));
+};
+
+/**
+ * Cut source ranges out of every clip of one source file, keeping the timeline order
+ */
+export const cutRangesFromClips = (clips: TimelineClip[], sourcePath: string, ranges: SourceRange[]): TimelineClip[] =>
+  clips.flatMap((clip) => (clip.sourcePath === sourcePath ? cutRangesFromClip(clip, ranges) : [clip]));
+
+// The parts of a saved project, queued export or editor snapshot that point at source files
+export interface SourceLinkedEdit {
+  clips: TimelineClip[];
+  subtitles?: SubtitleTrack;
+  cursorEffects?: CursorEffects;
+  zoomSegments?: ZoomSegment[];
+  annotationTracks?: AnnotationTrack[];
+  annotations?: AnnotationRenderItem[];
+  redactions?: Redaction[];
+  audioTracks?: SourceAudioTrack[];
+}
+
+export const relinkSourcePaths = <T extends { sourcePath: string }>(items: T[], fromPath: string, toPath: string): T[] =>
+  items.map((item) => (item.sourcePath === fromPath ? { ...item, sourcePath: toPath } : item));
+
+/**
+ * Point everything an edit keeps per source file at a file that moved, e.g. a WebM replaced by its MP4 conversion.
+ * Items left on the old path would be dropped from exports, which only keep what matches a clip.
+ */
+export const relinkEditSource = <T extends SourceLinkedEdit>(edit: T, fromPath: string, toPath: string): T => {
+  const relink = <U extends { sourcePath: string }>(items: U[]) => relinkSourcePaths(items, fromPath, toPath);
+  return {
+    ...edit,
+    clips: relink(edit.clips),
+    ...(edit.subtitles && { subtitles: { ...edit.subtitles, cues: relink(edit.subtitles.cues) } }),
+    ...(edit.cursorEffects && {
+      cursorEffects: { ...edit.cursorEffects, zoomSegments: relink(edit.cursorEffects.zoomSegments) },
+    }),
+    ...(edit.zoomSegments && { zoomSegments: relink(edit.zoomSegments) }),
+    ...(edit.annotationTracks && { annotationTracks: relink(edit.annotationTracks) }),
+    ...(edit.annotations && { annotations: relink(edit.annotations) }),
+    ...(edit.redactions && { redactions: relink(edit.redactions) }),
+    ...(edit.audioTracks && { audioTracks: relink(edit.audioTracks) }),
+  };
+};
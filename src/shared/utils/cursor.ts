@@ -0,0 +1,103 @@
+import type { CursorClick, CursorSample } from '../types';
+
+// Seconds spent easing into and out of a zoom segment
+export const CURSOR_ZOOM_RAMP = 0.6;
+// How long a click ripple takes to expand and fade out
+export const CLICK_RIPPLE_DURATION = 0.5;
+// The zoom follows the average cursor position over this window so small movements don't shake the frame
+const ZOOM_FOCUS_WINDOW = 1;
+const ZOOM_FOCUS_STEP = 0.1;
+// Suggested zooms start a little before a click and linger after it; overlapping ones merge
+const CLICK_ZOOM_LEAD = 1;
+const CLICK_ZOOM_TAIL = 2;
+
+export interface ZoomRange {
+  start: number;
+  end: number;
+  scale: number;
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+export const isCursorOnScreen = (sample: CursorSample) =>
+  sample.x >= 0 && sample.x <= 1 && sample.y >= 0 && sample.y <= 1;
+
+/**
+ * Last sample at or before the given time; samples are sorted and only written on movement
+ */
+export const getCursorPosition = (samples: CursorSample[], time: number): CursorSample | null => {
+  let low = 0;
+  let high = samples.length - 1;
+  let found: CursorSample | null = null;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (samples[mid].time <= time) {
+      found = samples[mid];
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return found;
+};
+
+/**
+ * Eased zoom factor at a time; the first range containing the time wins
+ */
+export const getZoomScale = (ranges: ZoomRange[], time: number): number => {
+  const range = ranges.find((item) => time >= item.start && time < item.end);
+  if (!range) return 1;
+  const ramp = Math.min(CURSOR_ZOOM_RAMP, (range.end - range.start) / 2);
+  const progress = clamp(Math.min(time - range.start, range.end - time) / ramp, 0, 1);
+  const eased = progress * progress * (3 - 2 * progress);
+  return 1 + (range.scale - 1) * eased;
+};
+
+/**
+ * Smoothed point the zoom centres on, averaged over time so pauses weigh more than quick flicks
+ */
+export const getZoomFocus = (samples: CursorSample[], time: number): { x: number; y: number } => {
+  let totalX = 0;
+  let totalY = 0;
+  let count = 0;
+  for (let offset = -ZOOM_FOCUS_WINDOW / 2; offset <= ZOOM_FOCUS_WINDOW / 2 + 1e-6; offset += ZOOM_FOCUS_STEP) {
+    const sample = getCursorPosition(samples, time + offset);
+    if (sample && isCursorOnScreen(sample)) {
+      totalX += sample.x;
+      totalY += sample.y;
+      count += 1;
+    }
+  }
+  return count > 0 ? { x: totalX / count, y: totalY / count } : { x: 0.5, y: 0.5 };
+};
+
+/**
+ * Top-left of the visible region (normalised) at a zoom level, kept inside the frame
+ */
+export const getZoomViewport = (scale: number, focus: { x: number; y: number }): { x: number; y: number } => {
+  const size = 1 / scale;
+  return {
+    x: clamp(focus.x - size / 2, 0, 1 - size),
+    y: clamp(focus.y - size / 2, 0, 1 - size),
+  };
+};
+
+/**
+ * Time ranges around bursts of clicks, padded so the zoom settles before the first click
+ */
+export const suggestZoomRanges = (clicks: CursorClick[], duration: number): { start: number; end: number }[] => {
+  const ranges: { start: number; end: number }[] = [];
+  [...clicks]
+    .sort((a, b) => a.time - b.time)
+    .forEach((click) => {
+      const start = Math.max(0, click.time - CLICK_ZOOM_LEAD);
+      const end = Math.min(duration, click.time + CLICK_ZOOM_TAIL);
+      const last = ranges[ranges.length - 1];
+      if (last && start <= last.end) {
+        last.end = Math.max(last.end, end);
+        return;
+      }
+      ranges.push({ start, end });
+    });
+  return ranges.filter((range) => range.end - range.start >= CURSOR_ZOOM_RAMP * 2);
+};
@@ -0,0 +1,15 @@
+import type { Easing } from '../types';
+
+export const EASINGS: Record<Easing, (progress: number) => number> = {
+  linear: (progress) => progress,
+  'ease-in': (progress) => progress ** 3,
+  'ease-out': (progress) => 1 - (1 - progress) ** 3,
+  'ease-in-out': (progress) => (progress < 0.5 ? 4 * progress ** 3 : 1 - (-2 * progress + 2) ** 3 / 2),
+};
+
+export const EASING_LABELS: Record<Easing, string> = {
+  linear: 'Linear',
+  'ease-in': 'Ease In',
+  'ease-out': 'Ease Out',
+  'ease-in-out': 'Ease In & Out',
+};
@@ -0,0 +1,34 @@
+export interface PathPoint {
+  time: number;
+  x: number;
+  y: number;
+}
+
+/**
+ * Douglas-Peucker over time: drops points that linear interpolation between the kept ones already lands within
+ * `tolerance` of, so no position along the simplified path is further than that from the original
+ */
+export const simplifyPath = <T extends PathPoint>(points: T[], tolerance: number): T[] => {
+  if (points.length <= 2) return points;
+
+  const first = points[0];
+  const last = points[points.length - 1];
+  let worstIndex = 0;
+  let worstError = 0;
+  for (let index = 1; index < points.length - 1; index += 1) {
+    const point = points[index];
+    const progress = last.time > first.time ? (point.time - first.time) / (last.time - first.time) : 0;
+    const error = Math.max(
+      Math.abs(first.x + (last.x - first.x) * progress - point.x),
+      Math.abs(first.y + (last.y - first.y) * progress - point.y)
+    );
+    if (error > worstError) {
+      worstIndex = index;
+      worstError = error;
+    }
+  }
+  if (worstError <= tolerance) return [first, last];
+
+  const head = simplifyPath(points.slice(0, worstIndex + 1), tolerance);
+  return [...head.slice(0, -1), ...simplifyPath(points.slice(worstIndex), tolerance)];
+};
@@ -0,0 +1,31 @@
+import type { CropArea, Redaction, RedactionPathPoint } from '../types';
+import { simplifyPath } from './path';
+
+// Tracked positions closer than this to the simplified path are dropped, in percent of the frame
+const PATH_TOLERANCE = 0.3;
+
+/**
+ * Box of a redaction at a time from its start, moved along the tracked path
+ */
+export const getRedactionArea = (redaction: Pick<Redaction, 'area' | 'path'>, time: number): CropArea => {
+  const path = redaction.path ?? [];
+  if (path.length === 0) return redaction.area;
+  const nextIndex = path.findIndex((point) => point.time > time);
+  if (nextIndex <= 0) {
+    const point = path[nextIndex === 0 ? 0 : path.length - 1];
+    return { ...redaction.area, x: point.x, y: point.y };
+  }
+  const from = path[nextIndex - 1];
+  const to = path[nextIndex];
+  const progress = (time - from.time) / (to.time - from.time);
+  return {
+    ...redaction.area,
+    x: from.x + (to.x - from.x) * progress,
+    y: from.y + (to.y - from.y) * progress,
+  };
+};
+
+/**
+ * Drop tracked points that linear interpolation between the kept ones already reproduces, keeping export filters short
+ */
+export const simplifyRedactionPath = (path: RedactionPathPoint[]): RedactionPathPoint[] => simplifyPath(path, PATH_TOLERANCE);
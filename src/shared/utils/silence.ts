@@ -0,0 +1,19 @@
+import type { SilenceRange, TimelineClip } from '../types';
+import { cutRangesFromClip } from './clips';
+
+/**
+ * Split a clip around the pauses inside it; `padding` seconds of each pause are kept on both sides so speech is not clipped
+ */
+export const removeSilencesFromClip = (clip: TimelineClip, silences: SilenceRange[], padding: number): TimelineClip[] =>
+  cutRangesFromClip(
+    clip,
+    silences.map((silence) => ({ start: silence.start + padding, end: silence.end - padding }))
+  );
+
+/**
+ * Seconds of pauses a clip would lose with the given padding
+ */
+export const getRemovedSilenceDuration = (clip: TimelineClip, silences: SilenceRange[], padding: number): number => {
+  const kept = removeSilencesFromClip(clip, silences, padding);
+  return clip.sourceEnd - clip.sourceStart - kept.reduce((total, piece) => total + piece.sourceEnd - piece.sourceStart, 0);
+};
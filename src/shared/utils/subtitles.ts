@@ -0,0 +1,61 @@
+import type { SubtitleCue, SubtitleFormat } from '../types';
+
+const pad = (value: number, length = 2) => value.toString().padStart(length, '0');
+
+export const formatSubtitleTimestamp = (seconds: number, format: SubtitleFormat): string => {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const hours = Math.floor(totalMs / 3600000);
+  const minutes = Math.floor((totalMs % 3600000) / 60000);
+  const secs = Math.floor((totalMs % 60000) / 1000);
+  const separator = format === 'srt' ? ',' : '.';
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${separator}${pad(totalMs % 1000, 3)}`;
+};
+
+export const formatSubtitles = (cues: SubtitleCue[], format: SubtitleFormat): string => {
+  const blocks = cues
+    .filter((cue) => cue.text.trim() && cue.end > cue.start)
+    .sort((a, b) => a.start - b.start)
+    .map((cue, index) => {
+      const timing = `${formatSubtitleTimestamp(cue.start, format)} --> ${formatSubtitleTimestamp(cue.end, format)}`;
+      return format === 'srt' ? `${index + 1}\n${timing}\n${cue.text.trim()}` : `${timing}\n${cue.text.trim()}`;
+    });
+  const body = blocks.join('\n\n');
+  return format === 'vtt' ? `WEBVTT\n\n${body}\n` : `${body}\n`;
+};
+
+// Accepts "HH:MM:SS,mmm" (SRT) and "HH:MM:SS.mmm" or "MM:SS.mmm" (WebVTT)
+const parseSubtitleTimestamp = (value: string): number | null => {
+  const match = /^(?:(\d+):)?(\d{1,2}):(\d{2})[,.](\d{1,3})$/.exec(value.trim());
+  if (!match) return null;
+  const [, hours, minutes, seconds, millis] = match;
+  return Number(hours ?? 0) * 3600 + Number(minutes) * 60 + Number(seconds) + Number(millis.padEnd(3, '0')) / 1000;
+};
+
+/**
+ * Parse SRT or WebVTT text into cues; blocks without a timing line (headers, NOTE, STYLE) are skipped
+ */
+export const parseSubtitles = (content: string): Omit<SubtitleCue, 'id'>[] => {
+  const cues: Omit<SubtitleCue, 'id'>[] = [];
+  content
+    .replace(/^\uFEFF/, '')
+    .replace(/\r\n?/g, '\n')
+    .split(/\n{2,}/)
+    .forEach((block) => {
+      const lines = block.split('\n');
+      const timingIndex = lines.findIndex((line) => line.includes('-->'));
+      if (timingIndex === -1) return;
+
+      // WebVTT cue settings ("align:start") follow the end time
+      const [startText, endText = ''] = lines[timingIndex].split('-->');
+      const start = parseSubtitleTimestamp(startText);
+      const end = parseSubtitleTimestamp(endText.trim().split(/\s+/)[0] ?? '');
+      const text = lines
+        .slice(timingIndex + 1)
+        .join('\n')
+        .replace(/<[^>]+>/g, '')
+        .trim();
+      if (start === null || end === null || end <= start || !text) return;
+      cues.push({ start, end, text });
+    });
+  return cues;
+};
@@ -0,0 +1,119 @@
+import type { TextKeyframe, TextOverlay } from '../types';
+import { EASINGS } from './easing';
+
+// Longer texts reveal several characters per step so the export stays a bounded number of drawtext filters
+export const TYPEWRITER_MAX_STEPS = 60;
+export const DEFAULT_REVEAL_DURATION = 1.5;
+
+export type TextAnimationState = Pick<TextKeyframe, 'x' | 'y' | 'scale' | 'opacity' | 'rotation'>;
+
+export interface TypewriterStep {
+  start: number; // Seconds from the overlay start
+  end: number;
+  text: string;
+}
+
+/**
+ * Keyframes in time order; overlays saved with the legacy start/end move get an equivalent linear pair
+ */
+export const getTextKeyframes = (overlay: TextOverlay): TextKeyframe[] => {
+  if (overlay.keyframes?.length) {
+    return [...overlay.keyframes].sort((a, b) => a.time - b.time);
+  }
+  if (overlay.animate && overlay.duration > 0) {
+    const base = { scale: 1, opacity: 1, rotation: 0, easing: 'linear' as const };
+    return [
+      { id: `${overlay.id}-start`, time: 0, x: overlay.x, y: overlay.y, ...base },
+      { id: `${overlay.id}-end`, time: overlay.duration, x: overlay.endX ?? overlay.x, y: overlay.endY ?? overlay.y, ...base },
+    ];
+  }
+  return [];
+};
+
+/**
+ * Keyframed properties at a time from the overlay start, held before the first and after the last keyframe
+ */
+export const getKeyframedState = (overlay: TextOverlay, time: number): TextAnimationState => {
+  const keyframes = getTextKeyframes(overlay);
+  if (keyframes.length === 0) {
+    return { x: overlay.x, y: overlay.y, scale: 1, opacity: 1, rotation: 0 };
+  }
+  const nextIndex = keyframes.findIndex((keyframe) => keyframe.time > time);
+  if (nextIndex <= 0) {
+    const { x, y, scale, opacity, rotation } = keyframes[nextIndex === 0 ? 0 : keyframes.length - 1];
+    return { x, y, scale, opacity, rotation };
+  }
+  const from = keyframes[nextIndex - 1];
+  const to = keyframes[nextIndex];
+  const progress = EASINGS[to.easing]((time - from.time) / (to.time - from.time));
+  const mix = (a: number, b: number) => a + (b - a) * progress;
+  return {
+    x: mix(from.x, to.x),
+    y: mix(from.y, to.y),
+    scale: mix(from.scale, to.scale),
+    opacity: mix(from.opacity, to.opacity),
+    rotation: mix(from.rotation, to.rotation),
+  };
+};
+
+/**
+ * Opacity multiplier of the fade in and out at a time from the overlay start
+ */
+export const getFadeOpacity = (overlay: TextOverlay, time: number): number => {
+  const fadeIn = overlay.fadeIn ?? 0;
+  const fadeOut = overlay.fadeOut ?? 0;
+  const fadeInOpacity = fadeIn > 0 ? time / fadeIn : 1;
+  const fadeOutOpacity = fadeOut > 0 ? (overlay.duration - time) / fadeOut : 1;
+  return Math.min(1, Math.max(0, Math.min(fadeInOpacity, fadeOutOpacity)));
+};
+
+/**
+ * Everything drawn at a time from the overlay start, with fades folded into the opacity
+ */
+export const getTextAnimationState = (overlay: TextOverlay, time: number): TextAnimationState => {
+  const state = getKeyframedState(overlay, time);
+  return { ...state, opacity: Math.min(1, Math.max(0, state.opacity)) * getFadeOpacity(overlay, time) };
+};
+
+/**
+ * Growing prefixes shown by the typewriter reveal; the full text follows the last step
+ */
+export const getTypewriterSteps = (overlay: TextOverlay): TypewriterStep[] => {
+  const characters = Array.from(overlay.text);
+  if (overlay.reveal !== 'typewriter' || characters.length <= 1) return [];
+  const revealDuration = Math.min(overlay.revealDuration ?? DEFAULT_REVEAL_DURATION, overlay.duration);
+  const stepCount = Math.min(characters.length, TYPEWRITER_MAX_STEPS);
+  const stepDuration = revealDuration / stepCount;
+  const steps: TypewriterStep[] = [];
+  for (let index = 0; index < stepCount; index += 1) {
+    steps.push({
+      start: index * stepDuration,
+      end: (index + 1) * stepDuration,
+      text: characters.slice(0, Math.ceil(((index + 1) * characters.length) / stepCount)).join(''),
+    });
+  }
+  return steps;
+};
+
+/**
+ * Text visible at a time from the overlay start
+ */
+export const getRevealedText = (overlay: TextOverlay, time: number): string => {
+  const step = getTypewriterSteps(overlay).find((item) => time < item.end);
+  return step ? step.text : overlay.text;
+};
+
+/**
+ * Move an overlay at a time from its start; keyframed overlays get a keyframe there so the rest of the path stays put
+ */
+export const placeTextOverlay = (overlay: TextOverlay, time: number, x: number, y: number): TextOverlay => {
+  const keyframes = getTextKeyframes(overlay);
+  if (keyframes.length === 0) {
+    return { ...overlay, x, y };
+  }
+  const existing = keyframes.find((keyframe) => Math.abs(keyframe.time - time) < 0.05);
+  const next = existing
+    ? keyframes.map((keyframe) => (keyframe.id === existing.id ? { ...keyframe, x, y } : keyframe))
+    : [...keyframes, { ...getKeyframedState(overlay, time), id: crypto.randomUUID(), time, x, y, easing: 'linear' as const }];
+  return { ...overlay, animate: false, keyframes: next.sort((a, b) => a.time - b.time) };
+};
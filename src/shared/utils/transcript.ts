@@ -0,0 +1,60 @@
+import type { TimelineClip, Transcript, TranscriptWord } from '../types';
+import type { SourceRange } from './clips';
+
+// Spoken fillers offered for bulk removal, compared after normalizeTranscriptWord
+export const FILLER_WORDS = ['um', 'umm', 'uh', 'uhm', 'er', 'erm', 'ah', 'hmm', 'like'];
+
+export interface IndexedTranscriptWord extends TranscriptWord {
+  index: number; // Position in the whole transcript
+  segmentIndex: number;
+}
+
+/**
+ * Lowercase a word and drop the punctuation whisper attaches to it
+ */
+export const normalizeTranscriptWord = (text: string): string => text.toLowerCase().replace(/[^\p{L}\p{N}']/gu, '');
+
+export const isFillerWord = (text: string): boolean => FILLER_WORDS.includes(normalizeTranscriptWord(text));
+
+/**
+ * Every word of a transcript in order, with its position; segments without word timings fall back to one word per segment
+ */
+export const getTranscriptWords = (transcript: Transcript): IndexedTranscriptWord[] => {
+  const words: IndexedTranscriptWord[] = [];
+  transcript.segments.forEach((segment, segmentIndex) => {
+    const segmentWords = segment.words.length > 0
+      ? segment.words
+      : [{ text: segment.text.trim(), start: segment.start, end: segment.end }];
+    segmentWords.forEach((word) => {
+      words.push({ ...word, index: words.length, segmentIndex });
+    });
+  });
+  return words;
+};
+
+/**
+ * A word counts as kept when the middle of it is still played by a clip of the source
+ */
+export const isWordInClips = (word: TranscriptWord, clips: TimelineClip[], sourcePath: string): boolean => {
+  const middle = (word.start + word.end) / 2;
+  return clips.some((clip) => clip.sourcePath === sourcePath && middle >= clip.sourceStart && middle < clip.sourceEnd);
+};
+
+/**
+ * Source ranges covering the given words, with neighbouring words merged into one cut
+ */
+export const getWordRanges = (words: IndexedTranscriptWord[]): SourceRange[] => {
+  const ranges: Array<SourceRange & { lastIndex: number }> = [];
+  [...words]
+    .sort((a, b) => a.index - b.index)
+    .forEach((word) => {
+      const last = ranges[ranges.length - 1];
+      if (last && word.index === last.lastIndex + 1) {
+        last.end = Math.max(last.end, word.end);
+        last.lastIndex = word.index;
+        return;
+      }
+      ranges.push({ start: word.start, end: word.end, lastIndex: word.index });
+    });
+  return ranges.map(({ start, end }) => ({ start, end }));
+};
@@ -0,0 +1,59 @@
+import type { Easing, ZoomRect, ZoomSegment } from '../types';
+import { EASINGS } from './easing';
+
+export const FULL_FRAME_RECT: ZoomRect = { x: 0, y: 0, size: 100 };
+// Smallest zoom rectangle, in percent of the frame (10x)
+export const MIN_ZOOM_RECT_SIZE = 10;
+
+export interface ZoomPathPoint {
+  time: number; // Seconds from the segment start
+  rect: ZoomRect;
+}
+
+export const clampZoomRect = (rect: ZoomRect): ZoomRect => {
+  const size = Math.min(100, Math.max(MIN_ZOOM_RECT_SIZE, rect.size));
+  return {
+    x: Math.min(100 - size, Math.max(0, rect.x)),
+    y: Math.min(100 - size, Math.max(0, rect.y)),
+    size,
+  };
+};
+
+/**
+ * Points a segment passes through, framed by the full view at both ends; keyframes outside the segment are ignored
+ */
+export const getZoomPath = (segment: Pick<ZoomSegment, 'start' | 'end' | 'keyframes'>): ZoomPathPoint[] => {
+  const duration = segment.end - segment.start;
+  const keyframes = segment.keyframes
+    .filter((keyframe) => keyframe.time > 0 && keyframe.time < duration)
+    .sort((a, b) => a.time - b.time)
+    .map((keyframe) => ({ time: keyframe.time, rect: keyframe.rect }));
+  return [{ time: 0, rect: FULL_FRAME_RECT }, ...keyframes, { time: duration, rect: FULL_FRAME_RECT }];
+};
+
+/**
+ * Eased rectangle along a path at a time from the segment start
+ */
+export const interpolateZoomPath = (path: ZoomPathPoint[], easing: Easing, time: number): ZoomRect => {
+  const nextIndex = path.findIndex((point) => point.time > time);
+  if (nextIndex <= 0) {
+    return nextIndex === 0 ? path[0].rect : path[path.length - 1].rect;
+  }
+  const from = path[nextIndex - 1];
+  const to = path[nextIndex];
+  const progress = EASINGS[easing]((time - from.time) / (to.time - from.time));
+  return {
+    x: from.rect.x + (to.rect.x - from.rect.x) * progress,
+    y: from.rect.y + (to.rect.y - from.rect.y) * progress,
+    size: from.rect.size + (to.rect.size - from.rect.size) * progress,
+  };
+};
+
+/**
+ * Visible rectangle at a source time, or null outside every segment
+ */
+export const getZoomRectAt = (segments: ZoomSegment[], time: number): ZoomRect | null => {
+  const segment = segments.find((item) => item.keyframes.length > 0 && time >= item.start && time < item.end);
+  if (!segment) return null;
+  return interpolateZoomPath(getZoomPath(segment), segment.easing, time - segment.start);
+};
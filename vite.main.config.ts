@@ -6,6 +6,7 @@ const externalPackages = new Set([
   'electron-store',
   '@ffmpeg-installer/ffmpeg',
   'fluent-ffmpeg',
+  'uiohook-napi',
   'path',
   'fs',
   'node:path',